@@ -13,6 +13,13 @@ export interface Config {
   // GitHub Configuration
   githubToken: string;
   
+  // Guardrail policy service (the policy-evaluate edge function), called as
+  // the signed-in user so their own role's rules apply
+  supabaseUrl: string;
+  supabaseKey: string;
+  supabaseEmail: string;
+  supabasePassword: string;
+  
   // Project Configuration
   projectRoot: string;
   watchPatterns: string[];
@@ -52,6 +59,12 @@ export function loadConfig(projectPath?: string): Config {
     // GitHub Configuration
     githubToken: process.env.GITHUB_TOKEN || '',
     
+    // Guardrail policy service
+    supabaseUrl: process.env.SUPABASE_URL || '',
+    supabaseKey: process.env.SUPABASE_ANON_KEY || process.env.SUPABASE_PUBLISHABLE_KEY || '',
+    supabaseEmail: process.env.SUPABASE_EMAIL || '',
+    supabasePassword: process.env.SUPABASE_PASSWORD || '',
+    
     // Project Configuration
     projectRoot: root,
     watchPatterns: projectConfig.watchPatterns || ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.css'],
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
 import { Logger } from './logger';
+import { describeFinding, scanFiles, SecretScanError } from './secret-scan';
 
 export interface FileInfo {
   path: string;
@@ -93,7 +94,24 @@ export class FileSystem {
     };
   }
   
+  /**
+   * Write a set of changes, keeping a backup of each original. The whole set
+   * is secret-scanned first and nothing is written if any file is blocked.
+   */
   async applyChanges(changes: FileChange[]): Promise<void> {
+    const scan = scanFiles(changes.map(change => ({
+      path: path.relative(this.projectRoot, this.resolvePath(change.file)),
+      content: change.newContent
+    })));
+    for (const finding of scan.findings) {
+      if (finding.severity === 'warn') {
+        this.logger.warn(`Secret scan: ${describeFinding(finding)}`);
+      }
+    }
+    if (scan.blocked) {
+      throw new SecretScanError(scan);
+    }
+    
     for (const change of changes) {
       const fullPath = this.resolvePath(change.file);
       
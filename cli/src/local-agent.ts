@@ -4,6 +4,8 @@ import { spawn, exec } from 'child_process';
 import { promisify } from 'util';
 import { Logger } from './logger';
 import { FileSystem } from './file-system';
+import { loadConfig } from './config';
+import { PolicyClient } from './policy';
 
 const execAsync = promisify(exec);
 
@@ -40,12 +42,14 @@ export class LocalAgent {
   private fileSystem: FileSystem;
   private projectRoot: string;
   private safetyChecks: boolean;
+  private policy: PolicyClient;
   
   constructor(projectRoot: string, logger: Logger, safetyChecks: boolean = true) {
     this.projectRoot = projectRoot;
     this.logger = logger;
     this.fileSystem = new FileSystem(projectRoot, logger);
     this.safetyChecks = safetyChecks;
+    this.policy = new PolicyClient(loadConfig(projectRoot), logger);
   }
   
   /**
@@ -174,9 +178,10 @@ export class LocalAgent {
     
     for (const cmd of commands) {
       try {
-        // Safety check: block dangerous commands
-        if (this.safetyChecks && this.isDangerousCommand(cmd.command)) {
-          results.push({ command: cmd.command, success: false, error: 'Command blocked for safety' });
+        // Safety check: block commands the guardrail policy does not allow
+        const blocked = await this.checkCommandPolicy(cmd);
+        if (blocked) {
+          results.push({ command: cmd.command, success: false, error: blocked });
           continue;
         }
         
@@ -314,8 +319,9 @@ export class LocalAgent {
    */
   async runCommand(cmd: CommandOperation): Promise<AgentResponse> {
     try {
-      if (this.safetyChecks && this.isDangerousCommand(cmd.command)) {
-        return { success: false, message: 'Command blocked for safety' };
+      const blocked = await this.checkCommandPolicy(cmd);
+      if (blocked) {
+        return { success: false, message: blocked };
       }
       
       const output = await this.executeCommand(cmd);
@@ -370,27 +376,23 @@ export class LocalAgent {
   }
   
   /**
-   * Check if a command is dangerous
+   * Evaluate a command against the guardrail policy; returns the reason it
+   * may not run, or null when it is allowed. Commands that need approval are
+   * not run from the CLI.
    */
-  private isDangerousCommand(command: string): boolean {
-    const dangerous = [
-      'rm -rf /',
-      'rm -rf ~',
-      'rm -rf /*',
-      'mkfs',
-      'dd if=',
-      ':(){:|:&};:',
-      'chmod -R 777 /',
-      'chown -R',
-      '> /dev/sda',
-      'wget.*|.*sh',
-      'curl.*|.*sh',
-      'sudo rm',
-      'sudo chmod',
-      'sudo chown',
-    ];
+  private async checkCommandPolicy(cmd: CommandOperation): Promise<string | null> {
+    if (!this.safetyChecks) return null;
+    
+    const fullCommand = cmd.args ? `${cmd.command} ${cmd.args.join(' ')}` : cmd.command;
+    const decision = await this.policy.evaluateCommand(fullCommand);
     
-    return dangerous.some(d => command.toLowerCase().includes(d.toLowerCase()));
+    if (!decision.allowed) {
+      return `Command blocked for safety: ${this.policy.describe(decision)}`;
+    }
+    if (decision.requiresApproval) {
+      return `Command requires approval: ${this.policy.describe(decision)}`;
+    }
+    return null;
   }
   
   /**
@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { Config } from './config';
+import { Logger } from './logger';
+
+export type PolicyOutcome = 'allow' | 'deny' | 'require_approval';
+
+export interface PolicyMatch {
+  ruleKey: string;
+  name: string;
+  category: string;
+  severity: string;
+  outcome: PolicyOutcome;
+  description: string | null;
+  matched: string;
+}
+
+export interface PolicyDecision {
+  outcome: PolicyOutcome;
+  allowed: boolean;
+  requiresApproval: boolean;
+  matches: PolicyMatch[];
+  categories: string[];
+  version: number;
+}
+
+/**
+ * Client for the guardrail policy engine. Commands are evaluated by the
+ * policy-evaluate edge function so the CLI enforces exactly the rules the
+ * web app does, for the role of the account the CLI signs in with. When the
+ * service is not configured or unreachable the client fails closed.
+ */
+export class PolicyClient {
+  private config: Config;
+  private logger: Logger;
+  private cache = new Map<string, PolicyDecision>();
+  private session: { accessToken: string; expiresAt: number } | null = null;
+  
+  constructor(config: Config, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+  
+  /**
+   * Evaluate a shell command against the policy
+   */
+  async evaluateCommand(command: string): Promise<PolicyDecision> {
+    const cached = this.cache.get(command);
+    if (cached) return cached;
+    
+    if (!this.config.supabaseUrl || !this.config.supabaseKey) {
+      return this.unavailable('SUPABASE_URL and SUPABASE_ANON_KEY are not set');
+    }
+    if (!this.config.supabaseEmail || !this.config.supabasePassword) {
+      return this.unavailable('SUPABASE_EMAIL and SUPABASE_PASSWORD are not set');
+    }
+    
+    try {
+      const accessToken = await this.accessToken();
+      const response = await axios.post(
+        `${this.config.supabaseUrl}/functions/v1/policy-evaluate`,
+        { text: command, target: 'command' },
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'apikey': this.config.supabaseKey,
+            'Content-Type': 'application/json'
+          },
+          timeout: 10000
+        }
+      );
+      
+      const decision: PolicyDecision = response.data.decision;
+      this.cache.set(command, decision);
+      return decision;
+    } catch (error) {
+      return this.unavailable((error as Error).message);
+    }
+  }
+  
+  /**
+   * Session token for the configured account, signing in again shortly
+   * before it expires
+   */
+  private async accessToken(): Promise<string> {
+    if (this.session && this.session.expiresAt > Date.now() + 60000) {
+      return this.session.accessToken;
+    }
+    
+    const response = await axios.post(
+      `${this.config.supabaseUrl}/auth/v1/token?grant_type=password`,
+      { email: this.config.supabaseEmail, password: this.config.supabasePassword },
+      {
+        headers: {
+          'apikey': this.config.supabaseKey,
+          'Content-Type': 'application/json'
+        },
+        timeout: 10000
+      }
+    );
+    
+    this.session = {
+      accessToken: response.data.access_token,
+      expiresAt: Date.now() + response.data.expires_in * 1000
+    };
+    return this.session.accessToken;
+  }
+  
+  /**
+   * Explain why a command was stopped
+   */
+  describe(decision: PolicyDecision): string {
+    if (decision.matches.length === 0) return 'policy service unavailable';
+    return decision.matches.map(m => m.description || m.name).join(', ');
+  }
+  
+  private unavailable(reason: string): PolicyDecision {
+    this.logger.warn(`Policy service unavailable (${reason}); blocking command`);
+    return { outcome: 'deny', allowed: false, requiresApproval: false, matches: [], categories: [], version: 0 };
+  }
+}
@@ -20,6 +20,8 @@ import {
   Sparkles
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { describeFinding, scanFiles, type SecretScanResult } from "@/lib/secretScanService";
 import { toast } from "sonner";
 
 interface CapabilityRequest {
@@ -71,6 +73,21 @@ export function CapabilityRequestPanel() {
 
   const handleApprove = async (request: CapabilityRequest) => {
     try {
+      const code = editedCode || request.proposed_implementation?.code;
+      const toolPath = `supabase/functions/advanced-agent/tools/${request.capability_name.toLowerCase().replace(/\s+/g, '_')}.ts`;
+
+      // The code may have been edited here, so it is scanned before anything is approved
+      let scan: SecretScanResult | null = null;
+      if (code) {
+        scan = await scanFiles([{ path: toolPath, content: code }]);
+        if (scan.blocked) {
+          toast.error("Secret scan blocked this code", {
+            description: scan.findings.filter(f => f.severity === 'block').map(describeFinding).join('; ')
+          });
+          return;
+        }
+      }
+
       const { data: userData } = await supabase.auth.getUser();
       
       const { error } = await supabase
@@ -103,19 +120,20 @@ export function CapabilityRequestPanel() {
           });
       }
 
-      if (editedCode || request.proposed_implementation?.code) {
+      if (code) {
         await supabase
           .from('code_change_proposals')
           .insert({
-            file_path: `supabase/functions/advanced-agent/tools/${request.capability_name.toLowerCase().replace(/\s+/g, '_')}.ts`,
-            proposed_code: editedCode || request.proposed_implementation?.code,
+            file_path: toolPath,
+            proposed_code: code,
             change_type: 'new_tool',
             explanation: `AI-generated tool: ${request.description}`,
             proposed_by: 'ai_self_improvement',
             status: 'approved',
             approved_by: userData.user?.id,
             approved_at: new Date().toISOString(),
-            risk_level: request.safety_analysis?.risk_level || 'medium'
+            risk_level: request.safety_analysis?.risk_level || 'medium',
+            secret_scan: scan as unknown as Json
           });
       }
 
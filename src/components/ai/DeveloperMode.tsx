@@ -24,8 +24,8 @@ import {
 import { TaskDecompositionPanel, Task } from './TaskDecompositionPanel';
 import { SafetyGuardrailsPanel } from './SafetyGuardrailsPanel';
 import { FeedbackLearningPanel } from './FeedbackLearningPanel';
-import { ApprovalWorkflowPanel, CodeChange } from './ApprovalWorkflowPanel';
 import { ToolRegistryPanel } from './ToolRegistryPanel';
+import { ApprovalInbox } from '@/components/approvals/ApprovalInbox';
 import { useAdvancedAgent } from '@/hooks/useAdvancedAgent';
 
 interface DeveloperModeProps {
@@ -37,7 +37,6 @@ export function DeveloperMode({ sessionId, userId }: DeveloperModeProps) {
   const [input, setInput] = useState('');
   const [output, setOutput] = useState('');
   const [activeTab, setActiveTab] = useState('tasks');
-  const [codeChanges, setCodeChanges] = useState<CodeChange[]>([]);
   const [learningEnabled, setLearningEnabled] = useState(true);
 
   const {
@@ -45,7 +44,8 @@ export function DeveloperMode({ sessionId, userId }: DeveloperModeProps) {
     safetyChecks,
     learnedPatterns,
     isProcessing,
-    isPaused,
+    taskRun,
+    isRunningTasks,
     overallSafetyScore,
     loadTasks,
     loadPatterns,
@@ -53,9 +53,14 @@ export function DeveloperMode({ sessionId, userId }: DeveloperModeProps) {
     rejectTask,
     approveAllTasks,
     executeTask,
+    revisePlan,
+    provideTaskInfo,
+    runAllTasks,
+    pauseTasks,
+    resumeTasks,
+    cancelTasks,
     submitFeedback,
-    sendMessage,
-    setIsPaused
+    sendMessage
   } = useAdvancedAgent(sessionId, userId);
 
   useEffect(() => {
@@ -72,18 +77,6 @@ export function DeveloperMode({ sessionId, userId }: DeveloperModeProps) {
     });
   };
 
-  const handleApproveChange = (changeId: string) => {
-    setCodeChanges(prev => prev.map(c => 
-      c.id === changeId ? { ...c, status: 'approved' as const } : c
-    ));
-  };
-
-  const handleRejectChange = (changeId: string) => {
-    setCodeChanges(prev => prev.map(c => 
-      c.id === changeId ? { ...c, status: 'rejected' as const } : c
-    ));
-  };
-
   // Default tools for display
   const defaultTools = [
     { name: 'read_file', description: 'Read contents of a file', category: 'file', riskLevel: 'low' as const, requiresApproval: false, usageCount: 45, successRate: 0.98, isEnabled: true },
@@ -203,27 +196,22 @@ export function DeveloperMode({ sessionId, userId }: DeveloperModeProps) {
                 onReject={rejectTask}
                 onApproveAll={approveAllTasks}
                 onExecute={executeTask}
-                onPause={() => setIsPaused(!isPaused)}
-                isPaused={isPaused}
-                isExecuting={isProcessing}
+                onRunAll={runAllTasks}
+                onPause={pauseTasks}
+                onResume={resumeTasks}
+                onCancel={cancelTasks}
+                onRevisePlan={revisePlan}
+                onProvideInfo={provideTaskInfo}
+                run={taskRun}
+                isExecuting={isProcessing || isRunningTasks}
               />
             </TabsContent>
 
             <TabsContent value="changes" className="flex-1 mt-4">
-              <ApprovalWorkflowPanel
-                changes={codeChanges}
-                onApprove={handleApproveChange}
-                onReject={handleRejectChange}
-                onApproveAll={() => {
-                  setCodeChanges(prev => prev.map(c => 
-                    c.status === 'pending' ? { ...c, status: 'approved' as const } : c
-                  ));
-                }}
-                onRejectAll={() => {
-                  setCodeChanges(prev => prev.map(c => 
-                    c.status === 'pending' ? { ...c, status: 'rejected' as const } : c
-                  ));
-                }}
+              <ApprovalInbox
+                itemTypes={['code_change_request', 'code_change_proposal', 'github_operation', 'database_migration', 'file_operation']}
+                title="Code Change Approvals"
+                className="h-full"
               />
             </TabsContent>
 
@@ -28,10 +28,15 @@ import {
   Zap,
   ShieldCheck,
   ShieldAlert,
-  Eye
+  Eye,
+  Square,
+  Ban,
+  HelpCircle
 } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { supabase } from '@/integrations/supabase/client';
+import { evaluatePolicy } from '@/lib/policyService';
+import { decideTask, resetTask, setTaskStatus, type TaskRun } from '@/lib/taskQueueService';
 import { toast } from 'sonner';
 
 export interface EnhancedTask {
@@ -39,7 +44,7 @@ export interface EnhancedTask {
   order: number;
   type: 'hr' | 'developer' | 'general' | 'calendar' | 'git' | 'code' | 'deployment';
   description: string;
-  status: 'pending' | 'safety_check' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected' | 'skipped' | 'retrying';
+  status: 'pending' | 'awaiting_info' | 'safety_check' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected' | 'skipped' | 'cancelled' | 'retrying';
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   requiresApproval: boolean;
   approverRole?: 'hr' | 'developer' | 'it' | 'admin';
@@ -61,6 +66,12 @@ interface EnhancedTaskExecutorProps {
   onTaskUpdate: (tasks: EnhancedTask[]) => void;
   onExecuteTask: (taskId: string) => Promise<boolean>;
   onNotifyApprover: (task: EnhancedTask) => void;
+  // Latest run of the plan; runs execute on the server as a dependency graph
+  run: TaskRun | null;
+  onRunAll: () => Promise<void>;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
   currentUserId?: string;
   userRole?: string;
 }
@@ -75,6 +86,8 @@ const statusConfig = {
   failed: { icon: XCircle, color: 'text-red-500', bg: 'bg-red-500/10' },
   rejected: { icon: XCircle, color: 'text-orange-500', bg: 'bg-orange-500/10' },
   skipped: { icon: SkipForward, color: 'text-muted-foreground', bg: 'bg-muted' },
+  cancelled: { icon: Ban, color: 'text-muted-foreground', bg: 'bg-muted' },
+  awaiting_info: { icon: HelpCircle, color: 'text-blue-500', bg: 'bg-blue-500/10' },
   retrying: { icon: RefreshCw, color: 'text-yellow-500 animate-spin', bg: 'bg-yellow-500/10' }
 };
 
@@ -100,18 +113,25 @@ export function EnhancedTaskExecutor({
   onTaskUpdate,
   onExecuteTask,
   onNotifyApprover,
+  run,
+  onRunAll,
+  onPause,
+  onResume,
+  onCancel,
   currentUserId,
   userRole
 }: EnhancedTaskExecutorProps) {
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
-  const [isPaused, setIsPaused] = useState(false);
   const [isAutoExecuting, setIsAutoExecuting] = useState(false);
   const [currentExecutingId, setCurrentExecutingId] = useState<string | null>(null);
 
   const completedCount = tasks.filter(t => t.status === 'completed').length;
   const failedCount = tasks.filter(t => t.status === 'failed').length;
+  const skippedCount = tasks.filter(t => t.status === 'skipped').length;
   const progress = tasks.length > 0 ? (completedCount / tasks.length) * 100 : 0;
   const awaitingApproval = tasks.filter(t => t.status === 'awaiting_approval');
+  const isRunning = run?.status === 'running';
+  const isPaused = run?.status === 'paused';
 
   // Get failed task orders for dependency checking
   const failedTaskOrders = tasks
@@ -124,34 +144,21 @@ export function EnhancedTaskExecutor({
     return task.dependencies.some(dep => failedTaskOrders.includes(dep));
   };
 
-  // Run safety check on a task
-  const runSafetyCheck = async (task: EnhancedTask): Promise<{ safe: boolean; score: number; flags: string[] }> => {
-    // Simulate safety analysis
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const flags: string[] = [];
-    let score = 1.0;
-
-    // Check for dangerous patterns
-    const dangerousPatterns = [
-      { pattern: /delete|drop|truncate/i, flag: 'destructive_operation', penalty: 0.3 },
-      { pattern: /sudo|root|admin/i, flag: 'elevated_privileges', penalty: 0.2 },
-      { pattern: /password|secret|key/i, flag: 'sensitive_data', penalty: 0.1 },
-      { pattern: /production|prod/i, flag: 'production_access', penalty: 0.15 }
-    ];
-
-    dangerousPatterns.forEach(({ pattern, flag, penalty }) => {
-      if (pattern.test(task.description)) {
-        flags.push(flag);
-        score -= penalty;
-      }
-    });
-
-    return {
-      safe: score >= 0.5,
-      score: Math.max(0, score),
-      flags
-    };
+  // Run the task description through the guardrail policy
+  const runSafetyCheck = async (task: EnhancedTask): Promise<{ safe: boolean; score: number; flags: string[]; requiresApproval: boolean }> => {
+    try {
+      const { decisions } = await evaluatePolicy(task.description, { target: 'agent_input', role: userRole });
+      const decision = decisions.agent_input;
+      return {
+        safe: decision.allowed,
+        score: decision.score,
+        flags: decision.categories,
+        requiresApproval: decision.requiresApproval
+      };
+    } catch (error) {
+      // Fail closed when the policy cannot be evaluated
+      return { safe: false, score: 0, flags: ['policy_unavailable'], requiresApproval: false };
+    }
   };
 
   // Handle safety check for a task
@@ -164,14 +171,21 @@ export function EnhancedTaskExecutor({
     onTaskUpdate(updatedTasks);
 
     const result = await runSafetyCheck(tasks[taskIndex]);
-    
+    const nextStatus = result.safe
+      ? (tasks[taskIndex].requiresApproval || result.requiresApproval ? 'awaiting_approval' : 'approved')
+      : 'rejected';
+
+    try {
+      await setTaskStatus(taskId, nextStatus, result.safe ? undefined : 'Failed safety check: ' + result.flags.join(', '));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record safety check');
+    }
+
     updatedTasks[taskIndex] = {
       ...updatedTasks[taskIndex],
       safetyScore: result.score,
       safetyFlags: result.flags,
-      status: result.safe 
-        ? (tasks[taskIndex].requiresApproval ? 'awaiting_approval' : 'approved')
-        : 'rejected',
+      status: nextStatus,
       errorMessage: result.safe ? undefined : 'Failed safety check: ' + result.flags.join(', ')
     };
 
@@ -184,7 +198,18 @@ export function EnhancedTaskExecutor({
   };
 
   // Handle task approval
-  const handleApprove = (taskId: string) => {
+  const handleApprove = async (taskId: string) => {
+    let result: Awaited<ReturnType<typeof decideTask>>;
+    try {
+      result = await decideTask(taskId, 'approved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve task');
+      return;
+    }
+    if (result.status !== 'approved') {
+      toast.info(`Approval recorded; waiting on ${result.stepName ?? 'other approvers'}`);
+      return;
+    }
     const updatedTasks = tasks.map(t => 
       t.id === taskId ? { ...t, status: 'approved' as const } : t
     );
@@ -193,7 +218,13 @@ export function EnhancedTaskExecutor({
   };
 
   // Handle task rejection
-  const handleReject = (taskId: string, reason?: string) => {
+  const handleReject = async (taskId: string, reason?: string) => {
+    try {
+      await decideTask(taskId, 'rejected', reason || 'Rejected by approver');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reject task');
+      return;
+    }
     const updatedTasks = tasks.map(t => 
       t.id === taskId ? { 
         ...t, 
@@ -210,20 +241,6 @@ export function EnhancedTaskExecutor({
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
-    // Check for failed dependencies
-    if (shouldSkipTask(task)) {
-      const updatedTasks = tasks.map(t => 
-        t.id === taskId ? { 
-          ...t, 
-          status: 'skipped' as const,
-          errorMessage: 'Skipped due to failed dependency'
-        } : t
-      );
-      onTaskUpdate(updatedTasks);
-      toast.warning(`Task skipped: dependency failed`);
-      return;
-    }
-
     setCurrentExecutingId(taskId);
     const updatedTasks = tasks.map(t => 
       t.id === taskId ? { ...t, status: 'executing' as const, startedAt: new Date().toISOString() } : t
@@ -277,28 +294,43 @@ export function EnhancedTaskExecutor({
     );
     onTaskUpdate(updatedTasks);
 
+    try {
+      await resetTask(task);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry task');
+      return;
+    }
     await handleExecute(taskId);
   };
 
-  // Auto-execute approved tasks
+  // Run every ready task on the server: independent tasks in parallel, each
+  // after its dependencies, dependents of failed tasks skipped
   const handleAutoExecute = async () => {
     setIsAutoExecuting(true);
-    const approvedTasks = tasks.filter(t => t.status === 'approved');
-    
-    for (const task of approvedTasks) {
-      if (isPaused) break;
-      await handleExecute(task.id);
+    try {
+      await onRunAll();
+    } finally {
+      setIsAutoExecuting(false);
     }
-    
-    setIsAutoExecuting(false);
   };
 
   // Approve all safe tasks
-  const handleApproveAllSafe = () => {
+  const handleApproveAllSafe = async () => {
+    const safeIds = tasks
+      .filter(t => t.status === 'awaiting_approval' && t.riskLevel === 'low' && (t.safetyScore || 1) >= 0.8)
+      .map(t => t.id);
+
+    let approvedIds: string[];
+    try {
+      const results = await Promise.all(safeIds.map(id => decideTask(id, 'approved')));
+      approvedIds = safeIds.filter((_, i) => results[i].status === 'approved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve tasks');
+      return;
+    }
+
     const updatedTasks = tasks.map(t => 
-      t.status === 'awaiting_approval' && t.riskLevel === 'low' && (t.safetyScore || 1) >= 0.8
-        ? { ...t, status: 'approved' as const }
-        : t
+      approvedIds.includes(t.id) ? { ...t, status: 'approved' as const } : t
     );
     onTaskUpdate(updatedTasks);
     toast.success('All safe tasks approved');
@@ -330,10 +362,15 @@ export function EnhancedTaskExecutor({
             Enhanced Task Pipeline
           </CardTitle>
           <div className="flex items-center gap-2">
-            {isAutoExecuting && (
-              <Button variant="outline" size="sm" onClick={() => setIsPaused(!isPaused)}>
-                {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
-              </Button>
+            {(isRunning || isPaused) && (
+              <>
+                <Button variant="outline" size="sm" onClick={isPaused ? onResume : onPause} title={isPaused ? 'Resume' : 'Pause'}>
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="sm" onClick={onCancel} title="Cancel">
+                  <Square className="h-4 w-4" />
+                </Button>
+              </>
             )}
             <Badge variant="outline" className={failedCount > 0 ? 'border-red-500/50' : ''}>
               {completedCount}/{tasks.length} Complete
@@ -361,7 +398,18 @@ export function EnhancedTaskExecutor({
               {failedCount} Failed
             </Badge>
           )}
+          {skippedCount > 0 && (
+            <Badge variant="outline" className="text-muted-foreground">
+              <SkipForward className="h-3 w-3 mr-1" />
+              {skippedCount} Skipped
+            </Badge>
+          )}
         </div>
+        {run?.statusReason && (isPaused || run.status === 'blocked') && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {run.statusReason === 'time_budget' ? 'Paused to continue in a new request' : run.statusReason}
+          </p>
+        )}
       </CardHeader>
 
       <CardContent>
@@ -383,7 +431,7 @@ export function EnhancedTaskExecutor({
                     task.status === 'executing' ? 'border-blue-500/50 bg-blue-500/5' :
                     task.status === 'failed' ? 'border-red-500/50 bg-red-500/5' :
                     task.status === 'completed' ? 'border-green-500/50 bg-green-500/5' :
-                    isSkipped ? 'border-muted bg-muted/50 opacity-60' :
+                    isSkipped || task.status === 'skipped' || task.status === 'cancelled' ? 'border-muted bg-muted/50 opacity-60' :
                     'border-border'
                   }`}>
                     <CollapsibleTrigger className="w-full">
@@ -477,7 +525,7 @@ export function EnhancedTaskExecutor({
                       )}
 
                       {/* Execution Result */}
-                      {task.executionResult && (
+                      {task.executionResult && task.status === 'completed' && (
                         <div className="p-2 bg-green-500/10 rounded text-green-600 text-sm">
                           Completed successfully
                         </div>
@@ -513,7 +561,7 @@ export function EnhancedTaskExecutor({
                           </>
                         )}
 
-                        {task.status === 'approved' && (
+                        {task.status === 'approved' && !isRunning && (
                           <Button size="sm" onClick={() => handleExecute(task.id)}>
                             <Play className="h-4 w-4 mr-1" />
                             Execute
@@ -544,10 +592,10 @@ export function EnhancedTaskExecutor({
             Approve All Safe Tasks
           </Button>
         )}
-        {tasks.some(t => t.status === 'approved') && !isAutoExecuting && (
-          <Button onClick={handleAutoExecute} className="flex-1">
+        {tasks.some(t => t.status === 'approved' || (t.status === 'pending' && !t.requiresApproval)) && !isAutoExecuting && !isRunning && (
+          <Button onClick={isPaused ? onResume : handleAutoExecute} className="flex-1">
             <Zap className="h-4 w-4 mr-2" />
-            Execute All Approved
+            {isPaused ? 'Resume Run' : 'Execute All Ready'}
           </Button>
         )}
       </CardFooter>
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FlaskConical, Loader2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  evaluatePolicy,
+  POLICY_ROLES,
+  POLICY_TARGETS,
+  type PolicyDecision,
+  type PolicyOutcome,
+  type PolicyRule,
+  type PolicyTarget,
+} from '@/lib/policyService';
+
+interface PolicyDryRunTesterProps {
+  // Test against these rules instead of the published policy
+  rules?: PolicyRule[];
+  compact?: boolean;
+}
+
+const outcomeConfig: Record<PolicyOutcome, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  allow: { label: 'Allow', icon: CheckCircle2, className: 'bg-green-500/10 text-green-600 border-green-500/20' },
+  require_approval: { label: 'Needs approval', icon: AlertTriangle, className: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20' },
+  deny: { label: 'Deny', icon: XCircle, className: 'bg-red-500/10 text-red-600 border-red-500/20' },
+};
+
+export function PolicyOutcomeBadge({ outcome }: { outcome: PolicyOutcome }) {
+  const config = outcomeConfig[outcome];
+  const Icon = config.icon;
+  return (
+    <Badge className={`text-xs ${config.className}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {config.label}
+    </Badge>
+  );
+}
+
+export function PolicyDryRunTester({ rules, compact = false }: PolicyDryRunTesterProps) {
+  const [text, setText] = useState('');
+  const [role, setRole] = useState<string>('employee');
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<{ version: number; decisions: Record<PolicyTarget, PolicyDecision> } | null>(null);
+
+  const handleRun = async () => {
+    if (!text.trim()) return;
+    setIsRunning(true);
+    try {
+      const data = await evaluatePolicy(text, { role, rules });
+      setResult({ version: data.version, decisions: data.decisions });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Dry run failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste a prompt, command, SQL or code snippet to test..."
+        className={compact ? 'min-h-[60px] text-sm' : 'min-h-[100px] text-sm font-mono'}
+      />
+      <div className="flex items-center gap-2">
+        <Select value={role} onValueChange={setRole}>
+          <SelectTrigger className="w-36 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {POLICY_ROLES.map(r => (
+              <SelectItem key={r} value={r} className="text-xs">As {r}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={handleRun} disabled={!text.trim() || isRunning} className="gap-1">
+          {isRunning ? <Loader2 className="h-3 w-3 animate-spin" /> : <FlaskConical className="h-3 w-3" />}
+          Dry run
+        </Button>
+        {result && (
+          <span className="text-xs text-muted-foreground ml-auto">
+            {result.version === -1 ? 'Draft rules' : `Policy v${result.version}`}
+          </span>
+        )}
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          {POLICY_TARGETS.map(({ value, label }) => {
+            const decision = result.decisions[value];
+            if (!decision) return null;
+            return (
+              <div key={value} className="rounded-lg border p-2 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium">{label}</span>
+                  <PolicyOutcomeBadge outcome={decision.outcome} />
+                </div>
+                {decision.matches.map(match => (
+                  <p key={match.ruleKey} className="text-xs text-muted-foreground">
+                    <span className="font-mono">{match.ruleKey}</span> matched “{match.matched}” · {outcomeConfig[match.outcome].label}
+                  </p>
+                ))}
+                {decision.exempted.map(match => (
+                  <p key={match.ruleKey} className="text-xs text-muted-foreground line-through">
+                    <span className="font-mono">{match.ruleKey}</span> exempted by {match.exemptedBy}
+                  </p>
+                ))}
+                {decision.invalidRules.length > 0 && (
+                  <p className="text-xs text-destructive">Invalid pattern: {decision.invalidRules.join(', ')}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Pencil, Trash2, Loader2, History } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { PolicyDryRunTester, PolicyOutcomeBadge } from './PolicyDryRunTester';
+import {
+  getPolicyRules,
+  getPolicyVersions,
+  savePolicyRule,
+  deletePolicyRule,
+  POLICY_ROLES,
+  POLICY_TARGETS,
+  type PolicyOutcome,
+  type PolicyRule,
+  type PolicySeverity,
+  type PolicyVersion,
+} from '@/lib/policyService';
+
+const emptyRule: PolicyRule = {
+  rule_key: '',
+  name: '',
+  pattern_type: 'prompt_injection',
+  pattern_regex: '',
+  pattern_keywords: [],
+  severity: 'high',
+  outcome: 'deny',
+  targets: ['agent_input'],
+  roles: [],
+  priority: 100,
+  description: '',
+  is_active: true,
+};
+
+const severities: PolicySeverity[] = ['low', 'medium', 'high', 'critical'];
+const outcomes: { value: PolicyOutcome; label: string }[] = [
+  { value: 'deny', label: 'Deny' },
+  { value: 'require_approval', label: 'Require approval' },
+  { value: 'allow', label: 'Allow (exception)' },
+];
+
+export function PolicyRuleEditor() {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<PolicyRule[]>([]);
+  const [versions, setVersions] = useState<PolicyVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<PolicyRule | null>(null);
+  const [keywordsText, setKeywordsText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const [ruleData, versionData] = await Promise.all([getPolicyRules(), getPolicyVersions(5)]);
+      setRules(ruleData);
+      setVersions(versionData);
+    } catch (error) {
+      toast.error('Failed to load policy rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openEditor = (rule?: PolicyRule) => {
+    const next = rule ? { ...rule } : { ...emptyRule };
+    setDraft(next);
+    setKeywordsText((next.pattern_keywords || []).join(', '));
+  };
+
+  // The draft as it would be saved, with keywords parsed from the text field
+  const normalizedDraft = (): PolicyRule | null => {
+    if (!draft) return null;
+    const keywords = keywordsText.split(',').map(k => k.trim()).filter(Boolean);
+    return {
+      ...draft,
+      pattern_regex: draft.pattern_regex?.trim() || null,
+      pattern_keywords: keywords.length > 0 ? keywords : null,
+      description: draft.description?.trim() || null,
+    };
+  };
+
+  const handleSave = async () => {
+    const rule = normalizedDraft();
+    if (!rule) return;
+
+    if (!rule.rule_key.trim() || !rule.name.trim()) {
+      toast.error('Rule key and name are required');
+      return;
+    }
+    if (!rule.pattern_regex && !rule.pattern_keywords) {
+      toast.error('Add a regular expression or at least one keyword');
+      return;
+    }
+    if (rule.pattern_regex) {
+      try {
+        new RegExp(rule.pattern_regex, 'i');
+      } catch {
+        toast.error('The regular expression is not valid');
+        return;
+      }
+    }
+    if (rule.targets.length === 0) {
+      toast.error('Select at least one target');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await savePolicyRule(rule, user?.id);
+      toast.success(`Saved ${rule.rule_key}`);
+      setDraft(null);
+      fetchRules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: PolicyRule, isActive: boolean) => {
+    try {
+      await savePolicyRule({ ...rule, is_active: isActive }, user?.id);
+      fetchRules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: PolicyRule) => {
+    if (!rule.id) return;
+    try {
+      await deletePolicyRule(rule.id);
+      toast.success(`Deleted ${rule.rule_key}`);
+      fetchRules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete rule');
+    }
+  };
+
+  const toggleListValue = <T extends string>(list: T[], value: T, checked: boolean): T[] =>
+    checked ? [...list, value] : list.filter(v => v !== value);
+
+  const categories = [...new Set(rules.map(r => r.pattern_type))];
+  const testRule = normalizedDraft();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <History className="h-3 w-3" />
+          {versions[0]
+            ? `v${versions[0].version} · ${versions[0].rule_count} active rules · ${formatDistanceToNow(parseISO(versions[0].created_at), { addSuffix: true })}`
+            : 'No published version'}
+        </div>
+        <Button size="sm" variant="outline" className="gap-1" onClick={() => openEditor()}>
+          <Plus className="h-3 w-3" />
+          New rule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <ScrollArea className="h-[360px] pr-2">
+          <div className="space-y-4">
+            {categories.map(category => (
+              <div key={category} className="space-y-2">
+                <p className="text-xs font-semibold uppercase text-muted-foreground">{category.replace(/_/g, ' ')}</p>
+                {rules.filter(r => r.pattern_type === category).map(rule => (
+                  <div key={rule.rule_key} className={`rounded-lg border p-2 ${rule.is_active ? '' : 'opacity-50'}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{rule.name}</p>
+                        <p className="text-xs text-muted-foreground font-mono truncate">
+                          {rule.pattern_regex || (rule.pattern_keywords || []).join(', ')}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <PolicyOutcomeBadge outcome={rule.outcome} />
+                        <Switch checked={rule.is_active} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => openEditor(rule)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-6 w-6 hover:text-destructive" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex gap-1 mt-1 flex-wrap">
+                      <Badge variant="outline" className="text-xs">{rule.severity}</Badge>
+                      {rule.targets.map(t => (
+                        <Badge key={t} variant="secondary" className="text-xs">{t}</Badge>
+                      ))}
+                      {rule.roles.length > 0 && (
+                        <Badge variant="outline" className="text-xs">roles: {rule.roles.join(', ')}</Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? `Edit ${draft.rule_key}` : 'New policy rule'}</DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Rule key</Label>
+                  <Input
+                    value={draft.rule_key}
+                    onChange={(e) => setDraft({ ...draft, rule_key: e.target.value })}
+                    placeholder="category.short_name"
+                    disabled={!!draft.id}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Category</Label>
+                  <Input value={draft.pattern_type} onChange={(e) => setDraft({ ...draft, pattern_type: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Priority</Label>
+                  <Input
+                    type="number"
+                    value={draft.priority}
+                    onChange={(e) => setDraft({ ...draft, priority: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Severity</Label>
+                  <Select value={draft.severity} onValueChange={(v) => setDraft({ ...draft, severity: v as PolicySeverity })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {severities.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Outcome</Label>
+                  <Select value={draft.outcome} onValueChange={(v) => setDraft({ ...draft, outcome: v as PolicyOutcome })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {outcomes.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Regular expression (case-insensitive)</Label>
+                <Input
+                  className="font-mono text-sm"
+                  value={draft.pattern_regex || ''}
+                  onChange={(e) => setDraft({ ...draft, pattern_regex: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Keywords (comma-separated, literal)</Label>
+                <Input value={keywordsText} onChange={(e) => setKeywordsText(e.target.value)} />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Targets</Label>
+                <div className="flex flex-wrap gap-3">
+                  {POLICY_TARGETS.map(({ value, label }) => (
+                    <label key={value} className="flex items-center gap-1.5 text-xs">
+                      <Checkbox
+                        checked={draft.targets.includes(value)}
+                        onCheckedChange={(checked) => setDraft({ ...draft, targets: toggleListValue(draft.targets, value, !!checked) })}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Roles (none selected = everyone)</Label>
+                <div className="flex flex-wrap gap-3">
+                  {POLICY_ROLES.map(role => (
+                    <label key={role} className="flex items-center gap-1.5 text-xs">
+                      <Checkbox
+                        checked={draft.roles.includes(role)}
+                        onCheckedChange={(checked) => setDraft({ ...draft, roles: toggleListValue(draft.roles, role, !!checked) })}
+                      />
+                      {role}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Description</Label>
+                <Textarea
+                  className="min-h-[50px] text-sm"
+                  value={draft.description || ''}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+
+              <div className="rounded-lg bg-muted/50 p-3 space-y-2">
+                <p className="text-xs font-medium">Test this rule before saving</p>
+                {testRule && <PolicyDryRunTester rules={[testRule]} compact />}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save & publish
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PolicyRuleEditor } from './PolicyRuleEditor';
+import { PolicyDryRunTester } from './PolicyDryRunTester';
+import { getPolicyRules, type PolicyRule } from '@/lib/policyService';
 import { 
   Shield, 
   ShieldAlert, 
@@ -28,6 +32,8 @@ interface SafetyGuardrailsPanelProps {
   checks?: SafetyCheck[];
   overallScore?: number;
   isAnalyzing?: boolean;
+  // Show the policy rule editor and dry-run tester
+  editable?: boolean;
 }
 
 const checkTypeLabels = {
@@ -61,8 +67,27 @@ const statusConfig = {
 export function SafetyGuardrailsPanel({ 
   checks = [], 
   overallScore = 1.0, 
-  isAnalyzing = false 
+  isAnalyzing = false,
+  editable = false
 }: SafetyGuardrailsPanelProps) {
+  const [rules, setRules] = useState<PolicyRule[]>([]);
+
+  useEffect(() => {
+    getPolicyRules()
+      .then(setRules)
+      .catch(error => console.error('Failed to load policy rules:', error));
+  }, []);
+
+  // Active protections come from the live policy, one entry per category
+  const activeCategories = Object.entries(
+    rules
+      .filter(rule => rule.is_active)
+      .reduce<Record<string, number>>((counts, rule) => {
+        counts[rule.pattern_type] = (counts[rule.pattern_type] || 0) + 1;
+        return counts;
+      }, {})
+  );
+
   const getScoreColor = (score: number) => {
     if (score >= 0.8) return 'text-green-600';
     if (score >= 0.5) return 'text-yellow-600';
@@ -170,24 +195,30 @@ export function SafetyGuardrailsPanel({
             <span className="font-medium">Active Protections:</span>
           </div>
           <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-muted-foreground">
-            <div className="flex items-center gap-1">
-              <CheckCircle2 className="h-3 w-3 text-green-500" />
-              Prompt Injection Detection
-            </div>
-            <div className="flex items-center gap-1">
-              <CheckCircle2 className="h-3 w-3 text-green-500" />
-              Harmful Code Blocking
-            </div>
-            <div className="flex items-center gap-1">
-              <CheckCircle2 className="h-3 w-3 text-green-500" />
-              Data Exfiltration Prevention
-            </div>
-            <div className="flex items-center gap-1">
-              <CheckCircle2 className="h-3 w-3 text-green-500" />
-              Privilege Escalation Guard
-            </div>
+            {activeCategories.map(([category, count]) => (
+              <div key={category} className="flex items-center gap-1 capitalize">
+                <CheckCircle2 className="h-3 w-3 text-green-500" />
+                {category.replace(/_/g, ' ')} ({count})
+              </div>
+            ))}
+            {activeCategories.length === 0 && <span>Loading policy...</span>}
           </div>
         </div>
+
+        {editable && (
+          <Tabs defaultValue="rules" className="mt-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="rules">Policy Rules</TabsTrigger>
+              <TabsTrigger value="dry-run">Dry Run</TabsTrigger>
+            </TabsList>
+            <TabsContent value="rules" className="mt-3">
+              <PolicyRuleEditor />
+            </TabsContent>
+            <TabsContent value="dry-run" className="mt-3">
+              <PolicyDryRunTester />
+            </TabsContent>
+          </Tabs>
+        )}
       </CardContent>
     </Card>
   );
@@ -3,6 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/componen
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   CheckCircle2, 
   XCircle, 
@@ -14,22 +17,70 @@ import {
   ChevronRight,
   Play,
   Pause,
-  SkipForward
+  SkipForward,
+  Square,
+  Ban,
+  HelpCircle,
+  Pencil,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Save
 } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { PLAN_TASK_TYPES, type PlanTaskEdit, type SlotQuestion, type TaskRun } from '@/lib/taskQueueService';
 
 export interface Task {
   id: string;
   order: number;
   type: string;
   description: string;
-  status: 'pending' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected';
+  status: 'pending' | 'awaiting_info' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected' | 'skipped' | 'cancelled';
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   requiresApproval: boolean;
   proposedChanges?: any;
   executionResult?: any;
   errorMessage?: string;
   dependencies?: number[];
+  parameters?: Record<string, unknown>;
+  questions?: SlotQuestion[];
+}
+
+// A task being edited. Dependencies point at other drafts by key so they
+// survive reordering and removal.
+interface DraftTask {
+  key: string;
+  id?: string;
+  type: string;
+  description: string;
+  parametersText: string;
+  dependsOn: string[];
+}
+
+// Statuses that leave a plan open to edits
+const EDITABLE_STATUSES: Task['status'][] = ['pending', 'awaiting_info', 'awaiting_approval', 'approved', 'rejected'];
+
+function toDrafts(tasks: Task[]): DraftTask[] {
+  const keyByOrder = new Map(tasks.map(t => [t.order, t.id]));
+  return tasks.map(t => ({
+    key: t.id,
+    id: t.id,
+    type: t.type,
+    description: t.description,
+    parametersText: JSON.stringify(t.parameters || {}, null, 2),
+    dependsOn: (t.dependencies || []).map(d => keyByOrder.get(d)).filter((k): k is string => !!k)
+  }));
+}
+
+function parseParameters(text: string): Record<string, unknown> | null {
+  if (!text.trim()) return {};
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
 }
 
 interface TaskDecompositionPanelProps {
@@ -38,8 +89,16 @@ interface TaskDecompositionPanelProps {
   onReject: (taskId: string) => void;
   onApproveAll: () => void;
   onExecute: (taskId: string) => void;
+  onRunAll: () => void;
   onPause: () => void;
-  isPaused: boolean;
+  onResume: () => void;
+  onCancel: () => void;
+  // Saves an edited plan; resolves to whether it was accepted
+  onRevisePlan?: (tasks: PlanTaskEdit[]) => Promise<boolean>;
+  // Answers a task's questions; resolves to whether the task is complete
+  onProvideInfo?: (taskId: string, answers: Record<string, unknown>) => Promise<boolean>;
+  // Latest run of the plan, if it has been run
+  run: TaskRun | null;
   isExecuting: boolean;
 }
 
@@ -50,7 +109,10 @@ const statusIcons = {
   executing: <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />,
   completed: <CheckCircle2 className="h-4 w-4 text-green-600" />,
   failed: <XCircle className="h-4 w-4 text-red-500" />,
-  rejected: <XCircle className="h-4 w-4 text-orange-500" />
+  rejected: <XCircle className="h-4 w-4 text-orange-500" />,
+  awaiting_info: <HelpCircle className="h-4 w-4 text-blue-500" />,
+  skipped: <SkipForward className="h-4 w-4 text-muted-foreground" />,
+  cancelled: <Ban className="h-4 w-4 text-muted-foreground" />
 };
 
 const riskColors = {
@@ -66,15 +128,138 @@ export function TaskDecompositionPanel({
   onReject,
   onApproveAll,
   onExecute,
+  onRunAll,
   onPause,
-  isPaused,
+  onResume,
+  onCancel,
+  onRevisePlan,
+  onProvideInfo,
+  run,
   isExecuting
 }: TaskDecompositionPanelProps) {
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+  const [drafts, setDrafts] = useState<DraftTask[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Answers typed for tasks awaiting info, by task id and slot name
+  const [answers, setAnswers] = useState<Record<string, Record<string, string>>>({});
+  const [answeringTaskId, setAnsweringTaskId] = useState<string | null>(null);
   
   const completedCount = tasks.filter(t => t.status === 'completed').length;
   const progress = tasks.length > 0 ? (completedCount / tasks.length) * 100 : 0;
   const awaitingApproval = tasks.filter(t => t.status === 'awaiting_approval');
+  const isRunning = run?.status === 'running';
+  const isPaused = run?.status === 'paused';
+  const canRun = !isRunning && tasks.some(t =>
+    t.status === 'approved' || (t.status === 'pending' && !t.requiresApproval)
+  );
+
+  const canEdit = !!onRevisePlan && !run && !isExecuting && tasks.length > 0 &&
+    tasks.every(t => EDITABLE_STATUSES.includes(t.status));
+  const isEditing = drafts !== null;
+  const draftErrors = (drafts || []).map(d =>
+    !d.description.trim() ? 'Description is required'
+      : parseParameters(d.parametersText) === null ? 'Parameters must be a JSON object'
+      : null
+  );
+
+  const updateDraft = (key: string, changes: Partial<DraftTask>) => {
+    setDrafts(prev => prev && prev.map(d => d.key === key ? { ...d, ...changes } : d));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(prev => {
+      if (!prev || index + offset < 0 || index + offset >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeDraft = (key: string) => {
+    setDrafts(prev => prev && prev
+      .filter(d => d.key !== key)
+      .map(d => ({ ...d, dependsOn: d.dependsOn.filter(k => k !== key) })));
+  };
+
+  const addDraft = () => {
+    setDrafts(prev => [...(prev || []), {
+      key: crypto.randomUUID(),
+      type: PLAN_TASK_TYPES[0].value,
+      description: '',
+      parametersText: '{}',
+      dependsOn: []
+    }]);
+  };
+
+  const toggleDependency = (key: string, dependencyKey: string) => {
+    setDrafts(prev => prev && prev.map(d => d.key !== key ? d : {
+      ...d,
+      dependsOn: d.dependsOn.includes(dependencyKey)
+        ? d.dependsOn.filter(k => k !== dependencyKey)
+        : [...d.dependsOn, dependencyKey]
+    }));
+  };
+
+  const savePlan = async () => {
+    if (!drafts || !onRevisePlan || draftErrors.some(Boolean)) return;
+    const positions = new Map(drafts.map((d, index) => [d.key, index]));
+
+    setIsSaving(true);
+    const saved = await onRevisePlan(drafts.map((d, index) => ({
+      id: d.id,
+      order: index,
+      type: d.type,
+      description: d.description.trim(),
+      parameters: parseParameters(d.parametersText) || {},
+      dependencies: d.dependsOn.map(k => positions.get(k)).filter((p): p is number => p !== undefined)
+    })));
+    setIsSaving(false);
+    if (saved) setDrafts(null);
+  };
+
+  const setAnswer = (taskId: string, name: string, value: string) => {
+    setAnswers(prev => ({ ...prev, [taskId]: { ...prev[taskId], [name]: value } }));
+  };
+
+  const submitAnswers = async (taskId: string) => {
+    const given = Object.fromEntries(
+      Object.entries(answers[taskId] || {}).filter(([, value]) => value.trim())
+    );
+    if (!onProvideInfo || Object.keys(given).length === 0) return;
+
+    setAnsweringTaskId(taskId);
+    await onProvideInfo(taskId, given);
+    setAnsweringTaskId(null);
+    // Refused answers come back as questions with the reason, so start over
+    setAnswers(prev => ({ ...prev, [taskId]: {} }));
+  };
+
+  const renderAnswerInput = (taskId: string, question: SlotQuestion) => {
+    const value = answers[taskId]?.[question.name] ?? '';
+    if (question.kind === 'choice' && question.options) {
+      return (
+        <Select value={value} onValueChange={(v) => setAnswer(taskId, question.name, v)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder={`Choose ${question.label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {question.options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        type={question.kind === 'date' ? 'date' : 'text'}
+        value={value}
+        onChange={(e) => setAnswer(taskId, question.name, e.target.value)}
+        placeholder={question.kind === 'paths' ? 'src/app.ts, src/lib/util.ts' : question.label}
+        className="h-8 text-xs"
+      />
+    );
+  };
 
   const toggleExpand = (taskId: string) => {
     const newExpanded = new Set(expandedTasks);
@@ -95,9 +280,20 @@ export function TaskDecompositionPanel({
             Task Execution Pipeline
           </CardTitle>
           <div className="flex items-center gap-2">
-            {isExecuting && (
-              <Button variant="outline" size="sm" onClick={onPause}>
-                {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            {(isRunning || isPaused) && (
+              <>
+                <Button variant="outline" size="sm" onClick={isPaused ? onResume : onPause} title={isPaused ? 'Resume' : 'Pause'}>
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="sm" onClick={onCancel} title="Cancel">
+                  <Square className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            {canEdit && !isEditing && (
+              <Button variant="outline" size="sm" onClick={() => setDrafts(toDrafts(tasks))}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit Plan
               </Button>
             )}
             <Badge variant="outline">
@@ -106,111 +302,254 @@ export function TaskDecompositionPanel({
           </div>
         </div>
         <Progress value={progress} className="h-2 mt-2" />
+        {run?.statusReason && (isPaused || run.status === 'blocked') && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {run.statusReason === 'time_budget' ? 'Paused to continue in a new request' : run.statusReason}
+          </p>
+        )}
       </CardHeader>
       
-      <CardContent className="space-y-3">
-        {tasks.map((task, index) => (
-          <Collapsible 
-            key={task.id} 
-            open={expandedTasks.has(task.id)}
-            onOpenChange={() => toggleExpand(task.id)}
-          >
-            <div className={`rounded-lg border p-3 transition-colors ${
-              task.status === 'awaiting_approval' ? 'border-yellow-500/50 bg-yellow-500/5' :
-              task.status === 'executing' ? 'border-blue-500/50 bg-blue-500/5' :
-              task.status === 'failed' ? 'border-red-500/50 bg-red-500/5' :
-              task.status === 'completed' ? 'border-green-500/50 bg-green-500/5' :
-              'border-border'
-            }`}>
-              <CollapsibleTrigger className="w-full">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <span className="text-sm font-medium text-muted-foreground">
-                      #{task.order + 1}
-                    </span>
-                    {statusIcons[task.status]}
-                    <span className="font-medium text-sm">{task.description}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Badge variant="outline" className={riskColors[task.riskLevel]}>
-                      {task.riskLevel}
-                    </Badge>
-                    <Badge variant="secondary" className="text-xs">
-                      {task.type}
-                    </Badge>
-                    {expandedTasks.has(task.id) ? 
-                      <ChevronDown className="h-4 w-4" /> : 
-                      <ChevronRight className="h-4 w-4" />
-                    }
+      {isEditing && drafts && (
+        <>
+          <CardContent className="space-y-3">
+            {drafts.map((draft, index) => (
+              <div key={draft.key} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-muted-foreground">#{index + 1}</span>
+                  <Select value={draft.type} onValueChange={(type) => updateDraft(draft.key, { type })}>
+                    <SelectTrigger className="h-8 w-44 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PLAN_TASK_TYPES.map(t => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveDraft(index, -1)} disabled={index === 0} title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveDraft(index, 1)} disabled={index === drafts.length - 1} title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeDraft(draft.key)} disabled={drafts.length === 1} title="Remove task">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
-              </CollapsibleTrigger>
-              
-              <CollapsibleContent className="mt-3 pt-3 border-t">
-                {task.proposedChanges && (
-                  <div className="mb-3">
-                    <p className="text-xs text-muted-foreground mb-2">Proposed Changes:</p>
-                    <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-40">
-                      {JSON.stringify(task.proposedChanges, null, 2)}
-                    </pre>
+                <Textarea
+                  value={draft.description}
+                  onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                  placeholder="What should this task do?"
+                  rows={2}
+                  className="text-sm"
+                />
+                <Textarea
+                  value={draft.parametersText}
+                  onChange={(e) => updateDraft(draft.key, { parametersText: e.target.value })}
+                  rows={3}
+                  className="font-mono text-xs"
+                />
+                {drafts.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-muted-foreground mr-1">Depends on:</span>
+                    {drafts.map((other, otherIndex) => other.key !== draft.key && (
+                      <Badge
+                        key={other.key}
+                        variant={draft.dependsOn.includes(other.key) ? 'default' : 'outline'}
+                        className="cursor-pointer text-xs"
+                        onClick={() => toggleDependency(draft.key, other.key)}
+                      >
+                        #{otherIndex + 1}
+                      </Badge>
+                    ))}
                   </div>
                 )}
-                
-                {task.errorMessage && (
-                  <div className="mb-3 p-2 bg-red-500/10 rounded text-red-600 text-sm">
-                    {task.errorMessage}
-                  </div>
+                {draftErrors[index] && (
+                  <p className="text-xs text-red-600">{draftErrors[index]}</p>
                 )}
-                
-                {task.executionResult && (
-                  <div className="mb-3 p-2 bg-green-500/10 rounded text-green-600 text-sm">
-                    Execution successful
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addDraft} disabled={drafts.length >= 10} className="w-full">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Task
+            </Button>
+          </CardContent>
+          <CardFooter className="pt-0 flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setDrafts(null)} disabled={isSaving}>
+              Discard
+            </Button>
+            <Button className="flex-1" onClick={savePlan} disabled={isSaving || draftErrors.some(Boolean)}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Plan
+            </Button>
+          </CardFooter>
+        </>
+      )}
+
+      {!isEditing && (
+        <CardContent className="space-y-3">
+          {tasks.map((task, index) => (
+            <Collapsible 
+              key={task.id} 
+              open={expandedTasks.has(task.id)}
+              onOpenChange={() => toggleExpand(task.id)}
+            >
+              <div className={`rounded-lg border p-3 transition-colors ${
+                task.status === 'awaiting_approval' ? 'border-yellow-500/50 bg-yellow-500/5' :
+                task.status === 'executing' ? 'border-blue-500/50 bg-blue-500/5' :
+                task.status === 'failed' ? 'border-red-500/50 bg-red-500/5' :
+                task.status === 'completed' ? 'border-green-500/50 bg-green-500/5' :
+                task.status === 'skipped' || task.status === 'cancelled' ? 'border-muted bg-muted/50 opacity-60' :
+                'border-border'
+              }`}>
+                <CollapsibleTrigger className="w-full">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-medium text-muted-foreground">
+                        #{task.order + 1}
+                      </span>
+                      {statusIcons[task.status]}
+                      <span className="font-medium text-sm">{task.description}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {task.status === 'awaiting_info' && task.questions && task.questions.length > 0 && (
+                        <Badge variant="outline" className="bg-blue-500/10 text-blue-600 border-blue-500/20">
+                          {task.questions.length} to answer
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className={riskColors[task.riskLevel]}>
+                        {task.riskLevel}
+                      </Badge>
+                      <Badge variant="secondary" className="text-xs">
+                        {task.type}
+                      </Badge>
+                      {expandedTasks.has(task.id) ? 
+                        <ChevronDown className="h-4 w-4" /> : 
+                        <ChevronRight className="h-4 w-4" />
+                      }
+                    </div>
                   </div>
-                )}
+                </CollapsibleTrigger>
+              
+                <CollapsibleContent className="mt-3 pt-3 border-t">
+                  {task.dependencies && task.dependencies.length > 0 && (
+                    <p className="text-xs text-muted-foreground mb-3">
+                      Depends on: {task.dependencies.map(d => `#${d + 1}`).join(', ')}
+                    </p>
+                  )}
+
+                  {task.parameters && Object.keys(task.parameters).length > 0 && (
+                    <div className="mb-3">
+                      <p className="text-xs text-muted-foreground mb-2">Parameters:</p>
+                      <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-40">
+                        {JSON.stringify(task.parameters, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+
+                  {task.proposedChanges && (
+                    <div className="mb-3">
+                      <p className="text-xs text-muted-foreground mb-2">Proposed Changes:</p>
+                      <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-40">
+                        {JSON.stringify(task.proposedChanges, null, 2)}
+                      </pre>
+                    </div>
+                  )}
                 
-                {task.status === 'awaiting_approval' && (
-                  <div className="flex gap-2 mt-2">
-                    <Button 
-                      size="sm" 
-                      onClick={() => onApprove(task.id)}
-                      className="bg-green-600 hover:bg-green-700"
-                    >
-                      <CheckCircle2 className="h-4 w-4 mr-1" />
-                      Approve
-                    </Button>
+                  {task.errorMessage && (
+                    <div className={`mb-3 p-2 rounded text-sm ${
+                      task.status === 'skipped' || task.status === 'cancelled'
+                        ? 'bg-muted text-muted-foreground'
+                        : 'bg-red-500/10 text-red-600'
+                    }`}>
+                      {task.errorMessage}
+                    </div>
+                  )}
+                
+                  {task.executionResult && task.status === 'completed' && (
+                    <div className="mb-3 p-2 bg-green-500/10 rounded text-green-600 text-sm">
+                      Execution successful
+                    </div>
+                  )}
+                
+                  {task.status === 'awaiting_info' && task.questions && task.questions.length > 0 && onProvideInfo && (
+                    <div className="mb-3 space-y-2">
+                      {task.questions.map(question => (
+                        <div key={question.name} className="space-y-1">
+                          <p className="text-xs">{question.question}</p>
+                          {question.error && (
+                            <p className="text-xs text-red-600">{question.error}</p>
+                          )}
+                          {renderAnswerInput(task.id, question)}
+                        </div>
+                      ))}
+                      <Button
+                        size="sm"
+                        onClick={() => submitAnswers(task.id)}
+                        disabled={answeringTaskId === task.id || !Object.values(answers[task.id] || {}).some(v => v.trim())}
+                      >
+                        {answeringTaskId === task.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <Save className="h-4 w-4 mr-1" />}
+                        Save Details
+                      </Button>
+                    </div>
+                  )}
+
+                  {task.status === 'awaiting_approval' && (
+                    <div className="flex gap-2 mt-2">
+                      <Button 
+                        size="sm" 
+                        onClick={() => onApprove(task.id)}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button 
+                        size="sm" 
+                        variant="destructive"
+                        onClick={() => onReject(task.id)}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                
+                  {task.status === 'approved' && !isExecuting && !isRunning && (
                     <Button 
                       size="sm" 
-                      variant="destructive"
-                      onClick={() => onReject(task.id)}
+                      onClick={() => onExecute(task.id)}
+                      className="mt-2"
                     >
-                      <XCircle className="h-4 w-4 mr-1" />
-                      Reject
+                      <Play className="h-4 w-4 mr-1" />
+                      Execute
                     </Button>
-                  </div>
-                )}
-                
-                {task.status === 'approved' && !isExecuting && (
-                  <Button 
-                    size="sm" 
-                    onClick={() => onExecute(task.id)}
-                    className="mt-2"
-                  >
-                    <Play className="h-4 w-4 mr-1" />
-                    Execute
-                  </Button>
-                )}
-              </CollapsibleContent>
-            </div>
-          </Collapsible>
-        ))}
-      </CardContent>
+                  )}
+                </CollapsibleContent>
+              </div>
+            </Collapsible>
+          ))}
+        </CardContent>
+      )}
       
-      {awaitingApproval.length > 1 && (
-        <CardFooter className="pt-0">
-          <Button onClick={onApproveAll} className="w-full" variant="outline">
-            <CheckCircle2 className="h-4 w-4 mr-2" />
-            Approve All {awaitingApproval.length} Tasks
-          </Button>
+      {!isEditing && (awaitingApproval.length > 1 || canRun) && (
+        <CardFooter className="pt-0 flex gap-2">
+          {awaitingApproval.length > 1 && (
+            <Button onClick={onApproveAll} className="flex-1" variant="outline">
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Approve All {awaitingApproval.length} Tasks
+            </Button>
+          )}
+          {canRun && (
+            <Button onClick={isPaused ? onResume : onRunAll} className="flex-1" disabled={isExecuting}>
+              <Play className="h-4 w-4 mr-2" />
+              {isPaused ? 'Resume' : 'Run Ready Tasks'}
+            </Button>
+          )}
         </CardFooter>
       )}
     </Card>
@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, X, Calendar, FileText, FileCode, AlertTriangle, Clock, GitBranch, Database, Bot, Loader2 } from 'lucide-react';
+import { format, parseISO, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { DelegationDialog } from './DelegationDialog';
+import {
+  APPROVAL_ITEM_TYPES,
+  decideApproval,
+  getApprovalInbox,
+  subscribeToApprovals,
+  type ApprovalDecision,
+  type ApprovalItemType,
+  type InboxItem,
+} from '@/lib/approvalService';
+
+// Realtime only reaches approvers who can read the items
+const REFRESH_INTERVAL_MS = 60000;
+const ALL_TYPES = 'all';
+
+interface ApprovalInboxProps {
+  // Limit the inbox to these item types
+  itemTypes?: ApprovalItemType[];
+  title?: string;
+  className?: string;
+}
+
+const TYPE_ICONS: Record<ApprovalItemType, React.ElementType> = {
+  leave_request: Calendar,
+  approval_request: FileText,
+  code_change_request: FileText,
+  code_change_proposal: FileText,
+  github_operation: GitBranch,
+  database_migration: Database,
+  file_operation: FileCode,
+  agent_task: Bot,
+};
+
+function typeLabel(type: ApprovalItemType): string {
+  return APPROVAL_ITEM_TYPES.find(t => t.value === type)?.label ?? type;
+}
+
+const getRiskBadge = (risk: string) => {
+  switch (risk.toLowerCase()) {
+    case 'critical':
+      return <Badge className="bg-destructive text-destructive-foreground">Critical</Badge>;
+    case 'high':
+      return <Badge className="bg-destructive/10 text-destructive border-destructive/30">High Risk</Badge>;
+    case 'medium':
+      return <Badge className="bg-warning/10 text-warning border-warning/30">Medium Risk</Badge>;
+    case 'low':
+    default:
+      return <Badge className="bg-success/10 text-success border-success/30">Low Risk</Badge>;
+  }
+};
+
+function ItemDetails({ item }: { item: InboxItem }) {
+  const details = item.details;
+  const code = typeof details.proposed_code === 'string' ? details.proposed_code
+    : typeof details.migration_sql === 'string' ? details.migration_sql
+    : null;
+
+  return (
+    <>
+      {item.itemType === 'leave_request' && typeof details.start_date === 'string' && typeof details.end_date === 'string' && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+          <Calendar className="h-3 w-3" />
+          {format(parseISO(details.start_date), 'MMM d')} - {format(parseISO(details.end_date), 'MMM d, yyyy')}
+        </div>
+      )}
+      {typeof details.file_path === 'string' && (
+        <p className="text-xs font-mono mb-2 truncate">{details.file_path}</p>
+      )}
+      {item.itemType === 'github_operation' && typeof details.branch_name === 'string' && (
+        <p className="text-xs text-muted-foreground mb-2 font-mono">
+          {details.branch_name}{typeof details.target_branch === 'string' ? ` → ${details.target_branch}` : ''}
+        </p>
+      )}
+      {item.summary && (
+        <p className="text-xs text-muted-foreground mb-2 italic">"{item.summary}"</p>
+      )}
+      {code && (
+        <div className="bg-background rounded border border-border p-2 mb-2 max-h-[100px] overflow-auto">
+          <pre className="text-xs font-mono text-muted-foreground">
+            {code.slice(0, 400)}
+            {code.length > 400 && '...'}
+          </pre>
+        </div>
+      )}
+    </>
+  );
+}
+
+function ChainProgress({ item }: { item: InboxItem }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 mb-2">
+      {item.steps.map((step, index) => (
+        <Badge
+          key={index}
+          variant="outline"
+          className={`text-[10px] ${
+            index < item.currentStep ? 'bg-success/10 text-success border-success/30'
+              : index === item.currentStep ? 'border-primary/50'
+              : 'text-muted-foreground'
+          }`}
+        >
+          {index < item.currentStep && <Check className="h-2.5 w-2.5 mr-1" />}
+          {step.name}
+          {index === item.currentStep && item.required > 1 && ` ${item.approvals}/${item.required}`}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+// One inbox for everything waiting on the signed-in user: leave, requests,
+// code changes, GitHub operations, migrations and agent tasks, each moving
+// through its approval chain
+export function ApprovalInbox({ itemTypes, title = 'Approval Inbox', className = 'glass-card' }: ApprovalInboxProps) {
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<string>(ALL_TYPES);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const itemTypesKey = itemTypes?.join(',') ?? '';
+
+  const fetchInbox = useCallback(async () => {
+    try {
+      const inbox = await getApprovalInbox();
+      const scope = itemTypesKey ? itemTypesKey.split(',') : null;
+      setItems(scope ? inbox.filter(item => scope.includes(item.itemType)) : inbox);
+    } catch (error) {
+      console.error('Error fetching approval inbox:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [itemTypesKey]);
+
+  useEffect(() => {
+    fetchInbox();
+    const unsubscribe = subscribeToApprovals(fetchInbox);
+    const timer = setInterval(fetchInbox, REFRESH_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [fetchInbox]);
+
+  const handleDecision = async (item: InboxItem, decision: ApprovalDecision) => {
+    setDeciding(item.id);
+    try {
+      const result = await decideApproval({ itemId: item.id }, decision, comments[item.id]);
+      if (result.execution?.status === 'completed') {
+        toast.success(`${item.title} approved and run: ${result.execution.message}`);
+      } else if (result.execution?.status === 'failed') {
+        toast.error(`${item.title} approved but failed to run: ${result.execution.message}`);
+      } else if (result.status === 'approved') {
+        toast.success(`${item.title} approved`);
+      } else if (result.status === 'rejected') {
+        toast.success(`${item.title} rejected`);
+      } else if (result.stepName !== item.stepName) {
+        toast.success(`Approved; now waiting on ${result.stepName}`);
+      } else {
+        toast.success(`Approval recorded (${result.approvals} of ${result.required})`);
+      }
+      setComments(prev => {
+        const { [item.id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      fetchInbox();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to process request');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const presentTypes = APPROVAL_ITEM_TYPES.filter(t => items.some(item => item.itemType === t.value));
+  const visible = typeFilter === ALL_TYPES ? items : items.filter(item => item.itemType === typeFilter);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-warning" />
+            {title}
+            {items.length > 0 && <Badge variant="secondary" className="h-5 px-1.5 text-xs">{items.length}</Badge>}
+          </CardTitle>
+          <DelegationDialog />
+        </div>
+        {presentTypes.length > 1 && (
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="h-8 text-xs mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All types</SelectItem>
+              {presentTypes.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[400px]">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Nothing is waiting on you
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {visible.map((item) => {
+                const Icon = TYPE_ICONS[item.itemType];
+                return (
+                  <div key={item.id} className="p-3 rounded-lg bg-muted/50 border border-border">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm">{item.title}</p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Icon className="h-3 w-3" />
+                          {typeLabel(item.itemType)} • {item.requester?.fullName || 'AI Assistant'}
+                        </p>
+                      </div>
+                      {getRiskBadge(item.riskLevel)}
+                    </div>
+
+                    <ItemDetails item={item} />
+                    <ChainProgress item={item} />
+
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-2">
+                      {item.stepDueAt && (
+                        <span className={`flex items-center gap-1 ${item.overdue ? 'text-destructive' : ''}`}>
+                          <Clock className="h-3 w-3" />
+                          {item.overdue
+                            ? `Overdue by ${formatDistanceToNow(parseISO(item.stepDueAt))}`
+                            : `Due in ${formatDistanceToNow(parseISO(item.stepDueAt))}`}
+                        </span>
+                      )}
+                      {item.escalated && (
+                        <Badge variant="outline" className="text-[10px] text-destructive border-destructive/30">Escalated</Badge>
+                      )}
+                      {item.onBehalfOf && (
+                        <Badge variant="outline" className="text-[10px]">
+                          For {item.onBehalfOf.fullName || 'delegator'}
+                        </Badge>
+                      )}
+                    </div>
+
+                    <Input
+                      value={comments[item.id] || ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      placeholder="Comment (optional)"
+                      className="h-7 text-xs mb-2"
+                    />
+
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1 h-8"
+                        disabled={deciding === item.id}
+                        onClick={() => handleDecision(item, 'approved')}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 h-8"
+                        disabled={deciding === item.id}
+                        onClick={() => handleDecision(item, 'rejected')}
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserCheck, X, Loader2 } from 'lucide-react';
+import { format, parseISO, addDays } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  APPROVAL_ITEM_TYPES,
+  delegateApprovals,
+  getDelegations,
+  revokeDelegation,
+  type ApprovalDelegation,
+  type ApprovalItemType,
+} from '@/lib/approvalService';
+
+const ALL_TYPES = 'all';
+
+function scopeLabel(itemTypes: ApprovalItemType[] | null): string {
+  if (!itemTypes || itemTypes.length === 0) return 'All approvals';
+  return itemTypes.map(t => APPROVAL_ITEM_TYPES.find(o => o.value === t)?.label ?? t).join(', ');
+}
+
+// Hand approvals to someone else while away. A delegate decides on the
+// delegator's behalf and the decision is recorded against both.
+export function DelegationDialog() {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [email, setEmail] = useState('');
+  const [until, setUntil] = useState(format(addDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [scope, setScope] = useState<string>(ALL_TYPES);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadDelegations = useCallback(async () => {
+    try {
+      setDelegations(await getDelegations());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load delegations');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadDelegations();
+  }, [open, loadDelegations]);
+
+  const handleDelegate = async () => {
+    setSaving(true);
+    try {
+      await delegateApprovals({
+        delegateEmail: email.trim(),
+        // Through the end of the chosen day
+        endsAt: new Date(`${until}T23:59:59`).toISOString(),
+        itemTypes: scope === ALL_TYPES ? undefined : [scope as ApprovalItemType],
+        reason: reason.trim() || undefined,
+      });
+      toast.success(`Approvals delegated to ${email.trim()}`);
+      setEmail('');
+      setReason('');
+      loadDelegations();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delegate approvals');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegationId: string) => {
+    try {
+      await revokeDelegation(delegationId);
+      toast.success('Delegation revoked');
+      loadDelegations();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke delegation');
+    }
+  };
+
+  const given = delegations.filter(d => d.delegatorId === user?.id);
+  const received = delegations.filter(d => d.delegateId === user?.id);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          <UserCheck className="h-3 w-3 mr-1" />
+          Delegate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Delegate approvals</DialogTitle>
+          <DialogDescription>
+            Your delegate can approve or reject on your behalf until the end date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="delegate-email" className="text-xs">Delegate's email</Label>
+            <Input
+              id="delegate-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@hcltech.com"
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="delegate-until" className="text-xs">Until</Label>
+              <Input
+                id="delegate-until"
+                type="date"
+                value={until}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setUntil(e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Covers</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All approvals</SelectItem>
+                  {APPROVAL_ITEM_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="delegate-reason" className="text-xs">Reason (optional)</Label>
+            <Input
+              id="delegate-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="On leave"
+              className="h-8 text-sm"
+            />
+          </div>
+          <Button
+            className="w-full h-8"
+            size="sm"
+            disabled={saving || !email.trim() || !until}
+            onClick={handleDelegate}
+          >
+            {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Delegate
+          </Button>
+        </div>
+
+        {(given.length > 0 || received.length > 0) && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            {given.map(d => (
+              <div key={d.id} className="flex items-center justify-between gap-2 text-xs">
+                <div>
+                  <p>To <span className="font-medium">{d.delegate?.fullName || d.delegate?.email || 'Unknown'}</span></p>
+                  <p className="text-muted-foreground">
+                    {scopeLabel(d.itemTypes)} • {format(parseISO(d.startsAt), 'MMM d')} - {format(parseISO(d.endsAt), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleRevoke(d.id)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            {received.map(d => (
+              <div key={d.id} className="flex items-center justify-between gap-2 text-xs">
+                <div>
+                  <p>From <span className="font-medium">{d.delegator?.fullName || d.delegator?.email || 'Unknown'}</span></p>
+                  <p className="text-muted-foreground">
+                    {scopeLabel(d.itemTypes)} • until {format(parseISO(d.endsAt), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <Badge variant="outline" className="text-[10px]">Delegate</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
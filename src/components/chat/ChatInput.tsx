@@ -3,7 +3,9 @@ import { Send, Paperclip, Sparkles, X, FileText, Image as ImageIcon } from 'luci
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
-import { uploadDocument, type UploadedDocument } from '@/lib/documentService';
+import { uploadDocument, DOCUMENT_ACCEPT, type UploadedDocument } from '@/lib/documentService';
+import { useDocumentJobs } from '@/hooks/useDocumentJobs';
+import { DocumentJobProgress } from './DocumentJobProgress';
 import { toast } from 'sonner';
 
 interface ChatInputProps {
@@ -16,9 +18,10 @@ interface ChatInputProps {
 export function ChatInput({ onSend, isLoading = false, placeholder, onDocumentUploaded }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [isUploading, setIsUploading] = useState(false);
-  const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  const [attachedFiles, setAttachedFiles] = useState<{ file: File; doc: UploadedDocument }[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { jobs, reprocess } = useDocumentJobs(attachedFiles.map(({ doc }) => doc.id));
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -50,7 +53,7 @@ export function ChatInput({ onSend, isLoading = false, placeholder, onDocumentUp
     try {
       for (const file of Array.from(files)) {
         const doc = await uploadDocument(file);
-        setAttachedFiles(prev => [...prev, file]);
+        setAttachedFiles(prev => [...prev, { file, doc }]);
         onDocumentUploaded?.(doc);
         toast.success(`Uploaded: ${file.name}`);
       }
@@ -83,10 +86,11 @@ export function ChatInput({ onSend, isLoading = false, placeholder, onDocumentUp
       {/* Attached files */}
       {attachedFiles.length > 0 && (
         <div className="flex flex-wrap gap-2 px-1">
-          {attachedFiles.map((file, index) => (
-            <div key={index} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary/10 text-sm">
+          {attachedFiles.map(({ file, doc }, index) => (
+            <div key={doc.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary/10 text-sm">
               {getFileIcon(file.type)}
               <span className="max-w-[150px] truncate">{file.name}</span>
+              <DocumentJobProgress job={jobs[doc.id]} onRetry={() => reprocess(doc.id)} compact />
               <button onClick={() => removeFile(index)} className="text-muted-foreground hover:text-foreground">
                 <X className="w-3 h-3" />
               </button>
@@ -116,7 +120,7 @@ export function ChatInput({ onSend, isLoading = false, placeholder, onDocumentUp
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.doc,.docx,.png,.jpg,.jpeg,.gif,.webp,.txt"
+            accept={DOCUMENT_ACCEPT}
             multiple
             onChange={handleFileSelect}
             className="hidden"
@@ -1,4 +1,4 @@
-import { User, Bot, Sparkles } from 'lucide-react';
+import { User, Bot, Sparkles, Brain } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { CitationList } from './CitationCard';
 import { ActionCard } from './ActionCard';
@@ -10,6 +10,7 @@ interface ChatMessageProps {
   onCitationClick?: (citation: Citation) => void;
   onActionConfirm?: () => void;
   onActionReject?: () => void;
+  onShowTrace?: () => void;
 }
 
 function getJSONSchemaType(data: any): 'bug_ticket' | 'code_fix' | 'action' | 'generic' {
@@ -32,7 +33,8 @@ export function ChatMessage({
   message, 
   onCitationClick,
   onActionConfirm,
-  onActionReject 
+  onActionReject,
+  onShowTrace
 }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
@@ -126,15 +128,27 @@ export function ChatMessage({
         )}
 
         {/* Timestamp */}
-        <p className={cn(
-          "text-[10px] text-muted-foreground px-1",
-          isUser && "text-right"
+        <div className={cn(
+          "flex items-center gap-2 text-[10px] text-muted-foreground px-1",
+          isUser && "justify-end"
         )}>
-          {message.timestamp.toLocaleTimeString([], { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          })}
-        </p>
+          <span>
+            {message.timestamp.toLocaleTimeString([], { 
+              hour: '2-digit', 
+              minute: '2-digit' 
+            })}
+          </span>
+          {isAssistant && onShowTrace && message.agentNodes && message.agentNodes.length > 0 && !message.isStreaming && (
+            <button
+              type="button"
+              onClick={onShowTrace}
+              className="inline-flex items-center gap-1 hover:text-primary transition-colors"
+            >
+              <Brain className="w-3 h-3" />
+              View trace ({message.agentNodes.length} steps)
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
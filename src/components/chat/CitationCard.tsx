@@ -27,6 +27,11 @@ export function CitationCard({ citation, onClick }: CitationCardProps) {
               Page {citation.pageNum}
             </span>
           </div>
+          {citation.sectionTitle && (
+            <p className="text-xs font-medium text-foreground truncate mb-0.5">
+              {citation.sectionTitle}
+            </p>
+          )}
           <p className="text-xs text-muted-foreground line-clamp-2 italic">
             "{citation.snippet}"
           </p>
@@ -0,0 +1,48 @@
+import { cn } from '@/lib/utils';
+import { Clock, FileSearch, Scissors, Sparkles, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import type { DocumentJobStatus, DocumentProcessingJob } from '@/lib/documentService';
+
+interface DocumentJobProgressProps {
+  job?: DocumentProcessingJob;
+  onRetry?: () => void;
+  compact?: boolean;
+}
+
+const statusConfig: Record<DocumentJobStatus, { label: string; icon: typeof Clock; className: string }> = {
+  queued: { label: 'Queued', icon: Clock, className: 'text-muted-foreground' },
+  extracting: { label: 'Extracting', icon: FileSearch, className: 'text-primary' },
+  chunking: { label: 'Chunking', icon: Scissors, className: 'text-primary' },
+  embedding: { label: 'Embedding', icon: Sparkles, className: 'text-primary' },
+  done: { label: 'Indexed', icon: CheckCircle, className: 'text-green-600' },
+  failed: { label: 'Failed', icon: XCircle, className: 'text-destructive' },
+};
+
+export function DocumentJobProgress({ job, onRetry, compact = false }: DocumentJobProgressProps) {
+  if (!job) return null;
+
+  const { label, icon: Icon, className } = statusConfig[job.status];
+  const isActive = job.status !== 'done' && job.status !== 'failed';
+  const detail = job.status === 'embedding' && job.total_chunks > 0
+    ? `${job.embedded_chunks}/${job.total_chunks}`
+    : null;
+
+  return (
+    <div className={cn('space-y-1', compact ? 'min-w-[90px]' : 'w-full')}>
+      <div className={cn('flex items-center gap-1 text-xs', className)} title={job.error_message || undefined}>
+        <Icon className={cn('w-3 h-3 shrink-0', isActive && job.status !== 'queued' && 'animate-pulse')} />
+        <span>{label}</span>
+        {isActive && <span className="text-muted-foreground">{detail || `${job.progress}%`}</span>}
+        {job.status === 'failed' && onRetry && (
+          <button onClick={onRetry} className="ml-auto text-muted-foreground hover:text-foreground" title="Retry">
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {isActive && <Progress value={job.progress} className="h-1" />}
+      {!compact && job.status === 'failed' && job.error_message && (
+        <p className="text-xs text-destructive/80 line-clamp-2">{job.error_message}</p>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,11 @@ const nodeIcons: Record<string, React.ElementType> = {
   tool: Search,
   validator: FileCheck,
   summarizer: MessageSquare,
+  // Trace span stages
+  safety: Shield,
+  patterns: Brain,
+  retrieval: Database,
+  model: MessageSquare,
 };
 
 const nodeColors: Record<AgentNodeStatus, string> = {
@@ -41,7 +46,7 @@ export function GlassBoxVisualization({ nodes, isProcessing }: GlassBoxVisualiza
   }, [nodes]);
 
   const getNodeIcon = (node: AgentNode) => {
-    const IconComponent = nodeIcons[node.id] || Brain;
+    const IconComponent = nodeIcons[node.stage ?? node.id] || (node.stage === 'tool' ? Zap : Brain);
     return IconComponent;
   };
 
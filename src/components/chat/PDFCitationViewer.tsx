@@ -1,120 +1,177 @@
-import { useState } from 'react';
-import { X, FileText, ChevronLeft, ChevronRight, Download, ZoomIn, ZoomOut } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { FileText, ChevronLeft, ChevronRight, Download, ZoomIn, ZoomOut, Loader2, Quote } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { getCitationSource, downloadDocumentFile, type CitationSource } from '@/lib/documentService';
+import { loadPdf, renderPdfPage, type HighlightRect } from '@/lib/pdfService';
+import { toast } from 'sonner';
 import type { Citation } from '@/types/agent';
 
 interface PDFCitationViewerProps {
-  citation: Citation | null;
+  citations: Citation[];
+  initialIndex?: number;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const mockDocumentPages: Record<string, Record<number, string>> = {
-  'HCL-AR-2025': {
-    1: `HCLTech Annual Report FY2025
-
-CHAIRMAN'S MESSAGE
-
-Dear Stakeholders,
-
-I am pleased to present HCLTech's Annual Report for FY2025. This year marks another milestone in our journey of sustainable growth and innovation.
-
-Key Highlights:
-• Revenue: ₹117,055 Crores ($13.84B)
-• Revenue Growth: 4.3% YoY
-• Net Income: ₹17,390 Crores
-• EBITDA Margin: 24.2%
-• Headcount: 223,420 employees across 60+ countries`,
-    2: `STRATEGIC PILLARS
-
-Our success is built on four strategic pillars:
-
-1. AI FORCE
-   • Generative AI solutions for enterprise transformation
-   • AI-powered automation and analytics
-   • Machine learning operations at scale
-
-2. CLOUDSMART
-   • Multi-cloud management and optimization
-   • Cloud-native application development
-   • Infrastructure modernization
-
-3. NEW VISTAS
-   • Digital engineering services
-   • IoT and edge computing solutions
-   • Quantum computing research`,
-    3: `FINANCIAL PERFORMANCE
-
-Revenue by Geography:
-• Americas: 62%
-• Europe: 27%
-• Rest of World: 11%
-
-Revenue by Vertical:
-• Financial Services: 21%
-• Manufacturing: 19%
-• Technology & Services: 18%
-• Life Sciences: 14%
-• Telecom & Media: 12%
-• Retail & CPG: 9%
-• Others: 7%
-
-Deal Wins: $13.4B Total Contract Value`,
-    15: `HR POLICIES & BENEFITS
-
-Leave Management:
-• Annual Leave: 20 days
-• Sick Leave: 12 days
-• Personal Leave: 5 days
-• Maternity Leave: 26 weeks
-• Paternity Leave: 2 weeks
-
-Benefits:
-• Health Insurance (Employee + Family)
-• Life Insurance (3x Annual CTC)
-• Retirement Benefits (PF + Gratuity)
-• Employee Stock Options
-• Learning & Development Budget`,
-  },
-};
-
-export function PDFCitationViewer({ citation, isOpen, onClose }: PDFCitationViewerProps) {
-  const [currentPage, setCurrentPage] = useState(citation?.pageNum || 1);
+const isPdfSource = (source: CitationSource | null) =>
+  !!source && (source.fileType === 'application/pdf' || source.storagePath.toLowerCase().endsWith('.pdf'));
+
+export function PDFCitationViewer({ citations, initialIndex = 0, isOpen, onClose }: PDFCitationViewerProps) {
+  const [citationIndex, setCitationIndex] = useState(initialIndex);
+  const [source, setSource] = useState<CitationSource | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
   const [zoom, setZoom] = useState(100);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const pdfCache = useRef(new Map<string, PDFDocumentProxy>());
+
+  const citation = citations[citationIndex] || null;
+  const totalPages = pdf?.numPages || source?.pageCount || 1;
+
+  useEffect(() => {
+    if (isOpen) setCitationIndex(initialIndex);
+  }, [isOpen, initialIndex]);
+
+  // Release parsed documents when the viewer goes away
+  useEffect(() => {
+    const cache = pdfCache.current;
+    return () => {
+      cache.forEach(doc => doc.destroy());
+      cache.clear();
+    };
+  }, []);
+
+  // Resolve the active citation to its stored file and chunk
+  useEffect(() => {
+    if (!isOpen || !citation) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      setHighlights([]);
+      try {
+        const resolved = await getCitationSource(citation);
+        if (cancelled) return;
+        setSource(resolved);
+        setCurrentPage(resolved?.pageNumber || citation.pageNum || 1);
+
+        if (!resolved || !isPdfSource(resolved)) {
+          setPdf(null);
+          return;
+        }
+
+        let doc = pdfCache.current.get(resolved.storagePath);
+        if (!doc) {
+          const file = await downloadDocumentFile(resolved.storagePath);
+          doc = await loadPdf(await file.arrayBuffer());
+          pdfCache.current.set(resolved.storagePath, doc);
+        }
+        if (!cancelled) setPdf(doc);
+      } catch (error) {
+        console.error('Failed to load cited document:', error);
+        if (!cancelled) {
+          setPdf(null);
+          setLoadError(error instanceof Error ? error.message : 'Failed to load document');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, citation]);
+
+  // Render the current page and highlight the cited span on its own page
+  useEffect(() => {
+    if (isLoading || !pdf || !canvasRef.current) return;
+    let cancelled = false;
+
+    const citedText = source && currentPage === source.pageNumber ? source.content : undefined;
+    renderPdfPage(pdf, currentPage, canvasRef.current, zoom / 100 * 1.5, citedText)
+      .then(rendered => {
+        if (cancelled) return;
+        setHighlights(rendered.highlights);
+        if (citedText && rendered.highlights.length === 0) {
+          console.warn('Cited text not found on page', currentPage);
+        }
+      })
+      .catch(error => {
+        if (!cancelled) console.error('Failed to render page:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, currentPage, zoom, source, isLoading]);
 
-  const docPages = citation ? mockDocumentPages[citation.docId] || {} : {};
-  const totalPages = Object.keys(docPages).length || 20;
-  const pageContent = docPages[currentPage] || `Page ${currentPage}\n\nDocument content for this page is not available in preview.\n\nThis would display the actual PDF content when integrated with document storage.`;
+  useEffect(() => {
+    if (highlights.length > 0) {
+      highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlights]);
 
   const handlePrevPage = () => setCurrentPage(p => Math.max(1, p - 1));
   const handleNextPage = () => setCurrentPage(p => Math.min(totalPages, p + 1));
 
+  const handleDownload = async () => {
+    if (!source) return;
+    try {
+      const file = await downloadDocumentFile(source.storagePath);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = source.documentName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Download failed');
+    }
+  };
+
   if (!citation) return null;
 
+  const firstHighlight = highlights.reduce<HighlightRect | null>(
+    (top, rect) => (!top || rect.top < top.top ? rect : top),
+    null
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl h-[80vh] flex flex-col p-0">
         <DialogHeader className="px-6 py-4 border-b border-border flex flex-row items-center justify-between">
-          <div className="flex items-center gap-3">
+          <div className="flex items-center gap-3 min-w-0">
             <div className="p-2 rounded-lg bg-primary/10">
               <FileText className="w-5 h-5 text-primary" />
             </div>
-            <div>
-              <DialogTitle className="text-lg">{citation.docId}</DialogTitle>
-              <p className="text-sm text-muted-foreground">Page {currentPage} of {totalPages}</p>
+            <div className="min-w-0">
+              <DialogTitle className="text-lg truncate">{source?.documentName || citation.docId}</DialogTitle>
+              <p className="text-sm text-muted-foreground">
+                Page {currentPage} of {totalPages}
+                {citation.sectionTitle && <> · {citation.sectionTitle}</>}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="ghost" size="icon" onClick={() => setZoom(z => Math.max(50, z - 25))}>
+            <Button variant="ghost" size="icon" onClick={() => setZoom(z => Math.max(50, z - 25))} disabled={!pdf}>
               <ZoomOut className="w-4 h-4" />
             </Button>
             <span className="text-sm w-12 text-center">{zoom}%</span>
-            <Button variant="ghost" size="icon" onClick={() => setZoom(z => Math.min(200, z + 25))}>
+            <Button variant="ghost" size="icon" onClick={() => setZoom(z => Math.min(200, z + 25))} disabled={!pdf}>
               <ZoomIn className="w-4 h-4" />
             </Button>
-            <Button variant="outline" size="sm" className="gap-2 ml-2">
+            <Button variant="outline" size="sm" className="gap-2 ml-2" onClick={handleDownload} disabled={!source}>
               <Download className="w-4 h-4" />
               Download
             </Button>
@@ -122,33 +179,57 @@ export function PDFCitationViewer({ citation, isOpen, onClose }: PDFCitationView
         </DialogHeader>
 
         <div className="flex-1 flex overflow-hidden">
-          {/* PDF Content */}
           <ScrollArea className="flex-1 p-6">
-            <div 
-              className="bg-white text-gray-900 p-8 rounded-lg shadow-lg min-h-full font-serif leading-relaxed"
-              style={{ fontSize: `${zoom}%` }}
-            >
-              <pre className="whitespace-pre-wrap font-serif">{pageContent}</pre>
-              
-              {/* Highlight cited snippet */}
-              {currentPage === citation.pageNum && (
-                <div className="mt-6 p-4 bg-yellow-100 border-l-4 border-yellow-500 rounded">
-                  <p className="text-sm font-medium text-yellow-800">Cited Text:</p>
-                  <p className="text-sm italic text-yellow-900 mt-1">"{citation.snippet}"</p>
+            {isLoading && (
+              <div className="flex items-center justify-center h-64 text-muted-foreground gap-2">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Loading document...
+              </div>
+            )}
+
+            {!isLoading && pdf && (
+              <div className="relative mx-auto w-fit shadow-lg rounded-sm bg-white">
+                <canvas ref={canvasRef} className="block" />
+                {highlights.map((rect, idx) => (
+                  <div
+                    key={idx}
+                    ref={rect === firstHighlight ? highlightRef : undefined}
+                    className="absolute bg-yellow-300/40 mix-blend-multiply rounded-sm pointer-events-none"
+                    style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Non-PDF sources and documents that could not be loaded show the cited passage */}
+            {!isLoading && !pdf && (
+              <div className="bg-white text-gray-900 p-8 rounded-lg shadow-lg font-serif leading-relaxed">
+                {loadError && (
+                  <p className="text-sm text-destructive font-sans mb-4">{loadError}</p>
+                )}
+                {!source && !loadError && (
+                  <p className="text-sm text-muted-foreground font-sans mb-4">
+                    The source document is not available in storage; showing the cited text.
+                  </p>
+                )}
+                <div className="p-4 bg-yellow-100 border-l-4 border-yellow-500 rounded">
+                  <p className="text-sm font-medium text-yellow-800 font-sans">Cited Text:</p>
+                  <p className="text-sm text-yellow-900 mt-1 whitespace-pre-wrap">
+                    {source?.content || citation.snippet}
+                  </p>
                 </div>
-              )}
-            </div>
+              </div>
+            )}
           </ScrollArea>
         </div>
 
         {/* Navigation Footer */}
-        <div className="px-6 py-4 border-t border-border flex items-center justify-between">
-          <Button variant="outline" onClick={handlePrevPage} disabled={currentPage <= 1} className="gap-2">
-            <ChevronLeft className="w-4 h-4" />
-            Previous
-          </Button>
+        <div className="px-6 py-4 border-t border-border flex items-center justify-between gap-4">
           <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">Go to page:</span>
+            <Button variant="outline" size="sm" onClick={handlePrevPage} disabled={!pdf || currentPage <= 1} className="gap-1">
+              <ChevronLeft className="w-4 h-4" />
+              Page
+            </Button>
             <input
               type="number"
               value={currentPage}
@@ -156,12 +237,44 @@ export function PDFCitationViewer({ citation, isOpen, onClose }: PDFCitationView
               className="w-16 px-2 py-1 text-center border rounded text-sm"
               min={1}
               max={totalPages}
+              disabled={!pdf}
             />
+            <Button variant="outline" size="sm" onClick={handleNextPage} disabled={!pdf || currentPage >= totalPages} className="gap-1">
+              Page
+              <ChevronRight className="w-4 h-4" />
+            </Button>
           </div>
-          <Button variant="outline" onClick={handleNextPage} disabled={currentPage >= totalPages} className="gap-2">
-            Next
-            <ChevronRight className="w-4 h-4" />
-          </Button>
+
+          {citations.length > 1 && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setCitationIndex(i => Math.max(0, i - 1))}
+                disabled={citationIndex === 0}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground flex items-center gap-1">
+                <Quote className="w-3 h-3" />
+                Citation {citationIndex + 1} of {citations.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setCitationIndex(i => Math.min(citations.length - 1, i + 1))}
+                disabled={citationIndex >= citations.length - 1}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          {source && currentPage !== source.pageNumber && (
+            <Button variant="link" size="sm" onClick={() => setCurrentPage(source.pageNumber)}>
+              Back to cited page
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
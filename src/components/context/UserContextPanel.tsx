@@ -1,13 +1,32 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
+import { getMyRateLimits, QUOTA_LABELS, type RateLimitStatus } from '@/lib/rateLimitService';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { User, MapPin, Building2, Calendar, Briefcase, Code, Monitor, TreePalm, HeartPulse, Clock } from 'lucide-react';
+import { User, MapPin, Building2, Calendar, Briefcase, Code, Monitor, TreePalm, HeartPulse, Clock, Gauge } from 'lucide-react';
+
+const QUOTA_REFRESH_MS = 60_000;
 
 export function UserContextPanel() {
   const { profile, role, leaveBalance } = useAuth();
+  const [quotas, setQuotas] = useState<RateLimitStatus[]>([]);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const loadQuotas = () => {
+      getMyRateLimits()
+        .then(setQuotas)
+        .catch(() => setQuotas([]));
+    };
+
+    loadQuotas();
+    const interval = setInterval(loadQuotas, QUOTA_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [profile, role]);
 
   if (!profile) {
     return null;
@@ -112,6 +131,48 @@ export function UserContextPanel() {
         </Card>
       )}
 
+      {/* Usage Quotas Card */}
+      {quotas.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Gauge className="h-4 w-4 text-primary" />
+              Usage Quotas
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {quotas.map((quota) => {
+                const full = quota.remaining >= quota.capacity;
+                return (
+                  <div key={quota.quota_class} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {QUOTA_LABELS[quota.quota_class] ?? quota.quota_class}
+                      </span>
+                      <span className="font-medium">
+                        {quota.remaining.toLocaleString()} / {quota.capacity.toLocaleString()}
+                      </span>
+                    </div>
+                    <Progress
+                      value={quota.capacity > 0 ? (quota.remaining / quota.capacity) * 100 : 0}
+                      className="h-1.5"
+                    />
+                    {!full && (
+                      <p className="text-xs text-muted-foreground">
+                        {quota.full_at
+                          ? `Full again ${formatDistanceToNow(new Date(quota.full_at), { addSuffix: true })}`
+                          : 'Does not refill automatically'}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Role-specific quick info */}
       {role === 'hr' && (
         <Card className="glass-card border-warning/30">
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  downloadAuditBundle,
+  exportAuditBundle,
+  verifyAuditLedger,
+  type LedgerVerification,
+} from '@/lib/auditService';
+
+const PROBLEM_LABELS: Record<string, string> = {
+  gap: 'Missing entries',
+  broken_link: 'Broken link',
+  hash_mismatch: 'Edited entry',
+};
+
+// Both dates are inclusive; the range sent to the server ends at the start
+// of the day after `to`
+function toRange(from: string, to: string) {
+  return {
+    from: parseISO(from).toISOString(),
+    to: addDays(parseISO(to), 1).toISOString(),
+  };
+}
+
+// Verifies the hash-chained audit ledger for a date range and exports it as
+// a signed bundle
+export function AuditLedgerCard() {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(today);
+  const [verification, setVerification] = useState<LedgerVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const rangeValid = !!from && !!to && from <= to;
+
+  const handleVerify = async () => {
+    if (!rangeValid) return;
+    setVerifying(true);
+    try {
+      const range = toRange(from, to);
+      const result = await verifyAuditLedger(range.from, range.to);
+      setVerification(result);
+      if (result.valid) {
+        toast.success('Audit ledger verified', { description: `${result.checked} entries checked` });
+      } else {
+        toast.error('Audit ledger verification failed', {
+          description: `${result.problems.length} problem(s) found`,
+        });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to verify audit ledger');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!rangeValid) return;
+    setExporting(true);
+    try {
+      const range = toRange(from, to);
+      const signed = await exportAuditBundle(range.from, range.to);
+      downloadAuditBundle(signed);
+      toast.success('Audit bundle exported', {
+        description: `${signed.bundle.entry_count} entries, signed with key ${signed.signature.key_id}`,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit bundle');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-primary" />
+          Audit Ledger
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={from}
+              max={to || today}
+              onChange={e => setFrom(e.target.value)}
+              className="h-8 w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={to}
+              min={from}
+              max={today}
+              onChange={e => setTo(e.target.value)}
+              className="h-8 w-40"
+            />
+          </div>
+          <Button size="sm" variant="outline" onClick={handleVerify} disabled={!rangeValid || verifying}>
+            {verifying && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Verify
+          </Button>
+          <Button size="sm" onClick={handleExport} disabled={!rangeValid || exporting}>
+            {exporting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+            Export Signed Bundle
+          </Button>
+        </div>
+
+        {verification && (
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              {verification.valid ? (
+                <Badge variant="default" className="gap-1">
+                  <ShieldCheck className="h-3 w-3" /> Chain intact
+                </Badge>
+              ) : (
+                <Badge variant="destructive" className="gap-1">
+                  <ShieldAlert className="h-3 w-3" /> Tampering detected
+                </Badge>
+              )}
+              <span className="text-muted-foreground">
+                {verification.checked} entries
+                {verification.first_seq !== null && ` (#${verification.first_seq}–#${verification.last_seq})`}
+              </span>
+            </div>
+            {verification.head_hash && (
+              <p className="text-xs text-muted-foreground font-mono truncate">
+                Head: {verification.head_hash}
+              </p>
+            )}
+            {verification.problems.length > 0 && (
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {verification.problems.map((p, i) => (
+                  <li key={`${p.seq}-${p.problem}-${i}`} className="text-xs flex gap-2">
+                    <span className="font-mono text-muted-foreground">#{p.seq}</span>
+                    <span className="font-medium text-destructive">{PROBLEM_LABELS[p.problem] ?? p.problem}</span>
+                    <span className="text-muted-foreground">{p.detail}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
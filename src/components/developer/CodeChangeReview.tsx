@@ -14,9 +14,20 @@ import {
   Play,
   Terminal,
   CheckCircle,
-  XCircle
+  XCircle,
+  ShieldAlert,
+  ShieldCheck
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  describeFinding,
+  scanFiles,
+  storedScan,
+  type ScanFinding,
+  type SecretScanResult
+} from "@/lib/secretScanService";
+import { decideApproval } from "@/lib/approvalService";
 import { toast } from "sonner";
 
 interface CodeProposal {
@@ -30,6 +41,7 @@ interface CodeProposal {
   risk_level: string;
   status: string;
   created_at: string;
+  secret_scan: Json | null;
 }
 
 interface CodeChangeReviewProps {
@@ -42,11 +54,51 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isApproving, setIsApproving] = useState(false);
   const [executionLog, setExecutionLog] = useState<string[]>([]);
+  const [scan, setScan] = useState<SecretScanResult | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
 
   useEffect(() => {
     fetchProposals();
   }, [ticketId]);
 
+  useEffect(() => {
+    if (!selectedProposal) {
+      setScan(null);
+      return;
+    }
+
+    const stored = storedScan(selectedProposal.secret_scan);
+    if (stored) {
+      setScan(stored);
+      return;
+    }
+
+    // Proposals recorded before scanning existed, or added outside the agent
+    let cancelled = false;
+    setScan(null);
+    setIsScanning(true);
+    scanFiles([{ path: selectedProposal.file_path, content: selectedProposal.proposed_code }])
+      .then(result => {
+        if (!cancelled) setScan(result);
+      })
+      .catch(() => {
+        if (!cancelled) setScan(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProposal]);
+
+  const findingsByLine = new Map<number, ScanFinding[]>();
+  for (const finding of scan?.findings || []) {
+    if (finding.line === null) continue;
+    findingsByLine.set(finding.line, [...(findingsByLine.get(finding.line) || []), finding]);
+  }
+
   const fetchProposals = async () => {
     try {
       let query = supabase
@@ -72,12 +124,27 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
   };
 
   const handleApprove = async (proposal: CodeProposal) => {
+    if (scan?.blocked) {
+      toast.error("This change contains secrets or forbidden files and cannot be applied");
+      return;
+    }
+
     setIsApproving(true);
     setExecutionLog([]);
     
     try {
-      const { data: userData } = await supabase.auth.getUser();
-      
+      // The proposal's approval chain may need more than one reviewer
+      const result = await decideApproval(
+        { sourceTable: 'code_change_proposals', sourceId: proposal.id },
+        'approved'
+      );
+      if (result.status !== 'approved') {
+        setExecutionLog([`⏳ Approval recorded; waiting on ${result.stepName ?? 'other reviewers'}`]);
+        toast.info("Approval recorded; more reviewers must approve before this change is applied");
+        fetchProposals();
+        return;
+      }
+
       // Simulate execution steps
       const steps = [
         "🔍 Validating code changes...",
@@ -95,12 +162,7 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
 
       const { error } = await supabase
         .from('code_change_proposals')
-        .update({
-          status: 'approved',
-          approved_by: userData.user?.id,
-          approved_at: new Date().toISOString(),
-          applied_at: new Date().toISOString()
-        })
+        .update({ applied_at: new Date().toISOString() })
         .eq('id', proposal.id);
 
       if (error) throw error;
@@ -110,7 +172,7 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
     } catch (error) {
       console.error("Error approving:", error);
       setExecutionLog(prev => [...prev, "❌ Error applying changes"]);
-      toast.error("Failed to approve changes");
+      toast.error(error instanceof Error ? error.message : "Failed to approve changes");
     } finally {
       setIsApproving(false);
     }
@@ -118,17 +180,12 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
 
   const handleReject = async (proposal: CodeProposal) => {
     try {
-      const { error } = await supabase
-        .from('code_change_proposals')
-        .update({ status: 'rejected' })
-        .eq('id', proposal.id);
-
-      if (error) throw error;
+      await decideApproval({ sourceTable: 'code_change_proposals', sourceId: proposal.id }, 'rejected');
       toast.info("Code change rejected");
       fetchProposals();
     } catch (error) {
       console.error("Error rejecting:", error);
-      toast.error("Failed to reject");
+      toast.error(error instanceof Error ? error.message : "Failed to reject");
     }
   };
 
@@ -186,6 +243,9 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
                     {proposal.status === 'rejected' && (
                       <XCircle className="h-4 w-4 text-red-500" />
                     )}
+                    {storedScan(proposal.secret_scan)?.findings.length ? (
+                      <ShieldAlert className="h-4 w-4 text-yellow-500" />
+                    ) : null}
                   </div>
                 </div>
               ))}
@@ -225,7 +285,7 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
                     <Button
                       size="sm"
                       onClick={() => handleApprove(selectedProposal)}
-                      disabled={isApproving}
+                      disabled={isApproving || isScanning || !!scan?.blocked}
                       className="bg-green-600 hover:bg-green-700"
                     >
                       <Check className="h-4 w-4 mr-1" />
@@ -236,6 +296,37 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
               </div>
             </CardHeader>
             <CardContent>
+              {isScanning && (
+                <p className="mb-3 text-sm text-muted-foreground">Scanning for secrets...</p>
+              )}
+              {scan && scan.findings.length === 0 && (
+                <div className="mb-3 flex items-center gap-2 text-sm text-green-500">
+                  <ShieldCheck className="h-4 w-4" />
+                  No secrets, forbidden paths or binary content found
+                </div>
+              )}
+              {scan && scan.findings.length > 0 && (
+                <div
+                  className={`mb-3 rounded border p-3 text-sm ${
+                    scan.blocked ? 'border-red-500/50 bg-red-500/5' : 'border-yellow-500/50 bg-yellow-500/5'
+                  }`}
+                >
+                  <div className={`flex items-center gap-2 font-medium mb-2 ${scan.blocked ? 'text-red-500' : 'text-yellow-500'}`}>
+                    <ShieldAlert className="h-4 w-4" />
+                    {scan.blocked ? "Secret scan blocked this change" : "Secret scan warnings"}
+                  </div>
+                  <ul className="space-y-1">
+                    {scan.findings.map((finding, i) => (
+                      <li key={`${finding.rule}-${finding.line}-${i}`} className="flex items-center gap-2">
+                        <Badge variant={finding.severity === 'block' ? 'destructive' : 'outline'} className="text-xs">
+                          {finding.severity === 'block' ? 'blocked' : 'review'}
+                        </Badge>
+                        <span className="font-mono text-xs">{describeFinding(finding)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               <Tabs defaultValue="diff">
                 <TabsList>
                   <TabsTrigger value="diff">Diff View</TabsTrigger>
@@ -262,12 +353,35 @@ export function CodeChangeReview({ ticketId }: CodeChangeReviewProps) {
                       )}
                       <div className="my-4 border-t border-dashed" />
                       <div className="space-y-1">
-                        {selectedProposal.proposed_code.split('\n').map((line, i) => (
-                          <div key={`new-${i}`} className="flex">
-                            <span className="w-8 text-muted-foreground text-right pr-2">{i + 1}</span>
-                            <span className="bg-green-500/10 text-green-400 flex-1 px-2">+ {line}</span>
-                          </div>
-                        ))}
+                        {selectedProposal.proposed_code.split('\n').map((line, i) => {
+                          const lineFindings = findingsByLine.get(i + 1);
+                          const lineBlocked = lineFindings?.some(f => f.severity === 'block');
+                          return (
+                            <div
+                              key={`new-${i}`}
+                              className="flex"
+                              title={lineFindings?.map(f => f.label).join(', ')}
+                            >
+                              <span className="w-8 text-muted-foreground text-right pr-2">{i + 1}</span>
+                              <span
+                                className={`flex-1 px-2 ${
+                                  lineBlocked
+                                    ? 'bg-red-500/30 text-red-300'
+                                    : lineFindings
+                                      ? 'bg-yellow-500/20 text-yellow-300'
+                                      : 'bg-green-500/10 text-green-400'
+                                }`}
+                              >
+                                + {line}
+                              </span>
+                              {lineFindings && (
+                                <ShieldAlert
+                                  className={`h-4 w-4 ml-1 shrink-0 ${lineBlocked ? 'text-red-500' : 'text-yellow-500'}`}
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
                       </div>
                     </div>
                   </ScrollArea>
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileText, RotateCcw, ShieldAlert, Trash2 } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { DocumentJobProgress } from '@/components/chat/DocumentJobProgress';
+import { useDocumentJobs } from '@/hooks/useDocumentJobs';
+import {
+  getAllDocuments,
+  deleteDocument,
+  reviewFlaggedDocument,
+  formatFileSize,
+  type UploadedDocument,
+} from '@/lib/documentService';
+
+interface DocumentLibraryPanelProps {
+  // Bump to reload the list, e.g. after an upload
+  refreshKey?: number;
+}
+
+export function DocumentLibraryPanel({ refreshKey = 0 }: DocumentLibraryPanelProps) {
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, role } = useAuth();
+  const canReview = role === 'developer' || role === 'it';
+  // Mirrors the row-level security rules for changing a document
+  const canManage = (doc: UploadedDocument) =>
+    doc.is_global ? role === 'hr' || role === 'developer' : doc.user_id === user?.id;
+  const { jobs, reprocess } = useDocumentJobs(documents.map(doc => doc.id));
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [refreshKey]);
+
+  const fetchDocuments = async () => {
+    try {
+      const data = await getAllDocuments();
+      setDocuments(data.slice(0, 20));
+    } catch (error) {
+      console.error('Error fetching documents:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (doc: UploadedDocument) => {
+    try {
+      await deleteDocument(doc.id);
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+      toast.success(`Deleted ${doc.file_name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Delete failed');
+    }
+  };
+
+  const handleReview = async (doc: UploadedDocument) => {
+    try {
+      await reviewFlaggedDocument(doc.id);
+      setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, flagged_for_review: false } : d));
+      toast.success(`Cleared review flag on ${doc.file_name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Review failed');
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileText className="h-4 w-4 text-primary" />
+          Documents
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents uploaded yet</p>
+        ) : (
+          <ScrollArea className="max-h-[320px]">
+            <div className="space-y-2">
+              {documents.map(doc => {
+                const job = jobs[doc.id];
+                const isBusy = !!job && job.status !== 'done' && job.status !== 'failed';
+                return (
+                  <div key={doc.id} className="p-2 rounded-lg border border-border space-y-1.5">
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{doc.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatFileSize(doc.file_size)} · {formatDistanceToNow(parseISO(doc.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {canManage(doc) && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Reprocess"
+                            disabled={isBusy}
+                            onClick={() => reprocess(doc.id)}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                            title="Delete"
+                            onClick={() => handleDelete(doc)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                    {doc.flagged_for_review && (
+                      <div className="flex items-center gap-1.5 text-xs text-destructive">
+                        <ShieldAlert className="h-3 w-3 shrink-0" />
+                        <span className="flex-1 truncate" title={doc.injection_rule_keys?.join(', ')}>
+                          Flagged for review: possible embedded instructions
+                        </span>
+                        {canReview && (
+                          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => handleReview(doc)}>
+                            Mark reviewed
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {job ? (
+                      <DocumentJobProgress job={job} />
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        {doc.embeddings_generated ? 'Indexed' : 'Not indexed'}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,396 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, Clock, History, Plus, ShieldCheck, UserMinus, X } from 'lucide-react';
+import { addDays, format, formatDistanceToNow, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth, type AppRole } from '@/contexts/AuthContext';
+import {
+  ELEVATED_ROLES,
+  ROLE_LABELS,
+  getMyActiveRoles,
+  getPendingRoleRequests,
+  getRoleAuditTrail,
+  grantRole,
+  listRoleAssignments,
+  reviewRoleRequest,
+  revokeRole,
+  type RoleAssignment,
+  type RoleAuditEntry,
+  type RoleChangeAction,
+  type RoleRequest,
+} from '@/lib/roleService';
+
+const GRANT_DURATIONS: { value: string; label: string; days: number | null }[] = [
+  { value: '1', label: '24 hours', days: 1 },
+  { value: '7', label: '1 week', days: 7 },
+  { value: '30', label: '30 days', days: 30 },
+  { value: '90', label: '90 days', days: 90 },
+  { value: 'permanent', label: 'No expiry', days: null },
+];
+
+const ACTION_STYLES: Record<RoleChangeAction, string> = {
+  assigned: 'bg-muted text-muted-foreground',
+  granted: 'bg-success/10 text-success border-success/30',
+  extended: 'bg-primary/10 text-primary border-primary/30',
+  revoked: 'bg-destructive/10 text-destructive border-destructive/30',
+  expired: 'bg-warning/10 text-warning border-warning/30',
+};
+
+interface GrantForm {
+  userId: string;
+  role: AppRole | '';
+  duration: string;
+  reason: string;
+}
+
+const EMPTY_GRANT: GrantForm = { userId: '', role: '', duration: '30', reason: '' };
+
+// Role administration for holders of hr, it or developer. Each reviewer can
+// only act on the roles they hold themselves; the database enforces the same.
+export function RoleManagementPanel() {
+  const { user } = useAuth();
+  const [myRoles, setMyRoles] = useState<AppRole[]>([]);
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [requests, setRequests] = useState<RoleRequest[]>([]);
+  const [audit, setAudit] = useState<RoleAuditEntry[]>([]);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [grantForm, setGrantForm] = useState<GrantForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [roles, people, pending, trail] = await Promise.all([
+        getMyActiveRoles(user.id),
+        listRoleAssignments(),
+        getPendingRoleRequests(user.id),
+        getRoleAuditTrail(),
+      ]);
+      setMyRoles(roles);
+      setAssignments(people);
+      setRequests(pending);
+      setAudit(trail);
+    } catch (error) {
+      console.error('Error loading role management data:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+
+    const channel = supabase
+      .channel('role-change-requests')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'role_change_requests' }, () => {
+        load();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [load]);
+
+  const grantableRoles = ELEVATED_ROLES.filter(r => myRoles.includes(r));
+
+  const names = useMemo(
+    () => new Map(assignments.map(a => [a.user_id, a.full_name || a.email])),
+    [assignments]
+  );
+
+  // One row per user with their active roles
+  const people = useMemo(() => {
+    const byUser = new Map<string, { userId: string; name: string; email: string; roles: RoleAssignment[] }>();
+    for (const a of assignments) {
+      const entry = byUser.get(a.user_id) || { userId: a.user_id, name: a.full_name, email: a.email, roles: [] };
+      if (a.role) entry.roles.push(a);
+      byUser.set(a.user_id, entry);
+    }
+    return [...byUser.values()];
+  }, [assignments]);
+
+  const handleReview = async (request: RoleRequest, approve: boolean) => {
+    try {
+      await reviewRoleRequest(request.id, approve, reviewNotes[request.id]);
+      toast.success(approve ? `${ROLE_LABELS[request.requested_role]} role granted` : 'Request rejected');
+      setReviewNotes(prev => {
+        const { [request.id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review request');
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!grantForm?.userId || !grantForm.role) return;
+    setSaving(true);
+    try {
+      const days = GRANT_DURATIONS.find(d => d.value === grantForm.duration)?.days ?? null;
+      const expiresAt = days ? addDays(new Date(), days).toISOString() : null;
+      await grantRole(grantForm.userId, grantForm.role, expiresAt, grantForm.reason.trim());
+      toast.success(`${ROLE_LABELS[grantForm.role]} role granted to ${names.get(grantForm.userId) || 'user'}`);
+      setGrantForm(null);
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to grant role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (assignment: RoleAssignment) => {
+    if (!assignment.role) return;
+    const reason = window.prompt(`Reason for revoking ${ROLE_LABELS[assignment.role]} from ${assignment.full_name}?`);
+    if (reason === null) return;
+    try {
+      await revokeRole(assignment.user_id, assignment.role, reason.trim());
+      toast.success('Role revoked');
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke role');
+    }
+  };
+
+  if (!user || grantableRoles.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 text-primary" />
+            Role Management
+          </span>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => setGrantForm(EMPTY_GRANT)}>
+            <Plus className="h-3 w-3 mr-1" />
+            Grant Role
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="requests">
+          <TabsList className="w-full mb-4">
+            <TabsTrigger value="requests" className="flex-1">
+              Requests
+              {requests.length > 0 && <Badge variant="secondary" className="ml-2 text-xs">{requests.length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="assignments" className="flex-1">Assignments</TabsTrigger>
+            <TabsTrigger value="audit" className="flex-1">Audit Trail</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="requests">
+            <ScrollArea className="h-[360px]">
+              {requests.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No pending role requests</p>
+              ) : (
+                <div className="space-y-3">
+                  {requests.map(request => (
+                    <div key={request.id} className="p-3 rounded-lg bg-muted/50 border border-border">
+                      <div className="flex items-start justify-between mb-2">
+                        <div>
+                          <p className="font-medium text-sm">{request.requester_name || 'Unknown'}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(parseISO(request.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Badge variant="outline">{ROLE_LABELS[request.requested_role]}</Badge>
+                          <Badge variant="secondary" className="gap-1">
+                            <Clock className="h-3 w-3" />
+                            {request.duration_days ? `${request.duration_days}d` : 'Permanent'}
+                          </Badge>
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground mb-3 italic">"{request.justification}"</p>
+                      <Input
+                        value={reviewNotes[request.id] || ''}
+                        onChange={e => setReviewNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        placeholder="Note for the requester (optional)"
+                        className="h-8 text-xs mb-2"
+                      />
+                      <div className="flex gap-2">
+                        <Button size="sm" className="flex-1 h-8" onClick={() => handleReview(request, true)}>
+                          <Check className="h-3 w-3 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1 h-8"
+                          onClick={() => handleReview(request, false)}
+                        >
+                          <X className="h-3 w-3 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="assignments">
+            <ScrollArea className="h-[360px]">
+              <div className="space-y-2">
+                {people.map(person => (
+                  <div key={person.userId} className="p-3 rounded-lg border border-border">
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm truncate">{person.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{person.email}</p>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {person.roles.map(assignment => {
+                        const canRevoke = assignment.role !== 'employee'
+                          && grantableRoles.includes(assignment.role as AppRole)
+                          && assignment.user_id !== user.id;
+                        return (
+                          <Badge key={assignment.role} variant="outline" className="gap-1">
+                            {ROLE_LABELS[assignment.role as AppRole]}
+                            {assignment.expires_at && (
+                              <span className="text-muted-foreground">
+                                · until {format(parseISO(assignment.expires_at), 'MMM d')}
+                              </span>
+                            )}
+                            {canRevoke && (
+                              <button
+                                type="button"
+                                className="ml-1 text-muted-foreground hover:text-destructive"
+                                onClick={() => handleRevoke(assignment)}
+                                aria-label="Revoke role"
+                              >
+                                <UserMinus className="h-3 w-3" />
+                              </button>
+                            )}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <ScrollArea className="h-[360px]">
+              {audit.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No role changes recorded</p>
+              ) : (
+                <div className="space-y-2">
+                  {audit.map(entry => (
+                    <div key={entry.id} className="flex items-start gap-3 pb-2 border-b border-border last:border-0">
+                      <History className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="font-medium truncate">{names.get(entry.user_id) || 'Unknown user'}</span>
+                          <Badge className={`text-xs ${ACTION_STYLES[entry.action]}`}>{entry.action}</Badge>
+                          <span className="text-muted-foreground">{ROLE_LABELS[entry.role]}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.actor_id && entry.actor_id !== entry.user_id && `by ${names.get(entry.actor_id) || 'unknown'} · `}
+                          {format(parseISO(entry.created_at), 'MMM d, yyyy HH:mm')}
+                          {entry.expires_at && ` · expires ${format(parseISO(entry.expires_at), 'MMM d, yyyy')}`}
+                        </p>
+                        {entry.reason && <p className="text-xs italic text-muted-foreground">"{entry.reason}"</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={grantForm !== null} onOpenChange={open => !open && setGrantForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Grant Role</DialogTitle>
+            <DialogDescription>
+              You can grant roles you hold. Granting a role someone already has replaces its expiry.
+            </DialogDescription>
+          </DialogHeader>
+          {grantForm && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>User</Label>
+                <Select value={grantForm.userId} onValueChange={v => setGrantForm({ ...grantForm, userId: v })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {people.filter(p => p.userId !== user.id).map(p => (
+                      <SelectItem key={p.userId} value={p.userId}>{p.name} ({p.email})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Role</Label>
+                  <Select value={grantForm.role} onValueChange={v => setGrantForm({ ...grantForm, role: v as AppRole })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select role" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {grantableRoles.map(r => (
+                        <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Duration</Label>
+                  <Select value={grantForm.duration} onValueChange={v => setGrantForm({ ...grantForm, duration: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GRANT_DURATIONS.map(d => (
+                        <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Reason</Label>
+                <Input
+                  value={grantForm.reason}
+                  onChange={e => setGrantForm({ ...grantForm, reason: e.target.value })}
+                  placeholder="Why is this access needed?"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGrantForm(null)}>Cancel</Button>
+            <Button onClick={handleGrant} disabled={saving || !grantForm?.userId || !grantForm?.role}>
+              Grant
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
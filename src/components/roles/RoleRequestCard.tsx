@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyRound, Loader2, X } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth, type AppRole } from '@/contexts/AuthContext';
+import {
+  ELEVATED_ROLES,
+  ROLE_LABELS,
+  cancelRoleRequest,
+  getMyActiveRoles,
+  getMyRoleRequests,
+  requestRoleElevation,
+  type RoleRequest,
+  type RoleRequestStatus,
+} from '@/lib/roleService';
+
+const DURATIONS: { value: string; label: string; days: number | null }[] = [
+  { value: '7', label: '1 week', days: 7 },
+  { value: '30', label: '30 days', days: 30 },
+  { value: '90', label: '90 days', days: 90 },
+  { value: 'permanent', label: 'Permanent', days: null },
+];
+
+const STATUS_VARIANTS: Record<RoleRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'outline',
+};
+
+// Lets a user ask for a role they do not hold. The request is reviewed by an
+// existing holder of that role.
+export function RoleRequestCard() {
+  const { user, refreshProfile } = useAuth();
+  const [heldRoles, setHeldRoles] = useState<AppRole[]>([]);
+  const [requests, setRequests] = useState<RoleRequest[]>([]);
+  const [requestedRole, setRequestedRole] = useState<AppRole | ''>('');
+  const [duration, setDuration] = useState('30');
+  const [justification, setJustification] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // refreshProfile changes identity on every provider render
+  const refreshProfileRef = useRef(refreshProfile);
+  refreshProfileRef.current = refreshProfile;
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [roles, mine] = await Promise.all([getMyActiveRoles(user.id), getMyRoleRequests(user.id)]);
+      setHeldRoles(roles);
+      setRequests(mine);
+    } catch (error) {
+      console.error('Error loading role requests:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+    if (!user) return;
+
+    // Reviews land while the card is open; refresh the role when one does
+    const channel = supabase
+      .channel(`role-requests-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'role_change_requests', filter: `user_id=eq.${user.id}` },
+        () => {
+          load();
+          refreshProfileRef.current();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, load]);
+
+  const pendingRoles = requests.filter(r => r.status === 'pending').map(r => r.requested_role);
+  const requestableRoles = ELEVATED_ROLES.filter(r => !heldRoles.includes(r) && !pendingRoles.includes(r));
+
+  const handleSubmit = async () => {
+    if (!user || !requestedRole) return;
+    if (!justification.trim()) {
+      toast.error('Please explain why you need this role');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const days = DURATIONS.find(d => d.value === duration)?.days ?? null;
+      await requestRoleElevation(user.id, requestedRole, justification.trim(), days);
+      toast.success('Role request submitted', {
+        description: `An existing ${ROLE_LABELS[requestedRole]} will review it.`,
+      });
+      setRequestedRole('');
+      setJustification('');
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to request role');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      await cancelRoleRequest(id);
+      load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel request');
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-primary" />
+          Role Access
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-1">
+          {heldRoles.map(r => (
+            <Badge key={r} variant="outline">{ROLE_LABELS[r]}</Badge>
+          ))}
+        </div>
+
+        {requestableRoles.length > 0 && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Role</Label>
+                <Select value={requestedRole} onValueChange={v => setRequestedRole(v as AppRole)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {requestableRoles.map(r => (
+                      <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Duration</Label>
+                <Select value={duration} onValueChange={setDuration}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATIONS.map(d => (
+                      <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Textarea
+              value={justification}
+              onChange={e => setJustification(e.target.value)}
+              placeholder="Why do you need this role?"
+              className="min-h-[60px] text-sm"
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={handleSubmit}
+              disabled={!requestedRole || submitting}
+            >
+              {submitting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Request Access
+            </Button>
+          </div>
+        )}
+
+        {requests.length > 0 && (
+          <div className="space-y-2">
+            {requests.slice(0, 5).map(request => (
+              <div key={request.id} className="flex items-start justify-between gap-2 text-sm border-t border-border pt-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{ROLE_LABELS[request.requested_role]}</span>
+                    <Badge variant={STATUS_VARIANTS[request.status]} className="text-xs capitalize">
+                      {request.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(parseISO(request.created_at), { addSuffix: true })}
+                    {request.review_note && ` · ${request.review_note}`}
+                  </p>
+                </div>
+                {request.status === 'pending' && (
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => handleCancel(request.id)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,7 +30,7 @@ interface AuthContextType {
   role: AppRole | null;
   leaveBalance: LeaveBalance | null;
   loading: boolean;
-  signUp: (email: string, password: string, fullName: string, role: AppRole) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, fullName: string, requestedRole: AppRole) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
@@ -59,16 +59,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setProfile(profileData as Profile);
       }
 
-      // Fetch role
-      const { data: roleData } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', userId)
-        .single();
+      // Fetch role (highest active grant; expired grants are ignored)
+      const { data: roleData } = await supabase.rpc('get_user_role', { _user_id: userId });
       
-      if (roleData) {
-        setRole(roleData.role as AppRole);
-      }
+      setRole((roleData as AppRole | null) ?? null);
 
       // Fetch leave balance
       const { data: balanceData } = await supabase
@@ -148,7 +142,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
-  const signUp = async (email: string, password: string, fullName: string, userRole: AppRole) => {
+  const signUp = async (email: string, password: string, fullName: string, requestedRole: AppRole) => {
     try {
       const { data, error } = await supabase.auth.signUp({
         email,
@@ -169,15 +163,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         if (profileError) throw profileError;
 
-        // Create user role
+        // Everyone starts as an employee; other roles need approval
         const { error: roleError } = await supabase
           .from('user_roles')
           .insert({
             user_id: data.user.id,
-            role: userRole,
+            role: 'employee',
           });
 
         if (roleError) throw roleError;
+
+        if (requestedRole !== 'employee') {
+          const { error: requestError } = await supabase
+            .from('role_change_requests')
+            .insert({
+              user_id: data.user.id,
+              requested_role: requestedRole,
+              justification: 'Requested at sign-up',
+            });
+
+          if (requestError) console.error('Error filing role request:', requestError);
+        }
       }
 
       return { error: null };
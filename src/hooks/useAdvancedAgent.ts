@@ -1,19 +1,38 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { getFunctionHeaders, readAgentEventStream } from '@/lib/chatService';
+import {
+  controlTaskQueue,
+  executeTask as executeQueuedTask,
+  getLatestTaskRun,
+  getSessionTasks,
+  provideTaskInfo as provideQueuedTaskInfo,
+  revisePlan as revisePlanTasks,
+  runTaskQueue,
+  decideTask,
+  subscribeToTaskQueue,
+  type PlanTaskEdit,
+  type SlotQuestion,
+  type TaskRun,
+} from '@/lib/taskQueueService';
 
 export interface Task {
   id: string;
+  planId: string | null;
   order: number;
   type: string;
   description: string;
-  status: 'pending' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected';
+  status: 'pending' | 'awaiting_info' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected' | 'skipped' | 'cancelled';
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   requiresApproval: boolean;
   proposedChanges?: any;
   executionResult?: any;
   errorMessage?: string;
   dependencies?: number[];
+  parameters?: Record<string, unknown>;
+  // What the agent still needs to know before the task can run
+  questions?: SlotQuestion[];
 }
 
 export interface SafetyCheck {
@@ -40,33 +59,44 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
   const [safetyChecks, setSafetyChecks] = useState<SafetyCheck[]>([]);
   const [learnedPatterns, setLearnedPatterns] = useState<LearnedPattern[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
+  const [taskRun, setTaskRun] = useState<TaskRun | null>(null);
+  const [isRunningTasks, setIsRunningTasks] = useState(false);
   const [overallSafetyScore, setOverallSafetyScore] = useState(1.0);
 
-  // Load tasks for session
+  // Load the session's latest plan and its run
   const loadTasks = useCallback(async () => {
-    const { data, error } = await supabase
-      .from('ai_task_queue')
-      .select('*')
-      .eq('session_id', sessionId)
-      .order('task_order');
-
-    if (data) {
-      setTasks(data.map(t => ({
+    try {
+      const [queued, run] = await Promise.all([getSessionTasks(sessionId), getLatestTaskRun(sessionId)]);
+      setTasks(queued.map(t => ({
         id: t.id,
-        order: t.task_order,
-        type: t.task_type,
-        description: t.task_description,
-        status: t.status as Task['status'],
-        riskLevel: t.risk_level as Task['riskLevel'],
-        requiresApproval: t.approval_required,
-        proposedChanges: t.proposed_changes,
-        executionResult: t.execution_result,
-        errorMessage: t.error_message
+        planId: t.planId,
+        order: t.order,
+        type: t.type,
+        description: t.description,
+        status: t.status,
+        riskLevel: t.riskLevel,
+        requiresApproval: t.requiresApproval,
+        proposedChanges: t.proposedChanges,
+        executionResult: t.executionResult,
+        errorMessage: t.errorMessage ?? undefined,
+        dependencies: t.dependencies,
+        parameters: t.parameters,
+        questions: t.questions
       })));
+      setTaskRun(run && run.planId === (queued[0]?.planId ?? null) ? run : null);
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
     }
   }, [sessionId]);
 
+  // The scheduler updates task rows as it goes
+  useEffect(() => {
+    if (!sessionId) return;
+    return subscribeToTaskQueue(sessionId, () => {
+      loadTasks();
+    });
+  }, [sessionId, loadTasks]);
+
   // Load learned patterns
   const loadPatterns = useCallback(async () => {
     const { data } = await supabase
@@ -91,16 +121,18 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
 
   // Approve a task
   const approveTask = useCallback(async (taskId: string) => {
-    const { error } = await supabase
-      .from('ai_task_queue')
-      .update({ status: 'approved' })
-      .eq('id', taskId);
-
-    if (error) {
-      toast.error('Failed to approve task');
+    let result: Awaited<ReturnType<typeof decideTask>>;
+    try {
+      result = await decideTask(taskId, 'approved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve task');
       return;
     }
 
+    if (result.status !== 'approved') {
+      toast.info(`Approval recorded; waiting on ${result.stepName ?? 'other approvers'}`);
+      return;
+    }
     setTasks(prev => prev.map(t => 
       t.id === taskId ? { ...t, status: 'approved' as const } : t
     ));
@@ -109,16 +141,10 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
 
   // Reject a task
   const rejectTask = useCallback(async (taskId: string, reason?: string) => {
-    const { error } = await supabase
-      .from('ai_task_queue')
-      .update({ 
-        status: 'rejected',
-        error_message: reason || 'Rejected by user'
-      })
-      .eq('id', taskId);
-
-    if (error) {
-      toast.error('Failed to reject task');
+    try {
+      await decideTask(taskId, 'rejected', reason || 'Rejected by user');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reject task');
       return;
     }
 
@@ -139,50 +165,103 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
     toast.success(`Approved ${pendingTasks.length} tasks`);
   }, [tasks, approveTask]);
 
-  // Execute a task
+  // Execute a single task with the tool for its type
   const executeTask = useCallback(async (taskId: string) => {
     setTasks(prev => prev.map(t => 
       t.id === taskId ? { ...t, status: 'executing' as const } : t
     ));
 
     try {
-      // Update in database
-      await supabase
-        .from('ai_task_queue')
-        .update({ 
-          status: 'executing',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', taskId);
-
-      // Simulate execution (in real implementation, this would call the agent)
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Mark as completed
-      await supabase
-        .from('ai_task_queue')
-        .update({ 
-          status: 'completed',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', taskId);
-
-      setTasks(prev => prev.map(t => 
-        t.id === taskId ? { ...t, status: 'completed' as const } : t
-      ));
-
-      toast.success('Task executed successfully');
+      const outcome = await executeQueuedTask(sessionId, taskId);
+      if (outcome.success) {
+        toast.success('Task executed successfully');
+      } else {
+        toast.error(outcome.error || 'Task execution failed');
+      }
     } catch (error) {
-      setTasks(prev => prev.map(t => 
-        t.id === taskId ? { 
-          ...t, 
-          status: 'failed' as const,
-          errorMessage: error instanceof Error ? error.message : 'Unknown error'
-        } : t
-      ));
-      toast.error('Task execution failed');
+      toast.error(error instanceof Error ? error.message : 'Task execution failed');
+    } finally {
+      await loadTasks();
     }
-  }, []);
+  }, [sessionId, loadTasks]);
+
+  // Answer the questions of a task awaiting info; resolves to whether the
+  // task has everything it needs
+  const provideTaskInfo = useCallback(async (taskId: string, answers: Record<string, unknown>): Promise<boolean> => {
+    try {
+      const result = await provideQueuedTaskInfo(sessionId, taskId, answers);
+      const refused = Object.values(result.refused);
+      if (result.complete) {
+        toast.success('Task details complete');
+      } else if (refused.length > 0) {
+        toast.error(refused.join('; '));
+      } else {
+        toast.info(`${result.questions.length} more detail${result.questions.length === 1 ? '' : 's'} needed`);
+      }
+      return result.complete;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save task details');
+      return false;
+    } finally {
+      await loadTasks();
+    }
+  }, [sessionId, loadTasks]);
+
+  // Save the user's edits to a plan before it runs
+  const revisePlan = useCallback(async (edits: PlanTaskEdit[]): Promise<boolean> => {
+    const planId = tasks[0]?.planId;
+    if (!planId) return false;
+
+    try {
+      await revisePlanTasks(sessionId, planId, edits);
+      toast.success('Plan updated');
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update plan');
+      return false;
+    } finally {
+      await loadTasks();
+    }
+  }, [sessionId, tasks, loadTasks]);
+
+  // Run every ready task of the plan, resuming a paused run
+  const runAllTasks = useCallback(async () => {
+    setIsRunningTasks(true);
+    try {
+      const summary = await runTaskQueue(sessionId);
+      setTaskRun(summary.run);
+      if (summary.run.status === 'completed') {
+        toast.success(`Tasks finished: ${summary.completed} completed, ${summary.failed} failed, ${summary.skipped} skipped`);
+      } else if (summary.run.status === 'blocked') {
+        toast.info(summary.run.statusReason || 'Some tasks are waiting');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run tasks');
+    } finally {
+      setIsRunningTasks(false);
+      await loadTasks();
+    }
+  }, [sessionId, loadTasks]);
+
+  const pauseTasks = useCallback(async () => {
+    try {
+      await controlTaskQueue(sessionId, 'pause');
+      toast.info('Pausing after the tasks already running');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pause tasks');
+    }
+  }, [sessionId]);
+
+  const cancelTasks = useCallback(async () => {
+    try {
+      await controlTaskQueue(sessionId, 'cancel');
+      toast.info('Task run cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel tasks');
+    } finally {
+      await loadTasks();
+    }
+  }, [sessionId, loadTasks]);
 
   // Submit feedback
   const submitFeedback = useCallback(async (
@@ -230,14 +309,10 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/advanced-agent`,
         {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`
-          },
+          headers: await getFunctionHeaders(),
           body: JSON.stringify({
             messages: [{ role: 'user', content: message }],
             sessionId,
-            userId,
             mode
           })
         }
@@ -267,33 +342,11 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
         throw new Error('No response body');
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const content = data.choices?.[0]?.delta?.content;
-              if (content && onChunk) {
-                onChunk(content);
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
+      await readAgentEventStream(response.body, (event) => {
+        if (event.type === 'text_delta' && onChunk) {
+          onChunk(event.content);
         }
-      }
+      });
 
       // Reload tasks after processing
       await loadTasks();
@@ -304,14 +357,15 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
     } finally {
       setIsProcessing(false);
     }
-  }, [sessionId, userId, loadTasks]);
+  }, [sessionId, loadTasks]);
 
   return {
     tasks,
     safetyChecks,
     learnedPatterns,
     isProcessing,
-    isPaused,
+    taskRun,
+    isRunningTasks,
     overallSafetyScore,
     loadTasks,
     loadPatterns,
@@ -319,8 +373,13 @@ export function useAdvancedAgent(sessionId: string, userId: string) {
     rejectTask,
     approveAllTasks,
     executeTask,
+    revisePlan,
+    provideTaskInfo,
+    runAllTasks,
+    pauseTasks,
+    resumeTasks: runAllTasks,
+    cancelTasks,
     submitFeedback,
-    sendMessage,
-    setIsPaused
+    sendMessage
   };
 }
@@ -9,7 +9,8 @@ import {
   deleteChatSession,
   updateSessionTitle,
   streamChatResponse,
-  parseAIResponse,
+  createAgentStreamState,
+  applyAgentEvent,
 } from '@/lib/chatService';
 import { toast } from 'sonner';
 
@@ -90,33 +91,11 @@ export function useChatSession() {
     }
   };
 
-  const simulateAgentNodes = async () => {
-    const nodes: AgentNode[] = [
-      { id: 'intent', name: 'Intent Router', description: 'Classifying user intent', status: 'pending' },
-      { id: 'auth', name: 'Auth & RBAC', description: 'Verifying permissions', status: 'pending' },
-      { id: 'retrieve', name: 'RAG Retrieval', description: 'Searching knowledge base', status: 'pending' },
-      { id: 'planner', name: 'Planner', description: 'Planning execution steps', status: 'pending' },
-      { id: 'tool', name: 'Tool Selector', description: 'Selecting appropriate tools', status: 'pending' },
-      { id: 'validator', name: 'Schema Validator', description: 'Validating response', status: 'pending' },
-      { id: 'summarizer', name: 'Response Generator', description: 'Generating response', status: 'pending' },
-    ];
-
-    setAgentNodes([...nodes]);
-
-    const updateNode = (id: string, status: AgentNode['status']) => {
-      const node = nodes.find(n => n.id === id);
-      if (node) {
-        node.status = status;
-        setAgentNodes([...nodes]);
-      }
-    };
-
-    // Simulate node progression
-    const steps = ['intent', 'auth', 'retrieve', 'planner', 'tool', 'validator', 'summarizer'];
-    for (const step of steps) {
-      updateNode(step, 'active');
-      await new Promise(r => setTimeout(r, 200 + Math.random() * 300));
-      updateNode(step, 'complete');
+  // Reopen the reasoning trace recorded for an earlier answer
+  const showMessageTrace = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (message?.agentNodes?.length) {
+      setAgentNodes(message.agentNodes);
     }
   };
 
@@ -154,8 +133,7 @@ export function useChatSession() {
       console.error('Failed to save user message:', error);
     }
 
-    // Start agent node simulation
-    simulateAgentNodes();
+    setAgentNodes([]);
 
     // Prepare messages for API
     const chatMessages = [...messages, userMessage].map(m => ({
@@ -164,6 +142,7 @@ export function useChatSession() {
     }));
 
     let assistantContent = '';
+    let streamState = createAgentStreamState();
     const assistantId = uuidv4();
 
     // Create placeholder assistant message
@@ -174,6 +153,17 @@ export function useChatSession() {
       timestamp: new Date(),
     }]);
 
+    const buildAssistantMessage = (): Message => ({
+      id: assistantId,
+      role: 'assistant',
+      content: assistantContent,
+      timestamp: new Date(),
+      citations: streamState.citations.length > 0 ? streamState.citations : undefined,
+      action: streamState.action,
+      jsonSchemas: streamState.jsonSchemas.length > 0 ? streamState.jsonSchemas : undefined,
+      agentNodes: streamState.agentNodes.length > 0 ? streamState.agentNodes : undefined,
+    });
+
     try {
       await streamChatResponse({
         messages: chatMessages,
@@ -189,18 +179,15 @@ export function useChatSession() {
               : m
           ));
         },
+        onEvent: (event) => {
+          streamState = applyAgentEvent(streamState, event);
+          setAgentNodes(streamState.agentNodes);
+          setMessages(prev => prev.map(m =>
+            m.id === assistantId ? buildAssistantMessage() : m
+          ));
+        },
         onDone: async () => {
-          const { citations, action, jsonSchemas } = parseAIResponse(assistantContent);
-          
-          const finalMessage: Message = {
-            id: assistantId,
-            role: 'assistant',
-            content: assistantContent,
-            timestamp: new Date(),
-            citations: citations.length > 0 ? citations : undefined,
-            action: action || undefined,
-            jsonSchemas: jsonSchemas.length > 0 ? jsonSchemas : undefined,
-          };
+          const finalMessage = buildAssistantMessage();
 
           setMessages(prev => prev.map(m => 
             m.id === assistantId ? finalMessage : m
@@ -213,8 +200,8 @@ export function useChatSession() {
             console.error('Failed to save assistant message:', error);
           }
 
+          // Leave the finished trace on screen until the next message
           setIsProcessing(false);
-          setAgentNodes([]);
         },
         onError: (error) => {
           console.error('Chat error:', error);
@@ -246,6 +233,7 @@ export function useChatSession() {
     documentContext,
     setDocumentContext,
     sendMessage,
+    showMessageTrace,
     startNewChat,
     selectSession,
     deleteSession,
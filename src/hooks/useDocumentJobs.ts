@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getLatestDocumentJobs,
+  subscribeToDocumentJobs,
+  processDocument,
+  type DocumentProcessingJob,
+} from '@/lib/documentService';
+import { toast } from 'sonner';
+
+// Live processing state for a set of documents, keyed by document id
+export function useDocumentJobs(documentIds: string[]) {
+  const [jobs, setJobs] = useState<Record<string, DocumentProcessingJob>>({});
+  const idsKey = documentIds.join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setJobs({});
+      return;
+    }
+
+    let cancelled = false;
+    getLatestDocumentJobs(ids)
+      .then(latest => {
+        // Realtime events may already have delivered newer rows
+        if (!cancelled) setJobs(prev => ({ ...latest, ...prev }));
+      })
+      .catch(error => console.error('Failed to load processing jobs:', error));
+
+    const unsubscribe = subscribeToDocumentJobs(job => {
+      if (!ids.includes(job.document_id)) return;
+      setJobs(prev => {
+        const current = prev[job.document_id];
+        // Ignore late updates from a job that a newer one superseded
+        if (current && current.id !== job.id && current.created_at > job.created_at) return prev;
+        return { ...prev, [job.document_id]: job };
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [idsKey]);
+
+  const reprocess = useCallback(async (documentId: string) => {
+    try {
+      await processDocument(documentId);
+      toast.success('Document queued for processing');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reprocess document');
+    }
+  }, []);
+
+  return { jobs, reprocess };
+}
@@ -162,30 +162,54 @@ export type Database = {
           description: string | null
           id: string
           is_active: boolean | null
+          name: string
+          outcome: string
           pattern_keywords: string[] | null
           pattern_regex: string | null
           pattern_type: string
+          priority: number
+          roles: Database["public"]["Enums"]["app_role"][]
+          rule_key: string
           severity: string | null
+          targets: string[]
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
           created_at?: string
           description?: string | null
           id?: string
           is_active?: boolean | null
+          name: string
+          outcome?: string
           pattern_keywords?: string[] | null
           pattern_regex?: string | null
           pattern_type: string
+          priority?: number
+          roles?: Database["public"]["Enums"]["app_role"][]
+          rule_key: string
           severity?: string | null
+          targets?: string[]
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
           created_at?: string
           description?: string | null
           id?: string
           is_active?: boolean | null
+          name?: string
+          outcome?: string
           pattern_keywords?: string[] | null
           pattern_regex?: string | null
           pattern_type?: string
+          priority?: number
+          roles?: Database["public"]["Enums"]["app_role"][]
+          rule_key?: string
           severity?: string | null
+          targets?: string[]
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
@@ -394,6 +418,30 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_policy_versions: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          rule_count: number
+          rules: Json
+          version: number
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          rule_count: number
+          rules: Json
+          version?: number
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          rule_count?: number
+          rules?: Json
+          version?: number
+        }
+        Relationships: []
+      }
       ai_safety_audit: {
         Row: {
           action_data: Json
@@ -456,6 +504,7 @@ export type Database = {
           execution_result: Json | null
           id: string
           parent_task_id: string | null
+          plan_id: string | null
           proposed_changes: Json | null
           risk_level: string | null
           session_id: string | null
@@ -475,6 +524,7 @@ export type Database = {
           execution_result?: Json | null
           id?: string
           parent_task_id?: string | null
+          plan_id?: string | null
           proposed_changes?: Json | null
           risk_level?: string | null
           session_id?: string | null
@@ -494,6 +544,7 @@ export type Database = {
           execution_result?: Json | null
           id?: string
           parent_task_id?: string | null
+          plan_id?: string | null
           proposed_changes?: Json | null
           risk_level?: string | null
           session_id?: string | null
@@ -522,6 +573,56 @@ export type Database = {
           },
         ]
       }
+      ai_task_runs: {
+        Row: {
+          concurrency: number
+          created_at: string
+          finished_at: string | null
+          heartbeat_at: string
+          id: string
+          plan_id: string | null
+          session_id: string
+          status: string
+          status_reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          concurrency?: number
+          created_at?: string
+          finished_at?: string | null
+          heartbeat_at?: string
+          id?: string
+          plan_id?: string | null
+          session_id: string
+          status?: string
+          status_reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          concurrency?: number
+          created_at?: string
+          finished_at?: string | null
+          heartbeat_at?: string
+          id?: string
+          plan_id?: string | null
+          session_id?: string
+          status?: string
+          status_reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_task_runs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_tool_registry: {
         Row: {
           created_at: string
@@ -564,6 +665,205 @@ export type Database = {
         }
         Relationships: []
       }
+      approval_chains: {
+        Row: {
+          conditions: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          item_types: string[] | null
+          name: string
+          priority: number
+          steps: Json
+          updated_at: string
+        }
+        Insert: {
+          conditions?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          item_types?: string[] | null
+          name: string
+          priority?: number
+          steps: Json
+          updated_at?: string
+        }
+        Update: {
+          conditions?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          item_types?: string[] | null
+          name?: string
+          priority?: number
+          steps?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      approval_decisions: {
+        Row: {
+          approver_id: string
+          comment: string | null
+          created_at: string
+          decision: string
+          id: string
+          item_id: string
+          on_behalf_of: string | null
+          step_index: number
+        }
+        Insert: {
+          approver_id: string
+          comment?: string | null
+          created_at?: string
+          decision: string
+          id?: string
+          item_id: string
+          on_behalf_of?: string | null
+          step_index: number
+        }
+        Update: {
+          approver_id?: string
+          comment?: string | null
+          created_at?: string
+          decision?: string
+          id?: string
+          item_id?: string
+          on_behalf_of?: string | null
+          step_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_decisions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "approval_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_delegations: {
+        Row: {
+          created_at: string
+          delegate_id: string
+          delegator_id: string
+          ends_at: string
+          id: string
+          item_types: string[] | null
+          reason: string | null
+          revoked_at: string | null
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          delegate_id: string
+          delegator_id: string
+          ends_at: string
+          id?: string
+          item_types?: string[] | null
+          reason?: string | null
+          revoked_at?: string | null
+          starts_at?: string
+        }
+        Update: {
+          created_at?: string
+          delegate_id?: string
+          delegator_id?: string
+          ends_at?: string
+          id?: string
+          item_types?: string[] | null
+          reason?: string | null
+          revoked_at?: string | null
+          starts_at?: string
+        }
+        Relationships: []
+      }
+      approval_items: {
+        Row: {
+          chain_id: string | null
+          chain_name: string
+          created_at: string
+          current_step: number
+          decided_at: string | null
+          details: Json
+          escalated_at: string | null
+          id: string
+          item_type: string
+          manager_id: string | null
+          requester_id: string | null
+          risk_level: string
+          source_id: string
+          source_table: string
+          status: string
+          step_due_at: string | null
+          step_started_at: string
+          steps: Json
+          summary: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          chain_id?: string | null
+          chain_name: string
+          created_at?: string
+          current_step?: number
+          decided_at?: string | null
+          details?: Json
+          escalated_at?: string | null
+          id?: string
+          item_type: string
+          manager_id?: string | null
+          requester_id?: string | null
+          risk_level?: string
+          source_id: string
+          source_table: string
+          status?: string
+          step_due_at?: string | null
+          step_started_at?: string
+          steps: Json
+          summary?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          chain_id?: string | null
+          chain_name?: string
+          created_at?: string
+          current_step?: number
+          decided_at?: string | null
+          details?: Json
+          escalated_at?: string | null
+          id?: string
+          item_type?: string
+          manager_id?: string | null
+          requester_id?: string | null
+          risk_level?: string
+          source_id?: string
+          source_table?: string
+          status?: string
+          step_due_at?: string | null
+          step_started_at?: string
+          steps?: Json
+          summary?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_items_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       approval_requests: {
         Row: {
           approved_at: string | null
@@ -609,9 +909,67 @@ export type Database = {
         }
         Relationships: []
       }
+      audit_ledger: {
+        Row: {
+          actor_id: string | null
+          actor_role: string | null
+          approver_id: string | null
+          arguments: Json
+          decision: string | null
+          entry_hash: string
+          event: string
+          id: string
+          prev_hash: string
+          reason: string | null
+          recorded_at: string
+          seq: number
+          session_id: string | null
+          source: string
+          source_id: string | null
+          tool: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role?: string | null
+          approver_id?: string | null
+          arguments?: Json
+          decision?: string | null
+          entry_hash?: string
+          event: string
+          id?: string
+          prev_hash?: string
+          reason?: string | null
+          recorded_at?: string
+          seq?: number
+          session_id?: string | null
+          source: string
+          source_id?: string | null
+          tool?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: string | null
+          approver_id?: string | null
+          arguments?: Json
+          decision?: string | null
+          entry_hash?: string
+          event?: string
+          id?: string
+          prev_hash?: string
+          reason?: string | null
+          recorded_at?: string
+          seq?: number
+          session_id?: string | null
+          source?: string
+          source_id?: string | null
+          tool?: string | null
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
           action_data: Json | null
+          agent_trace: Json | null
           citations: Json | null
           content: string
           created_at: string
@@ -624,6 +982,7 @@ export type Database = {
         }
         Insert: {
           action_data?: Json | null
+          agent_trace?: Json | null
           citations?: Json | null
           content: string
           created_at?: string
@@ -636,6 +995,7 @@ export type Database = {
         }
         Update: {
           action_data?: Json | null
+          agent_trace?: Json | null
           citations?: Json | null
           content?: string
           created_at?: string
@@ -703,6 +1063,7 @@ export type Database = {
           proposed_by: string
           proposed_code: string
           risk_level: string | null
+          secret_scan: Json | null
           status: string
           ticket_id: string | null
         }
@@ -719,6 +1080,7 @@ export type Database = {
           proposed_by?: string
           proposed_code: string
           risk_level?: string | null
+          secret_scan?: Json | null
           status?: string
           ticket_id?: string | null
         }
@@ -735,6 +1097,7 @@ export type Database = {
           proposed_by?: string
           proposed_code?: string
           risk_level?: string | null
+          secret_scan?: Json | null
           status?: string
           ticket_id?: string | null
         }
@@ -800,6 +1163,7 @@ export type Database = {
           migration_name: string
           migration_sql: string
           operation_type: string
+          payload_changed_at: string | null
           proposed_by: string
           risk_level: string | null
           rollback_sql: string | null
@@ -821,6 +1185,7 @@ export type Database = {
           migration_name: string
           migration_sql: string
           operation_type: string
+          payload_changed_at?: string | null
           proposed_by: string
           risk_level?: string | null
           rollback_sql?: string | null
@@ -842,6 +1207,7 @@ export type Database = {
           migration_name?: string
           migration_sql?: string
           operation_type?: string
+          payload_changed_at?: string | null
           proposed_by?: string
           risk_level?: string | null
           rollback_sql?: string | null
@@ -960,14 +1326,82 @@ export type Database = {
         }
         Relationships: []
       }
+      document_chunk_staging: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedded_at: string | null
+          embedding_model: string | null
+          embedding_vector: string | null
+          id: string
+          job_id: string
+          metadata: Json
+          page_number: number | null
+          section_title: string | null
+          token_count: number | null
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedded_at?: string | null
+          embedding_model?: string | null
+          embedding_vector?: string | null
+          id?: string
+          job_id: string
+          metadata?: Json
+          page_number?: number | null
+          section_title?: string | null
+          token_count?: number | null
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedded_at?: string | null
+          embedding_model?: string | null
+          embedding_vector?: string | null
+          id?: string
+          job_id?: string
+          metadata?: Json
+          page_number?: number | null
+          section_title?: string | null
+          token_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunk_staging_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "uploaded_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_chunk_staging_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "document_processing_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       document_chunks: {
         Row: {
           chunk_index: number
           content: string
           created_at: string
           document_id: string
+          embedded_at: string | null
           embedding: Json | null
+          embedding_model: string | null
+          embedding_vector: string | null
+          fts: unknown
           id: string
+          metadata: Json
           page_number: number | null
           section_title: string | null
           token_count: number | null
@@ -977,8 +1411,13 @@ export type Database = {
           content: string
           created_at?: string
           document_id: string
+          embedded_at?: string | null
           embedding?: Json | null
+          embedding_model?: string | null
+          embedding_vector?: string | null
+          fts?: unknown
           id?: string
+          metadata?: Json
           page_number?: number | null
           section_title?: string | null
           token_count?: number | null
@@ -988,8 +1427,13 @@ export type Database = {
           content?: string
           created_at?: string
           document_id?: string
+          embedded_at?: string | null
           embedding?: Json | null
+          embedding_model?: string | null
+          embedding_vector?: string | null
+          fts?: unknown
           id?: string
+          metadata?: Json
           page_number?: number | null
           section_title?: string | null
           token_count?: number | null
@@ -1004,6 +1448,65 @@ export type Database = {
           },
         ]
       }
+      document_processing_jobs: {
+        Row: {
+          attempts: number
+          chunking_options: Json
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          embedded_chunks: number
+          error_message: string | null
+          id: string
+          locked_until: string | null
+          progress: number
+          started_at: string | null
+          status: string
+          total_chunks: number
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          chunking_options?: Json
+          completed_at?: string | null
+          created_at?: string
+          document_id: string
+          embedded_chunks?: number
+          error_message?: string | null
+          id?: string
+          locked_until?: string | null
+          progress?: number
+          started_at?: string | null
+          status?: string
+          total_chunks?: number
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          chunking_options?: Json
+          completed_at?: string | null
+          created_at?: string
+          document_id?: string
+          embedded_chunks?: number
+          error_message?: string | null
+          id?: string
+          locked_until?: string | null
+          progress?: number
+          started_at?: string | null
+          status?: string
+          total_chunks?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_processing_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "uploaded_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_operations_log: {
         Row: {
           approved_at: string | null
@@ -1017,6 +1520,7 @@ export type Database = {
           id: string
           operation_type: string
           original_content: string | null
+          payload_changed_at: string | null
           requires_approval: boolean | null
           risk_level: string | null
           session_id: string | null
@@ -1035,6 +1539,7 @@ export type Database = {
           id?: string
           operation_type: string
           original_content?: string | null
+          payload_changed_at?: string | null
           requires_approval?: boolean | null
           risk_level?: string | null
           session_id?: string | null
@@ -1053,6 +1558,7 @@ export type Database = {
           id?: string
           operation_type?: string
           original_content?: string | null
+          payload_changed_at?: string | null
           requires_approval?: boolean | null
           risk_level?: string | null
           session_id?: string | null
@@ -1083,6 +1589,7 @@ export type Database = {
           id: string
           operation_data: Json | null
           operation_type: string
+          payload_changed_at: string | null
           pr_body: string | null
           pr_number: number | null
           pr_title: string | null
@@ -1091,6 +1598,7 @@ export type Database = {
           repo_owner: string | null
           requires_approval: boolean | null
           risk_level: string | null
+          secret_scan: Json | null
           session_id: string | null
           status: string | null
           target_branch: string | null
@@ -1109,6 +1617,7 @@ export type Database = {
           id?: string
           operation_data?: Json | null
           operation_type: string
+          payload_changed_at?: string | null
           pr_body?: string | null
           pr_number?: number | null
           pr_title?: string | null
@@ -1117,6 +1626,7 @@ export type Database = {
           repo_owner?: string | null
           requires_approval?: boolean | null
           risk_level?: string | null
+          secret_scan?: Json | null
           session_id?: string | null
           status?: string | null
           target_branch?: string | null
@@ -1135,6 +1645,7 @@ export type Database = {
           id?: string
           operation_data?: Json | null
           operation_type?: string
+          payload_changed_at?: string | null
           pr_body?: string | null
           pr_number?: number | null
           pr_title?: string | null
@@ -1143,6 +1654,7 @@ export type Database = {
           repo_owner?: string | null
           requires_approval?: boolean | null
           risk_level?: string | null
+          secret_scan?: Json | null
           session_id?: string | null
           status?: string | null
           target_branch?: string | null
@@ -1441,6 +1953,7 @@ export type Database = {
           full_name: string
           id: string
           location: string | null
+          manager_id: string | null
           updated_at: string
           user_id: string
         }
@@ -1453,6 +1966,7 @@ export type Database = {
           full_name: string
           id?: string
           location?: string | null
+          manager_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -1465,11 +1979,66 @@ export type Database = {
           full_name?: string
           id?: string
           location?: string | null
+          manager_id?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      rate_limit_buckets: {
+        Row: {
+          quota_class: string
+          tokens: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          quota_class: string
+          tokens: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          quota_class?: string
+          tokens?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      rate_limit_policies: {
+        Row: {
+          capacity: number
+          created_at: string
+          description: string | null
+          id: string
+          quota_class: string
+          refill_per_hour: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        Insert: {
+          capacity: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          quota_class: string
+          refill_per_hour: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          quota_class?: string
+          refill_per_hour?: number
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       reimbursement_requests: {
         Row: {
           amount: number
@@ -1512,6 +2081,81 @@ export type Database = {
         }
         Relationships: []
       }
+      role_change_audit: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          expires_at: string | null
+          id: string
+          reason: string | null
+          request_id: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          reason?: string | null
+          request_id?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          reason?: string | null
+          request_id?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_change_requests: {
+        Row: {
+          created_at: string
+          duration_days: number | null
+          id: string
+          justification: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration_days?: number | null
+          id?: string
+          justification: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duration_days?: number | null
+          id?: string
+          justification?: string
+          requested_role?: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       training_requests: {
         Row: {
           approved_at: string | null
@@ -1556,9 +2200,15 @@ export type Database = {
           file_name: string
           file_size: number
           file_type: string
+          flagged_at: string | null
+          flagged_for_review: boolean
           id: string
+          injection_hits: number
+          injection_rule_keys: string[]
           is_global: boolean | null
           page_count: number | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           session_id: string | null
           storage_path: string
           user_id: string | null
@@ -1570,9 +2220,15 @@ export type Database = {
           file_name: string
           file_size: number
           file_type: string
+          flagged_at?: string | null
+          flagged_for_review?: boolean
           id?: string
+          injection_hits?: number
+          injection_rule_keys?: string[]
           is_global?: boolean | null
           page_count?: number | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           session_id?: string | null
           storage_path: string
           user_id?: string | null
@@ -1584,9 +2240,15 @@ export type Database = {
           file_name?: string
           file_size?: number
           file_type?: string
+          flagged_at?: string | null
+          flagged_for_review?: boolean
           id?: string
+          injection_hits?: number
+          injection_rule_keys?: string[]
           is_global?: boolean | null
           page_count?: number | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           session_id?: string | null
           storage_path?: string
           user_id?: string | null
@@ -1604,18 +2266,24 @@ export type Database = {
       user_roles: {
         Row: {
           created_at: string
+          expires_at: string | null
+          granted_by: string | null
           id: string
           role: Database["public"]["Enums"]["app_role"]
           user_id: string
         }
         Insert: {
           created_at?: string
+          expires_at?: string | null
+          granted_by?: string | null
           id?: string
           role: Database["public"]["Enums"]["app_role"]
           user_id: string
         }
         Update: {
           created_at?: string
+          expires_at?: string | null
+          granted_by?: string | null
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
           user_id?: string
@@ -1627,10 +2295,63 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_manage_document: {
+        Args: { _document_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_global_documents: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      can_read_document: {
+        Args: { _document_id: string; _user_id: string }
+        Returns: boolean
+      }
+      consume_rate_limit: {
+        Args: {
+          p_cost?: number
+          p_force?: boolean
+          p_quota_class: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      execute_approved_migration: {
+        Args: { p_migration_id: string }
+        Returns: Json
+      }
+      expire_role_grants: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      finalize_document_processing_job: {
+        Args: { p_job_id: string }
+        Returns: number
+      }
+      get_my_rate_limits: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          capacity: number
+          description: string
+          full_at: string
+          quota_class: string
+          refill_per_hour: number
+          remaining: number
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      grant_role: {
+        Args: {
+          p_expires_at?: string
+          p_reason?: string
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1638,6 +2359,93 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_role_assignments: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          email: string
+          expires_at: string
+          full_name: string
+          granted_by: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      match_document_chunks: {
+        Args: {
+          filter_document_ids?: string[]
+          filter_session_id?: string
+          filter_user_id?: string
+          global_only?: boolean
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+          query_model: string
+        }
+        Returns: {
+          content: string
+          document_id: string
+          file_name: string
+          id: string
+          page_number: number
+          section_title: string
+          similarity: number
+        }[]
+      }
+      owns_chat_session: {
+        Args: { _session_id: string; _user_id: string }
+        Returns: boolean
+      }
+      record_document_injection_hits: {
+        Args: { p_document_id: string; p_rule_keys: string[] }
+        Returns: boolean
+      }
+      review_flagged_document: {
+        Args: { p_document_id: string }
+        Returns: undefined
+      }
+      review_role_request: {
+        Args: {
+          p_approve: boolean
+          p_expires_at?: string
+          p_note?: string
+          p_request_id: string
+        }
+        Returns: undefined
+      }
+      revoke_role: {
+        Args: {
+          p_reason?: string
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      search_document_chunks_bm25: {
+        Args: {
+          b?: number
+          filter_document_ids?: string[]
+          filter_session_id?: string
+          filter_user_id?: string
+          global_only?: boolean
+          k1?: number
+          match_count?: number
+          query_text: string
+        }
+        Returns: {
+          content: string
+          document_id: string
+          file_name: string
+          id: string
+          page_number: number
+          score: number
+          section_title: string
+        }[]
+      }
+      verify_audit_ledger: {
+        Args: { p_from?: string; p_to?: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "employee" | "hr" | "it" | "developer"
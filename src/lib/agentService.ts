@@ -1,10 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Message, Citation, ActionSchema, AgentNode, RiskLevel } from '@/types/agent';
+import type { Message, Citation, ActionSchema, RiskLevel } from '@/types/agent';
 import { HCLTECH_KNOWLEDGE } from '@/types/agent';
 
-// Simulated delay for realistic agent behavior
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 // Knowledge base for RAG simulation
 const knowledgeBase: Record<string, { answer: string; citations: Citation[] }> = {
   'revenue': {
@@ -197,67 +194,13 @@ function searchKnowledgeBase(query: string): { answer: string; citations: Citati
   return null;
 }
 
-// Main agent processing function
-export async function processMessage(
-  userMessage: string,
-  onNodeUpdate?: (nodes: AgentNode[]) => void
-): Promise<Message> {
-  const nodes: AgentNode[] = [
-    { id: 'intent', name: 'Intent Router', description: 'Classifying user intent', status: 'pending' },
-    { id: 'auth', name: 'Auth & RBAC', description: 'Verifying permissions', status: 'pending' },
-    { id: 'retrieve', name: 'RAG Retrieval', description: 'Searching knowledge base', status: 'pending' },
-    { id: 'planner', name: 'Planner', description: 'Planning execution steps', status: 'pending' },
-    { id: 'tool', name: 'Tool Selector', description: 'Selecting appropriate tools', status: 'pending' },
-    { id: 'validator', name: 'Schema Validator', description: 'Validating JSON schema', status: 'pending' },
-    { id: 'summarizer', name: 'Summarizer', description: 'Generating response', status: 'pending' },
-  ];
-
-  const updateNode = async (id: string, status: AgentNode['status']) => {
-    const node = nodes.find(n => n.id === id);
-    if (node) {
-      node.status = status;
-      onNodeUpdate?.([...nodes]);
-    }
-    await delay(300 + Math.random() * 400);
-  };
-
-  // Step 1: Intent Router
-  await updateNode('intent', 'active');
-  await delay(500);
-  await updateNode('intent', 'complete');
-
-  // Step 2: Auth Check
-  await updateNode('auth', 'active');
-  await delay(400);
-  await updateNode('auth', 'complete');
-
-  // Step 3: RAG Retrieval
-  await updateNode('retrieve', 'active');
+// Offline fallback: answers from the local knowledge base without calling the
+// agent. Reasoning traces only come from advanced-agent spans, so none is attached.
+export async function processMessage(userMessage: string): Promise<Message> {
   const ragResult = searchKnowledgeBase(userMessage);
-  await delay(600);
-  await updateNode('retrieve', 'complete');
-
-  // Step 4: Check for action intent
   const actionSchema = detectActionIntent(userMessage);
 
   if (actionSchema) {
-    // Action flow
-    await updateNode('planner', 'active');
-    await delay(400);
-    await updateNode('planner', 'complete');
-
-    await updateNode('tool', 'active');
-    await delay(300);
-    await updateNode('tool', 'complete');
-
-    await updateNode('validator', 'active');
-    await delay(400);
-    await updateNode('validator', 'complete');
-
-    await updateNode('summarizer', 'active');
-    await delay(300);
-    await updateNode('summarizer', 'complete');
-
     const riskMessage = actionSchema.riskLevel === 'low'
       ? 'This action is ready for execution.'
       : actionSchema.riskLevel === 'medium'
@@ -270,19 +213,9 @@ export async function processMessage(
       content: `I've prepared the following action for you. ${riskMessage}\n\nPlease review the details below:`,
       timestamp: new Date(),
       action: actionSchema,
-      agentNodes: nodes,
     };
   }
 
-  // Knowledge query flow
-  await updateNode('planner', 'complete');
-  await updateNode('tool', 'complete');
-  await updateNode('validator', 'complete');
-
-  await updateNode('summarizer', 'active');
-  await delay(400);
-  await updateNode('summarizer', 'complete');
-
   if (ragResult) {
     return {
       id: uuidv4(),
@@ -290,7 +223,6 @@ export async function processMessage(
       content: ragResult.answer,
       timestamp: new Date(),
       citations: ragResult.citations,
-      agentNodes: nodes,
     };
   }
 
@@ -300,6 +232,5 @@ export async function processMessage(
     role: 'assistant',
     content: "I couldn't find specific information about that in my knowledge base. Could you please rephrase your question or ask about HCLTech's financial performance, strategic initiatives, HR policies, or request a specific action?",
     timestamp: new Date(),
-    agentNodes: nodes,
   };
 }
@@ -0,0 +1,262 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/integrations/supabase/client';
+
+export type ApprovalItemType =
+  | 'leave_request'
+  | 'approval_request'
+  | 'code_change_request'
+  | 'code_change_proposal'
+  | 'github_operation'
+  | 'database_migration'
+  | 'file_operation'
+  | 'agent_task';
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export const APPROVAL_ITEM_TYPES: { value: ApprovalItemType; label: string }[] = [
+  { value: 'leave_request', label: 'Leave' },
+  { value: 'approval_request', label: 'Requests' },
+  { value: 'code_change_request', label: 'Code changes' },
+  { value: 'code_change_proposal', label: 'Code proposals' },
+  { value: 'github_operation', label: 'GitHub' },
+  { value: 'database_migration', label: 'Migrations' },
+  { value: 'file_operation', label: 'Files' },
+  { value: 'agent_task', label: 'Agent tasks' },
+];
+
+export interface ApprovalStep {
+  name: string;
+  approver: { kind: 'manager' | 'role' | 'requester'; role?: string };
+  required_approvals?: number;
+  sla_hours?: number;
+  escalate_to?: string;
+}
+
+// An item whose current step the signed-in user may decide
+export interface InboxItem {
+  id: string;
+  itemType: ApprovalItemType;
+  sourceTable: string;
+  sourceId: string;
+  title: string;
+  summary: string | null;
+  riskLevel: string;
+  details: Record<string, unknown>;
+  requester: { fullName: string; email: string } | null;
+  chainName: string;
+  steps: ApprovalStep[];
+  currentStep: number;
+  stepName: string;
+  // Who the current step is waiting on, e.g. "2 developer approvers"
+  waitingOn: string;
+  approvals: number;
+  required: number;
+  stepDueAt: string | null;
+  overdue: boolean;
+  escalated: boolean;
+  // Set when the user would decide as a delegate
+  onBehalfOf: { userId: string; fullName: string | null } | null;
+  createdAt: string;
+}
+
+export interface ApprovalDelegation {
+  id: string;
+  delegatorId: string;
+  delegateId: string;
+  delegator: { fullName: string; email: string } | null;
+  delegate: { fullName: string; email: string } | null;
+  // null covers every item type
+  itemTypes: ApprovalItemType[] | null;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+// What happened when an approved GitHub operation, migration or file
+// operation was run
+export interface ExecutionOutcome {
+  status: 'completed' | 'failed' | 'skipped';
+  message: string;
+}
+
+export interface DecisionResult {
+  status: 'pending' | ApprovalDecision | 'cancelled';
+  stepName: string | null;
+  approvals: number;
+  required: number;
+  // Set when the final approval ran the action
+  execution: ExecutionOutcome | null;
+}
+
+// Identifies an item by its id or by the row it was registered for
+export type ApprovalTarget = { itemId: string } | { sourceTable: string; sourceId: string };
+
+type Profile = { full_name: string; email: string } | null;
+
+type InboxRow = {
+  id: string;
+  item_type: ApprovalItemType;
+  source_table: string;
+  source_id: string;
+  title: string;
+  summary: string | null;
+  risk_level: string;
+  details: Record<string, unknown>;
+  requester: Profile;
+  chain_name: string;
+  steps: ApprovalStep[];
+  current_step: number;
+  step_name: string;
+  waiting_on: string;
+  approvals: number;
+  required: number;
+  step_due_at: string | null;
+  overdue: boolean;
+  escalated_at: string | null;
+  on_behalf_of: { user_id: string; full_name?: string } | null;
+  created_at: string;
+};
+
+type DelegationRow = {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  delegator: Profile;
+  delegate: Profile;
+  item_types: ApprovalItemType[] | null;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+};
+
+function toProfile(profile: Profile): { fullName: string; email: string } | null {
+  return profile ? { fullName: profile.full_name, email: profile.email } : null;
+}
+
+// Decisions, delegations and escalation run in the approvals function, which
+// checks who may act on each step
+async function invokeApprovals<T>(action: string, params: Record<string, unknown> = {}): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('approvals', {
+    body: { action, ...params },
+  });
+
+  if (error) {
+    console.error(`Approvals ${action} error:`, error);
+    throw new Error(`Failed to ${action.replace(/_/g, ' ')}: ${error.message}`);
+  }
+
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+
+  return data as T;
+}
+
+export async function getApprovalInbox(): Promise<InboxItem[]> {
+  const { items } = await invokeApprovals<{ items: InboxRow[] }>('inbox');
+  return items.map(row => ({
+    id: row.id,
+    itemType: row.item_type,
+    sourceTable: row.source_table,
+    sourceId: row.source_id,
+    title: row.title,
+    summary: row.summary,
+    riskLevel: row.risk_level,
+    details: row.details || {},
+    requester: toProfile(row.requester),
+    chainName: row.chain_name,
+    steps: row.steps,
+    currentStep: row.current_step,
+    stepName: row.step_name,
+    waitingOn: row.waiting_on,
+    approvals: row.approvals,
+    required: row.required,
+    stepDueAt: row.step_due_at,
+    overdue: row.overdue,
+    escalated: row.escalated_at !== null,
+    onBehalfOf: row.on_behalf_of
+      ? { userId: row.on_behalf_of.user_id, fullName: row.on_behalf_of.full_name ?? null }
+      : null,
+    createdAt: row.created_at,
+  }));
+}
+
+// Approve or reject the current step. The item only moves on once the step
+// has all the approvals it needs.
+export async function decideApproval(
+  target: ApprovalTarget,
+  decision: ApprovalDecision,
+  comment?: string
+): Promise<DecisionResult> {
+  const { result } = await invokeApprovals<{
+    result: {
+      status: DecisionResult['status'];
+      step_name: string | null;
+      approvals: number;
+      required: number;
+      execution: ExecutionOutcome | null;
+    };
+  }>('decide', {
+    ...('itemId' in target
+      ? { item_id: target.itemId }
+      : { source_table: target.sourceTable, source_id: target.sourceId }),
+    decision,
+    comment,
+  });
+  return {
+    status: result.status,
+    stepName: result.step_name,
+    approvals: result.approvals,
+    required: result.required,
+    execution: result.execution ?? null,
+  };
+}
+
+// Delegations the user gave or received that have not ended
+export async function getDelegations(): Promise<ApprovalDelegation[]> {
+  const { delegations } = await invokeApprovals<{ delegations: DelegationRow[] }>('delegations');
+  return delegations.map(row => ({
+    id: row.id,
+    delegatorId: row.delegator_id,
+    delegateId: row.delegate_id,
+    delegator: toProfile(row.delegator),
+    delegate: toProfile(row.delegate),
+    itemTypes: row.item_types,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    reason: row.reason,
+  }));
+}
+
+export async function delegateApprovals(input: {
+  delegateEmail: string;
+  endsAt: string;
+  startsAt?: string;
+  itemTypes?: ApprovalItemType[];
+  reason?: string;
+}): Promise<void> {
+  await invokeApprovals('delegate', {
+    delegate_email: input.delegateEmail,
+    starts_at: input.startsAt,
+    ends_at: input.endsAt,
+    item_types: input.itemTypes,
+    reason: input.reason,
+  });
+}
+
+export async function revokeDelegation(delegationId: string): Promise<void> {
+  await invokeApprovals('revoke_delegation', { delegation_id: delegationId });
+}
+
+// Watch approval items; returns an unsubscribe function. Realtime only
+// reaches users who can read the items, so the inbox also refreshes on a timer.
+export function subscribeToApprovals(onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`approvals-${uuidv4()}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'approval_items' }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
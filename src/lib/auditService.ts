@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type LedgerProblemKind = 'gap' | 'broken_link' | 'hash_mismatch';
+
+export interface LedgerProblem {
+  seq: number;
+  problem: LedgerProblemKind;
+  detail: string;
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  checked: number;
+  anchor: { seq: number; hash: string };
+  first_seq: number | null;
+  last_seq: number | null;
+  head_hash: string | null;
+  problems: LedgerProblem[];
+}
+
+export interface AuditLedgerEntry {
+  seq: number;
+  id: string;
+  recorded_at: string;
+  source: string;
+  source_id: string | null;
+  event: string;
+  actor_id: string | null;
+  actor_role: string | null;
+  session_id: string | null;
+  tool: string | null;
+  arguments: Record<string, unknown>;
+  decision: string | null;
+  approver_id: string | null;
+  reason: string | null;
+  prev_hash: string;
+  entry_hash: string;
+}
+
+export interface AuditBundle {
+  format: 'audit-bundle/v1';
+  generated_at: string;
+  generated_by: { user_id: string; email: string | null; role: string };
+  range: { from: string; to: string };
+  anchor: { seq: number; hash: string };
+  head: { seq: number; hash: string } | null;
+  entry_count: number;
+  verification: Pick<LedgerVerification, 'valid' | 'checked' | 'problems'>;
+  entries: AuditLedgerEntry[];
+}
+
+export interface SignedAuditBundle {
+  bundle: AuditBundle;
+  signature: { algorithm: 'HMAC-SHA256'; key_id: string; value: string };
+}
+
+// Walk the hash chain for entries recorded in [from, to)
+export async function verifyAuditLedger(from?: string, to?: string): Promise<LedgerVerification> {
+  const { data, error } = await supabase.rpc('verify_audit_ledger', {
+    p_from: from || undefined,
+    p_to: to || undefined,
+  });
+
+  if (error) {
+    console.error('Error verifying audit ledger:', error);
+    throw new Error(`Failed to verify audit ledger: ${error.message}`);
+  }
+
+  return data as unknown as LedgerVerification;
+}
+
+// Signed bundle of the ledger entries recorded in [from, to)
+export async function exportAuditBundle(from: string, to: string): Promise<SignedAuditBundle> {
+  const { data, error } = await supabase.functions.invoke('audit-export', {
+    body: { from, to },
+  });
+
+  if (error) {
+    console.error('Audit export error:', error);
+    throw new Error(`Failed to export audit bundle: ${error.message}`);
+  }
+
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+
+  return data as SignedAuditBundle;
+}
+
+export function downloadAuditBundle(signed: SignedAuditBundle): void {
+  const { range } = signed.bundle;
+  const blob = new Blob([JSON.stringify(signed, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `audit-bundle_${range.from.slice(0, 10)}_${range.to.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,9 +1,20 @@
 import { supabase } from '@/integrations/supabase/client';
-import type { Message, Citation, ActionSchema } from '@/types/agent';
+import { AGENT_EVENT_PROTOCOL_VERSION } from '@/types/agent';
+import type { Message, Citation, ActionSchema, AgentNode, AgentStreamEvent, TraceSpan } from '@/types/agent';
 
 // Use advanced-agent for full AI capabilities
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/advanced-agent`;
 
+// Edge functions identify the caller from the session token, so streaming
+// requests send it instead of the publishable key
+export async function getFunctionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+  };
+}
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -50,6 +61,17 @@ export async function getSessionMessages(sessionId: string): Promise<Message[]>
     timestamp: new Date(msg.created_at),
     citations: (msg.citations as unknown as Citation[]) || [],
     action: (msg.action_data as unknown as ActionSchema) || undefined,
+    agentNodes: reviveAgentTrace(msg.agent_trace),
+  }));
+}
+
+// Stored traces come back with ISO strings in place of Date objects
+function reviveAgentTrace(trace: unknown): AgentNode[] | undefined {
+  if (!Array.isArray(trace) || trace.length === 0) return undefined;
+  return (trace as Array<Omit<AgentNode, 'startTime' | 'endTime'> & { startTime?: string; endTime?: string }>).map(node => ({
+    ...node,
+    startTime: node.startTime ? new Date(node.startTime) : undefined,
+    endTime: node.endTime ? new Date(node.endTime) : undefined,
   }));
 }
 
@@ -60,6 +82,7 @@ export async function saveMessage(sessionId: string, message: Message): Promise<
     content: message.content,
     citations: JSON.parse(JSON.stringify(message.citations || [])),
     action_data: message.action ? JSON.parse(JSON.stringify(message.action)) : null,
+    agent_trace: message.agentNodes ? JSON.parse(JSON.stringify(message.agentNodes)) : null,
     risk_level: message.action?.riskLevel || null,
   }]);
   await supabase.from('chat_sessions').update({ updated_at: new Date().toISOString() }).eq('id', sessionId);
@@ -85,6 +108,41 @@ interface UserContext {
   };
 }
 
+// Read a typed agent event stream, dispatching each frame as it arrives.
+// Frames from a newer protocol version are skipped rather than guessed at.
+export async function readAgentEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AgentStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx;
+    while ((idx = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, idx).trim();
+      buffer = buffer.slice(idx + 1);
+      if (!line.startsWith("data: ")) continue;
+      const json = line.slice(6);
+      if (json === "[DONE]") return;
+
+      let frame: { v?: number } & AgentStreamEvent;
+      try {
+        frame = JSON.parse(json);
+      } catch {
+        continue;
+      }
+      if (!frame.type || (frame.v ?? 0) > AGENT_EVENT_PROTOCOL_VERSION) continue;
+      onEvent(frame);
+    }
+  }
+}
+
 export async function streamChatResponse({
   messages, 
   domain = 'general', 
@@ -92,6 +150,7 @@ export async function streamChatResponse({
   sessionId,
   userContext,
   onDelta, 
+  onEvent,
   onDone, 
   onError,
 }: {
@@ -101,21 +160,22 @@ export async function streamChatResponse({
   sessionId?: string;
   userContext?: UserContext;
   onDelta: (deltaText: string) => void;
+  onEvent?: (event: AgentStreamEvent) => void;
   onDone: () => void;
   onError?: (error: Error) => void;
 }): Promise<void> {
   try {
     const resp = await fetch(CHAT_URL, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-      },
+      headers: await getFunctionHeaders(),
       body: JSON.stringify({ messages, domain, sessionId, userContext, stream: true }),
     });
 
     if (!resp.ok) {
       const errorData = await resp.json().catch(() => ({}));
+      if (resp.status === 401) {
+        throw new Error(errorData.error || 'Please sign in again to continue.');
+      }
       if (resp.status === 429) {
         throw new Error(errorData.error || 'Rate limit exceeded. Please wait and try again.');
       }
@@ -125,30 +185,26 @@ export async function streamChatResponse({
       throw new Error(`Request failed: ${resp.status}`);
     }
 
+    // Blocked input is answered with a plain JSON body instead of a stream
+    if (resp.headers.get('Content-Type')?.includes('application/json')) {
+      const data = await resp.json();
+      throw new Error(data.message || data.error || 'Request was not processed');
+    }
+
     if (!resp.body) throw new Error('No response body');
 
-    const reader = resp.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      let idx;
-      while ((idx = buffer.indexOf("\n")) !== -1) {
-        let line = buffer.slice(0, idx).trim();
-        buffer = buffer.slice(idx + 1);
-        if (!line.startsWith("data: ")) continue;
-        const json = line.slice(6);
-        if (json === "[DONE]") { onDone(); return; }
-        try {
-          const content = JSON.parse(json).choices?.[0]?.delta?.content;
-          if (content) onDelta(content);
-        } catch {}
+    let streamError: Error | null = null;
+    await readAgentEventStream(resp.body, (event) => {
+      if (event.type === 'text_delta') {
+        onDelta(event.content);
+      } else if (event.type === 'error') {
+        streamError = new Error(event.message || 'Agent stream failed');
+      } else {
+        onEvent?.(event);
       }
-    }
+    });
+
+    if (streamError) throw streamError;
     onDone();
   } catch (error) {
     console.error('Stream chat error:', error);
@@ -156,68 +212,96 @@ export async function streamChatResponse({
   }
 }
 
-export function parseAIResponse(content: string): { citations: Citation[]; action: ActionSchema | null; jsonSchemas: any[] } {
-  const citations: Citation[] = [];
-  const jsonSchemas: any[] = [];
-  
-  // Parse [DocumentName, Page X] format
-  const docPageRegex = /\[([^\],]+),\s*Page\s*(\d+)\]/g;
-  let match;
-  while ((match = docPageRegex.exec(content)) !== null) {
-    citations.push({ 
-      docId: match[1].trim(), 
-      pageNum: parseInt(match[2]), 
-      snippet: extractSnippet(content, match.index) 
-    });
-  }
-  
-  // Also parse simple [Page X] format
-  const simplePageRegex = /\[Page\s*(\d+)\]/g;
-  while ((match = simplePageRegex.exec(content)) !== null) {
-    const exists = citations.some(c => c.pageNum === parseInt(match[1]));
-    if (!exists) {
-      citations.push({ 
-        docId: 'HCL-AR-2025', 
-        pageNum: parseInt(match[1]), 
-        snippet: extractSnippet(content, match.index) 
-      });
-    }
+// Message parts assembled from agent events while a response streams
+export interface AgentStreamState {
+  citations: Citation[];
+  action?: ActionSchema;
+  jsonSchemas: Record<string, unknown>[];
+  agentNodes: AgentNode[];
+}
+
+export function createAgentStreamState(): AgentStreamState {
+  return { citations: [], jsonSchemas: [], agentNodes: [] };
+}
+
+const STAGE_LABELS: Record<TraceSpan['stage'], string> = {
+  safety: 'Safety',
+  patterns: 'Learned Patterns',
+  retrieval: 'Retrieval',
+  model: 'Model',
+  tool: 'Tool',
+};
+
+function formatToolName(name: string): string {
+  return name.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+function spanToNode(span: TraceSpan): AgentNode {
+  const isToolSpan = span.stage === 'tool' || span.stage === 'retrieval';
+  return {
+    id: span.id,
+    name: isToolSpan ? formatToolName(span.name) : span.name,
+    description: span.detail || STAGE_LABELS[span.stage],
+    status: span.status === 'running' ? 'active' : span.status === 'ok' ? 'complete' : 'error',
+    stage: span.stage,
+    startTime: new Date(span.startedAt),
+    endTime: span.endedAt ? new Date(span.endedAt) : undefined,
+  };
+}
+
+function taskStatusToNodeStatus(status: string): AgentNode['status'] {
+  switch (status) {
+    case 'executing': return 'active';
+    case 'completed': return 'complete';
+    case 'failed':
+    case 'rejected':
+    case 'skipped': return 'error';
+    default: return 'pending';
   }
+}
+
+function upsertNode(nodes: AgentNode[], node: AgentNode): AgentNode[] {
+  const existing = nodes.find(n => n.id === node.id);
+  if (!existing) return [...nodes, node];
+  return nodes.map(n => n.id === node.id ? { ...n, ...node } : n);
+}
+
+export function applyAgentEvent(state: AgentStreamState, event: AgentStreamEvent): AgentStreamState {
+  switch (event.type) {
+    case 'span':
+      return { ...state, agentNodes: upsertNode(state.agentNodes, spanToNode(event.span)) };
+
+    case 'tool_result':
+      return event.display
+        ? { ...state, jsonSchemas: [...state.jsonSchemas, event.display.data] }
+        : state;
 
-  // Extract JSON code blocks - these are AI-generated schemas
-  const jsonBlockRegex = /```json\n([\s\S]*?)\n```/g;
-  while ((match = jsonBlockRegex.exec(content)) !== null) {
-    try {
-      const parsed = JSON.parse(match[1]);
-      jsonSchemas.push(parsed);
-    } catch (e) {
-      // Invalid JSON, skip
+    case 'citation': {
+      const { citation } = event;
+      const duplicate = state.citations.some(c =>
+        citation.chunkId ? c.chunkId === citation.chunkId : c.docId === citation.docId && c.pageNum === citation.pageNum
+      );
+      return duplicate ? state : { ...state, citations: [...state.citations, citation] };
     }
-  }
 
-  // Extract action from JSON schemas
-  let action: ActionSchema | null = null;
-  for (const schema of jsonSchemas) {
-    if (schema.action && schema.action !== 'analyze_multi_task') {
-      action = {
-        actionType: schema.action,
-        tool: schema.action,
-        parameters: schema.data || schema,
-        riskScore: schema.risk_score || 0.3,
-        riskLevel: schema.risk_level || 'low',
-        idempotencyToken: `action-${Date.now()}`
+    case 'approval_required':
+      return { ...state, action: event.action };
+
+    case 'task_update': {
+      const { task } = event;
+      const existing = state.agentNodes.find(n => n.id === `task-${task.id}`);
+      return {
+        ...state,
+        agentNodes: upsertNode(state.agentNodes, {
+          id: `task-${task.id}`,
+          name: existing?.name ?? (task.order !== undefined ? `Task ${task.order + 1}` : 'Task'),
+          description: task.description ?? existing?.description ?? task.type ?? '',
+          status: taskStatusToNodeStatus(task.status),
+        }),
       };
-      break;
     }
-  }
-  
-  return { citations, action, jsonSchemas };
-}
 
-function extractSnippet(content: string, citationIndex: number): string {
-  const start = Math.max(0, citationIndex - 100);
-  const end = citationIndex;
-  let snippet = content.slice(start, end).trim();
-  if (start > 0) snippet = '...' + snippet;
-  return snippet.replace(/\n/g, ' ').trim();
+    default:
+      return state;
+  }
 }
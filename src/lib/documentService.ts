@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { v4 as uuidv4 } from 'uuid';
+import type { Citation } from '@/types/agent';
 
 export interface UploadedDocument {
   id: string;
@@ -11,6 +12,29 @@ export interface UploadedDocument {
   embeddings_generated?: boolean;
   page_count?: number;
   created_at: string;
+  user_id?: string | null;
+  session_id?: string | null;
+  // Readable by everyone; only HR and developers can change it
+  is_global?: boolean | null;
+  // Set when retrieved chunks keep tripping prompt-injection rules
+  flagged_for_review?: boolean;
+  flagged_at?: string | null;
+  injection_rule_keys?: string[];
+}
+
+export type DocumentJobStatus = 'queued' | 'extracting' | 'chunking' | 'embedding' | 'done' | 'failed';
+
+export interface DocumentProcessingJob {
+  id: string;
+  document_id: string;
+  status: DocumentJobStatus;
+  progress: number;
+  total_chunks: number;
+  embedded_chunks: number;
+  attempts: number;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface SearchResult {
@@ -28,6 +52,12 @@ const SUPPORTED_TYPES = [
   'application/pdf',
   'application/msword',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'text/html',
+  'text/markdown',
   'image/png',
   'image/jpeg',
   'image/gif',
@@ -35,28 +65,64 @@ const SUPPORTED_TYPES = [
   'text/plain',
 ];
 
+// Browsers often report an empty or generic type for these, so the
+// extension decides the content type
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+};
+
+// Formats process-document can extract and index
+const INDEXABLE_EXTENSIONS = ['pdf', 'docx', 'pptx', 'xlsx', 'xls', 'csv', 'html', 'htm', 'md', 'markdown', 'txt'];
+
+export const DOCUMENT_ACCEPT = '.pdf,.doc,.docx,.pptx,.xlsx,.xls,.csv,.html,.htm,.md,.markdown,.png,.jpg,.jpeg,.gif,.webp,.txt';
+
+function getFileExtension(fileName: string): string {
+  return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+}
+
 // Upload a document to storage and trigger processing
 export async function uploadDocument(
   file: File,
   sessionId?: string
 ): Promise<UploadedDocument> {
-  if (!SUPPORTED_TYPES.includes(file.type) && !file.type.startsWith('image/')) {
-    throw new Error(`Unsupported file type: ${file.type}. Supported types: PDF, DOC, DOCX, PNG, JPG, GIF, WEBP, TXT`);
+  const extension = getFileExtension(file.name);
+  const contentType = EXTENSION_TYPES[extension] || file.type;
+
+  if (!SUPPORTED_TYPES.includes(contentType) && !contentType.startsWith('image/')) {
+    throw new Error(`Unsupported file type: ${file.type || extension}. Supported types: PDF, DOC, DOCX, PPTX, XLSX, CSV, HTML, MD, PNG, JPG, GIF, WEBP, TXT`);
   }
 
   if (file.size > 50 * 1024 * 1024) { // 50MB limit
     throw new Error('File size exceeds 50MB limit');
   }
 
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Sign in to upload documents');
+  }
+
+  // Storage policies only allow uploads into the uploader's own folder
   const fileId = uuidv4();
-  const fileExt = file.name.split('.').pop() || 'bin';
-  const storagePath = `public/${fileId}.${fileExt}`;
+  const fileExt = extension || 'bin';
+  const storagePath = `${user.id}/${fileId}.${fileExt}`;
 
   // Upload to storage
   const { error: uploadError } = await supabase.storage
     .from('documents')
     .upload(storagePath, file, {
       cacheControl: '3600',
+      contentType,
       upsert: false,
     });
 
@@ -76,9 +142,10 @@ export async function uploadDocument(
     .from('uploaded_documents')
     .insert({
       id: fileId,
+      user_id: user.id,
       session_id: sessionId || null,
       file_name: file.name,
-      file_type: file.type,
+      file_type: contentType,
       file_size: file.size,
       storage_path: storagePath,
       extracted_text: extractedText || null,
@@ -94,20 +161,23 @@ export async function uploadDocument(
     throw new Error(`Failed to save document metadata: ${error.message}`);
   }
 
-  // Trigger document processing for PDF files
-  if (file.type === 'application/pdf') {
-    processDocument(fileId, storagePath).catch(console.error);
+  // Trigger extraction and indexing for every format with an extractor
+  if (INDEXABLE_EXTENSIONS.includes(extension)) {
+    processDocument(fileId).catch(console.error);
   }
 
   return data as UploadedDocument;
 }
 
-// Process document (extract text, create embeddings)
-export async function processDocument(documentId: string, storagePath: string): Promise<void> {
+// Queue a processing job (extract, chunk, embed) and return its id. The job
+// runs in the background; follow it with subscribeToDocumentJobs. Calling it
+// again re-processes the document, and the current chunks stay searchable
+// until the new job swaps in its replacements.
+export async function processDocument(documentId: string): Promise<string> {
   console.log(`Processing document: ${documentId}`);
   
   const { data, error } = await supabase.functions.invoke('process-document', {
-    body: { documentId, storagePath },
+    body: { documentId },
   });
 
   if (error) {
@@ -115,7 +185,52 @@ export async function processDocument(documentId: string, storagePath: string):
     throw new Error(`Failed to process document: ${error.message}`);
   }
 
-  console.log('Document processed:', data);
+  console.log('Document processing queued:', data);
+  return data.jobId;
+}
+
+// Latest processing job for each of the given documents
+export async function getLatestDocumentJobs(documentIds: string[]): Promise<Record<string, DocumentProcessingJob>> {
+  if (documentIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('document_processing_jobs')
+    .select('id, document_id, status, progress, total_chunks, embedded_chunks, attempts, error_message, created_at, updated_at')
+    .in('document_id', documentIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching processing jobs:', error);
+    throw error;
+  }
+
+  const latest: Record<string, DocumentProcessingJob> = {};
+  for (const job of data || []) {
+    if (!latest[job.document_id]) {
+      latest[job.document_id] = job as DocumentProcessingJob;
+    }
+  }
+  return latest;
+}
+
+// Stream job inserts and updates; returns an unsubscribe function
+export function subscribeToDocumentJobs(onChange: (job: DocumentProcessingJob) => void): () => void {
+  const channel = supabase
+    .channel(`document-jobs-${uuidv4()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'document_processing_jobs' },
+      (payload) => {
+        if (payload.new && 'id' in payload.new) {
+          onChange(payload.new as DocumentProcessingJob);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
 }
 
 // Semantic search across documents
@@ -167,7 +282,17 @@ export async function getAllDocuments(): Promise<UploadedDocument[]> {
   return data || [];
 }
 
-// Delete a document and its chunks
+// Clear a prompt-injection review flag (developers and IT only)
+export async function reviewFlaggedDocument(documentId: string): Promise<void> {
+  const { error } = await supabase.rpc('review_flagged_document', { p_document_id: documentId });
+
+  if (error) {
+    console.error('Document review error:', error);
+    throw new Error(`Failed to clear review flag: ${error.message}`);
+  }
+}
+
+// Delete a document, its file and its chunks
 export async function deleteDocument(documentId: string): Promise<void> {
   // Get document info first
   const { data: doc, error: fetchError } = await supabase
@@ -180,17 +305,8 @@ export async function deleteDocument(documentId: string): Promise<void> {
     throw new Error('Document not found');
   }
 
-  // Delete chunks first
-  const { error: chunksError } = await supabase
-    .from('document_chunks')
-    .delete()
-    .eq('document_id', documentId);
-
-  if (chunksError) {
-    console.error('Chunks delete error:', chunksError);
-  }
-
-  // Delete from storage
+  // Delete from storage while the document row still vouches for the path.
+  // Chunks and jobs go with the row through ON DELETE CASCADE.
   const { error: storageError } = await supabase.storage
     .from('documents')
     .remove([doc.storage_path]);
@@ -199,25 +315,113 @@ export async function deleteDocument(documentId: string): Promise<void> {
     console.error('Storage delete error:', storageError);
   }
 
-  // Delete metadata
-  const { error } = await supabase
+  // Delete metadata. Row-level security turns a delete the caller may not
+  // make into a no-op, so check that the row actually went.
+  const { data: deleted, error } = await supabase
     .from('uploaded_documents')
     .delete()
-    .eq('id', documentId);
+    .eq('id', documentId)
+    .select('id');
 
   if (error) {
     console.error('Error deleting document:', error);
     throw error;
   }
+
+  if (!deleted || deleted.length === 0) {
+    throw new Error('You do not have permission to delete this document');
+  }
+}
+
+export interface CitationSource {
+  documentId: string;
+  documentName: string;
+  fileType: string;
+  storagePath: string;
+  pageNumber: number;
+  pageCount: number | null;
+  // Full text of the cited chunk, used to locate the span on the page
+  content: string;
 }
 
-// Get document URL
-export function getDocumentUrl(storagePath: string): string {
-  const { data } = supabase.storage
+// Resolve a citation to its stored file and the exact chunk it quotes.
+// Citations without a chunkId (older messages) fall back to the newest
+// document with the cited name.
+export async function getCitationSource(citation: Citation): Promise<CitationSource | null> {
+  if (citation.chunkId) {
+    const { data, error } = await supabase
+      .from('document_chunks')
+      .select('content, page_number, document_id, uploaded_documents!inner (file_name, file_type, storage_path, page_count)')
+      .eq('id', citation.chunkId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching cited chunk:', error);
+    }
+
+    if (data) {
+      const doc = data.uploaded_documents;
+      return {
+        documentId: data.document_id,
+        documentName: doc.file_name,
+        fileType: doc.file_type,
+        storagePath: doc.storage_path,
+        pageNumber: data.page_number || citation.pageNum,
+        pageCount: doc.page_count,
+        content: data.content,
+      };
+    }
+  }
+
+  const { data: doc, error } = await supabase
+    .from('uploaded_documents')
+    .select('id, file_name, file_type, storage_path, page_count')
+    .eq('file_name', citation.docId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching cited document:', error);
+  }
+
+  if (!doc) return null;
+
+  return {
+    documentId: doc.id,
+    documentName: doc.file_name,
+    fileType: doc.file_type,
+    storagePath: doc.storage_path,
+    pageNumber: citation.pageNum,
+    pageCount: doc.page_count,
+    content: citation.snippet,
+  };
+}
+
+// Download a stored document's bytes
+export async function downloadDocumentFile(storagePath: string): Promise<Blob> {
+  const { data, error } = await supabase.storage
     .from('documents')
-    .getPublicUrl(storagePath);
-  
-  return data.publicUrl;
+    .download(storagePath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download document: ${error?.message || 'not found'}`);
+  }
+
+  return data;
+}
+
+// Get a short-lived document URL; the bucket is private
+export async function getDocumentUrl(storagePath: string, expiresInSeconds: number = 3600): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from('documents')
+    .createSignedUrl(storagePath, expiresInSeconds);
+
+  if (error || !data) {
+    throw new Error(`Failed to create document link: ${error?.message || 'not found'}`);
+  }
+
+  return data.signedUrl;
 }
 
 // Get document processing status
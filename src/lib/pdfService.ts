@@ -0,0 +1,111 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderedPage {
+  width: number;
+  height: number;
+  highlights: HighlightRect[];
+}
+
+export async function loadPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  return pdfjsLib.getDocument({ data: new Uint8Array(data) }).promise;
+}
+
+function isTextItem(item: unknown): item is TextItem {
+  return typeof item === 'object' && item !== null && 'str' in item && 'transform' in item;
+}
+
+// Indices of the text items that contain `target`. Matching ignores
+// whitespace and case, because the stored chunk was rebuilt from the same
+// items with its own line breaks and spacing.
+export function findCitedItems(itemTexts: string[], target: string): Set<number> {
+  const compactChars: string[] = [];
+  const owners: number[] = [];
+  itemTexts.forEach((text, index) => {
+    for (const char of text) {
+      if (/\s/.test(char)) continue;
+      compactChars.push(char.toLowerCase());
+      owners.push(index);
+    }
+  });
+
+  const haystack = compactChars.join('');
+  const needle = target.replace(/\s+/g, '').toLowerCase().replace(/\.{3}$/, '');
+  const matched = new Set<number>();
+  if (!needle) return matched;
+
+  // Fall back to the opening of the chunk when the whole text does not line
+  // up (e.g. hyphenation or ligatures split differently)
+  const probes = [...new Set([needle, needle.slice(0, 400), needle.slice(0, 160), needle.slice(0, 60)])];
+  for (const probe of probes) {
+    const start = haystack.indexOf(probe);
+    if (start === -1) continue;
+    for (let i = start; i < start + probe.length; i++) {
+      matched.add(owners[i]);
+    }
+    break;
+  }
+
+  return matched;
+}
+
+// Render one page into `canvas` and return the highlight boxes for the cited
+// text in CSS pixels relative to the canvas
+export async function renderPdfPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  scale: number,
+  citedText?: string
+): Promise<RenderedPage> {
+  const page: PDFPageProxy = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const outputScale = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(viewport.height * outputScale);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  await page.render({
+    canvasContext: context,
+    viewport,
+    transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  }).promise;
+
+  const highlights: HighlightRect[] = [];
+  if (citedText) {
+    const content = await page.getTextContent();
+    const items = content.items.filter(isTextItem);
+    const cited = findCitedItems(items.map(item => item.str), citedText);
+
+    cited.forEach(index => {
+      const item = items[index];
+      const [a, b, c, d, e, f] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+      const fontHeight = Math.hypot(c, d) || Math.hypot(a, b);
+      highlights.push({
+        left: e,
+        top: f - fontHeight,
+        width: item.width * scale,
+        height: fontHeight * 1.15,
+      });
+    });
+  }
+
+  page.cleanup();
+  return { width: viewport.width, height: viewport.height, highlights };
+}
@@ -0,0 +1,145 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type PolicyOutcome = 'allow' | 'deny' | 'require_approval';
+export type PolicySeverity = 'low' | 'medium' | 'high' | 'critical';
+export type PolicyTarget = 'agent_input' | 'hr_input' | 'code' | 'sql' | 'command' | 'retrieved';
+type AppRole = Database['public']['Enums']['app_role'];
+
+export const POLICY_TARGETS: { value: PolicyTarget; label: string }[] = [
+  { value: 'agent_input', label: 'Agent input' },
+  { value: 'hr_input', label: 'HR chat input' },
+  { value: 'code', label: 'Generated code' },
+  { value: 'sql', label: 'Migration SQL' },
+  { value: 'command', label: 'CLI commands' },
+  { value: 'retrieved', label: 'Retrieved content' },
+];
+
+export const POLICY_ROLES: AppRole[] = ['employee', 'hr', 'it', 'developer'];
+
+// A guardrail rule as stored in ai_blocked_patterns
+export interface PolicyRule {
+  id?: string;
+  rule_key: string;
+  name: string;
+  pattern_type: string;
+  pattern_regex: string | null;
+  pattern_keywords: string[] | null;
+  severity: PolicySeverity;
+  outcome: PolicyOutcome;
+  targets: PolicyTarget[];
+  roles: AppRole[];
+  priority: number;
+  description: string | null;
+  is_active: boolean;
+  updated_at?: string;
+}
+
+export interface PolicyMatch {
+  ruleKey: string;
+  name: string;
+  category: string;
+  severity: PolicySeverity;
+  outcome: PolicyOutcome;
+  description: string | null;
+  matched: string;
+  exemptedBy?: string;
+}
+
+export interface PolicyDecision {
+  outcome: PolicyOutcome;
+  allowed: boolean;
+  requiresApproval: boolean;
+  matches: PolicyMatch[];
+  exempted: PolicyMatch[];
+  categories: string[];
+  score: number;
+  riskLevel: PolicySeverity;
+  version: number;
+  invalidRules: string[];
+}
+
+export interface PolicyVersion {
+  version: number;
+  rule_count: number;
+  changed_by: string | null;
+  created_at: string;
+}
+
+// All rules, including inactive ones
+export async function getPolicyRules(): Promise<PolicyRule[]> {
+  const { data, error } = await supabase
+    .from('ai_blocked_patterns')
+    .select('*')
+    .order('pattern_type', { ascending: true })
+    .order('priority', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching policy rules:', error);
+    throw error;
+  }
+
+  return (data || []) as PolicyRule[];
+}
+
+// Create or update a rule; each save publishes a new policy version
+export async function savePolicyRule(rule: PolicyRule, userId?: string): Promise<PolicyRule> {
+  const { updated_at: _updatedAt, ...fields } = rule;
+  const { data, error } = await supabase
+    .from('ai_blocked_patterns')
+    .upsert({ ...fields, updated_by: userId || null }, { onConflict: 'rule_key' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving policy rule:', error);
+    throw new Error(`Failed to save rule: ${error.message}`);
+  }
+
+  return data as PolicyRule;
+}
+
+export async function deletePolicyRule(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('ai_blocked_patterns')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting policy rule:', error);
+    throw new Error(`Failed to delete rule: ${error.message}`);
+  }
+}
+
+export async function getPolicyVersions(limit: number = 10): Promise<PolicyVersion[]> {
+  const { data, error } = await supabase
+    .from('ai_policy_versions')
+    .select('version, rule_count, changed_by, created_at')
+    .order('version', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching policy versions:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Evaluate text with the policy engine. Pass `rules` to dry-run a draft rule
+// set; omit `target` to evaluate every target.
+export async function evaluatePolicy(
+  text: string,
+  options: { target?: PolicyTarget; role?: string; rules?: PolicyRule[] } = {}
+): Promise<{ version: number; decision?: PolicyDecision; decisions: Record<PolicyTarget, PolicyDecision> }> {
+  const { data, error } = await supabase.functions.invoke('policy-evaluate', {
+    body: { text, ...options },
+  });
+
+  if (error) {
+    console.error('Policy evaluation error:', error);
+    throw new Error(`Policy evaluation failed: ${error.message}`);
+  }
+
+  return data;
+}
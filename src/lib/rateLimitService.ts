@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type QuotaClass =
+  | 'llm_tokens'
+  | 'web_search'
+  | 'github_read'
+  | 'github_write'
+  | 'database_query'
+  | 'database_migration'
+  | 'policy_check'
+  | 'secret_scan';
+
+export const QUOTA_LABELS: Record<QuotaClass, string> = {
+  llm_tokens: 'AI tokens',
+  web_search: 'Web searches',
+  github_read: 'GitHub reads',
+  github_write: 'GitHub changes',
+  database_query: 'Database queries',
+  database_migration: 'Migrations',
+  policy_check: 'Policy checks',
+  secret_scan: 'Secret scans',
+};
+
+export interface RateLimitStatus {
+  quota_class: QuotaClass;
+  capacity: number;
+  remaining: number;
+  refill_per_hour: number;
+  // When the bucket is full again; null if it never refills
+  full_at: string | null;
+  description: string | null;
+}
+
+// The caller's remaining quota for every class their role is limited on
+export async function getMyRateLimits(): Promise<RateLimitStatus[]> {
+  const { data, error } = await supabase.rpc('get_my_rate_limits');
+
+  if (error) {
+    console.error('Error fetching rate limits:', error);
+    throw new Error(`Failed to fetch rate limits: ${error.message}`);
+  }
+
+  return (data || []) as RateLimitStatus[];
+}
@@ -0,0 +1,227 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AppRole } from '@/contexts/AuthContext';
+
+export type RoleRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type RoleChangeAction = 'assigned' | 'granted' | 'extended' | 'revoked' | 'expired';
+
+// Roles that can only be granted by an existing holder
+export const ELEVATED_ROLES: AppRole[] = ['hr', 'it', 'developer'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  employee: 'Employee',
+  hr: 'HR Manager',
+  it: 'IT Support',
+  developer: 'Developer',
+};
+
+export interface RoleRequest {
+  id: string;
+  user_id: string;
+  requested_role: AppRole;
+  justification: string;
+  duration_days: number | null;
+  status: RoleRequestStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  requester_name?: string;
+}
+
+// One row per user and active role; users without a role have role = null
+export interface RoleAssignment {
+  user_id: string;
+  full_name: string;
+  email: string;
+  role: AppRole | null;
+  granted_by: string | null;
+  expires_at: string | null;
+  created_at: string | null;
+}
+
+export interface RoleAuditEntry {
+  id: string;
+  user_id: string;
+  role: AppRole;
+  action: RoleChangeAction;
+  actor_id: string | null;
+  reason: string | null;
+  expires_at: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+// Roles the user currently holds, ignoring expired grants
+export async function getMyActiveRoles(userId: string): Promise<AppRole[]> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role, expires_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching roles:', error);
+    throw error;
+  }
+
+  const now = Date.now();
+  return (data || [])
+    .filter(r => !r.expires_at || new Date(r.expires_at).getTime() > now)
+    .map(r => r.role as AppRole);
+}
+
+async function attachRequesterNames(requests: RoleRequest[]): Promise<RoleRequest[]> {
+  const userIds = [...new Set(requests.map(r => r.user_id))];
+  if (userIds.length === 0) return requests;
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('user_id, full_name')
+    .in('user_id', userIds);
+
+  const names = new Map((data || []).map(p => [p.user_id, p.full_name]));
+  return requests.map(r => ({ ...r, requester_name: names.get(r.user_id) }));
+}
+
+export async function requestRoleElevation(
+  userId: string,
+  role: AppRole,
+  justification: string,
+  durationDays: number | null
+): Promise<RoleRequest> {
+  const { data, error } = await supabase
+    .from('role_change_requests')
+    .insert({
+      user_id: userId,
+      requested_role: role,
+      justification,
+      duration_days: durationDays,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error requesting role:', error);
+    throw new Error(`Failed to request role: ${error.message}`);
+  }
+
+  return data as RoleRequest;
+}
+
+export async function getMyRoleRequests(userId: string): Promise<RoleRequest[]> {
+  const { data, error } = await supabase
+    .from('role_change_requests')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching role requests:', error);
+    throw error;
+  }
+
+  return (data || []) as RoleRequest[];
+}
+
+export async function cancelRoleRequest(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('role_change_requests')
+    .update({ status: 'cancelled' })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error cancelling role request:', error);
+    throw new Error(`Failed to cancel request: ${error.message}`);
+  }
+}
+
+// Pending requests the current user can review; RLS limits these to roles
+// they hold, and their own requests are left out
+export async function getPendingRoleRequests(reviewerId: string): Promise<RoleRequest[]> {
+  const { data, error } = await supabase
+    .from('role_change_requests')
+    .select('*')
+    .eq('status', 'pending')
+    .neq('user_id', reviewerId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pending role requests:', error);
+    throw error;
+  }
+
+  return attachRequesterNames((data || []) as RoleRequest[]);
+}
+
+export async function reviewRoleRequest(
+  id: string,
+  approve: boolean,
+  note?: string,
+  expiresAt?: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('review_role_request', {
+    p_request_id: id,
+    p_approve: approve,
+    p_note: note || undefined,
+    p_expires_at: expiresAt || undefined,
+  });
+
+  if (error) {
+    console.error('Error reviewing role request:', error);
+    throw new Error(`Failed to review request: ${error.message}`);
+  }
+}
+
+export async function listRoleAssignments(): Promise<RoleAssignment[]> {
+  const { data, error } = await supabase.rpc('list_role_assignments');
+
+  if (error) {
+    console.error('Error fetching role assignments:', error);
+    throw error;
+  }
+
+  return (data || []) as RoleAssignment[];
+}
+
+// Grant a role, or change the expiry of an existing grant
+export async function grantRole(userId: string, role: AppRole, expiresAt: string | null, reason?: string): Promise<void> {
+  const { error } = await supabase.rpc('grant_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_expires_at: expiresAt || undefined,
+    p_reason: reason || undefined,
+  });
+
+  if (error) {
+    console.error('Error granting role:', error);
+    throw new Error(`Failed to grant role: ${error.message}`);
+  }
+}
+
+export async function revokeRole(userId: string, role: AppRole, reason?: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: reason || undefined,
+  });
+
+  if (error) {
+    console.error('Error revoking role:', error);
+    throw new Error(`Failed to revoke role: ${error.message}`);
+  }
+}
+
+// Role changes visible to the current user, newest first
+export async function getRoleAuditTrail(limit: number = 100): Promise<RoleAuditEntry[]> {
+  const { data, error } = await supabase
+    .from('role_change_audit')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching role audit trail:', error);
+    throw error;
+  }
+
+  return (data || []) as RoleAuditEntry[];
+}
@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ScanFindingKind = 'provider_secret' | 'generic_secret' | 'high_entropy' | 'forbidden_path' | 'binary';
+export type ScanSeverity = 'block' | 'warn';
+
+export interface ScanFile {
+  path: string;
+  content: string;
+}
+
+// Findings carry a masked preview, never the secret itself
+export interface ScanFinding {
+  path: string;
+  kind: ScanFindingKind;
+  rule: string;
+  label: string;
+  severity: ScanSeverity;
+  line: number | null;
+  column: number | null;
+  preview: string | null;
+}
+
+export interface SecretScanResult {
+  blocked: boolean;
+  filesScanned: number;
+  findings: ScanFinding[];
+}
+
+// Scan result stored on a code proposal or GitHub operation, if any
+export function storedScan(value: Json | null | undefined): SecretScanResult | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  if (!Array.isArray(value.findings)) return null;
+  return value as unknown as SecretScanResult;
+}
+
+export async function scanFiles(files: ScanFile[]): Promise<SecretScanResult> {
+  const { data, error } = await supabase.functions.invoke('secret-scan', {
+    body: { files },
+  });
+
+  if (error) {
+    console.error('Secret scan error:', error);
+    throw new Error(`Failed to scan for secrets: ${error.message}`);
+  }
+
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+
+  return data as SecretScanResult;
+}
+
+export function describeFinding(finding: ScanFinding): string {
+  const where = finding.line ? `${finding.path}:${finding.line}` : finding.path;
+  return `${finding.label} in ${where}${finding.preview ? ` (${finding.preview})` : ''}`;
+}
@@ -52,7 +52,7 @@ export const SITE_DOCUMENTATION = {
       description: "Real-time analytics and metrics dashboard",
       component: "Dashboard",
       accessibleBy: ["hr", "it", "developer"],
-      features: ["Charts", "KPIs", "Domain Tabs"]
+      features: ["Charts", "KPIs", "Domain Tabs", "Audit Ledger Verification", "Signed Audit Export"]
     },
     "/dev-console": {
       name: "Developer Console",
@@ -98,26 +98,38 @@ export const SITE_DOCUMENTATION = {
       TicketWorkflow: "Support ticket management"
     },
     ai: {
-      TaskDecompositionPanel: "Multi-task breakdown visualization",
-      SafetyGuardrailsPanel: "Safety checks and blocked patterns",
+      TaskDecompositionPanel: "Multi-task plan review, editing and execution",
+      SafetyGuardrailsPanel: "Safety checks, policy rule editor and dry-run tester",
       FeedbackLearningPanel: "User feedback collection",
-      ApprovalWorkflowPanel: "Action approval interface",
       ToolRegistryPanel: "Available AI tools display",
       SelfLearningPanel: "AI training interface for developers",
       CapabilityRequestPanel: "New capability request management",
       DeveloperMode: "Developer-specific AI controls"
     },
     developer: {
-      CodeChangeReview: "Code diff viewer with approval",
+      CodeChangeReview: "Code diff viewer with approval and inline secret scan findings",
       GitHubIntegrationPanel: "Git operations and sync",
       CodeDiffViewer: "Side-by-side code comparison"
+    },
+    roles: {
+      RoleRequestCard: "Request an elevated role and track its review",
+      RoleManagementPanel: "Review role requests, grant time-boxed roles, revoke roles and view the role audit trail"
+    },
+    approvals: {
+      ApprovalInbox: "One inbox for everything awaiting the user's approval, with chain progress, SLA and delegation",
+      DelegationDialog: "Delegate approvals to a colleague for a date range"
+    },
+    audit: {
+      AuditLedgerCard: "Verify the hash-chained audit ledger for a date range and export it as a signed bundle"
     }
   },
 
   database: {
     tables: {
       profiles: "User profile information",
-      user_roles: "User role assignments",
+      user_roles: "User role assignments, optionally time-boxed",
+      role_change_requests: "Requests to be granted an elevated role",
+      role_change_audit: "History of every role grant, revocation and expiry",
       chat_sessions: "Chat conversation sessions",
       chat_messages: "Individual chat messages",
       leave_requests: "Leave/vacation requests",
@@ -128,20 +140,29 @@ export const SITE_DOCUMENTATION = {
       meetings: "Meeting scheduling",
       notifications: "User notifications",
       approval_requests: "Generic approval workflow",
+      approval_chains: "Multi-step approval chains and the conditions that select them",
+      approval_items: "Each request moving through its approval chain, with step SLA and escalation",
+      approval_decisions: "Every approver decision, including those made as a delegate",
+      approval_delegations: "Time-boxed hand-over of approvals to another user",
       access_requests: "System access requests",
       deployment_requests: "Code deployment requests",
       incident_reports: "IT incident reports",
       dev_tickets: "Developer bug tickets",
       code_change_proposals: "AI proposed code changes",
-      ai_task_queue: "Multi-task queue",
+      ai_task_queue: "Multi-task queue; tasks of one plan run as a dependency graph, and tasks missing details wait for the user's answers",
+      ai_task_runs: "Executions of a task plan, with pause, resume and cancel state",
       ai_tool_registry: "Available AI tools",
       ai_learned_patterns: "AI learned behaviors",
       ai_feedback: "User feedback on AI responses",
       ai_safety_audit: "Safety check logs",
-      ai_blocked_patterns: "Blocked harmful patterns",
+      audit_ledger: "Append-only, hash-chained record of safety decisions, actions, file operations and role changes",
+      ai_blocked_patterns: "Guardrail policy rules",
+      ai_policy_versions: "Published guardrail policy versions",
       ai_capability_requests: "New capability requests",
       ai_learning_sessions: "AI training sessions",
-      ai_analytics: "AI usage analytics"
+      ai_analytics: "AI usage analytics",
+      rate_limit_policies: "Per-role quota capacity and refill rate for each quota class",
+      rate_limit_buckets: "Each user's remaining quota per class"
     }
   },
 
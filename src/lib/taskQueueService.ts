@@ -0,0 +1,330 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { decideApproval, type ApprovalDecision, type DecisionResult } from '@/lib/approvalService';
+
+export type QueueTaskStatus =
+  | 'pending'
+  | 'awaiting_info'
+  | 'awaiting_approval'
+  | 'approved'
+  | 'executing'
+  | 'completed'
+  | 'failed'
+  | 'rejected'
+  | 'skipped'
+  | 'cancelled';
+
+export type TaskRunStatus = 'running' | 'paused' | 'blocked' | 'completed' | 'cancelled';
+
+// A detail a task needs before it can run, as the agent asks for it
+export interface SlotQuestion {
+  name: string;
+  label: string;
+  question: string;
+  kind: 'text' | 'date' | 'choice' | 'path' | 'paths';
+  options?: string[];
+  // Why the last answer was refused
+  error?: string;
+}
+
+export interface QueueTask {
+  id: string;
+  planId: string | null;
+  order: number;
+  type: string;
+  description: string;
+  status: QueueTaskStatus;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  requiresApproval: boolean;
+  // task_order of the tasks that must complete first
+  dependencies: number[];
+  parameters: Record<string, unknown>;
+  missingInfo: string[];
+  questions: SlotQuestion[];
+  proposedChanges: Json | null;
+  executionResult: Json | null;
+  errorMessage: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface TaskRun {
+  id: string;
+  planId: string | null;
+  status: TaskRunStatus;
+  // Why the run paused or stopped short of finishing every task
+  statusReason: string | null;
+  concurrency: number;
+}
+
+export interface TaskRunSummary {
+  run: TaskRun;
+  total: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  waiting: number;
+}
+
+// Task types the planner produces, for editing a plan by hand
+export const PLAN_TASK_TYPES: { value: string; label: string }[] = [
+  { value: 'hr_request', label: 'Leave request' },
+  { value: 'training', label: 'Training enrollment' },
+  { value: 'calculation', label: 'Calculation' },
+  { value: 'analysis', label: 'Document search' },
+  { value: 'web_search', label: 'Web search' },
+  { value: 'social_lookup', label: 'Profile lookup' },
+  { value: 'navigation', label: 'Open page' },
+  { value: 'database', label: 'Database query' },
+  { value: 'code_fix', label: 'Code fix' },
+  { value: 'code_review', label: 'Code review' },
+  { value: 'test', label: 'Tests & diagnostics' },
+  { value: 'file_operation', label: 'File operation' },
+  { value: 'git_operation', label: 'Git operation' },
+  { value: 'deployment', label: 'Deployment' },
+];
+
+// One task of an edited plan; tasks without an id are added to the plan
+export interface PlanTaskEdit {
+  id?: string;
+  order: number;
+  type: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  // order of the tasks that must complete first
+  dependencies: number[];
+}
+
+interface TaskContext {
+  dependencies?: number[];
+  missing_info?: string[];
+  questions?: SlotQuestion[];
+  parameters?: Record<string, unknown>;
+}
+
+type TaskRow = {
+  id: string;
+  plan_id: string | null;
+  task_order: number;
+  task_type: string;
+  task_description: string;
+  task_context: Json | null;
+  status: string | null;
+  risk_level: string | null;
+  approval_required: boolean | null;
+  proposed_changes: Json | null;
+  execution_result: Json | null;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+};
+
+function toQueueTask(row: TaskRow): QueueTask {
+  const context = (row.task_context || {}) as TaskContext;
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    order: row.task_order,
+    type: row.task_type,
+    description: row.task_description,
+    status: (row.status || 'pending') as QueueTaskStatus,
+    riskLevel: (row.risk_level || 'low') as QueueTask['riskLevel'],
+    requiresApproval: row.approval_required ?? false,
+    dependencies: context.dependencies || [],
+    parameters: context.parameters || {},
+    missingInfo: context.missing_info || [],
+    questions: context.questions || [],
+    proposedChanges: row.proposed_changes,
+    executionResult: row.execution_result,
+    errorMessage: row.error_message,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// Tasks of the session's most recent plan, in task order
+export async function getSessionTasks(sessionId: string): Promise<QueueTask[]> {
+  const { data, error } = await supabase
+    .from('ai_task_queue')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching tasks:', error);
+    throw new Error(`Failed to fetch tasks: ${error.message}`);
+  }
+
+  const rows = (data || []) as TaskRow[];
+  if (rows.length === 0) return [];
+
+  const planId = rows[rows.length - 1].plan_id;
+  return rows
+    .filter(row => row.plan_id === planId)
+    .map(toQueueTask)
+    .sort((a, b) => a.order - b.order);
+}
+
+export async function getLatestTaskRun(sessionId: string): Promise<TaskRun | null> {
+  const { data, error } = await supabase
+    .from('ai_task_runs')
+    .select('id, plan_id, status, status_reason, concurrency')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching task run:', error);
+    throw new Error(`Failed to fetch task run: ${error.message}`);
+  }
+
+  return data
+    ? {
+        id: data.id,
+        planId: data.plan_id,
+        status: data.status as TaskRunStatus,
+        statusReason: data.status_reason,
+        concurrency: data.concurrency,
+      }
+    : null;
+}
+
+// Record the outcome of a safety check. Tasks sent for approval get an
+// approval item; deciding them goes through decideTask.
+export async function setTaskStatus(
+  taskId: string,
+  status: 'approved' | 'rejected' | 'awaiting_approval',
+  errorMessage?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('ai_task_queue')
+    .update({
+      status,
+      error_message: errorMessage ?? null,
+      ...(status === 'awaiting_approval' ? { approval_required: true } : {}),
+    })
+    .eq('id', taskId);
+
+  if (error) {
+    console.error('Error updating task:', error);
+    throw new Error(`Failed to update task: ${error.message}`);
+  }
+}
+
+// Approve or reject a task awaiting approval. The decision goes through the
+// task's approval chain, so an approval can leave the task waiting on others
+// (critical tasks need two developers).
+export async function decideTask(taskId: string, decision: ApprovalDecision, reason?: string): Promise<DecisionResult> {
+  return decideApproval({ sourceTable: 'ai_task_queue', sourceId: taskId }, decision, reason);
+}
+
+// Put a failed task back in line to run again
+export async function resetTask(task: Pick<QueueTask, 'id' | 'requiresApproval'>): Promise<void> {
+  const { error } = await supabase
+    .from('ai_task_queue')
+    .update({
+      status: task.requiresApproval ? 'approved' : 'pending',
+      error_message: null,
+      execution_result: null,
+      started_at: null,
+      completed_at: null,
+    })
+    .eq('id', task.id)
+    .eq('status', 'failed');
+
+  if (error) {
+    console.error('Error resetting task:', error);
+    throw new Error(`Failed to reset task: ${error.message}`);
+  }
+}
+
+// Task runs are driven by the advanced-agent function, which executes each
+// task with the tool for its type under the caller's permissions
+async function invokeAgentAction<T>(sessionId: string, action: string, actionData: Record<string, unknown> = {}): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('advanced-agent', {
+    body: { sessionId, action, actionData },
+  });
+
+  if (error) {
+    console.error(`Agent action ${action} error:`, error);
+    throw new Error(`Failed to ${action.replace(/_/g, ' ')}: ${error.message}`);
+  }
+
+  if (data?.error || data?.result?.error) {
+    throw new Error(data.error || data.result.error);
+  }
+
+  return data.result as T;
+}
+
+// Run one task now; its dependencies must already have completed
+export async function executeTask(sessionId: string, taskId: string): Promise<{ success: boolean; status: QueueTaskStatus; error?: string }> {
+  const result = await invokeAgentAction<{ success: boolean; status: QueueTaskStatus; error_message?: string }>(
+    sessionId,
+    'execute_task',
+    { task_id: taskId }
+  );
+  return { success: result.success, status: result.status, error: result.error_message };
+}
+
+// Run (or resume) the session's latest plan. The agent yields after a time
+// budget with the run paused for 'time_budget'; those runs are picked up again
+// until the run finishes, waits on approvals, or is paused or cancelled.
+export async function runTaskQueue(sessionId: string, planId?: string): Promise<TaskRunSummary> {
+  let summary = await invokeAgentAction<TaskRunSummary>(sessionId, 'run_task_queue', planId ? { plan_id: planId } : {});
+  while (summary.run.status === 'paused' && summary.run.statusReason === 'time_budget') {
+    summary = await invokeAgentAction<TaskRunSummary>(sessionId, 'run_task_queue');
+  }
+  return summary;
+}
+
+export interface TaskInfoResult {
+  status: QueueTaskStatus;
+  complete: boolean;
+  // Answers that failed validation, with the reason
+  refused: Record<string, string>;
+  questions: string[];
+}
+
+// Answer a task's questions. Answers are validated by the agent; the task
+// stays awaiting_info until every required detail is valid.
+export async function provideTaskInfo(sessionId: string, taskId: string, answers: Record<string, unknown>): Promise<TaskInfoResult> {
+  return invokeAgentAction<TaskInfoResult>(sessionId, 'provide_task_info', { task_id: taskId, answers });
+}
+
+// Replace the tasks of a plan that has not started running. The agent checks
+// the plan again; edited tasks need approval again where their type requires it.
+export async function revisePlan(sessionId: string, planId: string, tasks: PlanTaskEdit[]): Promise<void> {
+  await invokeAgentAction(sessionId, 'revise_task_plan', { plan_id: planId, tasks });
+}
+
+// Pausing lets executing tasks finish; cancelling also cancels every task
+// that has not started
+export async function controlTaskQueue(sessionId: string, command: 'pause' | 'cancel'): Promise<void> {
+  await invokeAgentAction(sessionId, 'control_task_queue', { command });
+}
+
+// Watch the session's tasks and runs; returns an unsubscribe function
+export function subscribeToTaskQueue(sessionId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`task-queue-${uuidv4()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'ai_task_queue', filter: `session_id=eq.${sessionId}` },
+      onChange
+    )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'ai_task_runs', filter: `session_id=eq.${sessionId}` },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChatSession } from '@/hooks/useChatSession';
@@ -16,6 +16,16 @@ import { SafetyGuardrailsPanel } from '@/components/ai/SafetyGuardrailsPanel';
 import { FeedbackLearningPanel } from '@/components/ai/FeedbackLearningPanel';
 import { CalendarPanel } from '@/components/calendar/CalendarPanel';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  controlTaskQueue,
+  executeTask,
+  getLatestTaskRun,
+  getSessionTasks,
+  runTaskQueue,
+  subscribeToTaskQueue,
+  type QueueTask,
+  type TaskRun,
+} from '@/lib/taskQueueService';
 import { toast } from 'sonner';
 import { 
   ArrowLeft, 
@@ -52,6 +62,42 @@ interface LearnedPattern {
   successRate: number;
 }
 
+const TASK_CATEGORIES: Record<string, EnhancedTask['type']> = {
+  hr_request: 'hr',
+  training: 'hr',
+  code_fix: 'code',
+  code_review: 'code',
+  test: 'code',
+  git_operation: 'git',
+  deployment: 'deployment',
+  file_operation: 'developer',
+  database: 'developer',
+};
+
+// Queue rows carry the persisted state; safety scores and notification flags
+// only live in this view, so they are kept from the previous copy of the task
+function toEnhancedTask(task: QueueTask, previous?: EnhancedTask): EnhancedTask {
+  const type = TASK_CATEGORIES[task.type] || 'general';
+  return {
+    ...previous,
+    id: task.id,
+    order: task.order,
+    type,
+    description: task.description,
+    status: task.status,
+    riskLevel: task.riskLevel,
+    requiresApproval: task.requiresApproval,
+    approverRole: type === 'hr' ? 'hr' : type === 'deployment' || type === 'code' || type === 'git' ? 'developer' : undefined,
+    dependencies: task.dependencies,
+    proposedChanges: task.proposedChanges,
+    executionResult: task.executionResult,
+    errorMessage: task.errorMessage || undefined,
+    startedAt: task.startedAt || undefined,
+    completedAt: task.completedAt || undefined,
+    maxRetries: previous?.maxRetries ?? 3,
+  };
+}
+
 export default function Assistant() {
   const navigate = useNavigate();
   const { user, role } = useAuth();
@@ -61,6 +107,7 @@ export default function Assistant() {
     currentSessionId,
     isProcessing,
     agentNodes,
+    showMessageTrace,
     selectSession,
     startNewChat,
     deleteSession,
@@ -71,6 +118,8 @@ export default function Assistant() {
   const [rightPanelTab, setRightPanelTab] = useState<'reasoning' | 'safety' | 'calendar' | 'learning'>('reasoning');
   const [showTaskPanel, setShowTaskPanel] = useState(false);
   const [tasks, setTasks] = useState<EnhancedTask[]>([]);
+  const [taskRun, setTaskRun] = useState<TaskRun | null>(null);
+  const planIdRef = useRef<string | null>(null);
   const [safetyChecks, setSafetyChecks] = useState<SafetyCheck[]>([]);
   const [overallSafetyScore, setOverallSafetyScore] = useState(1.0);
   const [patterns, setPatterns] = useState<LearnedPattern[]>([]);
@@ -104,40 +153,46 @@ export default function Assistant() {
     }
   };
 
-  // Parse tasks from AI responses
-  useEffect(() => {
-    const lastMessage = messages[messages.length - 1];
-    if (lastMessage?.role === 'assistant' && lastMessage.content) {
-      // Check for multi-task JSON in response
-      try {
-        const jsonMatch = lastMessage.content.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[1]);
-          if (parsed.action === 'analyze_multi_task' && parsed.data?.execution_order) {
-            const newTasks: EnhancedTask[] = parsed.data.execution_order.map((t: any, i: number) => ({
-              id: `task-${Date.now()}-${i}`,
-              order: t.order || i,
-              type: t.type === 'hr_request' ? 'hr' : t.type === 'code_fix' ? 'code' : t.type === 'git_operation' ? 'git' : 'general',
-              description: t.description,
-              status: 'pending' as const,
-              riskLevel: t.risk || 'low',
-              requiresApproval: t.requires_approval || false,
-              approverRole: t.type === 'hr_request' ? 'hr' : t.type === 'deployment' ? 'developer' : undefined,
-              dependencies: t.depends_on || [],
-              maxRetries: 3
-            }));
-            setTasks(newTasks);
-            setShowTaskPanel(true);
-
-            // Generate initial safety checks
-            runSafetyAnalysis(newTasks);
-          }
-        }
-      } catch (e) {
-        // Not valid JSON, ignore
+  // Load the session's latest task plan; analyze_multi_task writes it to the queue
+  const loadTasks = useCallback(async () => {
+    if (!currentSessionId) {
+      planIdRef.current = null;
+      setTasks([]);
+      setTaskRun(null);
+      return;
+    }
+
+    try {
+      const [queueTasks, run] = await Promise.all([
+        getSessionTasks(currentSessionId),
+        getLatestTaskRun(currentSessionId),
+      ]);
+      const planId = queueTasks[0]?.planId ?? null;
+      const isNewPlan = queueTasks.length > 0 && planId !== planIdRef.current;
+      planIdRef.current = planId;
+
+      if (isNewPlan) {
+        const next = queueTasks.map(task => toEnhancedTask(task));
+        setTasks(next);
+        setShowTaskPanel(true);
+        runSafetyAnalysis(next);
+      } else {
+        setTasks(prev => queueTasks.map(task => toEnhancedTask(task, prev.find(t => t.id === task.id))));
       }
+      setTaskRun(run && run.planId === planId ? run : null);
+    } catch (error) {
+      console.error('Error loading tasks:', error);
     }
-  }, [messages]);
+  }, [currentSessionId]);
+
+  useEffect(() => {
+    if (!isProcessing) loadTasks();
+  }, [loadTasks, isProcessing]);
+
+  useEffect(() => {
+    if (!currentSessionId) return;
+    return subscribeToTaskQueue(currentSessionId, loadTasks);
+  }, [currentSessionId, loadTasks]);
 
   // Run safety analysis on tasks
   const runSafetyAnalysis = (taskList: EnhancedTask[]) => {
@@ -187,9 +242,45 @@ export default function Assistant() {
   }, [messages]);
 
   const handleExecuteTask = async (taskId: string): Promise<boolean> => {
-    // Simulate task execution
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    return Math.random() > 0.1; // 90% success rate
+    if (!currentSessionId) return false;
+    try {
+      const result = await executeTask(currentSessionId, taskId);
+      return result.success;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to execute task');
+      return false;
+    } finally {
+      loadTasks();
+    }
+  };
+
+  const handleRunTasks = async () => {
+    if (!currentSessionId) return;
+    try {
+      const summary = await runTaskQueue(currentSessionId, planIdRef.current || undefined);
+      setTaskRun(summary.run);
+      if (summary.run.status === 'completed') {
+        toast.success(`Tasks finished: ${summary.completed} completed, ${summary.failed} failed, ${summary.skipped} skipped`);
+      } else if (summary.run.status === 'blocked') {
+        toast.info(summary.run.statusReason || 'Waiting on tasks that need attention');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run tasks');
+    } finally {
+      loadTasks();
+    }
+  };
+
+  const handleControlTasks = async (command: 'pause' | 'cancel') => {
+    if (!currentSessionId) return;
+    try {
+      await controlTaskQueue(currentSessionId, command);
+      toast.info(command === 'pause' ? 'Pausing after running tasks finish' : 'Task run cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${command} tasks`);
+    } finally {
+      loadTasks();
+    }
   };
 
   const handleNotifyApprover = async (task: EnhancedTask) => {
@@ -303,6 +394,11 @@ export default function Assistant() {
                 onTaskUpdate={setTasks}
                 onExecuteTask={handleExecuteTask}
                 onNotifyApprover={handleNotifyApprover}
+                run={taskRun}
+                onRunAll={handleRunTasks}
+                onPause={() => handleControlTasks('pause')}
+                onResume={handleRunTasks}
+                onCancel={() => handleControlTasks('cancel')}
                 currentUserId={user?.id}
                 userRole={role}
               />
@@ -372,6 +468,11 @@ export default function Assistant() {
                   <ChatMessage 
                     key={message.id} 
                     message={message}
+                    onShowTrace={() => {
+                      showMessageTrace(message.id);
+                      setShowRightPanel(true);
+                      setRightPanelTab('reasoning');
+                    }}
                   />
                 ))}
                 
@@ -73,7 +73,11 @@ export default function Auth() {
     if (error) {
       toast.error('Signup failed', { description: error.message });
     } else {
-      toast.success('Account created!', { description: 'You can now access the portal.' });
+      toast.success('Account created!', {
+        description: signupRole === 'employee'
+          ? 'You can now access the portal.'
+          : 'You can now access the portal. Your role request is awaiting approval.',
+      });
     }
     
     setIsLoading(false);
@@ -231,7 +235,7 @@ export default function Auth() {
                   </div>
                   
                   <div className="space-y-3">
-                    <Label>Select Your Role</Label>
+                    <Label>Requested Role</Label>
                     <RadioGroup
                       value={signupRole}
                       onValueChange={(v) => setSignupRole(v as AppRole)}
@@ -257,6 +261,7 @@ export default function Auth() {
                     </RadioGroup>
                     <p className="text-xs text-muted-foreground text-center">
                       {roles.find(r => r.value === signupRole)?.description}
+                      {signupRole !== 'employee' && ' · You start as an employee until an existing holder of this role approves your request.'}
                     </p>
                   </div>
                   
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { AuditLedgerCard } from '@/components/dashboard/AuditLedgerCard';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -490,6 +491,9 @@ const Dashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Audit Ledger */}
+        {role && role !== 'employee' && <AuditLedgerCard />}
       </main>
     </div>
   );
@@ -226,7 +226,7 @@ const DevConsolePage = () => {
 
           {/* Safety */}
           <TabsContent value="safety">
-            <SafetyGuardrailsPanel />
+            <SafetyGuardrailsPanel editable />
           </TabsContent>
         </Tabs>
       </div>
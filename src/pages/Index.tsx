@@ -9,7 +9,8 @@ import { PDFCitationViewer } from '@/components/chat/PDFCitationViewer';
 import { GlassBoxVisualization } from '@/components/chat/GlassBoxVisualization';
 import { UserContextPanel } from '@/components/context/UserContextPanel';
 import { DynamicCalendarPanel } from '@/components/calendar/DynamicCalendarPanel';
-import { ApprovalPanel } from '@/components/approvals/ApprovalPanel';
+import { DocumentLibraryPanel } from '@/components/documents/DocumentLibraryPanel';
+import { ApprovalInbox } from '@/components/approvals/ApprovalInbox';
 import { EnhancedNotificationPanel } from '@/components/notifications/EnhancedNotificationPanel';
 import { PayslipWorkflow } from '@/components/workflows/PayslipWorkflow';
 import { ReimbursementWorkflow } from '@/components/workflows/ReimbursementWorkflow';
@@ -29,7 +30,8 @@ const Index = () => {
   const { user, profile, role, signOut } = useAuth();
   const [showGlassBox, setShowGlassBox] = useState(true);
   const [showDevMode, setShowDevMode] = useState(false);
-  const [selectedCitation, setSelectedCitation] = useState<Citation | null>(null);
+  const [documentsVersion, setDocumentsVersion] = useState(0);
+  const [openCitations, setOpenCitations] = useState<{ citations: Citation[]; index: number } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -38,6 +40,7 @@ const Index = () => {
     messages,
     isProcessing,
     agentNodes,
+    showMessageTrace,
     setDocumentContext,
     sendMessage,
     startNewChat,
@@ -55,11 +58,16 @@ const Index = () => {
 
   const handleDocumentUploaded = (doc: any) => {
     setDocumentContext(`[Uploaded: ${doc.file_name}]`);
+    setDocumentsVersion(v => v + 1);
     toast.success(`${doc.file_name} uploaded for context`);
   };
 
-  const handleCitationClick = (citation: Citation) => {
-    setSelectedCitation(citation);
+  // Open the viewer on the clicked citation, able to step through the rest of the message's citations
+  const handleCitationClick = (citation: Citation, messageCitations: Citation[] = [citation]) => {
+    const index = messageCitations.indexOf(citation);
+    setOpenCitations(index === -1
+      ? { citations: [citation], index: 0 }
+      : { citations: messageCitations, index });
   };
 
   const handleDeleteCurrentChat = () => {
@@ -154,7 +162,7 @@ const Index = () => {
           <div className="w-80 border-r border-border bg-muted/30 overflow-auto p-3 space-y-3 hidden lg:block">
             <UserContextPanel />
             <EnhancedNotificationPanel />
-            {(role === 'hr' || role === 'developer') && <ApprovalPanel />}
+            <ApprovalInbox />
             
             {/* Role-specific Quick Actions */}
             {(role === 'employee' || role === 'hr') && (
@@ -194,7 +202,11 @@ const Index = () => {
                   <ChatMessage 
                     key={message.id}
                     message={message} 
-                    onCitationClick={handleCitationClick}
+                    onCitationClick={(citation) => handleCitationClick(citation, message.citations)}
+                    onShowTrace={() => {
+                      showMessageTrace(message.id);
+                      setShowGlassBox(true);
+                    }}
                   />
                 ))}
                 {isProcessing && (
@@ -227,6 +239,7 @@ const Index = () => {
                 <GlassBoxVisualization nodes={agentNodes} isProcessing={isProcessing} />
               )}
               <DynamicCalendarPanel />
+              <DocumentLibraryPanel refreshKey={documentsVersion} />
             </div>
           )}
         </div>
@@ -234,9 +247,10 @@ const Index = () => {
       </div>
 
       <PDFCitationViewer 
-        citation={selectedCitation}
-        isOpen={!!selectedCitation}
-        onClose={() => setSelectedCitation(null)}
+        citations={openCitations?.citations || []}
+        initialIndex={openCitations?.index}
+        isOpen={!!openCitations}
+        onClose={() => setOpenCitations(null)}
       />
     </div>
   );
@@ -24,6 +24,8 @@ import {
   Shield,
   LogOut
 } from 'lucide-react';
+import { RoleManagementPanel } from '@/components/roles/RoleManagementPanel';
+import { RoleRequestCard } from '@/components/roles/RoleRequestCard';
 
 interface QuickAction {
   icon: React.ReactNode;
@@ -306,6 +308,12 @@ export default function MainDashboard() {
                 </Card>
               ))}
             </div>
+
+            {role && role !== 'employee' && (
+              <div className="mt-8">
+                <RoleManagementPanel />
+              </div>
+            )}
           </div>
 
           {/* Recent Activity */}
@@ -348,6 +356,10 @@ export default function MainDashboard() {
                 </Button>
               </CardContent>
             </Card>
+
+            <div className="mt-4">
+              <RoleRequestCard />
+            </div>
           </div>
         </div>
       </main>
@@ -7,6 +7,7 @@ export interface AgentNode {
   name: string;
   description: string;
   status: AgentNodeStatus;
+  stage?: string;
   startTime?: Date;
   endTime?: Date;
 }
@@ -16,6 +17,7 @@ export interface Citation {
   pageNum: number;
   snippet: string;
   chunkId?: string;
+  sectionTitle?: string;
 }
 
 export interface ActionSchema {
@@ -39,6 +41,51 @@ export interface Message {
   isStreaming?: boolean;
 }
 
+// ---------------------------------------------------------------------------
+// Agent stream protocol (mirrors supabase/functions/_shared/agent-events.ts)
+// ---------------------------------------------------------------------------
+export const AGENT_EVENT_PROTOCOL_VERSION = 1;
+
+export interface ToolDisplay {
+  type: string;
+  title: string;
+  data: Record<string, unknown>;
+}
+
+export interface TaskUpdate {
+  id: string;
+  order?: number;
+  type?: string;
+  description?: string;
+  status: string;
+  riskLevel?: string;
+  missingInfo?: string[];
+  result?: unknown;
+  errorMessage?: string;
+}
+
+export interface TraceSpan {
+  id: string;
+  stage: 'safety' | 'patterns' | 'retrieval' | 'model' | 'tool';
+  name: string;
+  status: 'running' | 'ok' | 'error';
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  detail?: string;
+}
+
+export type AgentStreamEvent =
+  | { type: 'text_delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; result: unknown; display?: ToolDisplay }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'approval_required'; toolCallId?: string; action: ActionSchema }
+  | { type: 'task_update'; task: TaskUpdate }
+  | { type: 'span'; span: TraceSpan }
+  | { type: 'error'; message: string; code?: string }
+  | { type: 'done' };
+
 export interface Conversation {
   id: string;
   title: string;
@@ -0,0 +1,133 @@
+// ============================================================================
+// AGENT EVENT PROTOCOL
+// Typed SSE frames shared by advanced-agent and hr-chat. Every frame is sent
+// as `event: <type>` + `data: <json>` and carries the protocol version in `v`
+// so clients can ignore frames they do not understand.
+// ============================================================================
+
+import type { TraceSpan } from './agent-trace.ts';
+
+export const AGENT_EVENT_PROTOCOL_VERSION = 1;
+
+export type EventRiskLevel = 'low' | 'medium' | 'high';
+
+export interface CitationPayload {
+  docId: string;
+  pageNum: number;
+  snippet: string;
+  chunkId?: string;
+  sectionTitle?: string;
+}
+
+export interface ApprovalPayload {
+  actionType: string;
+  tool: string;
+  parameters: Record<string, unknown>;
+  riskScore: number;
+  riskLevel: EventRiskLevel;
+  idempotencyToken: string;
+}
+
+export interface TaskUpdatePayload {
+  id: string;
+  order?: number;
+  type?: string;
+  description?: string;
+  status: string;
+  riskLevel?: string;
+  missingInfo?: string[];
+  result?: unknown;
+  errorMessage?: string;
+}
+
+export interface ToolDisplayPayload {
+  type: string;
+  title: string;
+  data: Record<string, unknown>;
+}
+
+export type AgentEvent =
+  | { type: 'text_delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; result: unknown; display?: ToolDisplayPayload }
+  | { type: 'citation'; citation: CitationPayload }
+  | { type: 'approval_required'; toolCallId?: string; action: ApprovalPayload }
+  | { type: 'task_update'; task: TaskUpdatePayload }
+  | { type: 'span'; span: TraceSpan }
+  | { type: 'error'; message: string; code?: string }
+  | { type: 'done' };
+
+const encoder = new TextEncoder();
+
+export function encodeAgentEvent(event: AgentEvent): Uint8Array {
+  const frame = { v: AGENT_EVENT_PROTOCOL_VERSION, ...event };
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(frame)}\n\n`);
+}
+
+export function encodeStreamEnd(): Uint8Array {
+  return encoder.encode('data: [DONE]\n\n');
+}
+
+const RISK_SCORES: Record<EventRiskLevel, number> = { low: 0.2, medium: 0.5, high: 0.8 };
+
+// Tool handlers report risk as low/medium/high/critical; the client badge
+// only knows three levels, so critical collapses into high
+export function toEventRiskLevel(level: unknown): EventRiskLevel {
+  if (level === 'high' || level === 'critical') return 'high';
+  if (level === 'medium') return 'medium';
+  return 'low';
+}
+
+export function buildApprovalPayload(
+  tool: string,
+  parameters: Record<string, unknown>,
+  riskLevel: unknown,
+  idempotencyToken: string
+): ApprovalPayload {
+  const level = toEventRiskLevel(riskLevel);
+  return {
+    actionType: tool,
+    tool,
+    parameters,
+    riskScore: RISK_SCORES[level],
+    riskLevel: level,
+    idempotencyToken,
+  };
+}
+
+// Relay an OpenAI-compatible completion stream as text_delta frames
+export async function relayTextDeltas(
+  body: ReadableStream<Uint8Array>,
+  send: (event: AgentEvent) => void
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let content = '';
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx;
+    while ((idx = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, idx).trim();
+      buffer = buffer.slice(idx + 1);
+      if (!line.startsWith('data: ')) continue;
+      const payload = line.slice(6);
+      if (payload === '[DONE]') continue;
+      try {
+        const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (text) {
+          content += text;
+          send({ type: 'text_delta', content: text });
+        }
+      } catch {
+        // Partial or non-JSON line from upstream; skip it
+      }
+    }
+  }
+
+  return content;
+}
@@ -0,0 +1,71 @@
+// ============================================================================
+// AGENT TRACE
+// Records per-stage spans for a single agent request. Spans that finish before
+// the response stream opens are buffered and replayed once a sink attaches.
+// ============================================================================
+
+export type SpanStage = 'safety' | 'patterns' | 'retrieval' | 'model' | 'tool';
+export type SpanStatus = 'running' | 'ok' | 'error';
+
+export interface TraceSpan {
+  id: string;
+  stage: SpanStage;
+  name: string;
+  status: SpanStatus;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  detail?: string;
+}
+
+export function createTraceRecorder() {
+  const spans = new Map<string, TraceSpan>();
+  const startTimes = new Map<string, number>();
+  let sink: ((span: TraceSpan) => void) | null = null;
+  let counter = 0;
+
+  const emit = (span: TraceSpan) => sink?.({ ...span });
+
+  function start(stage: SpanStage, name: string, detail?: string): string {
+    const id = `span-${++counter}`;
+    const now = Date.now();
+    const span: TraceSpan = { id, stage, name, status: 'running', startedAt: new Date(now).toISOString(), detail };
+    spans.set(id, span);
+    startTimes.set(id, now);
+    emit(span);
+    return id;
+  }
+
+  function end(id: string, status: Exclude<SpanStatus, 'running'> = 'ok', detail?: string) {
+    const span = spans.get(id);
+    if (!span || span.status !== 'running') return;
+    const now = Date.now();
+    span.status = status;
+    span.endedAt = new Date(now).toISOString();
+    span.durationMs = now - (startTimes.get(id) ?? now);
+    if (detail !== undefined) span.detail = detail;
+    emit(span);
+  }
+
+  async function measure<T>(stage: SpanStage, name: string, fn: () => Promise<T>, describe?: (result: T) => string): Promise<T> {
+    const id = start(stage, name);
+    try {
+      const result = await fn();
+      end(id, 'ok', describe?.(result));
+      return result;
+    } catch (error) {
+      end(id, 'error', error instanceof Error ? error.message : 'Failed');
+      throw error;
+    }
+  }
+
+  // Start streaming spans to the client, replaying anything recorded so far
+  function attach(next: (span: TraceSpan) => void) {
+    sink = next;
+    for (const span of spans.values()) next({ ...span });
+  }
+
+  return { start, end, measure, attach, spans: () => [...spans.values()] };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
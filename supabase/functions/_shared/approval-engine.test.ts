@@ -0,0 +1,89 @@
+import { deepStrictEqual as assertEquals, ok as assert } from 'node:assert/strict';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { decideItem, listInbox, type ApprovalItem } from './approval-engine.ts';
+
+const REQUESTER = 'user-requester';
+const DEVELOPER = 'user-developer';
+
+// Answers every query on a table with its rows and records inserts; filters
+// are ignored, so each table holds only the rows a test expects back
+function fakeClient(rows: Record<string, unknown[]>) {
+  const inserted: { table: string; row: unknown }[] = [];
+  const client = {
+    from(table: string) {
+      const result = { data: rows[table] ?? [], error: null };
+      const query: Record<string, unknown> = {
+        then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+        insert: (row: unknown) => {
+          inserted.push({ table, row });
+          return Promise.resolve({ data: null, error: null });
+        },
+      };
+      for (const method of ['select', 'eq', 'is', 'in', 'or', 'lte', 'gt', 'order', 'limit', 'update']) {
+        query[method] = () => query;
+      }
+      return query;
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, inserted };
+}
+
+function criticalChange(): ApprovalItem {
+  return {
+    id: 'item-1',
+    item_type: 'github_operation',
+    source_table: 'github_operations',
+    source_id: 'op-1',
+    requester_id: REQUESTER,
+    manager_id: null,
+    title: 'Merge to main',
+    summary: null,
+    risk_level: 'critical',
+    details: {},
+    chain_name: 'Critical change',
+    steps: [{ name: 'Developer review', approver: { kind: 'role', role: 'developer' }, required_approvals: 2 }],
+    current_step: 0,
+    status: 'pending',
+    step_started_at: '2026-01-28T00:00:00Z',
+    step_due_at: null,
+    escalated_at: null,
+    created_at: '2026-01-28T00:00:00Z',
+  };
+}
+
+// The requester holds a developer's delegation covering the item
+function delegatedToRequester(item: ApprovalItem) {
+  return fakeClient({
+    approval_items: [item],
+    approval_delegations: [{
+      id: 'delegation-1',
+      delegator_id: DEVELOPER,
+      delegate_id: REQUESTER,
+      item_types: null,
+      starts_at: '2026-01-01T00:00:00Z',
+      ends_at: '2099-01-01T00:00:00Z',
+      reason: null,
+      created_at: '2026-01-01T00:00:00Z',
+    }],
+    user_roles: [{ user_id: DEVELOPER, role: 'developer' }],
+    approval_decisions: [],
+  });
+}
+
+Deno.test('a requester cannot approve their own item through a delegation', async () => {
+  const item = criticalChange();
+  const { supabase, inserted } = delegatedToRequester(item);
+
+  const result = await decideItem(supabase, item, REQUESTER, 'approved', null);
+
+  assert('error' in result);
+  assert(result.error.startsWith('You cannot decide your own request'));
+  assertEquals(inserted, []);
+});
+
+Deno.test('a requester does not see their own item in the inbox through a delegation', async () => {
+  const item = criticalChange();
+  const { supabase } = delegatedToRequester(item);
+
+  assertEquals(await listInbox(supabase, REQUESTER), []);
+});
@@ -0,0 +1,702 @@
+// ============================================================================
+// APPROVAL ENGINE
+// Approval items are registered by database triggers for every record that
+// waits on a decision (see the approval engine migration). This module works
+// out who may act on an item's current step, records decisions, moves items
+// along their chain and writes the outcome back to the source row.
+//
+// A step's approver is one of:
+// - manager: the requester's manager when the item was registered. Items
+//   whose requester has no manager go to the step's escalation role at once.
+// - role: anyone holding the role
+// - requester: whoever asked, for agent tasks people confirm themselves
+//
+// Requesters never approve their own items outside requester steps, and
+// nobody decides twice on one item, so "two developers" means two people. A
+// delegate acts for their delegator while the delegation is active and
+// counts as the delegator; delegations are not followed transitively.
+//
+// Steps with an SLA are escalated once it passes: the escalation role may
+// act on the step from then on and is notified, or the step's approvers are
+// reminded when it has none.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import type { AppRole } from './auth.ts';
+
+export const ITEM_TYPES = [
+  'leave_request',
+  'approval_request',
+  'code_change_request',
+  'code_change_proposal',
+  'github_operation',
+  'database_migration',
+  'file_operation',
+  'agent_task',
+] as const;
+
+export type ApprovalItemType = typeof ITEM_TYPES[number];
+export type ApprovalDecision = 'approved' | 'rejected';
+export type ApprovalItemStatus = 'pending' | ApprovalDecision | 'cancelled';
+
+export interface ApproverSpec {
+  kind: 'manager' | 'role' | 'requester';
+  role?: AppRole;
+}
+
+export interface ApprovalStep {
+  name: string;
+  approver: ApproverSpec;
+  required_approvals?: number;
+  sla_hours?: number;
+  escalate_to?: AppRole;
+}
+
+export interface ApprovalItem {
+  id: string;
+  item_type: ApprovalItemType;
+  source_table: string;
+  source_id: string;
+  requester_id: string | null;
+  manager_id: string | null;
+  title: string;
+  summary: string | null;
+  risk_level: string;
+  details: Record<string, unknown>;
+  chain_name: string;
+  steps: ApprovalStep[];
+  current_step: number;
+  status: ApprovalItemStatus;
+  step_started_at: string;
+  step_due_at: string | null;
+  escalated_at: string | null;
+  created_at: string;
+}
+
+export interface ApprovalDelegation {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  item_types: ApprovalItemType[] | null;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+  created_at: string;
+}
+
+interface DecisionRow {
+  item_id: string;
+  step_index: number;
+  approver_id: string;
+  on_behalf_of: string | null;
+  decision: ApprovalDecision;
+}
+
+interface Principal {
+  userId: string;
+  roles: AppRole[];
+}
+
+// The caller, and the people whose approvals they hold through delegation
+interface Actors {
+  self: Principal;
+  delegators: { principal: Principal; itemTypes: ApprovalItemType[] | null }[];
+}
+
+export interface InboxEntry {
+  item: ApprovalItem;
+  // The delegator the caller would act for, when not acting for themselves
+  on_behalf_of: string | null;
+  approvals: number;
+  required: number;
+  overdue: boolean;
+}
+
+export interface DecisionResult {
+  item_id: string;
+  status: ApprovalItemStatus;
+  step: number;
+  step_name: string | null;
+  approvals: number;
+  required: number;
+}
+
+export const ITEM_LABELS: Record<ApprovalItemType, string> = {
+  leave_request: 'Leave Request',
+  approval_request: 'Request',
+  code_change_request: 'Code Change',
+  code_change_proposal: 'Code Change Proposal',
+  github_operation: 'GitHub Operation',
+  database_migration: 'Database Migration',
+  file_operation: 'File Operation',
+  agent_task: 'Task',
+};
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  employee: 'an employee',
+  hr: 'HR',
+  it: 'IT',
+  developer: 'a developer',
+};
+
+const ITEM_COLUMNS = 'id, item_type, source_table, source_id, requester_id, manager_id, title, summary, risk_level, details, chain_name, steps, current_step, status, step_started_at, step_due_at, escalated_at, created_at';
+const DELEGATION_COLUMNS = 'id, delegator_id, delegate_id, item_types, starts_at, ends_at, reason, created_at';
+// The pending set is filtered per caller here, so it is read in one page
+const INBOX_SCAN_LIMIT = 500;
+const ESCALATION_BATCH = 100;
+const MAX_NOTIFIED = 50;
+const MAX_DELEGATION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Status a source row has while it waits, per source table
+const AWAITING_STATUS: Record<string, string> = {
+  ai_task_queue: 'awaiting_approval',
+};
+
+function stepAt(item: ApprovalItem, index = item.current_step): ApprovalStep | undefined {
+  return item.steps[index];
+}
+
+function requiredApprovals(step: ApprovalStep): number {
+  return Math.max(1, Math.floor(step.required_approvals ?? 1));
+}
+
+function dueAt(step: ApprovalStep | undefined, from: Date): string | null {
+  return step?.sla_hours ? new Date(from.getTime() + step.sla_hours * 60 * 60 * 1000).toISOString() : null;
+}
+
+// Whether the step's escalation role may act: once the SLA has passed, or at
+// once for a manager step when the requester has no manager
+function escalationOpen(item: ApprovalItem, step: ApprovalStep): boolean {
+  if (!step.escalate_to) return false;
+  return item.escalated_at !== null || (step.approver.kind === 'manager' && !item.manager_id);
+}
+
+function canApproveStep(item: ApprovalItem, step: ApprovalStep, principal: Principal): boolean {
+  if (step.approver.kind === 'requester') return principal.userId === item.requester_id;
+  if (principal.userId === item.requester_id) return false;
+
+  if (step.approver.kind === 'manager' && item.manager_id === principal.userId) return true;
+  if (step.approver.kind === 'role' && step.approver.role && principal.roles.includes(step.approver.role)) return true;
+  return escalationOpen(item, step) && principal.roles.includes(step.escalate_to as AppRole);
+}
+
+export function describeApprover(item: ApprovalItem, step: ApprovalStep): string {
+  const required = requiredApprovals(step);
+  let who: string;
+  switch (step.approver.kind) {
+    case 'manager':
+      who = 'the requester\'s manager';
+      break;
+    case 'requester':
+      who = 'the requester';
+      break;
+    default:
+      who = step.approver.role
+        ? required > 1 ? `${required} ${step.approver.role} approvers` : ROLE_LABELS[step.approver.role]
+        : 'an approver';
+  }
+  return escalationOpen(item, step) ? `${who} or ${ROLE_LABELS[step.escalate_to as AppRole]}` : who;
+}
+
+async function getRoles(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, AppRole[]>> {
+  const roles = new Map<string, AppRole[]>(userIds.map(id => [id, []]));
+  if (userIds.length === 0) return roles;
+
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('user_id, role')
+    .in('user_id', userIds)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+  if (error) console.error('Failed to load approver roles:', error);
+
+  for (const row of (data || []) as { user_id: string; role: AppRole }[]) {
+    roles.get(row.user_id)?.push(row.role);
+  }
+  return roles;
+}
+
+async function usersWithRole(supabase: SupabaseClient, role: AppRole): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', role)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .limit(MAX_NOTIFIED);
+  if (error) console.error('Failed to load role holders:', error);
+  return ((data || []) as { user_id: string }[]).map(r => r.user_id);
+}
+
+function activeDelegations(supabase: SupabaseClient) {
+  const now = new Date().toISOString();
+  return supabase
+    .from('approval_delegations')
+    .select(DELEGATION_COLUMNS)
+    .is('revoked_at', null)
+    .lte('starts_at', now)
+    .gt('ends_at', now);
+}
+
+function covers(itemTypes: ApprovalItemType[] | null, itemType: ApprovalItemType): boolean {
+  return !itemTypes || itemTypes.length === 0 || itemTypes.includes(itemType);
+}
+
+async function loadActors(supabase: SupabaseClient, userId: string): Promise<Actors> {
+  const { data, error } = await activeDelegations(supabase).eq('delegate_id', userId);
+  if (error) console.error('Failed to load delegations:', error);
+
+  const delegations = (data || []) as ApprovalDelegation[];
+  const roles = await getRoles(supabase, [userId, ...delegations.map(d => d.delegator_id)]);
+
+  return {
+    self: { userId, roles: roles.get(userId) || [] },
+    delegators: delegations.map(d => ({
+      principal: { userId: d.delegator_id, roles: roles.get(d.delegator_id) || [] },
+      itemTypes: d.item_types,
+    })),
+  };
+}
+
+async function loadDecisions(supabase: SupabaseClient, itemIds: string[]): Promise<DecisionRow[]> {
+  if (itemIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('approval_decisions')
+    .select('item_id, step_index, approver_id, on_behalf_of, decision')
+    .in('item_id', itemIds);
+  if (error) console.error('Failed to load approval decisions:', error);
+  return (data || []) as DecisionRow[];
+}
+
+// Who the caller would act as on the item's current step, if anyone. Null
+// when the caller (or the delegator) has already decided on the item.
+function findActing(
+  item: ApprovalItem,
+  actors: Actors,
+  decisions: DecisionRow[]
+): { principal: Principal; onBehalfOf: string | null } | null {
+  const step = stepAt(item);
+  if (!step) return null;
+
+  const decided = new Set<string>();
+  for (const d of decisions) {
+    if (d.item_id !== item.id) continue;
+    decided.add(d.approver_id);
+    decided.add(d.on_behalf_of ?? d.approver_id);
+  }
+  if (decided.has(actors.self.userId)) return null;
+
+  if (canApproveStep(item, step, actors.self)) {
+    return { principal: actors.self, onBehalfOf: null };
+  }
+  // A requester holding someone else's delegation still cannot approve
+  // their own request
+  if (actors.self.userId === item.requester_id && step.approver.kind !== 'requester') return null;
+  for (const { principal, itemTypes } of actors.delegators) {
+    if (covers(itemTypes, item.item_type) && !decided.has(principal.userId) && canApproveStep(item, step, principal)) {
+      return { principal, onBehalfOf: principal.userId };
+    }
+  }
+  return null;
+}
+
+function countApprovals(item: ApprovalItem, decisions: DecisionRow[]): number {
+  return decisions.filter(d =>
+    d.item_id === item.id && d.step_index === item.current_step && d.decision === 'approved'
+  ).length;
+}
+
+// Everyone who may act on the step, with their active delegates
+async function stepApproverIds(supabase: SupabaseClient, item: ApprovalItem, step: ApprovalStep): Promise<string[]> {
+  const ids = new Set<string>();
+
+  if (step.approver.kind === 'manager' && item.manager_id) ids.add(item.manager_id);
+  if (step.approver.kind === 'requester' && item.requester_id) ids.add(item.requester_id);
+  if (step.approver.kind === 'role' && step.approver.role) {
+    (await usersWithRole(supabase, step.approver.role)).forEach(id => ids.add(id));
+  }
+  if (escalationOpen(item, step)) {
+    (await usersWithRole(supabase, step.escalate_to as AppRole)).forEach(id => ids.add(id));
+  }
+  if (step.approver.kind !== 'requester' && item.requester_id) ids.delete(item.requester_id);
+
+  if (ids.size > 0) {
+    const { data } = await activeDelegations(supabase).in('delegator_id', [...ids]);
+    for (const d of (data || []) as ApprovalDelegation[]) {
+      if (covers(d.item_types, item.item_type)) ids.add(d.delegate_id);
+    }
+  }
+
+  return [...ids].slice(0, MAX_NOTIFIED);
+}
+
+export async function notify(
+  supabase: SupabaseClient,
+  userIds: string[],
+  notification: { title: string; message: string; type: string; related_id: string }
+): Promise<void> {
+  if (userIds.length === 0) return;
+  const { error } = await supabase
+    .from('notifications')
+    .insert(userIds.map(user_id => ({ user_id, ...notification })));
+  if (error) console.error('Failed to send approval notifications:', error);
+}
+
+export async function getItem(supabase: SupabaseClient, itemId: string): Promise<ApprovalItem | null> {
+  const { data, error } = await supabase
+    .from('approval_items')
+    .select(ITEM_COLUMNS)
+    .eq('id', itemId)
+    .maybeSingle();
+  if (error) console.error('Failed to load approval item:', error);
+  return (data as ApprovalItem | null) ?? null;
+}
+
+// The open item of a source row, for callers that know the row but not the item
+export async function getOpenItem(supabase: SupabaseClient, sourceTable: string, sourceId: string): Promise<ApprovalItem | null> {
+  const { data, error } = await supabase
+    .from('approval_items')
+    .select(ITEM_COLUMNS)
+    .eq('source_table', sourceTable)
+    .eq('source_id', sourceId)
+    .eq('status', 'pending')
+    .maybeSingle();
+  if (error) console.error('Failed to load approval item:', error);
+  return (data as ApprovalItem | null) ?? null;
+}
+
+// Items whose current step the user may decide, oldest first
+export async function listInbox(supabase: SupabaseClient, userId: string): Promise<InboxEntry[]> {
+  const { data, error } = await supabase
+    .from('approval_items')
+    .select(ITEM_COLUMNS)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(INBOX_SCAN_LIMIT);
+  if (error) throw new Error(`Failed to load approval items: ${error.message}`);
+
+  const items = (data || []) as ApprovalItem[];
+  const actors = await loadActors(supabase, userId);
+  const decisions = await loadDecisions(supabase, items.map(i => i.id));
+  const now = Date.now();
+
+  const entries: InboxEntry[] = [];
+  for (const item of items) {
+    const acting = findActing(item, actors, decisions);
+    if (!acting) continue;
+    entries.push({
+      item,
+      on_behalf_of: acting.onBehalfOf,
+      approvals: countApprovals(item, decisions),
+      required: requiredApprovals(stepAt(item) as ApprovalStep),
+      overdue: item.step_due_at !== null && Date.parse(item.step_due_at) < now,
+    });
+  }
+  return entries;
+}
+
+// Leave balances are reduced when leave is approved, as calendar days
+async function deductLeave(supabase: SupabaseClient, item: ApprovalItem): Promise<void> {
+  const leaveType = String(item.details.leave_type || '').toLowerCase().replace(/\s+/g, '_');
+  const days = Number(item.details.days || 0);
+  if (!item.requester_id || !leaveType || days <= 0) return;
+
+  const column = `${leaveType}_leave`;
+  const { data: balance } = await supabase
+    .from('leave_balance')
+    .select('*')
+    .eq('user_id', item.requester_id)
+    .maybeSingle();
+  const current = (balance as Record<string, unknown> | null)?.[column];
+  if (typeof current !== 'number') return;
+
+  const { error } = await supabase
+    .from('leave_balance')
+    .update({ [column]: current - days })
+    .eq('user_id', item.requester_id);
+  if (error) console.error('Failed to update leave balance:', error);
+}
+
+function sourceUpdate(
+  item: ApprovalItem,
+  decision: ApprovalDecision,
+  approverId: string,
+  comment: string | null
+): Record<string, unknown> {
+  const at = new Date().toISOString();
+  const rejection = decision === 'rejected' ? comment || 'Rejected by approver' : null;
+
+  switch (item.source_table) {
+    case 'leave_requests':
+    case 'approval_requests':
+      return { status: decision, approved_by: approverId, approved_at: at, rejection_reason: rejection };
+    case 'code_change_requests':
+      return { status: decision, developer_id: approverId, approved_at: at };
+    case 'code_change_proposals':
+      return { status: decision, approved_by: approverId, approved_at: at };
+    case 'github_operations':
+    case 'database_migrations_log':
+    case 'file_operations_log':
+      return { status: decision, approved_by: approverId, approved_at: at, error_message: rejection };
+    case 'ai_task_queue':
+      return { status: decision, error_message: rejection };
+    default:
+      return { status: decision };
+  }
+}
+
+// Write the final decision to the source row and tell the requester. Only a
+// row still waiting is updated, so a row that moved on (a cancelled task, for
+// example) is left alone.
+async function applyOutcome(
+  supabase: SupabaseClient,
+  item: ApprovalItem,
+  decision: ApprovalDecision,
+  approverId: string,
+  comment: string | null
+): Promise<void> {
+  const { data, error } = await supabase
+    .from(item.source_table)
+    .update(sourceUpdate(item, decision, approverId, comment))
+    .eq('id', item.source_id)
+    .eq('status', AWAITING_STATUS[item.source_table] ?? 'pending')
+    .select('id');
+  if (error) {
+    console.error(`Failed to apply approval to ${item.source_table}:`, error);
+    return;
+  }
+  if (!data || data.length === 0) return;
+
+  if (decision === 'approved' && item.item_type === 'leave_request') {
+    await deductLeave(supabase, item);
+  }
+
+  if (item.requester_id && item.requester_id !== approverId) {
+    const label = ITEM_LABELS[item.item_type];
+    await notify(supabase, [item.requester_id], {
+      title: `${label} ${decision === 'approved' ? 'Approved' : 'Rejected'}`,
+      message: `"${item.title}" has been ${decision}${comment ? `: ${comment}` : '.'}`,
+      type: decision === 'approved' ? 'success' : 'error',
+      related_id: item.source_id,
+    });
+  }
+}
+
+// Record a decision on the item's current step. A rejection ends the chain;
+// an approval completes the step once it has enough approvals, which either
+// moves the item to the next step or approves it.
+export async function decideItem(
+  supabase: SupabaseClient,
+  item: ApprovalItem,
+  userId: string,
+  decision: ApprovalDecision,
+  comment: string | null
+): Promise<DecisionResult | { error: string }> {
+  if (item.status !== 'pending') {
+    return { error: `This ${ITEM_LABELS[item.item_type].toLowerCase()} has already been ${item.status}` };
+  }
+  const step = stepAt(item);
+  if (!step) return { error: 'This approval item has no step to decide' };
+
+  const actors = await loadActors(supabase, userId);
+  const decisions = await loadDecisions(supabase, [item.id]);
+  const acting = findActing(item, actors, decisions);
+  if (!acting) {
+    const decided = decisions.some(d => d.approver_id === userId || d.on_behalf_of === userId);
+    if (decided) return { error: 'You have already decided on this item' };
+    if (userId === item.requester_id && step.approver.kind !== 'requester') {
+      return { error: `You cannot decide your own request; ${step.name} is waiting on ${describeApprover(item, step)}` };
+    }
+    return { error: `${step.name} is waiting on ${describeApprover(item, step)}` };
+  }
+
+  const { error: insertError } = await supabase.from('approval_decisions').insert({
+    item_id: item.id,
+    step_index: item.current_step,
+    approver_id: userId,
+    on_behalf_of: acting.onBehalfOf,
+    decision,
+    comment,
+  });
+  if (insertError) {
+    if (insertError.code === '23505') return { error: 'You have already decided on this item' };
+    throw new Error(`Failed to record decision: ${insertError.message}`);
+  }
+
+  const required = requiredApprovals(step);
+  const approvals = decision === 'approved'
+    ? countApprovals(item, await loadDecisions(supabase, [item.id]))
+    : 0;
+
+  if (decision === 'approved' && approvals < required) {
+    return { item_id: item.id, status: 'pending', step: item.current_step, step_name: step.name, approvals, required };
+  }
+
+  const lastStep = item.current_step >= item.steps.length - 1;
+  const now = new Date();
+
+  // Compare-and-set on the step, so concurrent deciders move the item once
+  if (decision === 'rejected' || lastStep) {
+    const { data: closed } = await supabase
+      .from('approval_items')
+      .update({ status: decision, decided_at: now.toISOString() })
+      .eq('id', item.id)
+      .eq('status', 'pending')
+      .eq('current_step', item.current_step)
+      .select('id');
+    if (closed && closed.length > 0) {
+      await applyOutcome(supabase, item, decision, userId, comment);
+    }
+    return { item_id: item.id, status: decision, step: item.current_step, step_name: step.name, approvals, required };
+  }
+
+  const nextIndex = item.current_step + 1;
+  const next = stepAt(item, nextIndex) as ApprovalStep;
+  const { data: advanced } = await supabase
+    .from('approval_items')
+    .update({
+      current_step: nextIndex,
+      step_started_at: now.toISOString(),
+      step_due_at: dueAt(next, now),
+      escalated_at: null,
+    })
+    .eq('id', item.id)
+    .eq('status', 'pending')
+    .eq('current_step', item.current_step)
+    .select(ITEM_COLUMNS);
+
+  const moved = (advanced as ApprovalItem[] | null)?.[0];
+  if (moved) {
+    await notify(supabase, await stepApproverIds(supabase, moved, next), {
+      title: `${ITEM_LABELS[item.item_type]} Awaiting ${next.name}`,
+      message: `"${item.title}" passed ${step.name} and is waiting for your decision.`,
+      type: 'warning',
+      related_id: item.source_id,
+    });
+  }
+
+  return {
+    item_id: item.id,
+    status: 'pending',
+    step: nextIndex,
+    step_name: next.name,
+    approvals: 0,
+    required: requiredApprovals(next),
+  };
+}
+
+// Escalate current steps that have passed their SLA. Safe to run at any time
+// and from several places at once: each step is escalated at most once.
+export async function escalateOverdue(supabase: SupabaseClient): Promise<number> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('approval_items')
+    .select(ITEM_COLUMNS)
+    .eq('status', 'pending')
+    .is('escalated_at', null)
+    .lt('step_due_at', now)
+    .limit(ESCALATION_BATCH);
+  if (error) {
+    console.error('Failed to load overdue approvals:', error);
+    return 0;
+  }
+
+  let escalated = 0;
+  for (const item of (data || []) as ApprovalItem[]) {
+    const step = stepAt(item);
+    if (!step) continue;
+
+    const { data: claimed } = await supabase
+      .from('approval_items')
+      .update({ escalated_at: now })
+      .eq('id', item.id)
+      .eq('current_step', item.current_step)
+      .is('escalated_at', null)
+      .select('id');
+    if (!claimed || claimed.length === 0) continue;
+    escalated++;
+
+    const escalatedItem = { ...item, escalated_at: now };
+    const label = ITEM_LABELS[item.item_type];
+    if (step.escalate_to) {
+      const recipients = (await usersWithRole(supabase, step.escalate_to)).filter(id => id !== item.requester_id);
+      await notify(supabase, recipients, {
+        title: `${label} Escalated`,
+        message: `"${item.title}" passed the ${step.sla_hours}h limit for ${step.name} and can now be decided by ${ROLE_LABELS[step.escalate_to]}.`,
+        type: 'warning',
+        related_id: item.source_id,
+      });
+    } else {
+      await notify(supabase, await stepApproverIds(supabase, escalatedItem, step), {
+        title: `${label} Overdue`,
+        message: `"${item.title}" has waited more than ${step.sla_hours}h for ${step.name}.`,
+        type: 'warning',
+        related_id: item.source_id,
+      });
+    }
+  }
+  return escalated;
+}
+
+// Active and upcoming delegations the user gave or received
+export async function listDelegations(supabase: SupabaseClient, userId: string): Promise<ApprovalDelegation[]> {
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .select(DELEGATION_COLUMNS)
+    .is('revoked_at', null)
+    .gt('ends_at', new Date().toISOString())
+    .or(`delegator_id.eq.${userId},delegate_id.eq.${userId}`)
+    .order('starts_at', { ascending: true });
+  if (error) throw new Error(`Failed to load delegations: ${error.message}`);
+  return (data || []) as ApprovalDelegation[];
+}
+
+export async function createDelegation(
+  supabase: SupabaseClient,
+  delegatorId: string,
+  input: { delegateId: string; startsAt?: string; endsAt: string; itemTypes?: unknown; reason?: string }
+): Promise<ApprovalDelegation | { error: string }> {
+  if (input.delegateId === delegatorId) return { error: 'You cannot delegate approvals to yourself' };
+
+  const startsAt = input.startsAt ? Date.parse(input.startsAt) : Date.now();
+  const endsAt = Date.parse(input.endsAt);
+  if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) return { error: 'A valid start and end date are required' };
+  if (endsAt <= Math.max(startsAt, Date.now())) return { error: 'The delegation must end in the future and after it starts' };
+  if (endsAt - startsAt > MAX_DELEGATION_DAYS * DAY_MS) {
+    return { error: `A delegation can last at most ${MAX_DELEGATION_DAYS} days` };
+  }
+
+  let itemTypes: ApprovalItemType[] | null = null;
+  if (Array.isArray(input.itemTypes) && input.itemTypes.length > 0) {
+    const unknown = input.itemTypes.filter(t => !ITEM_TYPES.includes(t as ApprovalItemType));
+    if (unknown.length > 0) return { error: `Unknown item types: ${unknown.join(', ')}` };
+    itemTypes = input.itemTypes as ApprovalItemType[];
+  }
+
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .insert({
+      delegator_id: delegatorId,
+      delegate_id: input.delegateId,
+      item_types: itemTypes,
+      starts_at: new Date(startsAt).toISOString(),
+      ends_at: new Date(endsAt).toISOString(),
+      reason: input.reason?.trim() || null,
+    })
+    .select(DELEGATION_COLUMNS)
+    .single();
+  if (error) throw new Error(`Failed to create delegation: ${error.message}`);
+  return data as ApprovalDelegation;
+}
+
+// Only the delegator can revoke a delegation
+export async function revokeDelegation(supabase: SupabaseClient, delegatorId: string, delegationId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', delegationId)
+    .eq('delegator_id', delegatorId)
+    .is('revoked_at', null)
+    .select('id');
+  if (error) throw new Error(`Failed to revoke delegation: ${error.message}`);
+  return (data || []).length > 0;
+}
@@ -0,0 +1,506 @@
+// ============================================================================
+// APPROVED ACTIONS
+// Carries out GitHub operations, database migrations and file operations
+// once their approval chain has approved them, using the payload stored on
+// the row, then records the outcome and tells the requester.
+//
+// Every action runs at most once. A row is claimed by setting executed_at
+// while it is still approved and unexecuted, and the claim is what runs, so
+// approving again, retrying the request or two executors racing cannot
+// apply a change twice. A claimed action that fails stays failed; the
+// requester has to ask again. Rows whose latest approval item is not
+// approved, or was decided before the payload last changed, never run.
+//
+// Content is screened again as it runs: pushed and written files by the
+// secret scanner and migration SQL by the guardrail policy.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { notify } from './approval-engine.ts';
+import { checkPolicy, describeDecision } from './policy.ts';
+import { describeScan, scanFiles, toScanFiles, type ScanFile } from './secret-scan.ts';
+
+export const EXECUTABLE_TABLES = ['github_operations', 'database_migrations_log', 'file_operations_log'] as const;
+
+export type ExecutableTable = typeof EXECUTABLE_TABLES[number];
+
+export interface ExecutionOutcome {
+  source_table: ExecutableTable;
+  source_id: string;
+  // skipped: nothing ran, because the row is not approved, already ran or
+  // waits on configuration
+  status: 'completed' | 'failed' | 'skipped';
+  message: string;
+}
+
+interface GithubOperation {
+  id: string;
+  user_id: string | null;
+  operation_type: string;
+  repo_owner: string | null;
+  repo_name: string | null;
+  branch_name: string | null;
+  target_branch: string | null;
+  pr_number: number | null;
+  pr_title: string | null;
+  pr_body: string | null;
+  commit_message: string | null;
+  files_changed: unknown;
+  operation_data: Record<string, unknown> | null;
+}
+
+interface GithubResult {
+  columns: { commit_sha?: string; pr_number?: number; pr_url?: string };
+  message: string;
+}
+
+interface FileOperation {
+  id: string;
+  user_id: string | null;
+  operation_type: string;
+  file_path: string;
+  file_content: string | null;
+}
+
+const AGENT_FILES_BUCKET = 'agent-files';
+const DEFAULT_BRANCH = 'main';
+// Approved rows picked up per table by one backlog run
+const BACKLOG_BATCH = 20;
+// Older approvals are left alone by the backlog and have to be asked for again
+const BACKLOG_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isExecutable(table: string): table is ExecutableTable {
+  return (EXECUTABLE_TABLES as readonly string[]).includes(table);
+}
+
+function outcome(
+  table: ExecutableTable,
+  id: string,
+  status: ExecutionOutcome['status'],
+  message: string
+): ExecutionOutcome {
+  return { source_table: table, source_id: id, status, message };
+}
+
+// The row's latest approval item must be approved, and decided after the
+// row's payload last changed, so approvers saw what runs
+async function chainApproved(supabase: SupabaseClient, table: ExecutableTable, id: string): Promise<boolean> {
+  const { data: row, error: rowError } = await supabase
+    .from(table)
+    .select('created_at, payload_changed_at')
+    .eq('id', id)
+    .maybeSingle();
+  if (rowError) throw new Error(`Failed to load ${table} ${id}: ${rowError.message}`);
+  if (!row) return false;
+
+  const { data, error } = await supabase
+    .from('approval_items')
+    .select('status, decided_at')
+    .eq('source_table', table)
+    .eq('source_id', id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw new Error(`Failed to load approval: ${error.message}`);
+
+  const latest = data?.[0] as { status: string; decided_at: string | null } | undefined;
+  if (latest?.status !== 'approved' || !latest.decided_at) return false;
+  const changedAt = (row.payload_changed_at ?? row.created_at) as string | null;
+  return !changedAt || Date.parse(latest.decided_at) > Date.parse(changedAt);
+}
+
+// Claim an approved, unexecuted row; returns the claimed row, or null when
+// there is nothing to run
+async function claim<T>(
+  supabase: SupabaseClient,
+  table: ExecutableTable,
+  id: string,
+  fields: Record<string, unknown> = {}
+): Promise<T | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .update({ ...fields, executed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'approved')
+    .is('executed_at', null)
+    .select('*');
+  if (error) throw new Error(`Failed to claim ${table} ${id}: ${error.message}`);
+  return (data?.[0] as T | undefined) ?? null;
+}
+
+async function record(
+  supabase: SupabaseClient,
+  table: ExecutableTable,
+  id: string,
+  fields: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase.from(table).update(fields).eq('id', id);
+  if (error) console.error(`Failed to record the outcome of ${table} ${id}:`, error);
+}
+
+async function tellRequester(
+  supabase: SupabaseClient,
+  userId: string | null,
+  result: ExecutionOutcome,
+  title: string
+): Promise<void> {
+  if (!userId || result.status === 'skipped') return;
+  await notify(supabase, [userId], {
+    title: `${title} ${result.status === 'completed' ? 'completed' : 'failed'}`,
+    message: result.message,
+    type: result.status === 'completed' ? 'success' : 'error',
+    related_id: result.source_id,
+  });
+}
+
+// ============================================================================
+// GITHUB
+// ============================================================================
+
+async function github<T>(token: string, method: string, path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`https://api.github.com/repos/${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'AI-Developer-Agent',
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`GitHub ${method} ${path} failed (${response.status}): ${data?.message || response.statusText}`);
+  }
+  return data as T;
+}
+
+// Head commit of a branch, or null when the branch does not exist
+async function branchHead(token: string, repo: string, branch: string): Promise<string | null> {
+  try {
+    const ref = await github<{ object: { sha: string } }>(token, 'GET', `${repo}/git/ref/heads/${branch}`);
+    return ref.object.sha;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('(404)')) return null;
+    throw error;
+  }
+}
+
+async function createBranch(token: string, repo: string, branch: string, from: string): Promise<string> {
+  const sha = await branchHead(token, repo, from);
+  if (!sha) throw new Error(`Branch ${from} does not exist in ${repo}`);
+  await github(token, 'POST', `${repo}/git/refs`, { ref: `refs/heads/${branch}`, sha });
+  return sha;
+}
+
+// Commit the files on top of the branch in a single commit
+async function commitFiles(
+  token: string,
+  repo: string,
+  branch: string,
+  message: string,
+  files: ScanFile[]
+): Promise<string> {
+  const head = await branchHead(token, repo, branch);
+  if (!head) throw new Error(`Branch ${branch} does not exist in ${repo}`);
+
+  const base = await github<{ tree: { sha: string } }>(token, 'GET', `${repo}/git/commits/${head}`);
+  const tree = await github<{ sha: string }>(token, 'POST', `${repo}/git/trees`, {
+    base_tree: base.tree.sha,
+    tree: files.map(f => ({ path: f.path, mode: '100644', type: 'blob', content: f.content })),
+  });
+  const commit = await github<{ sha: string }>(token, 'POST', `${repo}/git/commits`, {
+    message,
+    tree: tree.sha,
+    parents: [head],
+  });
+  await github(token, 'PATCH', `${repo}/git/refs/heads/${branch}`, { sha: commit.sha });
+  return commit.sha;
+}
+
+function scannedFiles(op: GithubOperation): ScanFile[] {
+  const files = toScanFiles(op.files_changed);
+  const scan = scanFiles(files);
+  if (scan.blocked) throw new Error(`Blocked by the secret scanner: ${describeScan(scan)}`);
+  return files;
+}
+
+async function performGithub(token: string, op: GithubOperation): Promise<GithubResult> {
+  if (!op.repo_owner || !op.repo_name) throw new Error('The operation names no repository');
+  const repo = `${op.repo_owner}/${op.repo_name}`;
+
+  switch (op.operation_type) {
+    case 'create_branch': {
+      if (!op.branch_name) throw new Error('The operation names no branch');
+      const from = op.target_branch || DEFAULT_BRANCH;
+      await createBranch(token, repo, op.branch_name, from);
+      return { columns: {}, message: `Created branch ${op.branch_name} from ${from} in ${repo}` };
+    }
+
+    case 'push_commit': {
+      const files = scannedFiles(op);
+      if (files.length === 0) throw new Error('The operation has no files to commit');
+      const branch = op.branch_name || DEFAULT_BRANCH;
+      const sha = await commitFiles(token, repo, branch, op.commit_message || 'Apply approved change', files);
+      return {
+        columns: { commit_sha: sha },
+        message: `Pushed ${files.length} file(s) to ${repo}@${branch} as ${sha.slice(0, 7)}`,
+      };
+    }
+
+    case 'create_pr': {
+      if (!op.branch_name) throw new Error('The pull request names no head branch');
+      const base = op.target_branch || DEFAULT_BRANCH;
+      const title = op.pr_title || op.commit_message || `Merge ${op.branch_name}`;
+      const files = scannedFiles(op);
+
+      let sha: string | undefined;
+      if (files.length > 0) {
+        if (!await branchHead(token, repo, op.branch_name)) {
+          await createBranch(token, repo, op.branch_name, base);
+        }
+        sha = await commitFiles(token, repo, op.branch_name, op.commit_message || title, files);
+      }
+
+      const pr = await github<{ number: number; html_url: string }>(token, 'POST', `${repo}/pulls`, {
+        title,
+        head: op.branch_name,
+        base,
+        body: op.pr_body || undefined,
+      });
+      return {
+        columns: { pr_number: pr.number, pr_url: pr.html_url, ...(sha ? { commit_sha: sha } : {}) },
+        message: `Opened pull request #${pr.number}: ${pr.html_url}`,
+      };
+    }
+
+    case 'merge_pr': {
+      if (!op.pr_number) throw new Error('The operation names no pull request');
+      const mergeMethod = typeof op.operation_data?.merge_method === 'string' ? op.operation_data.merge_method : 'merge';
+      const merge = await github<{ sha: string }>(token, 'PUT', `${repo}/pulls/${op.pr_number}/merge`, {
+        merge_method: mergeMethod,
+      });
+      return {
+        columns: { commit_sha: merge.sha },
+        message: `Merged pull request #${op.pr_number} in ${repo}`,
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported GitHub operation: ${op.operation_type}`);
+  }
+}
+
+async function runGithubOperation(supabase: SupabaseClient, id: string): Promise<ExecutionOutcome> {
+  const table = 'github_operations';
+  // Checked before claiming so the operation runs once the token is set
+  const token = Deno.env.get('GITHUB_TOKEN');
+  if (!token) {
+    return outcome(table, id, 'skipped', 'GitHub integration not configured. GITHUB_TOKEN secret is required.');
+  }
+
+  const op = await claim<GithubOperation>(supabase, table, id, { status: 'executing' });
+  if (!op) return outcome(table, id, 'skipped', 'Nothing to run');
+
+  let result: ExecutionOutcome;
+  try {
+    const done = await performGithub(token, op);
+    await record(supabase, table, id, {
+      ...done.columns,
+      status: 'completed',
+      error_message: null,
+      operation_data: { ...(op.operation_data || {}), result: done.message },
+    });
+    result = outcome(table, id, 'completed', done.message);
+
+    // Code proposals applied through GitHub are done once the push lands
+    const proposalId = op.operation_data?.proposal_id;
+    if (typeof proposalId === 'string') {
+      await supabase
+        .from('code_change_proposals')
+        .update({ status: 'applied', applied_at: new Date().toISOString() })
+        .eq('id', proposalId)
+        .eq('status', 'approved');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await record(supabase, table, id, { status: 'failed', error_message: message });
+    result = outcome(table, id, 'failed', message);
+  }
+
+  await tellRequester(supabase, op.user_id, result, `GitHub ${op.operation_type.replace(/_/g, ' ')}`);
+  return result;
+}
+
+// ============================================================================
+// DATABASE MIGRATIONS
+// ============================================================================
+
+async function runMigration(supabase: SupabaseClient, id: string): Promise<ExecutionOutcome> {
+  const table = 'database_migrations_log';
+  const { data: migration, error } = await supabase
+    .from(table)
+    .select('id, user_id, migration_name, migration_sql, status, executed_at')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load migration: ${error.message}`);
+  if (!migration || migration.status !== 'approved' || migration.executed_at) {
+    return outcome(table, id, 'skipped', 'Nothing to run');
+  }
+
+  const title = `Migration ${migration.migration_name}`;
+  let result: ExecutionOutcome;
+
+  // Rules may have tightened since the migration was proposed
+  const sqlCheck = await checkPolicy(supabase, migration.migration_sql, { target: 'sql' });
+  if (!sqlCheck.allowed) {
+    const message = `SQL contains dangerous patterns (${describeDecision(sqlCheck)})`;
+    if (!await claim(supabase, table, id, { status: 'failed', error_message: message })) {
+      return outcome(table, id, 'skipped', 'Nothing to run');
+    }
+    result = outcome(table, id, 'failed', message);
+  } else {
+    // The claim and the statements commit together in the database
+    const { data, error: runError } = await supabase.rpc('execute_approved_migration', { p_migration_id: id });
+    if (runError) throw new Error(`Failed to run migration: ${runError.message}`);
+
+    const run = data as { executed: boolean; error?: string };
+    if (run.executed) {
+      result = outcome(table, id, 'completed', `${title} was applied`);
+    } else if (run.error) {
+      result = outcome(table, id, 'failed', `${title} was rolled back: ${run.error}`);
+    } else {
+      return outcome(table, id, 'skipped', 'Nothing to run');
+    }
+  }
+
+  await tellRequester(supabase, migration.user_id, result, title);
+  return result;
+}
+
+// ============================================================================
+// FILE OPERATIONS
+// ============================================================================
+
+// Paths are relative to the bucket and may not climb out of it
+function bucketPath(filePath: string): string | null {
+  const path = filePath.replace(/\\/g, '/').replace(/^\/+/, '');
+  if (!path || path.split('/').some(part => part === '..' || part === '.')) return null;
+  return path;
+}
+
+async function performFileOperation(supabase: SupabaseClient, op: FileOperation): Promise<string> {
+  const path = bucketPath(op.file_path);
+  if (!path) throw new Error(`Invalid file path: ${op.file_path}`);
+  const bucket = supabase.storage.from(AGENT_FILES_BUCKET);
+
+  if (op.operation_type === 'create' || op.operation_type === 'update') {
+    const content = op.file_content ?? '';
+    const scan = scanFiles([{ path, content }]);
+    if (scan.blocked) throw new Error(`Blocked by the secret scanner: ${describeScan(scan)}`);
+  }
+
+  // Keep what an update or delete replaces
+  if (op.operation_type === 'update' || op.operation_type === 'delete') {
+    const { data: existing } = await bucket.download(path);
+    if (existing) {
+      await record(supabase, 'file_operations_log', op.id, { original_content: await existing.text() });
+    } else if (op.operation_type === 'delete') {
+      throw new Error(`${path} does not exist`);
+    }
+  }
+
+  switch (op.operation_type) {
+    case 'create':
+    case 'update': {
+      const { error } = await bucket.upload(path, new Blob([op.file_content ?? ''], { type: 'text/plain' }), {
+        upsert: op.operation_type === 'update',
+      });
+      if (error) throw new Error(`Failed to write ${path}: ${error.message}`);
+      return `${op.operation_type === 'create' ? 'Created' : 'Updated'} ${path}`;
+    }
+
+    case 'delete': {
+      const { error } = await bucket.remove([path]);
+      if (error) throw new Error(`Failed to delete ${path}: ${error.message}`);
+      return `Deleted ${path}`;
+    }
+
+    default:
+      throw new Error(`Unsupported file operation: ${op.operation_type}`);
+  }
+}
+
+async function runFileOperation(supabase: SupabaseClient, id: string): Promise<ExecutionOutcome> {
+  const table = 'file_operations_log';
+  const op = await claim<FileOperation>(supabase, table, id);
+  if (!op) return outcome(table, id, 'skipped', 'Nothing to run');
+
+  let result: ExecutionOutcome;
+  try {
+    const message = await performFileOperation(supabase, op);
+    await record(supabase, table, id, { status: 'executed', error_message: null });
+    result = outcome(table, id, 'completed', message);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await record(supabase, table, id, { status: 'failed', error_message: message });
+    result = outcome(table, id, 'failed', message);
+  }
+
+  await tellRequester(supabase, op.user_id, result, `File ${op.operation_type}`);
+  return result;
+}
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+// Run one approved row. Safe to call any number of times.
+export async function executeApproved(
+  supabase: SupabaseClient,
+  table: ExecutableTable,
+  id: string
+): Promise<ExecutionOutcome> {
+  if (!await chainApproved(supabase, table, id)) {
+    return outcome(table, id, 'skipped', 'Only actions approved through their approval chain run');
+  }
+
+  switch (table) {
+    case 'github_operations':
+      return runGithubOperation(supabase, id);
+    case 'database_migrations_log':
+      return runMigration(supabase, id);
+    case 'file_operations_log':
+      return runFileOperation(supabase, id);
+  }
+}
+
+// Run approved rows that never started, oldest approval first: rows whose
+// approval was recorded but not followed by a run, and GitHub operations
+// that waited on the token. Only approvals from the last week are picked up.
+export async function executeApprovedBacklog(supabase: SupabaseClient): Promise<ExecutionOutcome[]> {
+  const since = new Date(Date.now() - BACKLOG_WINDOW_MS).toISOString();
+  const outcomes: ExecutionOutcome[] = [];
+  for (const table of EXECUTABLE_TABLES) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id')
+      .eq('status', 'approved')
+      .is('executed_at', null)
+      .gte('approved_at', since)
+      .order('approved_at', { ascending: true })
+      .limit(BACKLOG_BATCH);
+    if (error) {
+      console.error(`Failed to load approved ${table}:`, error);
+      continue;
+    }
+
+    for (const row of (data || []) as { id: string }[]) {
+      try {
+        outcomes.push(await executeApproved(supabase, table, row.id));
+      } catch (error) {
+        console.error(`Failed to execute ${table} ${row.id}:`, error);
+      }
+    }
+  }
+  return outcomes;
+}
@@ -0,0 +1,134 @@
+// ============================================================================
+// CALLER AUTHENTICATION
+// Edge functions run with the service-role key, so who the caller is and what
+// they may do is never taken from the request body. The caller is resolved
+// from their Supabase session JWT and their role from user_roles.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+export type AppRole = 'employee' | 'hr' | 'it' | 'developer';
+
+export interface Caller {
+  userId: string;
+  email: string | null;
+  role: AppRole;
+}
+
+export const ALL_ROLES: AppRole[] = ['employee', 'hr', 'it', 'developer'];
+const TECHNICAL_ROLES: AppRole[] = ['it', 'developer'];
+const DEVELOPER_ONLY: AppRole[] = ['developer'];
+
+// Which roles may run each advanced-agent tool. Tools missing from the matrix
+// are denied to everyone.
+export const TOOL_PERMISSIONS: Record<string, AppRole[]> = {
+  // General assistance
+  analyze_multi_task: ALL_ROLES,
+  execute_task: ALL_ROLES,
+  run_task_queue: ALL_ROLES,
+  control_task_queue: ALL_ROLES,
+  revise_task_plan: ALL_ROLES,
+  provide_task_info: ALL_ROLES,
+  get_current_datetime: ALL_ROLES,
+  web_search: ALL_ROLES,
+  calculate: ALL_ROLES,
+  get_site_info: ALL_ROLES,
+  navigate_page: ALL_ROLES,
+  search_documents: ALL_ROLES,
+  create_bug_ticket: ALL_ROLES,
+  automate_hr_task: ALL_ROLES,
+  learn_pattern: ALL_ROLES,
+  request_capability: ALL_ROLES,
+  social_profile_lookup: ['hr', 'it', 'developer'],
+
+  // Read-only engineering tools
+  automate_dev_task: TECHNICAL_ROLES,
+  analyze_code: TECHNICAL_ROLES,
+  run_diagnostics: TECHNICAL_ROLES,
+  list_all_files: TECHNICAL_ROLES,
+  github_list_files: TECHNICAL_ROLES,
+  github_get_file: TECHNICAL_ROLES,
+  github_list_prs: TECHNICAL_ROLES,
+  github_list_branches: TECHNICAL_ROLES,
+
+  // Tools that read arbitrary data or change code, repositories or schema
+  query_database: DEVELOPER_ONLY,
+  propose_code_change: DEVELOPER_ONLY,
+  generate_tool_code: DEVELOPER_ONLY,
+  git_operation: DEVELOPER_ONLY,
+  file_operation: DEVELOPER_ONLY,
+  enhanced_file_operation: DEVELOPER_ONLY,
+  apply_code_change: DEVELOPER_ONLY,
+  database_migration: DEVELOPER_ONLY,
+  github_create_pr: DEVELOPER_ONLY,
+  github_push_commit: DEVELOPER_ONLY,
+  github_create_branch: DEVELOPER_ONLY,
+  github_merge_pr: DEVELOPER_ONLY,
+};
+
+export function canUseTool(role: AppRole, toolName: string): boolean {
+  return TOOL_PERMISSIONS[toolName]?.includes(role) ?? false;
+}
+
+// Resolve the caller from the request's bearer token. Returns null for
+// missing, anonymous or expired tokens.
+export async function getCaller(req: Request, supabase: SupabaseClient): Promise<Caller | null> {
+  const authHeader = req.headers.get('Authorization') || '';
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) return null;
+
+  const { data: role, error: roleError } = await supabase.rpc('get_user_role', { _user_id: data.user.id });
+  if (roleError) {
+    console.error('Failed to resolve caller role:', roleError);
+  }
+
+  return {
+    userId: data.user.id,
+    email: data.user.email ?? null,
+    role: ALL_ROLES.includes(role) ? role : 'employee',
+  };
+}
+
+// Whether a chat session belongs to the caller. Requests without a session
+// pass; sessions that do not exist or have no owner do not.
+export async function ownsSession(
+  supabase: SupabaseClient,
+  sessionId: string | null | undefined,
+  userId: string
+): Promise<boolean> {
+  if (!sessionId) return true;
+
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('user_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to check session ownership:', error);
+    return false;
+  }
+  return data?.user_id === userId;
+}
+
+// Record a refused request or tool call in ai_safety_audit
+export async function recordAccessDenied(
+  supabase: SupabaseClient,
+  context: { sessionId?: string | null; userId?: string | null; role?: string | null; action: string; reason: string }
+): Promise<void> {
+  const { error } = await supabase.from('ai_safety_audit').insert({
+    session_id: context.sessionId || null,
+    user_id: context.userId || null,
+    action_type: 'access_denied',
+    action_data: { action: context.action, role: context.role ?? null },
+    safety_score: 0,
+    risk_flags: ['permission_denied'],
+    was_blocked: true,
+    block_reason: context.reason,
+  });
+
+  if (error) console.error('Failed to record denied access:', error);
+}
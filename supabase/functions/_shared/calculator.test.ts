@@ -0,0 +1,97 @@
+import { deepStrictEqual as assertEquals, throws as assertThrows } from 'node:assert/strict';
+import { CalculationError, evaluateExpression, type CalculationErrorCode, type CalculationOptions } from './calculator.ts';
+
+const OPTIONS: CalculationOptions = { today: '2024-06-15', exchangeRates: { 'USD/INR': '83.25' } };
+
+function evaluate(expression: string) {
+  return evaluateExpression(expression, OPTIONS);
+}
+
+function assertFails(expression: string, code: CalculationErrorCode, position?: number) {
+  assertThrows(() => evaluate(expression), (error: unknown) => {
+    assertEquals(error instanceof CalculationError, true);
+    assertEquals((error as CalculationError).code, code);
+    if (position !== undefined) assertEquals((error as CalculationError).position, position);
+    return true;
+  });
+}
+
+Deno.test('operators follow precedence and associativity', () => {
+  assertEquals(evaluate('2 + 3 * 4').value, '14');
+  assertEquals(evaluate('(2 + 3) * 4').value, '20');
+  assertEquals(evaluate('10 - 4 - 3').value, '3');
+  assertEquals(evaluate('100 / 8 / 5').value, '2.5');
+  assertEquals(evaluate('2 ^ 3 ^ 2').value, '512');
+  assertEquals(evaluate('-2 ^ 2').value, '-4');
+  assertEquals(evaluate('-(3 - 5)').value, '2');
+});
+
+Deno.test('decimals are exact and rounded half away from zero', () => {
+  assertEquals(evaluate('0.1 + 0.2').value, '0.3');
+  assertEquals(evaluate('1 / 3').value, '0.3333333333');
+  assertEquals(evaluate('2 / 3 * 3').value, '2');
+  assertEquals(evaluate('round(2.345, 2)').value, '2.35');
+  assertEquals(evaluate('round(2.5)').value, '3');
+  assertEquals(evaluate('round(-2.5)').value, '-3');
+});
+
+Deno.test('currency is rounded to its minor unit', () => {
+  const rupees = evaluate('₹100 / 3');
+  assertEquals([rupees.value, rupees.formatted, rupees.unit], ['33.33', '₹33.33', 'INR']);
+  assertEquals(evaluate('₹5 lakh + 20000').formatted, '₹5,20,000.00');
+  assertEquals(evaluate('100 USD to INR').value, '8325.00');
+  assertFails('10 USD + 5 EUR', 'missing_exchange_rate', 7);
+});
+
+Deno.test('division by zero is reported at the operator', () => {
+  assertFails('10 / 0', 'division_by_zero', 3);
+  assertFails('1 / (2 - 2)', 'division_by_zero');
+});
+
+Deno.test('percentages apply to what they follow', () => {
+  assertEquals(evaluate('15% of 2500').value, '375');
+  assertEquals(evaluate('1200 + 18%').value, '1416');
+  assertEquals(evaluate('1200 - 10%').value, '1080');
+  assertEquals(evaluate('2 * 3%').value, '0.06');
+  assertEquals(evaluate('25% of 25% of 400').value, '25');
+
+  const percent = evaluate('50%');
+  assertEquals([percent.value, percent.formatted, percent.type], ['50', '50%', 'percent']);
+});
+
+Deno.test('month arithmetic clamps to the end of the month', () => {
+  assertEquals(evaluate('2024-01-31 + 1 month').value, '2024-02-29');
+  assertEquals(evaluate('2023-01-31 + 1 month').value, '2023-02-28');
+  assertEquals(evaluate('2024-03-31 - 1 month').value, '2024-02-29');
+  assertEquals(evaluate('2024-02-29 + 1 year').value, '2025-02-28');
+  assertEquals(evaluate('2024-02-28 + 2 days').value, '2024-03-01');
+});
+
+Deno.test('dates subtract to days and today() can be fixed', () => {
+  const span = evaluate('2024-12-25 - 2024-01-01');
+  assertEquals([span.value, span.formatted], ['359', '359 days']);
+  assertEquals(evaluate('today()').formatted, '2024-06-15 (Saturday)');
+  assertFails('2024-02-30', 'invalid_date', 0);
+});
+
+Deno.test('business days skip weekends and the calendar holidays', () => {
+  assertEquals(evaluate("business_days(2024-01-01, 2024-01-31, 'none')").value, '23');
+  // Republic Day, Friday 26 January
+  assertEquals(evaluate("business_days(2024-01-01, 2024-01-31, 'IN')").value, '22');
+});
+
+Deno.test('units convert before they combine', () => {
+  assertEquals(evaluate('5 days + 36 hours').formatted, '156 hours');
+  assertEquals(evaluate('2 years in months').formatted, '24 months');
+});
+
+Deno.test('gratuity uses 15 days of pay per year over 26 working days', () => {
+  assertEquals(evaluate('gratuity(50000, 10)').value, '288461.54');
+});
+
+Deno.test('malformed input is rejected with its position', () => {
+  assertFails('2 +', 'unexpected_end', 3);
+  assertFails('(1 + 2', 'unexpected_end', 6);
+  assertFails('2(3)', 'unexpected_token', 1);
+  assertFails('foo + 1', 'unknown_identifier', 0);
+});
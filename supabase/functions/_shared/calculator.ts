@@ -0,0 +1,1510 @@
+// ============================================================================
+// CALCULATOR
+// Parser and evaluator behind the advanced-agent calculate tool. Expressions
+// are tokenized and evaluated by recursive descent over exact decimals; no
+// input is ever handed to eval or Function.
+//
+// Beyond arithmetic it understands:
+//   - percentages      15% of 2500, 1200 + 18%
+//   - units            5 days + 36 hours, 2 years in months
+//   - currency         ₹5 lakh + 20000, 100 USD to INR (with exchange rates)
+//   - dates            2024-01-31 + 1 month, 2024-12-25 - today()
+//   - business days    business_days(2024-01-01, 2024-01-31, 'IN')
+//   - HR functions     prorated_leave, hra_exemption, income_tax, gratuity
+//
+// Failures throw CalculationError with a code and the character offset of
+// the offending token, so callers can point at it.
+// ============================================================================
+
+import * as D from './decimal.ts';
+import type { Decimal } from './decimal.ts';
+
+export type CalculationErrorCode =
+  | 'empty_expression'
+  | 'expression_too_long'
+  | 'unexpected_character'
+  | 'unterminated_string'
+  | 'unexpected_token'
+  | 'unexpected_end'
+  | 'unknown_identifier'
+  | 'unknown_function'
+  | 'invalid_arguments'
+  | 'type_mismatch'
+  | 'unit_mismatch'
+  | 'unit_required'
+  | 'missing_exchange_rate'
+  | 'division_by_zero'
+  | 'invalid_date'
+  | 'unknown_calendar'
+  | 'result_too_large';
+
+export class CalculationError extends Error {
+  constructor(
+    public code: CalculationErrorCode,
+    message: string,
+    public position: number,
+    public length: number = 1
+  ) {
+    super(message);
+    this.name = 'CalculationError';
+  }
+}
+
+export interface CalculationOptions {
+  // Holiday calendar for business-day functions: IN, US, UK or none
+  calendar?: string;
+  // Extra non-working days (YYYY-MM-DD), on top of the calendar
+  holidays?: string[];
+  // 1 unit of the first currency in the second, keyed "USD/INR"
+  exchangeRates?: Record<string, number | string>;
+  // Overrides today() (YYYY-MM-DD); defaults to the current UTC date
+  today?: string;
+}
+
+export type CalculationResultType = 'number' | 'currency' | 'duration' | 'percent' | 'date' | 'boolean' | 'text';
+
+export interface CalculationResult {
+  // Exact value; currency is rounded to its minor unit
+  value: string;
+  formatted: string;
+  type: CalculationResultType;
+  unit: string | null;
+  // How HR functions reached their result
+  details: string[];
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_INTEGER_DIGITS = 30;
+// Intermediate results are rounded to this many places
+const MAX_SCALE = 30;
+const MAX_EXPONENT = 100;
+const MAX_DAY_SPAN = 36600;
+const DEFAULT_CALENDAR = 'IN';
+
+// ============================================================================
+// VALUES AND UNITS
+// ============================================================================
+
+type Unit =
+  | { kind: 'currency'; code: string }
+  | { kind: 'duration'; name: 'minute' | 'hour' | 'day' | 'week' }
+  | { kind: 'calendar'; name: 'month' | 'year' };
+
+type Value =
+  | { kind: 'number'; value: Decimal; unit: Unit | null }
+  | { kind: 'percent'; value: Decimal }
+  | { kind: 'date'; day: number }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'text'; value: string };
+
+type NumberValue = Extract<Value, { kind: 'number' }>;
+
+// Minutes per duration unit and months per calendar unit
+const DURATION_FACTORS = { minute: 1n, hour: 60n, day: 1440n, week: 10080n };
+const CALENDAR_FACTORS = { month: 1n, year: 12n };
+
+const CURRENCY_CODES = ['INR', 'USD', 'EUR', 'GBP', 'AED', 'SGD', 'AUD', 'CAD', 'JPY', 'CHF', 'CNY'];
+const CURRENCY_SYMBOLS: Record<string, string> = { '₹': 'INR', '$': 'USD', '€': 'EUR', '£': 'GBP' };
+const CURRENCY_DISPLAY: Record<string, string> = { INR: '₹', USD: '$', EUR: '€', GBP: '£' };
+const ZERO_DECIMAL_CURRENCIES = ['JPY'];
+
+const UNIT_ALIASES: Record<string, Unit> = {
+  minute: { kind: 'duration', name: 'minute' },
+  minutes: { kind: 'duration', name: 'minute' },
+  min: { kind: 'duration', name: 'minute' },
+  mins: { kind: 'duration', name: 'minute' },
+  hour: { kind: 'duration', name: 'hour' },
+  hours: { kind: 'duration', name: 'hour' },
+  hr: { kind: 'duration', name: 'hour' },
+  hrs: { kind: 'duration', name: 'hour' },
+  day: { kind: 'duration', name: 'day' },
+  days: { kind: 'duration', name: 'day' },
+  week: { kind: 'duration', name: 'week' },
+  weeks: { kind: 'duration', name: 'week' },
+  wk: { kind: 'duration', name: 'week' },
+  wks: { kind: 'duration', name: 'week' },
+  month: { kind: 'calendar', name: 'month' },
+  months: { kind: 'calendar', name: 'month' },
+  year: { kind: 'calendar', name: 'year' },
+  years: { kind: 'calendar', name: 'year' },
+  yr: { kind: 'calendar', name: 'year' },
+  yrs: { kind: 'calendar', name: 'year' },
+  rupee: { kind: 'currency', code: 'INR' },
+  rupees: { kind: 'currency', code: 'INR' },
+  rs: { kind: 'currency', code: 'INR' },
+  dollar: { kind: 'currency', code: 'USD' },
+  dollars: { kind: 'currency', code: 'USD' },
+  euro: { kind: 'currency', code: 'EUR' },
+  euros: { kind: 'currency', code: 'EUR' },
+  pound: { kind: 'currency', code: 'GBP' },
+  pounds: { kind: 'currency', code: 'GBP' },
+  ...Object.fromEntries(CURRENCY_CODES.map(code => [code.toLowerCase(), { kind: 'currency', code } as Unit])),
+};
+
+const SCALE_WORDS: Record<string, Decimal> = {
+  thousand: D.decimal('1000'),
+  k: D.decimal('1000'),
+  lakh: D.decimal('100000'),
+  lakhs: D.decimal('100000'),
+  lac: D.decimal('100000'),
+  lacs: D.decimal('100000'),
+  crore: D.decimal('10000000'),
+  crores: D.decimal('10000000'),
+  cr: D.decimal('10000000'),
+  million: D.decimal('1000000'),
+  mn: D.decimal('1000000'),
+  billion: D.decimal('1000000000'),
+  bn: D.decimal('1000000000'),
+};
+
+// Words that join operands and are never units or variables
+const KEYWORDS = ['of', 'in', 'to', 'as', 'and', 'between'];
+
+// Table lookup by user-supplied name that ignores inherited keys like
+// 'constructor'
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+function num(value: Decimal, unit: Unit | null = null): Value {
+  return { kind: 'number', value, unit };
+}
+
+function unitName(unit: Unit): string {
+  return unit.kind === 'currency' ? unit.code : unit.name;
+}
+
+function sameUnit(a: Unit | null, b: Unit | null): boolean {
+  if (!a || !b) return a === b;
+  return a.kind === b.kind && unitName(a) === unitName(b);
+}
+
+function describe(value: Value): string {
+  switch (value.kind) {
+    case 'number':
+      return value.unit ? `a ${value.unit.kind === 'currency' ? 'currency amount' : 'duration'}` : 'a number';
+    case 'percent':
+      return 'a percentage';
+    case 'date':
+      return 'a date';
+    case 'boolean':
+      return 'a yes/no value';
+    case 'text':
+      return 'text';
+  }
+}
+
+// ============================================================================
+// DATES
+// Dates are whole days since 1970-01-01 (UTC); times of day are not modelled.
+// ============================================================================
+
+const MS_PER_DAY = 86_400_000;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function dayFromParts(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+function partsFromDay(day: number): { year: number; month: number; day: number } {
+  const date = new Date(day * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(day: number): number {
+  return new Date(day * MS_PER_DAY).getUTCDay();
+}
+
+function formatDay(day: number): string {
+  const { year, month, day: d } = partsFromDay(day);
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+function parseIsoDay(text: string): number | null {
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return dayFromParts(year, month, day);
+}
+
+// Adding a month to Jan 31 gives the last day of February
+function addMonths(day: number, months: number): number {
+  const { year, month, day: d } = partsFromDay(day);
+  const total = year * 12 + (month - 1) + months;
+  const newYear = Math.floor(total / 12);
+  const newMonth = (total % 12) + 1;
+  return dayFromParts(newYear, newMonth, Math.min(d, daysInMonth(newYear, newMonth)));
+}
+
+// ============================================================================
+// HOLIDAY CALENDARS
+// Public holidays that fall on every working calendar in a country. Regional
+// and company holidays are passed in as extra dates.
+// ============================================================================
+
+type HolidayRule = (year: number) => number[];
+
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  if (n > 0) {
+    const first = dayFromParts(year, month, 1);
+    return first + ((weekday - weekdayOf(first) + 7) % 7) + (n - 1) * 7;
+  }
+  const last = dayFromParts(year, month, daysInMonth(year, month));
+  return last - ((weekdayOf(last) - weekday + 7) % 7);
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): number {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dayFromParts(year, month, day);
+}
+
+function isWeekend(day: number): boolean {
+  const weekday = weekdayOf(day);
+  return weekday === 0 || weekday === 6;
+}
+
+// US federal rule: Saturday holidays are observed on Friday, Sunday ones on Monday
+function observedUS(day: number): number {
+  const weekday = weekdayOf(day);
+  return weekday === 6 ? day - 1 : weekday === 0 ? day + 1 : day;
+}
+
+// UK rule: weekend holidays move to the next weekday not already a holiday
+function substituteUK(days: number[]): number[] {
+  const taken = new Set(days.filter(d => !isWeekend(d)));
+  for (const day of days.filter(isWeekend)) {
+    let substitute = day + 1;
+    while (isWeekend(substitute) || taken.has(substitute)) substitute++;
+    taken.add(substitute);
+  }
+  return [...taken];
+}
+
+const HOLIDAY_CALENDARS: Record<string, HolidayRule> = {
+  none: () => [],
+  // National holidays observed in every state
+  IN: year => [dayFromParts(year, 1, 26), dayFromParts(year, 8, 15), dayFromParts(year, 10, 2)],
+  US: year => [
+    observedUS(dayFromParts(year, 1, 1)),
+    nthWeekday(year, 1, 1, 3),
+    nthWeekday(year, 2, 1, 3),
+    nthWeekday(year, 5, 1, -1),
+    ...(year >= 2021 ? [observedUS(dayFromParts(year, 6, 19))] : []),
+    observedUS(dayFromParts(year, 7, 4)),
+    nthWeekday(year, 9, 1, 1),
+    nthWeekday(year, 10, 1, 2),
+    observedUS(dayFromParts(year, 11, 11)),
+    nthWeekday(year, 11, 4, 4),
+    observedUS(dayFromParts(year, 12, 25)),
+  ],
+  // England and Wales bank holidays
+  UK: year => [
+    ...substituteUK([dayFromParts(year, 1, 1)]),
+    easterSunday(year) - 2,
+    easterSunday(year) + 1,
+    nthWeekday(year, 5, 1, 1),
+    nthWeekday(year, 5, 1, -1),
+    nthWeekday(year, 8, 1, -1),
+    ...substituteUK([dayFromParts(year, 12, 25), dayFromParts(year, 12, 26)]),
+  ],
+};
+
+const CALENDAR_ALIASES: Record<string, string> = {
+  in: 'IN', india: 'IN',
+  us: 'US', usa: 'US',
+  uk: 'UK', gb: 'UK', england: 'UK',
+  none: 'none', weekends: 'none',
+};
+
+interface BusinessCalendar {
+  name: string;
+  isBusinessDay(day: number): boolean;
+}
+
+function createBusinessCalendar(name: string, extraHolidays: Set<number>): BusinessCalendar {
+  const rule = HOLIDAY_CALENDARS[name];
+  const byYear = new Map<number, Set<number>>();
+
+  // Observed dates can spill into the neighbouring year (a Saturday
+  // New Year's Day is observed on 31 December)
+  const holidaysAround = (year: number) => {
+    let holidays = byYear.get(year);
+    if (!holidays) {
+      holidays = new Set([...rule(year - 1), ...rule(year), ...rule(year + 1)]);
+      byYear.set(year, holidays);
+    }
+    return holidays;
+  };
+
+  return {
+    name,
+    isBusinessDay: (day: number) =>
+      !isWeekend(day) && !extraHolidays.has(day) && !holidaysAround(partsFromDay(day).year).has(day),
+  };
+}
+
+// ============================================================================
+// INDIAN PAYROLL RULES
+// Slab rates, 87A rebates and limits as enacted; amounts are in rupees.
+// ============================================================================
+
+interface TaxRegime {
+  label: string;
+  // Upper bound of each slab (null for the top slab) and its rate in percent
+  slabs: { upTo: Decimal | null; rate: Decimal }[];
+  rebateLimit: Decimal;
+  rebateMax: Decimal;
+  // New-regime marginal relief: tax above the rebate limit never exceeds
+  // the income above it
+  marginalRelief: boolean;
+}
+
+function slabs(...entries: [number | null, number][]): TaxRegime['slabs'] {
+  return entries.map(([upTo, rate]) => ({ upTo: upTo === null ? null : D.decimal(upTo), rate: D.decimal(rate) }));
+}
+
+const TAX_REGIMES: Record<string, TaxRegime> = {
+  new: {
+    label: 'New regime (FY 2025-26 onwards)',
+    slabs: slabs([400000, 0], [800000, 5], [1200000, 10], [1600000, 15], [2000000, 20], [2400000, 25], [null, 30]),
+    rebateLimit: D.decimal(1200000),
+    rebateMax: D.decimal(60000),
+    marginalRelief: true,
+  },
+  new_fy2024: {
+    label: 'New regime (FY 2024-25)',
+    slabs: slabs([300000, 0], [700000, 5], [1000000, 10], [1200000, 15], [1500000, 20], [null, 30]),
+    rebateLimit: D.decimal(700000),
+    rebateMax: D.decimal(25000),
+    marginalRelief: true,
+  },
+  old: {
+    label: 'Old regime (below 60 years)',
+    slabs: slabs([250000, 0], [500000, 5], [1000000, 20], [null, 30]),
+    rebateLimit: D.decimal(500000),
+    rebateMax: D.decimal(12500),
+    marginalRelief: false,
+  },
+};
+
+const TAX_REGIME_ALIASES: Record<string, string> = {
+  new: 'new', new_fy2025: 'new', 'fy2025-26': 'new',
+  new_fy2024: 'new_fy2024', 'fy2024-25': 'new_fy2024',
+  old: 'old',
+};
+
+const HEALTH_EDUCATION_CESS = D.decimal(4);
+const SURCHARGE_THRESHOLD = D.decimal(5000000);
+const GRATUITY_CAP = D.decimal(2000000);
+const GRATUITY_MIN_YEARS = 5;
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenType = 'number' | 'date' | 'string' | 'ident' | 'currency' | 'op' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  pos: number;
+}
+
+const OPERATOR_ALIASES: Record<string, string> = { '×': '*', '÷': '/', '−': '-' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    const rest = source.slice(i);
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const date = rest.match(/^\d{4}-\d{2}-\d{2}(?![\d.])/);
+    if (date) {
+      tokens.push({ type: 'date', text: date[0], pos: i });
+      i += date[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^(?:\d[\d_]*(?:\.\d+)?|\.\d+)/);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0].replace(/_/g, ''), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new CalculationError('unterminated_string', 'Text is missing its closing quote', i, source.length - i);
+      }
+      tokens.push({ type: 'string', text: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const ident = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (ident) {
+      tokens.push({ type: 'ident', text: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    if (CURRENCY_SYMBOLS[ch]) {
+      tokens.push({ type: 'currency', text: CURRENCY_SYMBOLS[ch], pos: i });
+      i++;
+      continue;
+    }
+
+    if ('+-*/^%'.includes(ch) || OPERATOR_ALIASES[ch]) {
+      tokens.push({ type: 'op', text: OPERATOR_ALIASES[ch] || ch, pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', text: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new CalculationError('unexpected_character', `Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ type: 'eof', text: '', pos: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+interface EvalContext {
+  today: number;
+  calendar: string;
+  extraHolidays: Set<number>;
+  exchangeRates: Map<string, Decimal>;
+  calendars: Map<string, BusinessCalendar>;
+  details: string[];
+}
+
+function checkSize(value: Decimal, pos: number): Decimal {
+  if (D.integerDigits(value) > MAX_INTEGER_DIGITS) {
+    throw new CalculationError('result_too_large', 'Result is too large', pos);
+  }
+  return D.round(value, MAX_SCALE);
+}
+
+function resolveCalendar(ctx: EvalContext, name: string | undefined, pos: number): BusinessCalendar {
+  const key = name === undefined ? ctx.calendar : (lookup(CALENDAR_ALIASES, name.toLowerCase()) ?? name);
+  if (!lookup(HOLIDAY_CALENDARS, key)) {
+    throw new CalculationError(
+      'unknown_calendar',
+      `Unknown holiday calendar '${name}'. Use one of: ${Object.keys(HOLIDAY_CALENDARS).join(', ')}`,
+      pos
+    );
+  }
+  let calendar = ctx.calendars.get(key);
+  if (!calendar) {
+    calendar = createBusinessCalendar(key, ctx.extraHolidays);
+    ctx.calendars.set(key, calendar);
+  }
+  return calendar;
+}
+
+function exchangeRate(ctx: EvalContext, from: string, to: string, pos: number): Decimal {
+  const direct = ctx.exchangeRates.get(`${from}/${to}`);
+  if (direct) return direct;
+  const inverse = ctx.exchangeRates.get(`${to}/${from}`);
+  if (inverse && !D.isZero(inverse)) return D.div(D.ONE, inverse);
+  throw new CalculationError(
+    'missing_exchange_rate',
+    `No exchange rate from ${from} to ${to}; pass one as "${from}/${to}"`,
+    pos
+  );
+}
+
+// Convert an amount between two units of the same kind
+function convert(ctx: EvalContext, value: Decimal, from: Unit, to: Unit, pos: number): Decimal {
+  if (from.kind === 'duration' && to.kind === 'duration') {
+    return D.div(D.mul(value, { coef: DURATION_FACTORS[from.name], scale: 0 }), { coef: DURATION_FACTORS[to.name], scale: 0 });
+  }
+  if (from.kind === 'calendar' && to.kind === 'calendar') {
+    return D.div(D.mul(value, { coef: CALENDAR_FACTORS[from.name], scale: 0 }), { coef: CALENDAR_FACTORS[to.name], scale: 0 });
+  }
+  if (from.kind === 'currency' && to.kind === 'currency') {
+    return from.code === to.code ? value : D.mul(value, exchangeRate(ctx, from.code, to.code, pos));
+  }
+  if ((from.kind === 'duration' && to.kind === 'calendar') || (from.kind === 'calendar' && to.kind === 'duration')) {
+    throw new CalculationError(
+      'unit_mismatch',
+      `Cannot convert ${unitName(from)}s to ${unitName(to)}s; months and years vary in length`,
+      pos
+    );
+  }
+  throw new CalculationError('unit_mismatch', `Cannot convert ${unitName(from)} to ${unitName(to)}`, pos);
+}
+
+// The unit two compatible operands are combined in: the smaller time unit,
+// or the left operand's currency
+function commonUnit(a: Unit, b: Unit): Unit {
+  if (a.kind === 'duration' && b.kind === 'duration') {
+    return DURATION_FACTORS[a.name] <= DURATION_FACTORS[b.name] ? a : b;
+  }
+  if (a.kind === 'calendar' && b.kind === 'calendar') {
+    return CALENDAR_FACTORS[a.name] <= CALENDAR_FACTORS[b.name] ? a : b;
+  }
+  return a;
+}
+
+function combineUnits(ctx: EvalContext, a: NumberValue, b: NumberValue, pos: number) {
+  if (!a.unit || !b.unit || sameUnit(a.unit, b.unit)) {
+    return { left: a.value, right: b.value, unit: a.unit ?? b.unit };
+  }
+  if ((a.unit.kind === 'currency') !== (b.unit.kind === 'currency')) {
+    throw new CalculationError('unit_mismatch', `Cannot combine ${unitName(a.unit)} with ${unitName(b.unit)}`, pos);
+  }
+  const unit = commonUnit(a.unit, b.unit);
+  return {
+    left: convert(ctx, a.value, a.unit, unit, pos),
+    right: convert(ctx, b.value, b.unit, unit, pos),
+    unit,
+  };
+}
+
+function wholeDays(ctx: EvalContext, amount: NumberValue, pos: number): number {
+  if (!amount.unit) {
+    throw new CalculationError('unit_required', 'Say what to add to a date, e.g. + 5 days or + 2 months', pos);
+  }
+  const days = convert(ctx, amount.value, amount.unit, { kind: 'duration', name: 'day' }, pos);
+  if (!D.isInteger(days)) {
+    throw new CalculationError('invalid_arguments', 'Dates can only move by whole days', pos);
+  }
+  return D.toInteger(days);
+}
+
+function shiftDate(ctx: EvalContext, day: number, amount: NumberValue, sign: 1 | -1, pos: number): Value {
+  if (amount.unit?.kind === 'calendar') {
+    if (!D.isInteger(amount.value)) {
+      throw new CalculationError('invalid_arguments', 'Dates can only move by whole months or years', pos);
+    }
+    const months = D.toInteger(amount.value) * Number(CALENDAR_FACTORS[amount.unit.name]) * sign;
+    return { kind: 'date', day: addMonths(day, months) };
+  }
+  return { kind: 'date', day: day + wholeDays(ctx, amount, pos) * sign };
+}
+
+function addValues(ctx: EvalContext, a: Value, b: Value, sign: 1 | -1, pos: number): Value {
+  if (a.kind === 'number' && b.kind === 'number') {
+    const { left, right, unit } = combineUnits(ctx, a, b, pos);
+    return num(checkSize(sign === 1 ? D.add(left, right) : D.sub(left, right), pos), unit);
+  }
+  // 1200 + 18% is 1200 plus 18% of 1200
+  if (a.kind === 'number' && b.kind === 'percent') {
+    const factor = D.div(sign === 1 ? D.add(D.HUNDRED, b.value) : D.sub(D.HUNDRED, b.value), D.HUNDRED);
+    return num(checkSize(D.mul(a.value, factor), pos), a.unit);
+  }
+  if (a.kind === 'percent' && b.kind === 'percent') {
+    return { kind: 'percent', value: sign === 1 ? D.add(a.value, b.value) : D.sub(a.value, b.value) };
+  }
+  if (a.kind === 'date' && b.kind === 'number') {
+    return shiftDate(ctx, a.day, b, sign, pos);
+  }
+  if (a.kind === 'number' && b.kind === 'date' && sign === 1) {
+    return shiftDate(ctx, b.day, a, 1, pos);
+  }
+  if (a.kind === 'date' && b.kind === 'date' && sign === -1) {
+    return num(D.decimal(a.day - b.day), { kind: 'duration', name: 'day' });
+  }
+  throw new CalculationError(
+    'type_mismatch',
+    `Cannot ${sign === 1 ? 'add' : 'subtract'} ${describe(b)} ${sign === 1 ? 'to' : 'from'} ${describe(a)}`,
+    pos
+  );
+}
+
+function multiplyValues(ctx: EvalContext, a: Value, b: Value, pos: number): Value {
+  if (a.kind === 'number' && b.kind === 'number') {
+    let unit: Unit | null = a.unit ?? b.unit;
+    if (a.unit && b.unit) {
+      // A rate times a period: 2000 INR * 5 days
+      const currency = a.unit.kind === 'currency' ? a.unit : b.unit.kind === 'currency' ? b.unit : null;
+      const other = currency === a.unit ? b.unit : a.unit;
+      if (!currency || other.kind === 'currency') {
+        throw new CalculationError('unit_mismatch', `Cannot multiply ${unitName(a.unit)} by ${unitName(b.unit)}`, pos);
+      }
+      unit = currency;
+    }
+    return num(checkSize(D.mul(a.value, b.value), pos), unit);
+  }
+  if (a.kind === 'number' && b.kind === 'percent') {
+    return num(checkSize(D.div(D.mul(a.value, b.value), D.HUNDRED), pos), a.unit);
+  }
+  if (a.kind === 'percent' && b.kind === 'number') {
+    return num(checkSize(D.div(D.mul(a.value, b.value), D.HUNDRED), pos), b.unit);
+  }
+  if (a.kind === 'percent' && b.kind === 'percent') {
+    return { kind: 'percent', value: D.div(D.mul(a.value, b.value), D.HUNDRED) };
+  }
+  throw new CalculationError('type_mismatch', `Cannot multiply ${describe(a)} by ${describe(b)}`, pos);
+}
+
+function divideValues(ctx: EvalContext, a: Value, b: Value, pos: number): Value {
+  const divisor = b.kind === 'number' || b.kind === 'percent' ? b.value : null;
+  if (divisor && D.isZero(divisor)) {
+    throw new CalculationError('division_by_zero', 'Division by zero', pos);
+  }
+
+  if (a.kind === 'number' && b.kind === 'number') {
+    if (!b.unit) return num(checkSize(D.div(a.value, b.value), pos), a.unit);
+    if (!a.unit) {
+      throw new CalculationError('unit_mismatch', `Cannot divide a plain number by ${unitName(b.unit)}`, pos);
+    }
+    // Amount per period: 120000 INR / 12 months
+    if (a.unit.kind === 'currency' && b.unit.kind !== 'currency') {
+      return num(checkSize(D.div(a.value, b.value), pos), a.unit);
+    }
+    const { left, right } = combineUnits(ctx, a, b, pos);
+    if (D.isZero(right)) throw new CalculationError('division_by_zero', 'Division by zero', pos);
+    return num(checkSize(D.div(left, right), pos));
+  }
+  if (a.kind === 'number' && b.kind === 'percent') {
+    return num(checkSize(D.div(D.mul(a.value, D.HUNDRED), b.value), pos), a.unit);
+  }
+  if (a.kind === 'percent' && b.kind === 'number' && !b.unit) {
+    return { kind: 'percent', value: D.div(a.value, b.value) };
+  }
+  if (a.kind === 'percent' && b.kind === 'percent') {
+    return num(D.div(a.value, b.value));
+  }
+  throw new CalculationError('type_mismatch', `Cannot divide ${describe(a)} by ${describe(b)}`, pos);
+}
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+interface CallSite {
+  ctx: EvalContext;
+  name: string;
+  pos: number;
+  // Offset of each argument, for pointing at a bad one
+  argPos: number[];
+}
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  signature: string;
+  run(args: Value[], site: CallSite): Value;
+}
+
+function argError(site: CallSite, index: number, message: string): CalculationError {
+  return new CalculationError('invalid_arguments', `${site.name}: ${message}`, site.argPos[index] ?? site.pos);
+}
+
+function numberArg(args: Value[], index: number, site: CallSite, label: string): NumberValue {
+  const value = args[index];
+  if (value?.kind !== 'number') {
+    throw argError(site, index, `${label} must be a number, got ${value ? describe(value) : 'nothing'}`);
+  }
+  return value;
+}
+
+function plainNumberArg(args: Value[], index: number, site: CallSite, label: string): Decimal {
+  const value = numberArg(args, index, site, label);
+  if (value.unit) throw argError(site, index, `${label} must be a plain number`);
+  return value.value;
+}
+
+function integerArg(args: Value[], index: number, site: CallSite, label: string): number {
+  const value = plainNumberArg(args, index, site, label);
+  if (!D.isInteger(value)) throw argError(site, index, `${label} must be a whole number`);
+  return D.toInteger(value);
+}
+
+function dateArg(args: Value[], index: number, site: CallSite, label: string): number {
+  const value = args[index];
+  if (value?.kind === 'date') return value.day;
+  if (value?.kind === 'text') {
+    const day = parseIsoDay(value.value);
+    if (day !== null) return day;
+  }
+  throw argError(site, index, `${label} must be a date (YYYY-MM-DD)`);
+}
+
+function textArg(args: Value[], index: number, site: CallSite, label: string): string | undefined {
+  const value = args[index];
+  if (value === undefined) return undefined;
+  if (value.kind !== 'text') throw argError(site, index, `${label} must be quoted text`);
+  return value.value;
+}
+
+// Amounts for payroll functions are rupees; plain numbers are taken as rupees
+function rupeeArg(args: Value[], index: number, site: CallSite, label: string): Decimal {
+  const value = numberArg(args, index, site, label);
+  if (!value.unit) return value.value;
+  if (value.unit.kind !== 'currency') throw argError(site, index, `${label} must be an amount`);
+  return convert(site.ctx, value.value, value.unit, { kind: 'currency', code: 'INR' }, site.argPos[index] ?? site.pos);
+}
+
+function inr(amount: Decimal): Value {
+  return num(amount, { kind: 'currency', code: 'INR' });
+}
+
+function money(amount: Decimal): string {
+  return formatMoney(amount, 'INR');
+}
+
+function roundingFunction(mode: D.RoundingMode): FunctionSpec {
+  return {
+    minArgs: 1,
+    maxArgs: 2,
+    signature: '(x, places?)',
+    run(args, site) {
+      const value = args[0];
+      const places = args.length > 1 ? integerArg(args, 1, site, 'places') : 0;
+      if (places < 0 || places > 20) throw argError(site, 1, 'places must be between 0 and 20');
+      if (value?.kind === 'number') return num(D.round(value.value, places, mode), value.unit);
+      if (value?.kind === 'percent') return { kind: 'percent', value: D.round(value.value, places, mode) };
+      throw argError(site, 0, 'expects a number');
+    },
+  };
+}
+
+function aggregateFunction(kind: 'min' | 'max' | 'sum' | 'avg'): FunctionSpec {
+  return {
+    minArgs: 1,
+    maxArgs: 50,
+    signature: '(a, b, ...)',
+    run(args, site) {
+      let result = args[0];
+      for (let i = 1; i < args.length; i++) {
+        if (kind === 'sum' || kind === 'avg') {
+          result = addValues(site.ctx, result, args[i], 1, site.argPos[i]);
+          continue;
+        }
+        const a = result;
+        const b = args[i];
+        if (a.kind === 'date' && b.kind === 'date') {
+          result = (kind === 'min' ? b.day < a.day : b.day > a.day) ? b : a;
+          continue;
+        }
+        if (a.kind !== 'number' || b.kind !== 'number') throw argError(site, i, 'expects numbers or dates');
+        const { left, right } = combineUnits(site.ctx, a, b, site.argPos[i]);
+        const pickRight = kind === 'min' ? D.cmp(right, left) < 0 : D.cmp(right, left) > 0;
+        result = pickRight ? b : a;
+      }
+      if (kind === 'avg') {
+        return divideValues(site.ctx, result, num(D.decimal(args.length)), site.pos);
+      }
+      return result;
+    },
+  };
+}
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  round: roundingFunction('half_up'),
+  floor: roundingFunction('floor'),
+  ceil: roundingFunction('ceil'),
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: '(x)',
+    run(args, site) {
+      const value = numberArg(args, 0, site, 'x');
+      return num(D.abs(value.value), value.unit);
+    },
+  },
+  min: aggregateFunction('min'),
+  max: aggregateFunction('max'),
+  sum: aggregateFunction('sum'),
+  avg: aggregateFunction('avg'),
+
+  today: {
+    minArgs: 0,
+    maxArgs: 0,
+    signature: '()',
+    run: (_args, site) => ({ kind: 'date', day: site.ctx.today }),
+  },
+  date: {
+    minArgs: 1,
+    maxArgs: 3,
+    signature: "('YYYY-MM-DD') or (year, month, day)",
+    run(args, site) {
+      if (args.length === 1) return { kind: 'date', day: dateArg(args, 0, site, 'date') };
+      if (args.length !== 3) throw argError(site, 0, 'expects a date or year, month and day');
+      const [year, month, day] = [0, 1, 2].map(i => integerArg(args, i, site, ['year', 'month', 'day'][i]));
+      if (month < 1 || month > 12) throw argError(site, 1, 'month must be between 1 and 12');
+      if (day < 1 || day > daysInMonth(year, month)) throw argError(site, 2, `day must be between 1 and ${daysInMonth(year, month)}`);
+      return { kind: 'date', day: dayFromParts(year, month, day) };
+    },
+  },
+  add_days: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: '(date, days)',
+    run: (args, site) => ({ kind: 'date', day: dateArg(args, 0, site, 'date') + integerArg(args, 1, site, 'days') }),
+  },
+  add_months: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: '(date, months)',
+    run: (args, site) => ({ kind: 'date', day: addMonths(dateArg(args, 0, site, 'date'), integerArg(args, 1, site, 'months')) }),
+  },
+  add_years: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: '(date, years)',
+    run: (args, site) => ({ kind: 'date', day: addMonths(dateArg(args, 0, site, 'date'), integerArg(args, 1, site, 'years') * 12) }),
+  },
+  end_of_month: {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: '(date)',
+    run(args, site) {
+      const { year, month } = partsFromDay(dateArg(args, 0, site, 'date'));
+      return { kind: 'date', day: dayFromParts(year, month, daysInMonth(year, month)) };
+    },
+  },
+  weekday: {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: '(date)',
+    run: (args, site) => ({ kind: 'text', value: WEEKDAYS[weekdayOf(dateArg(args, 0, site, 'date'))] }),
+  },
+  days_between: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: '(start, end)',
+    run(args, site) {
+      const days = Math.abs(dateArg(args, 1, site, 'end') - dateArg(args, 0, site, 'start'));
+      return num(D.decimal(days), { kind: 'duration', name: 'day' });
+    },
+  },
+  // Both ends count, the way leave is counted
+  business_days: {
+    minArgs: 2,
+    maxArgs: 3,
+    signature: "(start, end, calendar?)",
+    run(args, site) {
+      let start = dateArg(args, 0, site, 'start');
+      let end = dateArg(args, 1, site, 'end');
+      if (start > end) [start, end] = [end, start];
+      if (end - start > MAX_DAY_SPAN) throw argError(site, 1, 'range is too long');
+      const calendar = resolveCalendar(site.ctx, textArg(args, 2, site, 'calendar'), site.argPos[2] ?? site.pos);
+      let count = 0;
+      for (let day = start; day <= end; day++) {
+        if (calendar.isBusinessDay(day)) count++;
+      }
+      site.ctx.details.push(`Business days counted on the ${calendar.name} calendar, excluding weekends`);
+      return num(D.decimal(count), { kind: 'duration', name: 'day' });
+    },
+  },
+  add_business_days: {
+    minArgs: 2,
+    maxArgs: 3,
+    signature: "(date, days, calendar?)",
+    run(args, site) {
+      let day = dateArg(args, 0, site, 'date');
+      const days = integerArg(args, 1, site, 'days');
+      if (Math.abs(days) > MAX_DAY_SPAN / 2) throw argError(site, 1, 'too many days');
+      const calendar = resolveCalendar(site.ctx, textArg(args, 2, site, 'calendar'), site.argPos[2] ?? site.pos);
+      const step = days < 0 ? -1 : 1;
+      for (let remaining = Math.abs(days); remaining > 0; ) {
+        day += step;
+        if (calendar.isBusinessDay(day)) remaining--;
+      }
+      return { kind: 'date', day };
+    },
+  },
+  is_business_day: {
+    minArgs: 1,
+    maxArgs: 2,
+    signature: "(date, calendar?)",
+    run(args, site) {
+      const calendar = resolveCalendar(site.ctx, textArg(args, 1, site, 'calendar'), site.argPos[1] ?? site.pos);
+      return { kind: 'boolean', value: calendar.isBusinessDay(dateArg(args, 0, site, 'date')) };
+    },
+  },
+
+  // Leave for the part of the leave year left after joining, to the nearest
+  // half day. The leave year ends on period_end (default 31 December of the
+  // joining year) and starts a year earlier.
+  prorated_leave: {
+    minArgs: 2,
+    maxArgs: 3,
+    signature: '(annual_entitlement, join_date, period_end?)',
+    run(args, site) {
+      const entitlement = numberArg(args, 0, site, 'annual_entitlement');
+      if (entitlement.unit && entitlement.unit.kind !== 'duration') {
+        throw argError(site, 0, 'annual_entitlement must be a number of days');
+      }
+      const entitledDays = entitlement.unit
+        ? convert(site.ctx, entitlement.value, entitlement.unit, { kind: 'duration', name: 'day' }, site.argPos[0])
+        : entitlement.value;
+      const joined = dateArg(args, 1, site, 'join_date');
+      const periodEnd = args.length > 2
+        ? dateArg(args, 2, site, 'period_end')
+        : dayFromParts(partsFromDay(joined).year, 12, 31);
+      const periodStart = addMonths(periodEnd + 1, -12);
+      if (joined > periodEnd) throw argError(site, 1, 'join_date is after the end of the leave year');
+
+      const from = Math.max(joined, periodStart);
+      const served = periodEnd - from + 1;
+      const total = periodEnd - periodStart + 1;
+      const exact = D.div(D.mul(entitledDays, D.decimal(served)), D.decimal(total));
+      const rounded = D.div(D.round(D.mul(exact, D.decimal(2)), 0, 'half_up'), D.decimal(2));
+
+      site.ctx.details.push(
+        `Leave year ${formatDay(periodStart)} to ${formatDay(periodEnd)} (${total} days)`,
+        `${served} days from ${formatDay(from)}: ${D.toString(entitledDays)} × ${served} / ${total} = ${D.toString(D.round(exact, 4))}`,
+        `Rounded to the nearest half day: ${D.toString(rounded)}`
+      );
+      return num(rounded, { kind: 'duration', name: 'day' });
+    },
+  },
+
+  // Section 10(13A): the least of HRA received, rent above 10% of basic and
+  // 50% (metro) or 40% of basic. Give all amounts for the same period.
+  hra_exemption: {
+    minArgs: 3,
+    maxArgs: 4,
+    signature: '(basic, hra_received, rent_paid, metro?)',
+    run(args, site) {
+      const basic = rupeeArg(args, 0, site, 'basic');
+      const hra = rupeeArg(args, 1, site, 'hra_received');
+      const rent = rupeeArg(args, 2, site, 'rent_paid');
+      let metro = true;
+      const metroArg = args[3];
+      if (metroArg?.kind === 'boolean') metro = metroArg.value;
+      else if (metroArg?.kind === 'text') metro = !/^non[-_ ]?metro$/i.test(metroArg.value.trim());
+      else if (metroArg) throw argError(site, 3, "metro must be true/false or 'metro'/'non-metro'");
+
+      const rentOverTenPercent = D.max(D.sub(rent, D.div(basic, D.decimal(10))), D.ZERO);
+      const basicShare = D.div(D.mul(basic, D.decimal(metro ? 50 : 40)), D.HUNDRED);
+      const exemption = D.max(D.min(D.min(hra, rentOverTenPercent), basicShare), D.ZERO);
+
+      site.ctx.details.push(
+        `HRA received: ${money(hra)}`,
+        `Rent paid minus 10% of basic: ${money(rentOverTenPercent)}`,
+        `${metro ? 50 : 40}% of basic (${metro ? 'metro' : 'non-metro'}): ${money(basicShare)}`,
+        `Exempt HRA is the least of these: ${money(exemption)}; taxable HRA: ${money(D.sub(hra, exemption))}`
+      );
+      return inr(exemption);
+    },
+  },
+
+  // Tax on taxable income (after deductions) for a resident individual,
+  // including the 87A rebate and 4% health and education cess
+  income_tax: {
+    minArgs: 1,
+    maxArgs: 2,
+    signature: "(taxable_income, regime?)",
+    run(args, site) {
+      const income = rupeeArg(args, 0, site, 'taxable_income');
+      if (D.isNegative(income)) throw argError(site, 0, 'taxable_income cannot be negative');
+      const regimeName = textArg(args, 1, site, 'regime') ?? 'new';
+      const regimeKey = lookup(TAX_REGIME_ALIASES, regimeName.toLowerCase());
+      if (!regimeKey) {
+        throw argError(site, 1, `unknown regime '${regimeName}'. Use one of: ${Object.keys(TAX_REGIMES).join(', ')}`);
+      }
+      const regime = TAX_REGIMES[regimeKey];
+      const details = site.ctx.details;
+      details.push(`${regime.label} on ${money(income)}`);
+
+      let tax = D.ZERO;
+      let lower = D.ZERO;
+      for (const slab of regime.slabs) {
+        if (D.cmp(income, lower) <= 0) break;
+        const upper = slab.upTo && D.cmp(income, slab.upTo) > 0 ? slab.upTo : income;
+        const slabTax = D.div(D.mul(D.sub(upper, lower), slab.rate), D.HUNDRED);
+        if (!D.isZero(slab.rate)) {
+          details.push(`${money(lower)} to ${money(upper)} at ${D.toString(slab.rate)}%: ${money(slabTax)}`);
+        }
+        tax = D.add(tax, slabTax);
+        if (!slab.upTo) break;
+        lower = slab.upTo;
+      }
+
+      if (D.cmp(income, regime.rebateLimit) <= 0) {
+        const rebate = D.min(tax, regime.rebateMax);
+        if (!D.isZero(rebate)) details.push(`Section 87A rebate: −${money(rebate)}`);
+        tax = D.sub(tax, rebate);
+      } else if (regime.marginalRelief) {
+        const excess = D.sub(income, regime.rebateLimit);
+        if (D.cmp(tax, excess) > 0) {
+          details.push(`Marginal relief limits tax to the income above ${money(regime.rebateLimit)}: ${money(excess)}`);
+          tax = excess;
+        }
+      }
+
+      const cess = D.div(D.mul(tax, HEALTH_EDUCATION_CESS), D.HUNDRED);
+      if (!D.isZero(cess)) details.push(`Health and education cess at 4%: ${money(cess)}`);
+      if (D.cmp(income, SURCHARGE_THRESHOLD) > 0) {
+        details.push('Surcharge on income above ₹50,00,000 is not included');
+      }
+      return inr(D.add(tax, cess));
+    },
+  },
+
+  // Payment of Gratuity Act: 15 days' wages per year of service at 26
+  // working days a month. A final part-year over six months counts as a year.
+  gratuity: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: '(monthly_basic_and_da, years_of_service)',
+    run(args, site) {
+      const salary = rupeeArg(args, 0, site, 'monthly_basic_and_da');
+      const service = numberArg(args, 1, site, 'years_of_service');
+      if (service.unit && service.unit.kind !== 'calendar') throw argError(site, 1, 'years_of_service must be in years');
+      const years = service.unit
+        ? convert(site.ctx, service.value, service.unit, { kind: 'calendar', name: 'year' }, site.argPos[1])
+        : service.value;
+
+      const completed = D.round(years, 0, 'floor');
+      const months = D.mul(D.sub(years, completed), D.decimal(12));
+      const counted = D.cmp(months, D.decimal(6)) > 0 ? D.add(completed, D.ONE) : completed;
+      if (D.cmp(counted, D.decimal(GRATUITY_MIN_YEARS)) < 0) {
+        site.ctx.details.push(`Gratuity needs ${GRATUITY_MIN_YEARS} years of continuous service (except on death or disablement)`);
+        return inr(D.ZERO);
+      }
+
+      const amount = D.div(D.mul(D.mul(salary, D.decimal(15)), counted), D.decimal(26));
+      site.ctx.details.push(`${money(salary)} × 15 / 26 × ${D.toString(counted)} years = ${money(amount)}`);
+      if (D.cmp(amount, GRATUITY_CAP) > 0) {
+        site.ctx.details.push(`Capped at the statutory limit of ${money(GRATUITY_CAP)}`);
+        return inr(GRATUITY_CAP);
+      }
+      return inr(amount);
+    },
+  },
+};
+
+// ============================================================================
+// PARSER
+// Recursive descent, evaluating as it goes:
+//
+//   expression := additive (('in' | 'to' | 'as') unit)?
+//   additive   := term (('+' | '-') term)*
+//   term       := unary (('*' | '/' | 'of') unary)*
+//   unary      := ('-' | '+') unary | power
+//   power      := postfix ('^' unary)?
+//   postfix    := primary ('%' | scale word | unit)*
+//   primary    := number | date | 'text' | currency postfix | name | name '(' args ')'
+//               | '(' expression ')' | [business] days between additive and additive
+// ============================================================================
+
+function evaluateTokens(tokens: Token[], ctx: EvalContext): Value {
+  let index = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = () => tokens[index++];
+  const isIdent = (token: Token, word: string) => token.type === 'ident' && token.text.toLowerCase() === word;
+  const unitFor = (token: Token): Unit | null =>
+    token.type === 'ident' && !KEYWORDS.includes(token.text.toLowerCase())
+      ? lookup(UNIT_ALIASES, token.text.toLowerCase()) ?? null
+      : null;
+
+  const fail = (token: Token, expected: string): never => {
+    if (token.type === 'eof') {
+      throw new CalculationError('unexpected_end', `Expression ended early; expected ${expected}`, token.pos);
+    }
+    throw new CalculationError(
+      'unexpected_token',
+      `Unexpected '${token.type === 'string' ? `'${token.text}'` : token.text}'; expected ${expected}`,
+      token.pos,
+      Math.max(token.text.length, 1)
+    );
+  };
+
+  const expect = (type: TokenType, expected: string) => {
+    const token = next();
+    if (token.type !== type) fail(token, expected);
+    return token;
+  };
+
+  function parseExpression(): Value {
+    const value = parseAdditive();
+    const token = peek();
+    if (isIdent(token, 'in') || isIdent(token, 'to') || isIdent(token, 'as')) {
+      next();
+      const target = next();
+      const unit = unitFor(target);
+      if (!unit) fail(target, 'a unit or currency');
+      if (value.kind !== 'number' || !value.unit) {
+        throw new CalculationError('unit_required', `Only amounts with a unit can be converted, not ${describe(value)}`, token.pos);
+      }
+      return num(checkSize(convert(ctx, value.value, value.unit, unit!, target.pos), target.pos), unit);
+    }
+    return value;
+  }
+
+  function parseAdditive(): Value {
+    let value = parseTerm();
+    while (peek().type === 'op' && (peek().text === '+' || peek().text === '-')) {
+      const op = next();
+      value = addValues(ctx, value, parseTerm(), op.text === '+' ? 1 : -1, op.pos);
+    }
+    return value;
+  }
+
+  function parseTerm(): Value {
+    let value = parseUnary();
+    for (;;) {
+      const token = peek();
+      if (token.type === 'op' && token.text === '*') {
+        next();
+        value = multiplyValues(ctx, value, parseUnary(), token.pos);
+      } else if (token.type === 'op' && token.text === '/') {
+        next();
+        value = divideValues(ctx, value, parseUnary(), token.pos);
+      } else if (isIdent(token, 'of')) {
+        next();
+        if (value.kind !== 'percent') {
+          throw new CalculationError('type_mismatch', `'of' needs a percentage before it, e.g. 15% of 2500`, token.pos, 2);
+        }
+        value = multiplyValues(ctx, value, parseUnary(), token.pos);
+      } else {
+        return value;
+      }
+    }
+  }
+
+  function parseUnary(): Value {
+    const token = peek();
+    if (token.type === 'op' && (token.text === '-' || token.text === '+')) {
+      next();
+      const operand = parseUnary();
+      if (token.text === '+') return operand;
+      if (operand.kind === 'number') return num(D.neg(operand.value), operand.unit);
+      if (operand.kind === 'percent') return { kind: 'percent', value: D.neg(operand.value) };
+      throw new CalculationError('type_mismatch', `Cannot negate ${describe(operand)}`, token.pos);
+    }
+    return parsePower();
+  }
+
+  function parsePower(): Value {
+    const base = parsePostfix();
+    const token = peek();
+    if (token.type !== 'op' || token.text !== '^') return base;
+    next();
+    const exponent = parseUnary();
+    if (base.kind !== 'number' || base.unit) {
+      throw new CalculationError('type_mismatch', `Cannot raise ${describe(base)} to a power`, token.pos);
+    }
+    if (exponent.kind !== 'number' || exponent.unit || !D.isInteger(exponent.value)) {
+      throw new CalculationError('invalid_arguments', 'Exponents must be whole numbers', token.pos);
+    }
+    const power = D.toInteger(exponent.value);
+    if (Math.abs(power) > MAX_EXPONENT || D.integerDigits(base.value) * Math.abs(power) > MAX_INTEGER_DIGITS * 2) {
+      throw new CalculationError('result_too_large', 'Result is too large', token.pos);
+    }
+    if (power < 0 && D.isZero(base.value)) {
+      throw new CalculationError('division_by_zero', 'Division by zero', token.pos);
+    }
+    return num(checkSize(D.powInt(base.value, power), token.pos));
+  }
+
+  function parsePostfix(): Value {
+    let value = parsePrimary();
+    for (;;) {
+      const token = peek();
+      if (token.type === 'op' && token.text === '%') {
+        if (value.kind !== 'number' || value.unit) {
+          throw new CalculationError('type_mismatch', `Cannot take a percentage of ${describe(value)}`, token.pos);
+        }
+        next();
+        value = { kind: 'percent', value: value.value };
+        continue;
+      }
+      if (value.kind !== 'number' || token.type !== 'ident') return value;
+
+      const scale = value.unit ? undefined : lookup(SCALE_WORDS, token.text.toLowerCase());
+      if (scale) {
+        next();
+        value = num(checkSize(D.mul(value.value, scale), token.pos));
+        continue;
+      }
+      const unit = unitFor(token);
+      if (!unit) return value;
+      if (value.unit) {
+        throw new CalculationError('unexpected_token', `Amount already has a unit (${unitName(value.unit)})`, token.pos, token.text.length);
+      }
+      next();
+      value = num(value.value, unit);
+    }
+  }
+
+  function parseCall(name: Token): Value {
+    const spec = lookup(FUNCTIONS, name.text.toLowerCase());
+    if (!spec) {
+      throw new CalculationError(
+        'unknown_function',
+        `Unknown function '${name.text}'. Available: ${Object.keys(FUNCTIONS).join(', ')}`,
+        name.pos,
+        name.text.length
+      );
+    }
+    expect('lparen', "'('");
+    const args: Value[] = [];
+    const argPos: number[] = [];
+    if (peek().type !== 'rparen') {
+      for (;;) {
+        argPos.push(peek().pos);
+        args.push(parseExpression());
+        if (peek().type !== 'comma') break;
+        next();
+      }
+    }
+    expect('rparen', "',' or ')'");
+
+    const site: CallSite = { ctx, name: name.text.toLowerCase(), pos: name.pos, argPos };
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      throw new CalculationError(
+        'invalid_arguments',
+        `${site.name} takes ${site.name}${spec.signature}`,
+        name.pos,
+        name.text.length
+      );
+    }
+    return spec.run(args, site);
+  }
+
+  // days between A and B, business days between A and B
+  function parseBetween(start: Token, fn: string): Value {
+    const argPos = [peek().pos];
+    const from = parseAdditive();
+    const and = next();
+    if (!isIdent(and, 'and')) fail(and, "'and'");
+    argPos.push(peek().pos);
+    const to = parseAdditive();
+    return FUNCTIONS[fn].run([from, to], { ctx, name: fn, pos: start.pos, argPos });
+  }
+
+  function parsePrimary(): Value {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return num(D.parseDecimal(token.text)!);
+
+      case 'date': {
+        const day = parseIsoDay(token.text);
+        if (day === null) {
+          throw new CalculationError('invalid_date', `${token.text} is not a valid date`, token.pos, token.text.length);
+        }
+        return { kind: 'date', day };
+      }
+
+      case 'string':
+        return { kind: 'text', value: token.text };
+
+      case 'currency': {
+        const amount = parsePostfix();
+        if (amount.kind !== 'number' || amount.unit) fail(token, 'an amount after the currency symbol');
+        return num((amount as NumberValue).value, { kind: 'currency', code: token.text });
+      }
+
+      case 'lparen': {
+        const value = parseExpression();
+        expect('rparen', "')'");
+        return value;
+      }
+
+      case 'ident': {
+        const word = token.text.toLowerCase();
+        if (peek().type === 'lparen') return parseCall(token);
+
+        if (word === 'days' && isIdent(peek(), 'between')) {
+          next();
+          return parseBetween(token, 'days_between');
+        }
+        if ((word === 'business' || word === 'working') && isIdent(peek(), 'days') && isIdent(peek(1), 'between')) {
+          next();
+          next();
+          return parseBetween(token, 'business_days');
+        }
+        if (word === 'true' || word === 'false') return { kind: 'boolean', value: word === 'true' };
+        if (word === 'today') return { kind: 'date', day: ctx.today };
+
+        // Currency code in front of an amount: INR 5000
+        const unit = unitFor(token);
+        if (unit?.kind === 'currency' && (peek().type === 'number' || peek().type === 'lparen')) {
+          const amount = parsePostfix();
+          if (amount.kind !== 'number' || amount.unit) fail(token, 'an amount after the currency code');
+          return num((amount as NumberValue).value, unit);
+        }
+
+        throw new CalculationError('unknown_identifier', `Unknown name '${token.text}'`, token.pos, token.text.length);
+      }
+
+      default:
+        return fail(token, 'a number, date or function');
+    }
+  }
+
+  const value = parseExpression();
+  if (peek().type !== 'eof') fail(peek(), 'an operator or the end of the expression');
+  return value;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function groupDigits(whole: string, indian: boolean): string {
+  if (!indian || whole.length <= 3) return whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const head = whole.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',');
+  return `${head},${whole.slice(-3)}`;
+}
+
+function formatNumber(value: Decimal, places: number, indian = false, fixed = false): string {
+  const text = fixed ? D.toFixed(value, places) : D.toString(D.round(value, places));
+  const negative = text.startsWith('-');
+  const [whole, fraction] = (negative ? text.slice(1) : text).split('.');
+  const grouped = groupDigits(whole, indian);
+  return `${negative ? '-' : ''}${grouped}${fraction ? `.${fraction}` : ''}`;
+}
+
+function currencyPlaces(code: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(code) ? 0 : 2;
+}
+
+function formatMoney(amount: Decimal, code: string): string {
+  const text = formatNumber(amount, currencyPlaces(code), code === 'INR', true);
+  const symbol = CURRENCY_DISPLAY[code];
+  const negative = text.startsWith('-');
+  const digits = negative ? text.slice(1) : text;
+  return `${negative ? '-' : ''}${symbol ?? `${code} `}${digits}`;
+}
+
+function formatResult(value: Value, details: string[]): CalculationResult {
+  switch (value.kind) {
+    case 'number': {
+      const { unit } = value;
+      if (!unit) {
+        return { value: D.toString(D.round(value.value, 10)), formatted: formatNumber(value.value, 10), type: 'number', unit: null, details };
+      }
+      if (unit.kind === 'currency') {
+        const places = currencyPlaces(unit.code);
+        return {
+          value: D.toFixed(value.value, places),
+          formatted: formatMoney(value.value, unit.code),
+          type: 'currency',
+          unit: unit.code,
+          details,
+        };
+      }
+      const rounded = D.round(value.value, 4);
+      const plural = D.cmp(D.abs(rounded), D.ONE) === 0 ? '' : 's';
+      return {
+        value: D.toString(rounded),
+        formatted: `${formatNumber(rounded, 4)} ${unit.name}${plural}`,
+        type: 'duration',
+        unit: unit.name,
+        details,
+      };
+    }
+    case 'percent':
+      return { value: D.toString(D.round(value.value, 10)), formatted: `${formatNumber(value.value, 4)}%`, type: 'percent', unit: '%', details };
+    case 'date':
+      return { value: formatDay(value.day), formatted: `${formatDay(value.day)} (${WEEKDAYS[weekdayOf(value.day)]})`, type: 'date', unit: null, details };
+    case 'boolean':
+      return { value: String(value.value), formatted: value.value ? 'Yes' : 'No', type: 'boolean', unit: null, details };
+    case 'text':
+      return { value: value.value, formatted: value.value, type: 'text', unit: null, details };
+  }
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+function currentDay(): number {
+  return Math.floor(Date.now() / MS_PER_DAY);
+}
+
+function buildContext(options: CalculationOptions): EvalContext {
+  const extraHolidays = new Set<number>();
+  for (const holiday of options.holidays || []) {
+    const day = parseIsoDay(String(holiday));
+    if (day === null) throw new CalculationError('invalid_date', `Holiday ${holiday} is not a valid date`, 0, 0);
+    extraHolidays.add(day);
+  }
+
+  const exchangeRates = new Map<string, Decimal>();
+  for (const [pair, rate] of Object.entries(options.exchangeRates || {})) {
+    const [from, to] = pair.toUpperCase().split(/[/:_-]/);
+    const parsed = D.parseDecimal(String(rate));
+    if (!from || !to || !parsed || D.isZero(parsed) || D.isNegative(parsed)) {
+      throw new CalculationError('invalid_arguments', `Exchange rate ${pair}=${rate} is not valid`, 0, 0);
+    }
+    exchangeRates.set(`${from}/${to}`, parsed);
+  }
+
+  const today = options.today ? parseIsoDay(options.today) : currentDay();
+  if (today === null) throw new CalculationError('invalid_date', `${options.today} is not a valid date`, 0, 0);
+
+  const calendar = options.calendar
+    ? lookup(CALENDAR_ALIASES, options.calendar.toLowerCase()) ?? options.calendar
+    : DEFAULT_CALENDAR;
+  if (!lookup(HOLIDAY_CALENDARS, calendar)) {
+    throw new CalculationError('unknown_calendar', `Unknown holiday calendar '${options.calendar}'`, 0, 0);
+  }
+
+  return { today, calendar, extraHolidays, exchangeRates, calendars: new Map(), details: [] };
+}
+
+export function evaluateExpression(expression: string, options: CalculationOptions = {}): CalculationResult {
+  if (!expression || !expression.trim()) {
+    throw new CalculationError('empty_expression', 'Expression is empty', 0, 0);
+  }
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new CalculationError(
+      'expression_too_long',
+      `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`,
+      MAX_EXPRESSION_LENGTH,
+      expression.length - MAX_EXPRESSION_LENGTH
+    );
+  }
+
+  const ctx = buildContext(options);
+  const value = evaluateTokens(tokenize(expression), ctx);
+  return formatResult(value, ctx.details);
+}
+
+// Structured error for tool results, with a caret under the failing token
+export function describeCalculationError(expression: string, error: CalculationError) {
+  return {
+    code: error.code,
+    message: error.message,
+    position: error.position,
+    length: error.length,
+    pointer: `${expression}\n${' '.repeat(error.position)}${'^'.repeat(Math.max(error.length, 1))}`,
+  };
+}
@@ -0,0 +1,375 @@
+// ============================================================================
+// CHUNKER
+// Structure-aware chunking for process-document. Section text is split into
+// blocks (headings, paragraphs, list items, tables, code) and blocks are
+// packed into chunks by real token count. Tables and code stay whole unless a
+// single one exceeds the budget, in which case it is split by rows (repeating
+// a markdown header row). Chunks never cross a page or section boundary.
+// ============================================================================
+
+import { Tiktoken } from 'https://esm.sh/js-tiktoken@1.0.12/lite';
+import cl100k_base from 'https://esm.sh/js-tiktoken@1.0.12/ranks/cl100k_base';
+import type { ExtractedSection } from './document-extract.ts';
+
+export interface ChunkingOptions {
+  // Upper bound per chunk
+  maxTokens: number;
+  // Trailing paragraph text repeated at the start of the next chunk
+  overlapTokens: number;
+  // Smaller chunks are merged into a neighbour instead of standing alone
+  minTokens: number;
+}
+
+const DEFAULT_CHUNKING: ChunkingOptions = { maxTokens: 400, overlapTokens: 50, minTokens: 40 };
+
+// Per file extension. Slides and sheet row groups are already coherent units,
+// so they get no overlap; long-form prose gets a little more room.
+export const CHUNKING_PROFILES: Record<string, ChunkingOptions> = {
+  pdf: { maxTokens: 400, overlapTokens: 60, minTokens: 40 },
+  docx: { maxTokens: 450, overlapTokens: 60, minTokens: 40 },
+  pptx: { maxTokens: 350, overlapTokens: 0, minTokens: 10 },
+  xlsx: { maxTokens: 300, overlapTokens: 0, minTokens: 10 },
+  xls: { maxTokens: 300, overlapTokens: 0, minTokens: 10 },
+  csv: { maxTokens: 300, overlapTokens: 0, minTokens: 10 },
+  html: { maxTokens: 400, overlapTokens: 50, minTokens: 30 },
+  htm: { maxTokens: 400, overlapTokens: 50, minTokens: 30 },
+  md: { maxTokens: 400, overlapTokens: 40, minTokens: 30 },
+  markdown: { maxTokens: 400, overlapTokens: 40, minTokens: 30 },
+};
+
+// Bounds for caller-supplied overrides, so a request cannot ask for
+// single-token chunks or one chunk per document
+const CHUNKING_LIMITS: Record<keyof ChunkingOptions, { min: number; max: number }> = {
+  maxTokens: { min: 50, max: 2000 },
+  overlapTokens: { min: 0, max: 500 },
+  minTokens: { min: 0, max: 500 },
+};
+
+// Keep the known, numeric overrides from a request, clamped to their bounds
+export function clampChunkingOverrides(input: unknown): Partial<ChunkingOptions> {
+  const overrides: Partial<ChunkingOptions> = {};
+  if (!input || typeof input !== 'object') return overrides;
+
+  for (const key of Object.keys(CHUNKING_LIMITS) as (keyof ChunkingOptions)[]) {
+    const value = (input as Record<string, unknown>)[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+    const { min, max } = CHUNKING_LIMITS[key];
+    overrides[key] = Math.min(Math.max(Math.floor(value), min), max);
+  }
+  return overrides;
+}
+
+export function chunkingOptionsFor(fileName: string, overrides: Partial<ChunkingOptions> = {}): ChunkingOptions {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  const options = { ...DEFAULT_CHUNKING, ...CHUNKING_PROFILES[extension], ...overrides };
+  return {
+    maxTokens: Math.max(options.maxTokens, 50),
+    overlapTokens: Math.min(Math.max(options.overlapTokens, 0), Math.floor(options.maxTokens / 2)),
+    minTokens: Math.max(options.minTokens, 0),
+  };
+}
+
+// ============================================================================
+// TOKENS
+// cl100k_base matches the OpenAI embedding models; for the local embedding
+// model it is still a far better size measure than characters or words.
+// ============================================================================
+
+let encoder: Tiktoken | null = null;
+
+export function countTokens(text: string): number {
+  if (!encoder) encoder = new Tiktoken(cl100k_base);
+  return encoder.encode(text).length;
+}
+
+// ============================================================================
+// BLOCKS
+// ============================================================================
+
+type BlockKind = 'heading' | 'paragraph' | 'list' | 'table' | 'code' | 'overlap';
+
+interface Block {
+  kind: BlockKind;
+  text: string;
+  tokens: number;
+}
+
+const LIST_ITEM = /^\s*(?:[-*+•▪◦]|\d+[.)]|[a-z][.)])\s+/i;
+const FENCE = /^\s*(```|~~~)/;
+const MARKDOWN_TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function isTableLine(line: string): boolean {
+  return /^\s*\|.*\|\s*$/.test(line) || (line.match(/ \| /g) || []).length >= 1;
+}
+
+function makeBlock(kind: BlockKind, text: string): Block {
+  return { kind, text, tokens: countTokens(text) };
+}
+
+function splitBlocks(text: string, heading: string | null): Block[] {
+  const lines = text.split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const joined = paragraph.join('\n').trim();
+    if (joined) blocks.push(makeBlock('paragraph', joined));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      endParagraph();
+      continue;
+    }
+
+    // Extractors repeat the section heading as its first line
+    if (blocks.length === 0 && paragraph.length === 0 && heading && line.trim() === heading) {
+      blocks.push(makeBlock('heading', line.trim()));
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      endParagraph();
+      const fence = line.trim().slice(0, 3);
+      const code = [line];
+      while (++i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(fence)) break;
+      }
+      blocks.push(makeBlock('code', code.join('\n')));
+      continue;
+    }
+
+    if (isTableLine(line)) {
+      endParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && lines[i + 1].trim() && (isTableLine(lines[i + 1]) || MARKDOWN_TABLE_SEPARATOR.test(lines[i + 1]))) {
+        rows.push(lines[++i]);
+      }
+      blocks.push(makeBlock('table', rows.join('\n')));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      endParagraph();
+      const item = [line];
+      // Indented continuation lines belong to the item
+      while (i + 1 < lines.length && /^\s{2,}\S/.test(lines[i + 1]) && !LIST_ITEM.test(lines[i + 1])) {
+        item.push(lines[++i]);
+      }
+      blocks.push(makeBlock('list', item.join('\n')));
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  endParagraph();
+
+  return blocks;
+}
+
+// ============================================================================
+// OVERSIZED BLOCKS
+// ============================================================================
+
+function splitByWords(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const word of text.split(/\s+/)) {
+    const wordTokens = countTokens(` ${word}`);
+    if (current.length > 0 && tokens + wordTokens > maxTokens) {
+      pieces.push(current.join(' '));
+      current = [];
+      tokens = 0;
+    }
+    current.push(word);
+    tokens += wordTokens;
+  }
+  if (current.length > 0) pieces.push(current.join(' '));
+  return pieces;
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z0-9"'(•])/).filter(s => s.trim());
+}
+
+function splitOversized(block: Block, maxTokens: number): Block[] {
+  if (block.tokens <= maxTokens) return [block];
+
+  if (block.kind === 'table' || block.kind === 'code') {
+    const lines = block.text.split('\n');
+    // Repeat a markdown table's header row and separator on every part;
+    // other tables (e.g. spreadsheet rows) are self-describing per row
+    const headerLength = block.kind === 'table' && lines.length > 1 && MARKDOWN_TABLE_SEPARATOR.test(lines[1]) ? 2 : 0;
+    const header = lines.slice(0, headerLength);
+    const headerTokens = header.length > 0 ? countTokens(header.join('\n')) : 0;
+
+    const parts: Block[] = [];
+    let rows: string[] = [];
+    let tokens = headerTokens;
+    for (const line of lines.slice(headerLength)) {
+      const lineTokens = countTokens(line) + 1;
+      if (rows.length > 0 && tokens + lineTokens > maxTokens) {
+        parts.push(makeBlock(block.kind, [...header, ...rows].join('\n')));
+        rows = [];
+        tokens = headerTokens;
+      }
+      rows.push(line);
+      tokens += lineTokens;
+    }
+    if (rows.length > 0) parts.push(makeBlock(block.kind, [...header, ...rows].join('\n')));
+    return parts.flatMap(part => part.tokens > maxTokens
+      ? splitByWords(part.text, maxTokens).map(text => makeBlock(block.kind, text))
+      : [part]);
+  }
+
+  const parts: Block[] = [];
+  let sentences: string[] = [];
+  let tokens = 0;
+  for (const sentence of splitSentences(block.text)) {
+    const sentenceTokens = countTokens(sentence) + 1;
+    if (sentenceTokens > maxTokens) {
+      if (sentences.length > 0) parts.push(makeBlock(block.kind, sentences.join(' ')));
+      sentences = [];
+      tokens = 0;
+      parts.push(...splitByWords(sentence, maxTokens).map(text => makeBlock(block.kind, text)));
+      continue;
+    }
+    if (sentences.length > 0 && tokens + sentenceTokens > maxTokens) {
+      parts.push(makeBlock(block.kind, sentences.join(' ')));
+      sentences = [];
+      tokens = 0;
+    }
+    sentences.push(sentence);
+    tokens += sentenceTokens;
+  }
+  if (sentences.length > 0) parts.push(makeBlock(block.kind, sentences.join(' ')));
+  return parts;
+}
+
+// Trailing sentences of the last prose block, within the overlap budget
+function overlapBlock(blocks: Block[], overlapTokens: number): Block | null {
+  const last = blocks[blocks.length - 1];
+  if (!last || overlapTokens <= 0 || (last.kind !== 'paragraph' && last.kind !== 'list')) return null;
+
+  const sentences = splitSentences(last.text);
+  const kept: string[] = [];
+  let tokens = 0;
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const sentenceTokens = countTokens(sentences[i]) + 1;
+    if (tokens + sentenceTokens > overlapTokens) break;
+    kept.unshift(sentences[i]);
+    tokens += sentenceTokens;
+  }
+  // Repeating the whole block would only duplicate it
+  if (kept.length === 0 || kept.length === sentences.length) return null;
+  return makeBlock('overlap', kept.join(' '));
+}
+
+// ============================================================================
+// PACKING
+// ============================================================================
+
+function packBlocks(blocks: Block[], options: ChunkingOptions): Block[][] {
+  const units = blocks.flatMap(block => splitOversized(block, options.maxTokens));
+  const chunks: Block[][] = [];
+  let current: Block[] = [];
+  let tokens = 0;
+
+  const emit = () => {
+    // Never end a chunk on a heading; it belongs with the text that follows
+    const trailingHeading = current.length > 1 && current[current.length - 1].kind === 'heading'
+      ? current.pop()!
+      : null;
+    if (current.some(block => block.kind !== 'overlap')) chunks.push(current);
+
+    const seed = overlapBlock(current, options.overlapTokens);
+    current = [seed, trailingHeading].filter((block): block is Block => !!block);
+    tokens = current.reduce((sum, block) => sum + block.tokens + 1, 0);
+  };
+
+  for (const unit of units) {
+    if (current.length > 0 && tokens + unit.tokens > options.maxTokens) {
+      emit();
+      // Drop the overlap when it would push the next unit over budget
+      if (tokens + unit.tokens > options.maxTokens && current[0]?.kind === 'overlap') {
+        tokens -= current[0].tokens + 1;
+        current.shift();
+      }
+    }
+    current.push(unit);
+    tokens += unit.tokens + 1;
+  }
+  if (current.some(block => block.kind !== 'overlap')) chunks.push(current);
+
+  // Fold a tiny tail into the previous chunk when the budget allows
+  if (chunks.length > 1) {
+    const last = chunks[chunks.length - 1];
+    const lastTokens = last.reduce((sum, block) => sum + block.tokens, 0);
+    const previousTokens = chunks[chunks.length - 2].reduce((sum, block) => sum + block.tokens, 0);
+    if (lastTokens < options.minTokens && previousTokens + lastTokens <= options.maxTokens) {
+      chunks[chunks.length - 2].push(...last.filter(block => block.kind !== 'overlap'));
+      chunks.pop();
+    }
+  }
+
+  return chunks;
+}
+
+// ============================================================================
+// SECTIONS -> CHUNKS
+// ============================================================================
+
+export interface DocumentChunk {
+  content: string;
+  pageNumber: number;
+  sectionTitle: string | null;
+  tokenCount: number;
+  metadata: Record<string, unknown>;
+}
+
+export function chunkSections(sections: ExtractedSection[], options: ChunkingOptions): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let carry = '';
+
+  sections.forEach((section, index) => {
+    const text = carry ? `${carry}\n\n${section.text}` : section.text;
+    carry = '';
+
+    // Sections too short to stand alone are folded into the next section on
+    // the same page instead of becoming a fragment
+    const next = sections[index + 1];
+    if (next && next.pageNumber === section.pageNumber && countTokens(text) < options.minTokens) {
+      carry = text;
+      return;
+    }
+
+    const headingPath = Array.isArray(section.metadata?.headingPath)
+      ? section.metadata.headingPath as string[]
+      : section.heading ? [section.heading] : [];
+
+    for (const blocks of packBlocks(splitBlocks(text, section.heading), options)) {
+      const content = blocks.map(block => block.text).join('\n\n').trim();
+      if (!content) continue;
+
+      chunks.push({
+        content,
+        pageNumber: section.pageNumber,
+        sectionTitle: section.heading,
+        tokenCount: countTokens(content),
+        metadata: {
+          ...section.metadata,
+          headingPath,
+          breadcrumb: headingPath.join(' > '),
+          blockTypes: [...new Set(blocks.map(block => block.kind).filter(kind => kind !== 'overlap'))],
+        },
+      });
+    }
+  });
+
+  return chunks;
+}
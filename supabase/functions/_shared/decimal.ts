@@ -0,0 +1,189 @@
+// ============================================================================
+// DECIMAL ARITHMETIC
+// Exact base-10 numbers for the calculator. A value is an integer coefficient
+// and a scale (coef / 10^scale), so 0.1 + 0.2 is 0.3 and money never picks
+// up binary floating-point error. Only division and explicit rounding lose
+// digits, and both say how.
+// ============================================================================
+
+export interface Decimal {
+  coef: bigint;
+  scale: number;
+}
+
+export type RoundingMode = 'half_up' | 'half_even' | 'floor' | 'ceil' | 'truncate';
+
+// Digits kept after the point when a quotient does not terminate
+export const DIVISION_PRECISION = 20;
+
+export const ZERO: Decimal = { coef: 0n, scale: 0 };
+export const ONE: Decimal = { coef: 1n, scale: 0 };
+export const HUNDRED: Decimal = { coef: 100n, scale: 0 };
+
+function pow10(n: number): bigint {
+  return 10n ** BigInt(n);
+}
+
+function normalize(d: Decimal): Decimal {
+  let { coef, scale } = d;
+  while (scale > 0 && coef % 10n === 0n) {
+    coef /= 10n;
+    scale--;
+  }
+  return { coef, scale };
+}
+
+function align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [a.coef * pow10(scale - a.scale), b.coef * pow10(scale - b.scale), scale];
+}
+
+// Integer division of num by den with the given rounding
+function roundDiv(num: bigint, den: bigint, mode: RoundingMode): bigint {
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+  const q = num / den;
+  const r = num % den;
+  if (r === 0n) return q;
+
+  const negative = num < 0n;
+  const twiceRemainder = (r < 0n ? -r : r) * 2n;
+  switch (mode) {
+    case 'truncate':
+      return q;
+    case 'floor':
+      return negative ? q - 1n : q;
+    case 'ceil':
+      return negative ? q : q + 1n;
+    case 'half_up':
+      if (twiceRemainder >= den) return negative ? q - 1n : q + 1n;
+      return q;
+    case 'half_even':
+      if (twiceRemainder > den || (twiceRemainder === den && q % 2n !== 0n)) {
+        return negative ? q - 1n : q + 1n;
+      }
+      return q;
+  }
+}
+
+// For literals in code; user input goes through parseDecimal
+export function decimal(value: string | number | bigint): Decimal {
+  if (typeof value === 'bigint') return { coef: value, scale: 0 };
+  const parsed = parseDecimal(String(value));
+  if (!parsed) throw new RangeError(`Not a decimal: ${value}`);
+  return parsed;
+}
+
+// Parses plain decimal notation ("-12.50", "3", ".5"). Returns null for
+// anything else.
+export function parseDecimal(text: string): Decimal | null {
+  const match = text.trim().match(/^([+-])?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+  const fraction = match[3] || '';
+  const coef = BigInt((match[2] || '0') + fraction);
+  return normalize({ coef: match[1] === '-' ? -coef : coef, scale: fraction.length });
+}
+
+export function add(a: Decimal, b: Decimal): Decimal {
+  const [x, y, scale] = align(a, b);
+  return normalize({ coef: x + y, scale });
+}
+
+export function sub(a: Decimal, b: Decimal): Decimal {
+  const [x, y, scale] = align(a, b);
+  return normalize({ coef: x - y, scale });
+}
+
+export function mul(a: Decimal, b: Decimal): Decimal {
+  return normalize({ coef: a.coef * b.coef, scale: a.scale + b.scale });
+}
+
+// Quotient rounded half-even to `precision` places. Callers check for a zero
+// divisor first.
+export function div(a: Decimal, b: Decimal, precision: number = DIVISION_PRECISION): Decimal {
+  if (b.coef === 0n) throw new RangeError('Division by zero');
+  const num = a.coef * pow10(b.scale + precision);
+  const den = b.coef * pow10(a.scale);
+  return normalize({ coef: roundDiv(num, den, 'half_even'), scale: precision });
+}
+
+export function neg(a: Decimal): Decimal {
+  return { coef: -a.coef, scale: a.scale };
+}
+
+export function abs(a: Decimal): Decimal {
+  return a.coef < 0n ? neg(a) : a;
+}
+
+export function cmp(a: Decimal, b: Decimal): number {
+  const [x, y] = align(a, b);
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+export function isZero(a: Decimal): boolean {
+  return a.coef === 0n;
+}
+
+export function isNegative(a: Decimal): boolean {
+  return a.coef < 0n;
+}
+
+export function isInteger(a: Decimal): boolean {
+  return normalize(a).scale === 0;
+}
+
+export function min(a: Decimal, b: Decimal): Decimal {
+  return cmp(a, b) <= 0 ? a : b;
+}
+
+export function max(a: Decimal, b: Decimal): Decimal {
+  return cmp(a, b) >= 0 ? a : b;
+}
+
+export function round(a: Decimal, places: number, mode: RoundingMode = 'half_even'): Decimal {
+  if (a.scale <= places) return a;
+  const coef = roundDiv(a.coef, pow10(a.scale - places), mode);
+  return normalize({ coef, scale: places });
+}
+
+// Integer powers only; fractional exponents would not stay exact
+export function powInt(a: Decimal, exponent: number, precision: number = DIVISION_PRECISION): Decimal {
+  if (exponent === 0) return ONE;
+  const raised = normalize({ coef: a.coef ** BigInt(Math.abs(exponent)), scale: a.scale * Math.abs(exponent) });
+  return exponent > 0 ? raised : div(ONE, raised, precision);
+}
+
+// Digits before the decimal point, used to cap runaway results
+export function integerDigits(a: Decimal): number {
+  const digits = (a.coef < 0n ? -a.coef : a.coef).toString().length;
+  return Math.max(digits - a.scale, 0);
+}
+
+export function toInteger(a: Decimal): number {
+  return Number(round(a, 0, 'truncate').coef);
+}
+
+export function toNumber(a: Decimal): number {
+  return Number(toString(a));
+}
+
+export function toString(a: Decimal): string {
+  const negative = a.coef < 0n;
+  const digits = (negative ? -a.coef : a.coef).toString();
+  if (a.scale === 0) return (negative ? '-' : '') + digits;
+  const padded = digits.padStart(a.scale + 1, '0');
+  const whole = padded.slice(0, padded.length - a.scale);
+  const fraction = padded.slice(padded.length - a.scale);
+  return `${negative ? '-' : ''}${whole}.${fraction}`;
+}
+
+// Fixed number of places, padding with zeros (for money)
+export function toFixed(a: Decimal, places: number, mode: RoundingMode = 'half_up'): string {
+  const rounded = round(a, places, mode);
+  const text = toString(rounded);
+  if (places === 0) return text;
+  const [whole, fraction = ''] = text.split('.');
+  return `${whole}.${fraction.padEnd(places, '0')}`;
+}
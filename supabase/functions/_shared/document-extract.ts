@@ -0,0 +1,623 @@
+// ============================================================================
+// DOCUMENT EXTRACTION
+// Turns an uploaded file into page-aware sections for process-document. A
+// section is a run of text on a single page under the nearest heading, so
+// every chunk cut from it has an exact page number and a section title.
+// Formats without pages map their natural unit onto page_number: slides for
+// PPTX, sheets for XLSX. Structural details (heading path, slide number,
+// sheet name, row range) travel in metadata onto each chunk.
+// ============================================================================
+
+import { getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5';
+import { DOMParser, type Element, type Node } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+
+export interface ExtractedSection {
+  pageNumber: number;
+  heading: string | null;
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ExtractedDocument {
+  pageCount: number;
+  sections: ExtractedSection[];
+  // Plain text of the whole document, pages separated by blank lines
+  text: string;
+}
+
+// ============================================================================
+// PDF
+// PDF.js handles stream filters (FlateDecode etc.), font encodings and
+// ToUnicode maps; we only rebuild lines from positioned text items and pick
+// headings by font size and weight.
+// ============================================================================
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL?: boolean;
+  fontName?: string;
+}
+
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  bold: boolean;
+}
+
+function isTextItem(item: unknown): item is PdfTextItem {
+  return typeof item === 'object' && item !== null && typeof (item as PdfTextItem).str === 'string';
+}
+
+function itemFontSize(item: PdfTextItem): number {
+  // transform = [scaleX, skewY, skewX, scaleY, x, y]
+  return Math.abs(item.transform[3]) || Math.hypot(item.transform[2], item.transform[3]) || item.height || 0;
+}
+
+function buildPdfLines(items: PdfTextItem[], boldFonts: Set<string>): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let text = '';
+  let fontSize = 0;
+  let boldChars = 0;
+  let lastY: number | null = null;
+  let lastEndX: number | null = null;
+
+  const flush = () => {
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (trimmed) {
+      lines.push({ text: trimmed, fontSize, bold: boldChars >= trimmed.replace(/\s/g, '').length * 0.8 });
+    }
+    text = '';
+    fontSize = 0;
+    boldChars = 0;
+    lastEndX = null;
+  };
+
+  for (const item of items) {
+    const size = itemFontSize(item);
+    const x = item.transform[4];
+    const y = item.transform[5];
+
+    // A vertical jump means a new line even when PDF.js did not flag EOL
+    if (lastY !== null && Math.abs(y - lastY) > Math.max(size, fontSize) * 0.5) {
+      flush();
+    }
+
+    if (item.str) {
+      // Insert a space when items are visibly apart but carry none themselves
+      if (lastEndX !== null && x - lastEndX > size * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+        text += ' ';
+      }
+      text += item.str;
+      fontSize = Math.max(fontSize, size);
+      if (item.fontName && boldFonts.has(item.fontName)) {
+        boldChars += item.str.replace(/\s/g, '').length;
+      }
+      lastEndX = x + item.width;
+      lastY = y;
+    }
+
+    if (item.hasEOL) flush();
+  }
+  flush();
+
+  return lines;
+}
+
+// The most common font size by character count is taken as body text
+function bodyFontSize(pages: PdfLine[][]): number {
+  const weights = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+function isHeading(line: PdfLine, bodySize: number): boolean {
+  const text = line.text;
+  if (text.length < 3 || text.length > 120) return false;
+  if (!/[A-Za-z]/.test(text) || /[.,;:]$/.test(text)) return false;
+  // Page furniture such as "Page 3" or "3 / 20"
+  if (/^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i.test(text)) return false;
+
+  if (bodySize > 0 && line.fontSize >= bodySize * 1.15) return true;
+  return line.bold && text.length <= 80 && /^[A-Z0-9]/.test(text);
+}
+
+export async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const pages: PdfLine[][] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+
+    const boldFonts = new Set<string>();
+    for (const [fontName, style] of Object.entries(content.styles || {})) {
+      if (/bold|black|heavy|semibold/i.test((style as { fontFamily?: string }).fontFamily || '') || /bold/i.test(fontName)) {
+        boldFonts.add(fontName);
+      }
+    }
+
+    pages.push(buildPdfLines(content.items.filter(isTextItem), boldFonts));
+    page.cleanup();
+  }
+
+  const bodySize = bodyFontSize(pages);
+  const sections: ExtractedSection[] = [];
+  let heading: string | null = null;
+
+  pages.forEach((lines, index) => {
+    const pageNumber = index + 1;
+    let buffer: string[] = [];
+
+    const pushSection = () => {
+      const text = buffer.join('\n').trim();
+      if (text) sections.push({ pageNumber, heading, text });
+      buffer = [];
+    };
+
+    for (const line of lines) {
+      if (isHeading(line, bodySize)) {
+        pushSection();
+        heading = line.text;
+      }
+      buffer.push(line.text);
+    }
+    // Headings carry over to the next page until a new one appears
+    pushSection();
+  });
+
+  const text = pages
+    .map(lines => lines.map(line => line.text).join('\n'))
+    .join('\n\n')
+    .trim();
+
+  await pdf.destroy();
+
+  return { pageCount: pages.length || 1, sections, text };
+}
+
+// ============================================================================
+// HEADING OUTLINE
+// Shared by the formats with nested headings (DOCX, HTML, Markdown)
+// ============================================================================
+
+function createOutlineBuilder() {
+  const sections: ExtractedSection[] = [];
+  const path: { level: number; title: string }[] = [];
+  let buffer: string[] = [];
+  let pageNumber = 1;
+
+  const flush = () => {
+    const text = buffer.join('\n').trim();
+    if (text) {
+      sections.push({
+        pageNumber,
+        heading: path.length > 0 ? path[path.length - 1].title : null,
+        text,
+        metadata: path.length > 0 ? { headingPath: path.map(entry => entry.title) } : undefined,
+      });
+    }
+    buffer = [];
+  };
+
+  return {
+    heading(level: number, title: string) {
+      flush();
+      // A heading closes every open heading at its own level or deeper
+      while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+      path.push({ level, title });
+      buffer.push(title);
+    },
+    line(text: string) {
+      if (text.trim()) buffer.push(text);
+    },
+    pageBreak() {
+      flush();
+      pageNumber++;
+    },
+    finish(): ExtractedDocument {
+      flush();
+      return {
+        pageCount: pageNumber,
+        sections,
+        text: sections.map(section => section.text).join('\n\n'),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// OFFICE OPEN XML (DOCX, PPTX)
+// The packages are zip archives of XML parts. The parts we read use a small,
+// regular subset of XML, so a tag scanner is enough and avoids a DOM for
+// documents that can run to many megabytes.
+// ============================================================================
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readZipPart(files: Record<string, Uint8Array>, path: string): string | null {
+  const part = files[path];
+  return part ? strFromU8(part) : null;
+}
+
+// Text runs of one paragraph; tabs and line breaks become whitespace
+function paragraphText(xml: string, textTag: string): string {
+  const pattern = new RegExp(`<${textTag}(?:\\s[^>]*)?>([\\s\\S]*?)</${textTag}>|<(?:w|a):tab\\/>|<(?:w|a):br(?:\\s[^>]*)?\\/>`, 'g');
+  let text = '';
+  let match;
+  while ((match = pattern.exec(xml)) !== null) {
+    if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+    else text += match[0].includes('tab') ? '\t' : '\n';
+  }
+  return text.replace(/[ \t]+/g, ' ').trim();
+}
+
+// styleId -> heading level from word/styles.xml ("heading 1", "Title", ...)
+function docxHeadingStyles(stylesXml: string | null): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const stylePattern = /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g;
+  let match;
+  while ((match = stylePattern.exec(stylesXml)) !== null) {
+    const [, styleId, body] = match;
+    const name = body.match(/<w:name w:val="([^"]+)"/)?.[1] || '';
+    const outline = body.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+    const headingMatch = name.match(/^heading\s*(\d)$/i);
+
+    if (/^title$/i.test(name)) levels.set(styleId, 1);
+    else if (headingMatch) levels.set(styleId, Number(headingMatch[1]));
+    else if (outline !== undefined) levels.set(styleId, Number(outline) + 1);
+  }
+  return levels;
+}
+
+export function extractDocx(bytes: Uint8Array): ExtractedDocument {
+  const files = unzipSync(bytes);
+  const documentXml = readZipPart(files, 'word/document.xml');
+  if (!documentXml) throw new Error('Invalid DOCX: word/document.xml not found');
+
+  const headingStyles = docxHeadingStyles(readZipPart(files, 'word/styles.xml'));
+  const outline = createOutlineBuilder();
+
+  // Word records where it last broke pages when the file was saved; together
+  // with explicit page breaks this gives page numbers that match the viewer
+  const paragraphPattern = /<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g;
+  let match;
+  while ((match = paragraphPattern.exec(documentXml)) !== null) {
+    const body = match[1] || '';
+    const breaksBefore = body.match(/<w:lastRenderedPageBreak\/>|<w:br\b[^>]*w:type="page"[^>]*\/>/g)?.length || 0;
+    for (let i = 0; i < breaksBefore; i++) outline.pageBreak();
+
+    const text = paragraphText(body, 'w:t');
+    if (!text) continue;
+
+    const styleId = body.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+    const outlineLevel = body.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+    const level = (styleId && headingStyles.get(styleId))
+      || (outlineLevel !== undefined ? Number(outlineLevel) + 1 : 0);
+
+    if (level > 0 && text.length <= 200) outline.heading(level, text);
+    else outline.line(text);
+  }
+
+  return outline.finish();
+}
+
+// Slide part paths in presentation order, from presentation.xml and its rels
+function pptxSlidePaths(files: Record<string, Uint8Array>): string[] {
+  const presentation = readZipPart(files, 'ppt/presentation.xml');
+  const rels = readZipPart(files, 'ppt/_rels/presentation.xml.rels');
+
+  if (presentation && rels) {
+    const targets = new Map<string, string>();
+    for (const rel of rels.matchAll(/<Relationship\b[^>]*\bId="([^"]+)"[^>]*\bTarget="([^"]+)"/g)) {
+      targets.set(rel[1], rel[2]);
+    }
+    for (const rel of rels.matchAll(/<Relationship\b[^>]*\bTarget="([^"]+)"[^>]*\bId="([^"]+)"/g)) {
+      targets.set(rel[2], rel[1]);
+    }
+    const ordered = [...presentation.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g)]
+      .map(ref => targets.get(ref[1]))
+      .filter((target): target is string => !!target)
+      .map(target => `ppt/${target.replace(/^\/?(ppt\/)?/, '')}`)
+      .filter(path => files[path]);
+    if (ordered.length > 0) return ordered;
+  }
+
+  return Object.keys(files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+}
+
+export function extractPptx(bytes: Uint8Array): ExtractedDocument {
+  const files = unzipSync(bytes);
+  const slidePaths = pptxSlidePaths(files);
+  const sections: ExtractedSection[] = [];
+
+  slidePaths.forEach((path, index) => {
+    const slideNumber = index + 1;
+    const xml = readZipPart(files, path) || '';
+    let title: string | null = null;
+    const lines: string[] = [];
+
+    for (const shape of xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)) {
+      const isTitle = /<p:ph\b[^>]*type="(?:title|ctrTitle)"/.test(shape[0]);
+      const paragraphs = [...shape[0].matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)]
+        .map(p => paragraphText(p[1], 'a:t'))
+        .filter(Boolean);
+      if (isTitle && !title && paragraphs.length > 0) {
+        title = paragraphs.join(' ');
+      } else {
+        lines.push(...paragraphs);
+      }
+    }
+
+    // Speaker notes often carry the detail the slide only hints at
+    const notesRels = readZipPart(files, path.replace('slides/', 'slides/_rels/') + '.rels');
+    const notesTarget = notesRels?.match(/Target="\.\.\/(notesSlides\/[^"]+)"/)?.[1];
+    const notesXml = notesTarget ? readZipPart(files, `ppt/${notesTarget}`) : null;
+    const notes = notesXml
+      ? [...notesXml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)]
+        .filter(shape => /<p:ph\b[^>]*type="body"/.test(shape[0]))
+        .flatMap(shape => [...shape[0].matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)].map(p => paragraphText(p[1], 'a:t')))
+        .filter(Boolean)
+      : [];
+
+    const text = [title, ...lines, ...(notes.length > 0 ? ['Notes:', ...notes] : [])]
+      .filter(Boolean)
+      .join('\n');
+    if (text) {
+      sections.push({
+        pageNumber: slideNumber,
+        heading: title || `Slide ${slideNumber}`,
+        text,
+        metadata: { slideNumber },
+      });
+    }
+  });
+
+  return {
+    pageCount: slidePaths.length || 1,
+    sections,
+    text: sections.map(section => section.text).join('\n\n'),
+  };
+}
+
+// ============================================================================
+// SPREADSHEETS (XLSX, XLS, CSV)
+// One page per sheet. Rows are rendered as "Header: value" pairs and grouped
+// into sections that never split a row, each repeating the sheet name so a
+// chunk is understandable on its own.
+// ============================================================================
+
+const ROWS_SECTION_CHARS = 900;
+
+export function extractSpreadsheet(bytes: Uint8Array, isCsv: boolean): ExtractedDocument {
+  const workbook = isCsv
+    ? XLSX.read(new TextDecoder().decode(bytes), { type: 'string' })
+    : XLSX.read(bytes, { type: 'array' });
+
+  const sections: ExtractedSection[] = [];
+  const sheetTexts: string[] = [];
+
+  workbook.SheetNames.forEach((sheetName: string, index: number) => {
+    const pageNumber = index + 1;
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+      header: 1,
+      blankrows: true,
+      defval: '',
+      raw: false,
+    }) as string[][];
+
+    const headerIndex = rows.findIndex(row => row.some(cell => String(cell).trim()));
+    if (headerIndex === -1) return;
+    const header = rows[headerIndex].map((cell, i) => String(cell).trim() || `Column ${i + 1}`);
+
+    let lines: string[] = [];
+    let size = 0;
+    let rowStart = 0;
+    let rowEnd = 0;
+
+    const flush = () => {
+      if (lines.length === 0) return;
+      sections.push({
+        pageNumber,
+        heading: sheetName,
+        text: [`Sheet: ${sheetName}`, ...lines].join('\n'),
+        metadata: { sheetName, rowStart, rowEnd },
+      });
+      lines = [];
+      size = 0;
+    };
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const cells = rows[i].map(cell => String(cell).trim());
+      if (!cells.some(Boolean)) continue;
+
+      const line = cells
+        .map((cell, c) => (cell ? `${header[c] || `Column ${c + 1}`}: ${cell}` : ''))
+        .filter(Boolean)
+        .join(' | ');
+
+      if (size > 0 && size + line.length > ROWS_SECTION_CHARS) flush();
+      // Spreadsheet row numbers are 1-based
+      if (lines.length === 0) rowStart = i + 1;
+      rowEnd = i + 1;
+      lines.push(line);
+      size += line.length + 1;
+    }
+    flush();
+
+    sheetTexts.push(`Sheet: ${sheetName}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName])}`);
+  });
+
+  return {
+    pageCount: workbook.SheetNames.length || 1,
+    sections,
+    text: sheetTexts.join('\n\n').trim(),
+  };
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'NAV', 'FOOTER', 'IFRAME']);
+const HTML_BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'ASIDE', 'LI', 'UL', 'OL', 'TABLE', 'TR',
+  'BLOCKQUOTE', 'PRE', 'DL', 'DT', 'DD', 'FIGURE', 'FIGCAPTION', 'BR', 'HR',
+]);
+
+export function extractHtml(bytes: Uint8Array): ExtractedDocument {
+  const html = new TextDecoder().decode(bytes);
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document?.body) return extractPlainText(bytes);
+
+  const outline = createOutlineBuilder();
+  let line = '';
+
+  const endLine = () => {
+    outline.line(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  const walk = (node: Node) => {
+    // Text node
+    if (node.nodeType === 3) {
+      line += node.textContent;
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const element = node as Element;
+    const tag = element.tagName;
+    if (HTML_SKIP_TAGS.has(tag)) return;
+
+    const headingLevel = /^H([1-6])$/.exec(tag)?.[1];
+    if (headingLevel) {
+      endLine();
+      const title = element.textContent.replace(/\s+/g, ' ').trim();
+      if (title) outline.heading(Number(headingLevel), title);
+      return;
+    }
+
+    const isBlock = HTML_BLOCK_TAGS.has(tag);
+    if (isBlock) endLine();
+    for (const child of element.childNodes) walk(child);
+    if (tag === 'TD' || tag === 'TH') line += ' | ';
+    if (isBlock) endLine();
+  };
+
+  walk(document.body);
+  endLine();
+
+  return outline.finish();
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+export function extractMarkdown(bytes: Uint8Array): ExtractedDocument {
+  const lines = new TextDecoder().decode(bytes).split(/\r?\n/);
+  const outline = createOutlineBuilder();
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      outline.line(line);
+      continue;
+    }
+    if (inFence) {
+      outline.line(line);
+      continue;
+    }
+
+    const atx = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (atx) {
+      outline.heading(atx[1].length, atx[2]);
+      continue;
+    }
+
+    // Setext headings: a text line underlined with === or ---
+    const underline = lines[i + 1];
+    if (line.trim() && underline && /^\s*(=+|-+)\s*$/.test(underline) && !/^\s*[-*+]\s/.test(line)) {
+      outline.heading(underline.trim().startsWith('=') ? 1 : 2, line.trim());
+      i++;
+      continue;
+    }
+
+    outline.line(line);
+  }
+
+  return outline.finish();
+}
+
+// ============================================================================
+// PLAIN TEXT
+// ============================================================================
+
+export function extractPlainText(bytes: Uint8Array): ExtractedDocument {
+  const text = new TextDecoder().decode(bytes).trim();
+  return {
+    pageCount: 1,
+    sections: text ? [{ pageNumber: 1, heading: null, text }] : [],
+    text,
+  };
+}
+
+export async function extractDocument(bytes: Uint8Array, fileName: string): Promise<ExtractedDocument> {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+
+  switch (extension) {
+    case 'pdf':
+      return extractPdf(bytes);
+    case 'docx':
+      return extractDocx(bytes);
+    case 'pptx':
+      return extractPptx(bytes);
+    case 'xlsx':
+    case 'xls':
+      return extractSpreadsheet(bytes, false);
+    case 'csv':
+      return extractSpreadsheet(bytes, true);
+    case 'html':
+    case 'htm':
+      return extractHtml(bytes);
+    case 'md':
+    case 'markdown':
+      return extractMarkdown(bytes);
+    case 'doc':
+      throw new Error('Legacy .doc files cannot be indexed; save the document as .docx and upload it again');
+    default:
+      return extractPlainText(bytes);
+  }
+}
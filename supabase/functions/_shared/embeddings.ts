@@ -0,0 +1,136 @@
+// ============================================================================
+// EMBEDDINGS
+// Pluggable embedding provider shared by process-document, semantic-search,
+// hr-chat and the re-embedding job. Every vector is stored together with the
+// model that produced it, because vectors from different models are not
+// comparable; searches only match chunks embedded by the active model.
+//
+// EMBEDDING_PROVIDER=openai  uses an OpenAI-compatible /embeddings endpoint
+//                            (EMBEDDING_API_KEY or OPENAI_API_KEY, optional
+//                            EMBEDDING_API_URL and EMBEDDING_MODEL)
+// anything else / unset      uses the deterministic local hashing model,
+//                            which needs no network and works offline
+// ============================================================================
+
+// Must match the vector(...) column size in document_chunks.embedding_vector
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbeddingProvider {
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+  'will', 'would', 'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'this', 'that',
+  'these', 'those', 'it', 'its', 'what', 'how', 'why', 'when', 'where', 'who', 'which',
+]);
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 2 && !STOP_WORDS.has(w));
+}
+
+// 32-bit FNV-1a; stable across runtimes so stored vectors stay valid
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude > 0 ? vector.map(v => v / magnitude) : vector;
+}
+
+// Signed feature hashing over unigrams and bigrams with log-scaled term
+// frequency. Lexical rather than semantic, but deterministic and free.
+export function localHashEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const words = tokenize(text);
+  const features = new Map<string, number>();
+  for (let i = 0; i < words.length; i++) {
+    features.set(words[i], (features.get(words[i]) || 0) + 1);
+    if (i + 1 < words.length) {
+      const bigram = `${words[i]}_${words[i + 1]}`;
+      features.set(bigram, (features.get(bigram) || 0) + 0.5);
+    }
+  }
+
+  const vector = new Array(dimensions).fill(0);
+  for (const [feature, freq] of features) {
+    const hash = fnv1a(feature);
+    const sign = (hash & 0x80000000) ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(1 + freq));
+  }
+  return normalize(vector);
+}
+
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    model: `local-hash-v1-${EMBEDDING_DIMENSIONS}`,
+    dimensions: EMBEDDING_DIMENSIONS,
+    embed: async (texts) => texts.map(text => localHashEmbedding(text)),
+  };
+}
+
+export function createOpenAIEmbeddingProvider(
+  apiKey: string,
+  model = 'text-embedding-3-small',
+  apiUrl = 'https://api.openai.com/v1/embeddings'
+): EmbeddingProvider {
+  return {
+    model: `${model}-${EMBEDDING_DIMENSIONS}`,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding API error ${response.status}: ${errorText.slice(0, 200)}`);
+      }
+
+      const data = await response.json();
+      return (data.data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map(item => normalize(item.embedding));
+    },
+  };
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = Deno.env.get('EMBEDDING_PROVIDER') || 'local';
+
+  if (provider === 'openai') {
+    const apiKey = Deno.env.get('EMBEDDING_API_KEY') || Deno.env.get('OPENAI_API_KEY');
+    if (apiKey) {
+      return createOpenAIEmbeddingProvider(
+        apiKey,
+        Deno.env.get('EMBEDDING_MODEL') || undefined,
+        Deno.env.get('EMBEDDING_API_URL') || undefined
+      );
+    }
+    console.warn('EMBEDDING_PROVIDER=openai but no API key configured; using local embeddings');
+  }
+
+  return createLocalEmbeddingProvider();
+}
+
+// pgvector accepts the '[x,y,z]' text form through PostgREST
+export function toPgVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
@@ -0,0 +1,92 @@
+// ============================================================================
+// MEMORY CLIENT
+// In-memory stand-in for the parts of the Supabase query builder the shared
+// modules use, for their tests. Tables are arrays of plain rows; filters,
+// updates, ordering and limits apply to them when a query is awaited, and
+// updates change the rows in place so tests can inspect them afterwards.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+type Row = Record<string, unknown>;
+type Result = { data: unknown; error: null };
+
+class MemoryQuery implements PromiseLike<Result> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private patch: Row | null = null;
+  private sort: { column: string; ascending: boolean } | null = null;
+  private max: number | null = null;
+  private single = false;
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string) {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sort = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+
+  update(patch: Row) {
+    this.patch = patch;
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): Result {
+    let matched = this.rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.patch) {
+      for (const row of matched) Object.assign(row, this.patch);
+    }
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      matched = [...matched].sort((a, b) => {
+        const [x, y] = [a[column], b[column]] as [number | string, number | string];
+        return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+      });
+    }
+    if (this.max !== null) matched = matched.slice(0, this.max);
+
+    const copies = matched.map(row => ({ ...row }));
+    return { data: this.single ? copies[0] ?? null : copies, error: null };
+  }
+}
+
+export function memoryClient(tables: Record<string, Row[]>): SupabaseClient {
+  return {
+    from: (table: string) => new MemoryQuery(tables[table] ??= []),
+  } as unknown as SupabaseClient;
+}
@@ -0,0 +1,252 @@
+// ============================================================================
+// OUTPUT GUARD
+// Screens model output before it reaches the client. Personal identifiers
+// (emails, phone numbers, PAN/Aadhaar/bank/card numbers, salary figures) are
+// redacted unless they belong to the requesting user; secrets such as API
+// keys, tokens and private keys are redacted and end the response.
+//
+// Text arrives as stream deltas, so the guard holds back a short tail and
+// never releases text that could be the start of a match still being written.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+export type OutputFindingKind =
+  | 'email'
+  | 'phone'
+  | 'pan'
+  | 'aadhaar'
+  | 'bank_account'
+  | 'ifsc'
+  | 'card'
+  | 'salary'
+  | 'secret';
+
+export interface OutputGuardOptions {
+  role?: string | null;
+  // Values the user may see unredacted, e.g. their own email
+  allowedValues?: string[];
+}
+
+interface Detector {
+  kind: OutputFindingKind;
+  pattern: RegExp;
+  // Capture group holding the sensitive part; the rest of the match is kept
+  group?: number;
+  // Roles that may see this kind of data
+  exemptRoles?: string[];
+  validate?: (value: string) => boolean;
+}
+
+// Text released per push is at least this far behind the stream head
+const HOLDBACK_CHARS = 96;
+// Give up waiting for a clean cut once this much text is pending
+const MAX_PENDING_CHARS = 8192;
+
+const SECRET_NOTICE = '\n\n[Response withheld: it contained credentials or secrets.]';
+
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// Order matters: earlier detectors claim text before later ones see it
+const DETECTORS: Detector[] = [
+  { kind: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|[\s\S]*$)/g },
+  { kind: 'secret', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { kind: 'secret', pattern: /\b(?:sk|pk|rk)[-_](?:live[-_]|test[-_]|proj[-_])?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'secret', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'secret', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: 'secret', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'secret', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'secret', pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{20,}=*)/g, group: 1 },
+  {
+    kind: 'secret',
+    pattern: /\b(?:api[_-]?key|secret(?:[_-]?key)?|access[_-]?token|auth[_-]?token|password|passwd|service[_-]?role[_-]?key)\b["']?\s*[:=]\s*["']?([^\s"'`,;]{8,})/gi,
+    group: 1,
+  },
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { kind: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: luhnValid },
+  {
+    kind: 'bank_account',
+    pattern: /\b(?:account|acct|a\/c)(?:\s*(?:no\.?|number|#))?\s*[:-]?\s*(\d{9,18})\b/gi,
+    group: 1,
+  },
+  { kind: 'aadhaar', pattern: /\b[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}\b/g },
+  { kind: 'pan', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+  { kind: 'ifsc', pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g },
+  { kind: 'phone', pattern: /(?:\+91[ -]?|\b0)?\b[6-9]\d{4}[ -]?\d{5}\b/g },
+  { kind: 'phone', pattern: /\+\d{1,3}[ -]?\(?\d{1,4}\)?(?:[ -]?\d{2,4}){2,4}\b/g },
+  {
+    kind: 'salary',
+    pattern: /\b(?:salary|ctc|gross(?: pay)?|net pay|basic pay|take[- ]home|compensation|bonus|payslip)\b[^\n\d₹$]{0,30}((?:₹|rs\.?|inr|\$|usd)\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:lpa|lakhs?|k|cr|crores?))?)/gi,
+    group: 1,
+    exemptRoles: ['hr'],
+  },
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[\s-]/g, '');
+
+interface Span {
+  // Start of the whole match, including any context kept in the output
+  from: number;
+  start: number;
+  end: number;
+  kind: OutputFindingKind;
+}
+
+export function createOutputGuard(options: OutputGuardOptions = {}) {
+  const allowed = new Set((options.allowedValues || []).filter(Boolean).map(normalize));
+  const detectors = DETECTORS.filter(d => !(options.role && d.exemptRoles?.includes(options.role)));
+  const findings: Partial<Record<OutputFindingKind, number>> = {};
+  let pending = '';
+  let blocked = false;
+
+  // Non-overlapping sensitive spans in `text`, in order
+  function scan(text: string): Span[] {
+    const spans: Span[] = [];
+    for (const detector of detectors) {
+      detector.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = detector.pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          detector.pattern.lastIndex++;
+          continue;
+        }
+        const value = detector.group ? match[detector.group] : match[0];
+        if (!value) continue;
+        const start = match.index + (detector.group ? match[0].lastIndexOf(value) : 0);
+        const end = start + value.length;
+        if (detector.validate && !detector.validate(value)) continue;
+        if (allowed.has(normalize(value))) continue;
+        if (spans.some(s => start < s.end && end > s.start)) continue;
+        spans.push({ from: match.index, start, end, kind: detector.kind });
+      }
+    }
+    return spans.sort((a, b) => a.start - b.start);
+  }
+
+  // Replace sensitive spans and record what was found. In streamed text a
+  // secret also ends the response, so anything after it is dropped.
+  function redact(text: string, spans: Span[], stopAtSecret: boolean): string {
+    let out = '';
+    let cursor = 0;
+    for (const span of spans) {
+      out += text.slice(cursor, span.start) + `[${span.kind.replace('_', ' ')} redacted]`;
+      cursor = span.end;
+      findings[span.kind] = (findings[span.kind] || 0) + 1;
+      if (span.kind === 'secret' && stopAtSecret) {
+        blocked = true;
+        return out + SECRET_NOTICE;
+      }
+    }
+    return out + text.slice(cursor);
+  }
+
+  // Feed a stream delta; returns the text that is safe to send now
+  function push(delta: string): string {
+    if (blocked) return '';
+    pending += delta;
+    if (pending.length <= HOLDBACK_CHARS) return '';
+
+    const spans = scan(pending);
+    let cut = pending.lastIndexOf(' ', pending.length - HOLDBACK_CHARS);
+    cut = Math.max(cut, pending.lastIndexOf('\n', pending.length - HOLDBACK_CHARS));
+    if (cut <= 0) {
+      if (pending.length < MAX_PENDING_CHARS) return '';
+      cut = pending.length - HOLDBACK_CHARS;
+    }
+    // Never cut through a match; release only what precedes it
+    for (const span of spans) {
+      if (span.from < cut && span.end > cut) cut = span.from;
+    }
+    if (cut <= 0) return '';
+
+    const ready = pending.slice(0, cut);
+    pending = pending.slice(cut);
+    return redact(ready, spans.filter(s => s.end <= cut), true);
+  }
+
+  // Release whatever is still held back at the end of the stream
+  function flush(): string {
+    if (blocked) return '';
+    const rest = pending;
+    pending = '';
+    return rest ? redact(rest, scan(rest), true) : '';
+  }
+
+  // Redact every string inside a JSON-like value, e.g. a tool result
+  function redactValue<T>(value: T): T {
+    if (typeof value === 'string') return redact(value, scan(value), false) as T;
+    if (Array.isArray(value)) return value.map(item => redactValue(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, redactValue(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  function summary() {
+    const kinds = Object.keys(findings) as OutputFindingKind[];
+    return {
+      findings: { ...findings },
+      kinds,
+      total: kinds.reduce((sum, kind) => sum + (findings[kind] || 0), 0),
+      blocked,
+    };
+  }
+
+  return { push, flush, redactValue, summary, isBlocked: () => blocked };
+}
+
+export type OutputGuard = ReturnType<typeof createOutputGuard>;
+
+// Identifiers the requesting user may see about themselves
+export async function loadOwnIdentifiers(supabase: SupabaseClient, userId?: string | null): Promise<string[]> {
+  if (!userId) return [];
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load profile for output guard:', error);
+    return [];
+  }
+  return data?.email ? [data.email] : [];
+}
+
+// Record redactions for one response in ai_safety_audit
+export async function recordOutputFindings(
+  supabase: SupabaseClient,
+  guard: OutputGuard,
+  context: { sessionId?: string | null; userId?: string | null; source: string }
+): Promise<void> {
+  const { findings, kinds, total, blocked } = guard.summary();
+  if (total === 0) return;
+
+  const { error } = await supabase.from('ai_safety_audit').insert({
+    session_id: context.sessionId || null,
+    user_id: context.userId || null,
+    action_type: 'output_redacted',
+    action_data: { source: context.source, findings },
+    safety_score: blocked ? 0 : Math.max(0, 1 - total * 0.1),
+    risk_flags: kinds,
+    was_blocked: blocked,
+    block_reason: blocked ? 'Response contained credentials or secrets' : null,
+  });
+
+  if (error) console.error('Failed to record output redaction:', error);
+}
@@ -0,0 +1,273 @@
+// ============================================================================
+// POLICY ENGINE
+// Declarative guardrails loaded from ai_blocked_patterns (published as
+// numbered snapshots in ai_policy_versions). Every safety check — agent and
+// HR chat input, generated code, migration SQL, CLI commands (through
+// policy-evaluate) and retrieved documents or web results — goes through
+// evaluatePolicy, so a rule change applies everywhere at once.
+//
+// Each rule screens some targets for some roles. Matching rules combine to
+// the most restrictive outcome (deny > require_approval > allow), except
+// that an allow rule exempts lower-priority matches in its own category.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+export type PolicyOutcome = 'allow' | 'deny' | 'require_approval';
+export type PolicySeverity = 'low' | 'medium' | 'high' | 'critical';
+export type PolicyTarget = 'agent_input' | 'hr_input' | 'code' | 'sql' | 'command' | 'retrieved';
+
+export const POLICY_TARGETS: PolicyTarget[] = ['agent_input', 'hr_input', 'code', 'sql', 'command', 'retrieved'];
+
+export interface PolicyRule {
+  id?: string;
+  rule_key: string;
+  name: string;
+  // Stored as pattern_type
+  pattern_type: string;
+  pattern_regex: string | null;
+  pattern_keywords: string[] | null;
+  severity: PolicySeverity;
+  outcome: PolicyOutcome;
+  targets: PolicyTarget[];
+  roles: string[];
+  priority: number;
+  description: string | null;
+  is_active?: boolean;
+}
+
+export interface PolicySet {
+  version: number;
+  rules: PolicyRule[];
+}
+
+export interface PolicyMatch {
+  ruleKey: string;
+  name: string;
+  category: string;
+  severity: PolicySeverity;
+  outcome: PolicyOutcome;
+  description: string | null;
+  // The text that triggered the rule
+  matched: string;
+  // Set when an allow rule exempted this match
+  exemptedBy?: string;
+}
+
+export interface PolicyDecision {
+  outcome: PolicyOutcome;
+  allowed: boolean;
+  requiresApproval: boolean;
+  // Matches that count towards the outcome
+  matches: PolicyMatch[];
+  // Matches set aside by allow rules, kept for the dry-run tester
+  exempted: PolicyMatch[];
+  categories: string[];
+  // 1 = clean, 0 = heavily flagged
+  score: number;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  version: number;
+  // Rules whose regex failed to compile
+  invalidRules: string[];
+}
+
+export interface PolicyContext {
+  target: PolicyTarget;
+  role?: string | null;
+}
+
+const SEVERITY_WEIGHT: Record<PolicySeverity, number> = { low: 0.1, medium: 0.2, high: 0.3, critical: 0.5 };
+const SEVERITY_ORDER: PolicySeverity[] = ['low', 'medium', 'high', 'critical'];
+const OUTCOME_ORDER: PolicyOutcome[] = ['allow', 'require_approval', 'deny'];
+
+// Rules are refreshed at most this often per isolate
+const POLICY_CACHE_TTL_MS = 60_000;
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+interface CompiledRule {
+  rule: PolicyRule;
+  regex: RegExp | null;
+  keywords: string[];
+}
+
+const compiledCache = new WeakMap<PolicySet, { compiled: CompiledRule[]; invalid: string[] }>();
+
+function compilePolicy(policy: PolicySet): { compiled: CompiledRule[]; invalid: string[] } {
+  const cached = compiledCache.get(policy);
+  if (cached) return cached;
+
+  const compiled: CompiledRule[] = [];
+  const invalid: string[] = [];
+
+  for (const rule of policy.rules) {
+    if (rule.is_active === false) continue;
+
+    let regex: RegExp | null = null;
+    if (rule.pattern_regex) {
+      try {
+        regex = new RegExp(rule.pattern_regex, 'i');
+      } catch {
+        invalid.push(rule.rule_key);
+        console.warn(`Policy rule ${rule.rule_key} has an invalid pattern; skipped`);
+        continue;
+      }
+    }
+
+    const keywords = (rule.pattern_keywords || []).map(k => k.toLowerCase()).filter(Boolean);
+    if (!regex && keywords.length === 0) continue;
+
+    compiled.push({ rule, regex, keywords });
+  }
+
+  const result = { compiled, invalid };
+  compiledCache.set(policy, result);
+  return result;
+}
+
+function matchRule(compiled: CompiledRule, text: string, lower: string): string | null {
+  if (compiled.regex) {
+    const match = compiled.regex.exec(text);
+    if (match) return match[0];
+  }
+  const keyword = compiled.keywords.find(k => lower.includes(k));
+  return keyword ?? null;
+}
+
+function appliesTo(rule: PolicyRule, context: PolicyContext): boolean {
+  if (!rule.targets.includes(context.target)) return false;
+  if (rule.roles.length === 0) return true;
+  return !!context.role && rule.roles.includes(context.role);
+}
+
+export function evaluatePolicy(policy: PolicySet, text: string, context: PolicyContext): PolicyDecision {
+  const { compiled, invalid } = compilePolicy(policy);
+  const lower = text.toLowerCase();
+
+  const hits: { match: PolicyMatch; priority: number }[] = [];
+  for (const entry of compiled) {
+    if (!appliesTo(entry.rule, context)) continue;
+    const matched = matchRule(entry, text, lower);
+    if (matched === null) continue;
+
+    hits.push({
+      priority: entry.rule.priority,
+      match: {
+        ruleKey: entry.rule.rule_key,
+        name: entry.rule.name,
+        category: entry.rule.pattern_type,
+        severity: entry.rule.severity,
+        outcome: entry.rule.outcome,
+        description: entry.rule.description,
+        matched,
+      },
+    });
+  }
+
+  // Apply allow-rule exemptions within each category
+  const matches: PolicyMatch[] = [];
+  const exempted: PolicyMatch[] = [];
+  for (const hit of hits) {
+    if (hit.match.outcome === 'allow') continue;
+    const exemption = hits.find(other =>
+      other.match.outcome === 'allow' &&
+      other.match.category === hit.match.category &&
+      other.priority > hit.priority
+    );
+    if (exemption) {
+      exempted.push({ ...hit.match, exemptedBy: exemption.match.ruleKey });
+    } else {
+      matches.push(hit.match);
+    }
+  }
+
+  const outcome = matches.reduce<PolicyOutcome>(
+    (worst, m) => OUTCOME_ORDER.indexOf(m.outcome) > OUTCOME_ORDER.indexOf(worst) ? m.outcome : worst,
+    'allow'
+  );
+  const riskLevel = matches.reduce<PolicySeverity>(
+    (worst, m) => SEVERITY_ORDER.indexOf(m.severity) > SEVERITY_ORDER.indexOf(worst) ? m.severity : worst,
+    'low'
+  );
+  const score = matches.reduce((s, m) => s - SEVERITY_WEIGHT[m.severity], 1);
+
+  return {
+    outcome,
+    allowed: outcome !== 'deny',
+    requiresApproval: outcome === 'require_approval',
+    matches,
+    exempted,
+    categories: [...new Set(matches.map(m => m.category))],
+    score: Math.max(0, Math.round(score * 100) / 100),
+    riskLevel,
+    version: policy.version,
+    invalidRules: invalid,
+  };
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+let cachedPolicy: { policy: PolicySet; loadedAt: number } | null = null;
+
+// Latest published policy, cached per isolate. Falls back to the live rule
+// table when no version has been published, and to the last good copy when
+// the database is unreachable.
+export async function loadPolicy(supabase: SupabaseClient): Promise<PolicySet> {
+  if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < POLICY_CACHE_TTL_MS) {
+    return cachedPolicy.policy;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('ai_policy_versions')
+      .select('version, rules')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    let policy: PolicySet;
+    if (data) {
+      policy = { version: data.version, rules: data.rules as PolicyRule[] };
+    } else {
+      const { data: rules, error: rulesError } = await supabase
+        .from('ai_blocked_patterns')
+        .select('*')
+        .eq('is_active', true)
+        .order('priority', { ascending: false });
+
+      if (rulesError) throw rulesError;
+      policy = { version: 0, rules: (rules || []) as PolicyRule[] };
+    }
+
+    cachedPolicy = { policy, loadedAt: Date.now() };
+    return policy;
+  } catch (error) {
+    if (cachedPolicy) {
+      console.error('Policy reload failed; using cached version', cachedPolicy.policy.version, error);
+      return cachedPolicy.policy;
+    }
+    throw new Error(`Failed to load safety policy: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+}
+
+// Load the current policy and evaluate `text` against it
+export async function checkPolicy(
+  supabase: SupabaseClient,
+  text: string,
+  context: PolicyContext
+): Promise<PolicyDecision> {
+  const policy = await loadPolicy(supabase);
+  return evaluatePolicy(policy, text, context);
+}
+
+// Short reason for blocked or escalated content
+export function describeDecision(decision: PolicyDecision): string {
+  if (decision.matches.length === 0) return 'No policy rules matched';
+  return decision.matches.map(m => m.description || m.name).join(', ');
+}
@@ -0,0 +1,135 @@
+// ============================================================================
+// RATE LIMITS AND QUOTAS
+// Per-user token buckets kept in rate_limit_buckets, one per quota class.
+// Capacity and refill rate come from rate_limit_policies for the caller's
+// role; classes without a policy are unlimited. Spending happens in
+// consume_rate_limit() so concurrent requests see the same balance.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+export type QuotaClass =
+  | 'llm_tokens'
+  | 'web_search'
+  | 'github_read'
+  | 'github_write'
+  | 'database_query'
+  | 'database_migration'
+  | 'policy_check'
+  | 'secret_scan';
+
+export interface QuotaResult {
+  allowed: boolean;
+  unlimited: boolean;
+  quotaClass: QuotaClass;
+  limit: number | null;
+  remaining: number | null;
+  refillPerHour: number | null;
+  retryAfterSeconds: number | null;
+}
+
+// Which quota class each advanced-agent tool spends from. Tools missing from
+// the map only cost the LLM tokens of the round that called them.
+export const TOOL_QUOTA_CLASSES: Record<string, QuotaClass> = {
+  web_search: 'web_search',
+  social_profile_lookup: 'web_search',
+
+  list_all_files: 'github_read',
+  github_list_files: 'github_read',
+  github_get_file: 'github_read',
+  github_list_prs: 'github_read',
+  github_list_branches: 'github_read',
+
+  git_operation: 'github_write',
+  github_create_pr: 'github_write',
+  github_push_commit: 'github_write',
+  github_create_branch: 'github_write',
+  github_merge_pr: 'github_write',
+
+  query_database: 'database_query',
+  database_migration: 'database_migration',
+};
+
+const QUOTA_LABELS: Record<QuotaClass, string> = {
+  llm_tokens: 'AI usage',
+  web_search: 'web searches',
+  github_read: 'GitHub reads',
+  github_write: 'GitHub changes',
+  database_query: 'database queries',
+  database_migration: 'database migrations',
+  policy_check: 'policy checks',
+  secret_scan: 'secret scans',
+};
+
+function unlimited(quotaClass: QuotaClass): QuotaResult {
+  return {
+    allowed: true,
+    unlimited: true,
+    quotaClass,
+    limit: null,
+    remaining: null,
+    refillPerHour: null,
+    retryAfterSeconds: null,
+  };
+}
+
+// Spend `cost` from the caller's bucket. `force` spends even when the bucket
+// cannot cover it (settling actual usage after the fact) and a negative cost
+// refunds. If the limiter itself fails the request is let through: quotas
+// protect upstream spend, they are not an access control.
+export async function consumeQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  quotaClass: QuotaClass,
+  cost = 1,
+  options: { force?: boolean } = {}
+): Promise<QuotaResult> {
+  const { data, error } = await supabase.rpc('consume_rate_limit', {
+    p_user_id: userId,
+    p_quota_class: quotaClass,
+    p_cost: cost,
+    p_force: options.force ?? false,
+  });
+
+  if (error || !data) {
+    console.error('Rate limit check failed:', error);
+    return unlimited(quotaClass);
+  }
+
+  return {
+    allowed: data.allowed,
+    unlimited: data.unlimited,
+    quotaClass,
+    limit: data.limit ?? null,
+    remaining: data.remaining ?? null,
+    refillPerHour: data.refill_per_hour ?? null,
+    retryAfterSeconds: data.retry_after_seconds ?? null,
+  };
+}
+
+// Rough token count for text sent to or received from the model, used to
+// charge before the real usage is known
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function quotaHeaders(result: QuotaResult): Record<string, string> {
+  if (result.unlimited) return {};
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+  };
+  if (result.retryAfterSeconds !== null) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
+
+export function quotaExceededMessage(result: QuotaResult): string {
+  const label = QUOTA_LABELS[result.quotaClass];
+  if (result.retryAfterSeconds === null) {
+    return `You have used your quota for ${label}. Ask an administrator to raise your limit.`;
+  }
+  const minutes = Math.ceil(result.retryAfterSeconds / 60);
+  return `Rate limit reached for ${label}. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
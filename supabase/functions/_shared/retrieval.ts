@@ -0,0 +1,200 @@
+// ============================================================================
+// RETRIEVAL
+// Hybrid document retrieval shared by semantic-search, hr-chat and the
+// advanced-agent search_documents tool. Two candidate lists are fetched in
+// SQL — BM25 over the full-text index and cosine similarity over pgvector —
+// fused with reciprocal-rank fusion, then diversified with maximal marginal
+// relevance so near-duplicate chunks do not crowd out other sources.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getEmbeddingProvider, localHashEmbedding, toPgVector } from './embeddings.ts';
+
+export interface RetrievalOptions {
+  // A session sees its own documents plus global ones; omit to search all
+  sessionId?: string | null;
+  // Keep to this user's documents plus global ones. Callers run as the
+  // service role, so this stands in for row-level security.
+  userId?: string | null;
+  // Restrict to global documents (Annual Reports, policies, ...)
+  globalOnly?: boolean;
+  // Restrict to specific documents
+  documentIds?: string[];
+  limit?: number;
+  // Candidates fetched from each leg before fusion
+  candidateCount?: number;
+  // 1 = pure relevance, 0 = pure diversity
+  mmrLambda?: number;
+  // Vector hits below this cosine similarity are dropped before fusion
+  minSimilarity?: number;
+  snippetLength?: number;
+}
+
+export interface RetrievedChunk {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  content: string;
+  snippet: string;
+  score: number;
+  keywordRank: number | null;
+  vectorRank: number | null;
+}
+
+interface CandidateRow {
+  id: string;
+  document_id: string;
+  file_name: string;
+  page_number: number | null;
+  section_title: string | null;
+  content: string;
+}
+
+// Standard RRF constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+interface FusedCandidate {
+  row: CandidateRow;
+  score: number;
+  keywordRank: number | null;
+  vectorRank: number | null;
+}
+
+export function reciprocalRankFusion(keywordRows: CandidateRow[], vectorRows: CandidateRow[]): FusedCandidate[] {
+  const fused = new Map<string, FusedCandidate>();
+
+  const addList = (rows: CandidateRow[], leg: 'keywordRank' | 'vectorRank') => {
+    rows.forEach((row, index) => {
+      const rank = index + 1;
+      const existing = fused.get(row.id) || { row, score: 0, keywordRank: null, vectorRank: null };
+      existing.score += 1 / (RRF_K + rank);
+      existing[leg] = rank;
+      fused.set(row.id, existing);
+    });
+  };
+
+  addList(keywordRows, 'keywordRank');
+  addList(vectorRows, 'vectorRank');
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Greedy MMR. Redundancy between candidates is measured with the local
+// lexical embedding, which is cheap to compute here and needs no extra
+// round-trip to fetch stored vectors.
+export function maximalMarginalRelevance<T extends { score: number; row: { content: string } }>(
+  candidates: T[],
+  limit: number,
+  lambda: number
+): T[] {
+  if (candidates.length <= 1) return candidates.slice(0, limit);
+
+  const maxScore = candidates[0].score || 1;
+  const vectors = candidates.map(c => localHashEmbedding(c.row.content));
+  const remaining = candidates.map((_, i) => i);
+  const selected: number[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, position) => {
+      const relevance = candidates[candidate].score / maxScore;
+      const redundancy = selected.length > 0
+        ? Math.max(...selected.map(s => dot(vectors[candidate], vectors[s])))
+        : 0;
+      const value = lambda * relevance - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = position;
+      }
+    });
+
+    selected.push(remaining[bestIndex]);
+    remaining.splice(bestIndex, 1);
+  }
+
+  return selected.map(i => candidates[i]);
+}
+
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  query: string,
+  options: RetrievalOptions = {}
+): Promise<RetrievedChunk[]> {
+  const {
+    sessionId = null,
+    userId = null,
+    globalOnly = false,
+    documentIds,
+    limit = 5,
+    candidateCount = Math.max(limit * 4, 20),
+    mmrLambda = 0.7,
+    minSimilarity = 0.05,
+    snippetLength = 300,
+  } = options;
+
+  const scope = {
+    filter_session_id: sessionId,
+    filter_document_ids: documentIds && documentIds.length > 0 ? documentIds : null,
+    global_only: globalOnly,
+    filter_user_id: userId,
+  };
+
+  const embedder = getEmbeddingProvider();
+
+  const keywordLeg = supabase.rpc('search_document_chunks_bm25', {
+    query_text: query,
+    match_count: candidateCount,
+    ...scope,
+  });
+
+  // A failing embedding provider degrades to keyword-only retrieval
+  const vectorLeg = embedder.embed([query])
+    .then(([queryEmbedding]) => supabase.rpc('match_document_chunks', {
+      query_embedding: toPgVector(queryEmbedding),
+      query_model: embedder.model,
+      match_count: candidateCount,
+      min_similarity: minSimilarity,
+      ...scope,
+    }))
+    .catch((error: unknown) => ({ data: null, error }));
+
+  const [keywordResult, vectorResult] = await Promise.all([keywordLeg, vectorLeg]);
+
+  if (keywordResult.error) {
+    console.error('Keyword retrieval error:', keywordResult.error);
+  }
+  if (vectorResult.error) {
+    console.error('Vector retrieval error:', vectorResult.error);
+  }
+  if (keywordResult.error && vectorResult.error) {
+    throw new Error('Document retrieval failed');
+  }
+
+  const fused = reciprocalRankFusion(
+    (keywordResult.data || []) as CandidateRow[],
+    (vectorResult.data || []) as CandidateRow[]
+  );
+
+  return maximalMarginalRelevance(fused, limit, mmrLambda).map(({ row, score, keywordRank, vectorRank }) => ({
+    chunkId: row.id,
+    documentId: row.document_id,
+    documentName: row.file_name || 'Unknown',
+    pageNumber: row.page_number,
+    sectionTitle: row.section_title,
+    content: row.content,
+    snippet: row.content.slice(0, snippetLength) + (row.content.length > snippetLength ? '...' : ''),
+    score,
+    keywordRank,
+    vectorRank,
+  }));
+}
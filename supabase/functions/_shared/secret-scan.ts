@@ -0,0 +1,323 @@
+// ============================================================================
+// SECRET SCANNER
+// Screens file content before it is proposed, committed or pushed. Finds
+// credentials by known provider formats and by entropy, refuses paths that
+// hold credentials or repository internals, and refuses binary or encoded
+// blobs that cannot be reviewed as text.
+//
+// Findings never carry the secret itself, only a masked preview, so scan
+// results can be stored and shown to reviewers. The CLI keeps a copy of these
+// rules in cli/src/secret-scan.ts; change both together.
+// ============================================================================
+
+export type ScanFindingKind = 'provider_secret' | 'generic_secret' | 'high_entropy' | 'forbidden_path' | 'binary';
+
+// Blocking findings stop the change; warnings are shown to the reviewer
+export type ScanSeverity = 'block' | 'warn';
+
+export interface ScanFile {
+  path: string;
+  content: string;
+}
+
+export interface ScanFinding {
+  path: string;
+  kind: ScanFindingKind;
+  rule: string;
+  label: string;
+  severity: ScanSeverity;
+  // 1-based position of the match; null for findings about the whole file
+  line: number | null;
+  column: number | null;
+  preview: string | null;
+}
+
+export interface SecretScanResult {
+  blocked: boolean;
+  filesScanned: number;
+  findings: ScanFinding[];
+}
+
+interface ContentRule {
+  rule: string;
+  label: string;
+  pattern: RegExp;
+  // Capture group holding the secret; the rest of the match is context
+  group?: number;
+  validate?: (value: string) => boolean;
+}
+
+// Lines carrying this marker are exempt from the entropy-based checks (not
+// from provider formats), for test fixtures and documented example values
+const ALLOW_MARKER = 'secret-scan:allow';
+
+const MAX_CONTENT_CHARS = 1_000_000;
+const MAX_FINDINGS_PER_FILE = 25;
+const BINARY_SAMPLE_CHARS = 8192;
+const ENCODED_BLOB_CHARS = 2000;
+
+const GENERIC_MIN_ENTROPY = 3.2;
+const HIGH_ENTROPY_MIN_LENGTH = 32;
+const HIGH_ENTROPY_MIN_BITS = 4.2;
+
+function decodeBase64Url(segment: string): string | null {
+  try {
+    return atob(segment.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    return null;
+  }
+}
+
+// Supabase anon keys are JWTs meant to ship in client code; every other JWT
+// (service role keys, user sessions) is a credential
+function isSecretJwt(token: string): boolean {
+  const payload = decodeBase64Url(token.split('.')[1] || '');
+  if (!payload) return true;
+  try {
+    return JSON.parse(payload).role !== 'anon';
+  } catch {
+    return true;
+  }
+}
+
+// Ordered most specific first; a span claimed by one rule is not reported again
+const PROVIDER_RULES: ContentRule[] = [
+  { rule: 'private_key', label: 'Private key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  { rule: 'aws_access_key_id', label: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16}\b/g },
+  {
+    rule: 'aws_secret_access_key',
+    label: 'AWS secret access key',
+    pattern: /aws_?secret_?access_?key\W{0,5}([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+  },
+  { rule: 'github_token', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+  { rule: 'gitlab_token', label: 'GitLab token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { rule: 'slack_token', label: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { rule: 'slack_webhook', label: 'Slack webhook URL', pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_-]{20,}/g },
+  { rule: 'google_api_key', label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { rule: 'stripe_secret_key', label: 'Stripe secret key', pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{20,}\b/g },
+  { rule: 'anthropic_api_key', label: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{32,}/g },
+  { rule: 'openai_api_key', label: 'OpenAI API key', pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{32,}/g },
+  { rule: 'perplexity_api_key', label: 'Perplexity API key', pattern: /\bpplx-[A-Za-z0-9]{32,}\b/g },
+  { rule: 'sendgrid_api_key', label: 'SendGrid API key', pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/g },
+  { rule: 'twilio_api_key', label: 'Twilio API key', pattern: /\bSK[0-9a-f]{32}\b/g },
+  { rule: 'npm_token', label: 'npm access token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  {
+    rule: 'jwt',
+    label: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+    validate: isSecretJwt,
+  },
+  {
+    rule: 'connection_string_password',
+    label: 'Password in connection string',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mongodb(?:\+srv)?|redis|rediss|amqps?):\/\/[^\s:@/"'`]+:([^\s@/"'`]+)@/gi,
+    group: 1,
+  },
+];
+
+// Placeholders, references to the environment and masked values
+const PLACEHOLDER = /^(?:\$\{|\$[A-Z_]|<|%|\{\{)|your|example|changeme|change_me|placeholder|dummy|sample|redacted|xxxx|\*{3,}|process\.env|Deno\.env|import\.meta\.env/i;
+
+const GENERIC_RULE: ContentRule = {
+  rule: 'hardcoded_credential',
+  label: 'Hard-coded credential',
+  pattern: /\b[A-Za-z0-9_]*?(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|private[_-]?key|client[_-]?secret|access[_-]?key|credentials?)\b["']?\s*(?::|=|:=|=>)\s*["'`]([^"'`\s]{8,})["'`]/gi,
+  group: 1,
+  validate: value => !PLACEHOLDER.test(value) && shannonEntropy(value) >= GENERIC_MIN_ENTROPY,
+};
+
+const HIGH_ENTROPY_RULE: ContentRule = {
+  rule: 'high_entropy_string',
+  label: 'High-entropy string',
+  pattern: /["'`]([A-Za-z0-9+/=_-]{32,})["'`]/g,
+  group: 1,
+  validate: value =>
+    value.length >= HIGH_ENTROPY_MIN_LENGTH &&
+    /\d/.test(value) &&
+    /[a-z]/.test(value) &&
+    /[A-Z]/.test(value) &&
+    shannonEntropy(value) >= HIGH_ENTROPY_MIN_BITS,
+};
+
+// Lock files are full of integrity hashes
+const ENTROPY_EXEMPT_FILES = /(?:^|\/)(?:package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|deno\.lock|Cargo\.lock|poetry\.lock)$/;
+
+const FORBIDDEN_PATHS: { rule: string; label: string; pattern: RegExp }[] = [
+  { rule: 'env_file', label: 'Environment file', pattern: /(?:^|\/)\.env(?:\.(?!example$|sample$|template$|dist$)[^/]+)?$/i },
+  { rule: 'git_internals', label: 'Git internals', pattern: /(?:^|\/)\.git\// },
+  { rule: 'key_file', label: 'Key or certificate store', pattern: /\.(?:pem|key|p12|pfx|jks|keystore|ppk|asc|gpg)$/i },
+  { rule: 'ssh_private_key', label: 'SSH private key', pattern: /(?:^|\/)id_(?:rsa|dsa|ecdsa|ed25519)$/ },
+  {
+    rule: 'credential_file',
+    label: 'Credential file',
+    pattern: /(?:^|\/)(?:\.npmrc|\.pypirc|\.netrc|\.htpasswd|\.git-credentials|credentials\.json|service[-_]?account[^/]*\.json|terraform\.tfstate(?:\.backup)?)$|(?:^|\/)\.aws\/credentials$|(?:^|\/)\.docker\/config\.json$/i,
+  },
+];
+
+const BINARY_EXTENSIONS = /\.(?:exe|dll|so|dylib|bin|o|a|class|jar|war|wasm|zip|tar|gz|tgz|bz2|xz|7z|rar|png|jpe?g|gif|bmp|ico|webp|pdf|woff2?|ttf|otf|mp[34]|mov|avi|sqlite|db)$/i;
+
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+// Enough to recognise the value in the file without revealing it
+export function maskSecret(value: string): string {
+  const visible = value.length > 12 ? 4 : 2;
+  return `${value.slice(0, visible)}${'*'.repeat(Math.min(value.length - visible, 8))} (${value.length} chars)`;
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/');
+}
+
+function positionOf(content: string, index: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < index; i++) {
+    if (content.charCodeAt(i) === 10) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: index - lineStart + 1 };
+}
+
+function lineAt(content: string, index: number): string {
+  const start = content.lastIndexOf('\n', index - 1) + 1;
+  const end = content.indexOf('\n', index);
+  return content.slice(start, end === -1 ? content.length : end);
+}
+
+function scanPath(path: string): ScanFinding[] {
+  const wholeFile = { path, line: null, column: null, preview: null };
+
+  if (path.startsWith('/') || /^[A-Za-z]:\//.test(path) || path.split('/').includes('..')) {
+    return [{ ...wholeFile, kind: 'forbidden_path', rule: 'path_traversal', label: 'Path outside the repository', severity: 'block' }];
+  }
+
+  const findings: ScanFinding[] = [];
+  for (const entry of FORBIDDEN_PATHS) {
+    if (entry.pattern.test(path)) {
+      findings.push({ ...wholeFile, kind: 'forbidden_path', rule: entry.rule, label: entry.label, severity: 'block' });
+    }
+  }
+  if (BINARY_EXTENSIONS.test(path)) {
+    findings.push({ ...wholeFile, kind: 'binary', rule: 'binary_file', label: 'Binary file type', severity: 'block' });
+  }
+  return findings;
+}
+
+function scanBinary(path: string, content: string): ScanFinding | null {
+  const wholeFile = { path, kind: 'binary' as const, severity: 'block' as const, line: null, column: null, preview: null };
+
+  if (content.length > MAX_CONTENT_CHARS) {
+    return { ...wholeFile, rule: 'oversized', label: `File larger than ${MAX_CONTENT_CHARS} characters` };
+  }
+
+  const sample = content.slice(0, BINARY_SAMPLE_CHARS);
+  let control = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const code = sample.charCodeAt(i);
+    if (code === 0) return { ...wholeFile, rule: 'binary_content', label: 'Binary content' };
+    if (code < 32 && code !== 9 && code !== 10 && code !== 12 && code !== 13) control++;
+  }
+  if (sample.length > 0 && control / sample.length > 0.1) {
+    return { ...wholeFile, rule: 'binary_content', label: 'Binary content' };
+  }
+
+  const blob = new RegExp(`[A-Za-z0-9+/=]{${ENCODED_BLOB_CHARS},}`).exec(content);
+  if (blob) {
+    const { line, column } = positionOf(content, blob.index);
+    return { ...wholeFile, rule: 'encoded_blob', label: 'Embedded encoded blob', line, column };
+  }
+  return null;
+}
+
+function scanContent(path: string, content: string): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  const claimed: [number, number][] = [];
+  const entropyExempt = ENTROPY_EXEMPT_FILES.test(path);
+
+  const run = (rule: ContentRule, kind: ScanFindingKind, severity: ScanSeverity) => {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(content)) !== null && findings.length < MAX_FINDINGS_PER_FILE) {
+      const value = rule.group ? match[rule.group] : match[0];
+      if (!value) continue;
+      const start = match.index + (rule.group ? match[0].lastIndexOf(value) : 0);
+      const end = start + value.length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+      if (rule.validate && !rule.validate(value)) continue;
+      if (kind !== 'provider_secret' && lineAt(content, start).includes(ALLOW_MARKER)) continue;
+
+      claimed.push([start, end]);
+      const { line, column } = positionOf(content, start);
+      findings.push({
+        path,
+        kind,
+        rule: rule.rule,
+        label: rule.label,
+        severity,
+        line,
+        column,
+        preview: rule.rule === 'private_key' ? null : maskSecret(value),
+      });
+    }
+  };
+
+  for (const rule of PROVIDER_RULES) run(rule, 'provider_secret', 'block');
+  if (!entropyExempt) {
+    run(GENERIC_RULE, 'generic_secret', 'block');
+    run(HIGH_ENTROPY_RULE, 'high_entropy', 'warn');
+  }
+  return findings.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+}
+
+export function scanFile(file: ScanFile): ScanFinding[] {
+  const path = normalizePath(file.path);
+  const content = file.content ?? '';
+  const findings = scanPath(path);
+
+  const binary = scanBinary(path, content);
+  if (binary) return [...findings, binary];
+  return [...findings, ...scanContent(path, content)];
+}
+
+export function scanFiles(files: ScanFile[]): SecretScanResult {
+  const findings = files.flatMap(scanFile);
+  return {
+    blocked: findings.some(f => f.severity === 'block'),
+    filesScanned: files.length,
+    findings,
+  };
+}
+
+// Tool arguments carry files as [{ path, content }]; anything else is ignored
+export function toScanFiles(files: unknown): ScanFile[] {
+  if (!Array.isArray(files)) return [];
+  return files
+    .filter((f): f is { path: string; content?: unknown } => typeof f?.path === 'string')
+    .map(f => ({ path: f.path, content: typeof f.content === 'string' ? f.content : '' }));
+}
+
+export function describeFinding(finding: ScanFinding): string {
+  const where = finding.line ? `${finding.path}:${finding.line}` : finding.path;
+  return `${finding.label} in ${where}${finding.preview ? ` (${finding.preview})` : ''}`;
+}
+
+export function describeScan(result: SecretScanResult): string {
+  const blocking = result.findings.filter(f => f.severity === 'block');
+  const relevant = blocking.length > 0 ? blocking : result.findings;
+  const shown = relevant.slice(0, 5).map(describeFinding);
+  const more = relevant.length - shown.length;
+  return shown.join('; ') + (more > 0 ? `; and ${more} more` : '');
+}
@@ -0,0 +1,130 @@
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import { normalizePlan, planTasks, splitTasks, splitterPlan, type PlannerOptions } from './task-planner.ts';
+
+const TYPES = ['calculation', 'training', 'hr_request', 'deployment', 'code_fix', 'test', 'analysis'];
+const OPTIONS: PlannerOptions = { apiKey: 'test-key', gatewayUrl: 'https://gateway.test/v1/chat', model: 'test-model', taskTypes: TYPES };
+
+// Answer planner requests with `respond` while `fn` runs
+async function withGateway(respond: () => Response, fn: () => Promise<void>) {
+  const original = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(respond());
+  try {
+    await fn();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+function submittedPlan(tasks: unknown[]): Response {
+  const call = { function: { name: 'submit_task_plan', arguments: JSON.stringify({ tasks }) } };
+  return new Response(JSON.stringify({ choices: [{ message: { tool_calls: [call] } }] }));
+}
+
+Deno.test('splitTasks splits numbered lists and conjunctions', () => {
+  assertEquals(splitTasks('1. Run the test suite 2. Fix the failing login test'), ['Run the test suite', 'Fix the failing login test']);
+  assertEquals(
+    splitTasks('Apply for leave next week and enrol me in the security training'),
+    ['Apply for leave next week', 'enrol me in the security training']
+  );
+  assertEquals(splitTasks('Fix bugs and test'), ['Fix bugs and test']);
+});
+
+Deno.test('splitterPlan guesses types and keeps their risk floor', () => {
+  const plan = splitterPlan('Apply for sick leave tomorrow, then deploy the billing service', TYPES);
+  assertEquals(plan.tasks.map(t => [t.type, t.riskLevel, t.requiresApproval, t.dependencies]), [
+    ['hr_request', 'low', false, []],
+    ['deployment', 'high', true, []],
+  ]);
+});
+
+Deno.test('normalizePlan renumbers tasks and remaps dependencies', () => {
+  const { tasks, error } = normalizePlan([
+    { order: 5, type: 'code_fix', description: ' Fix the failing login test ', dependencies: [3, 3] },
+    { order: 3, type: 'test', description: 'Run the test suite' },
+  ], TYPES);
+
+  assertEquals(error, undefined);
+  assertEquals(tasks?.map(t => [t.order, t.description, t.dependencies]), [
+    [0, 'Fix the failing login test', [1]],
+    [1, 'Run the test suite', []],
+  ]);
+});
+
+Deno.test('normalizePlan never lowers risk below the type floor', () => {
+  const { tasks } = normalizePlan([
+    { order: 1, type: 'deployment', description: 'Deploy billing to production', riskLevel: 'low' },
+    { order: 2, type: 'code_fix', description: 'Fix the login bug', riskLevel: 'low' },
+    { order: 3, type: 'test', description: 'Run the tests', riskLevel: 'critical' },
+  ], TYPES);
+
+  assertEquals(tasks?.map(t => [t.riskLevel, t.requiresApproval]), [
+    ['high', true],
+    ['medium', false],
+    ['critical', true],
+  ]);
+});
+
+Deno.test('normalizePlan rejects dependency cycles', () => {
+  const { error } = normalizePlan([
+    { order: 1, type: 'test', description: 'Run the tests', dependencies: [2] },
+    { order: 2, type: 'code_fix', description: 'Fix the bug', dependencies: [3] },
+    { order: 3, type: 'test', description: 'Run the tests again', dependencies: [1] },
+  ], TYPES);
+  assertEquals(error, 'Tasks 1 → 2 → 3 depend on each other');
+});
+
+Deno.test('normalizePlan rejects malformed plans', () => {
+  const check = (input: Parameters<typeof normalizePlan>[0]) => normalizePlan(input, TYPES).error;
+
+  assertEquals(check([]), 'The plan has no tasks');
+  assertEquals(
+    check([{ order: 1, type: 'test', description: 'Run the tests' }, { order: 1, type: 'test', description: 'Run the build' }]),
+    'Two tasks share order 1'
+  );
+  assertEquals(check([{ order: 1, type: 'test', description: 'Run the tests', dependencies: [1] }]), 'Task 1 depends on itself');
+  assertEquals(
+    check([{ order: 1, type: 'test', description: 'Run the tests', dependencies: [4] }]),
+    'Task 1 depends on a task that is not in the plan'
+  );
+  assertEquals(check([{ order: 1, type: 'database', description: 'Read dev_tickets' }]), 'Task 1 has unknown or unavailable type "database"');
+  assertEquals(check([{ order: 1, type: 'test', description: '  ' }]), 'Task 1 has no description');
+});
+
+Deno.test('planTasks falls back to the splitter without a model', async () => {
+  const plan = await planTasks('Enrol me in the security training', { ...OPTIONS, apiKey: undefined });
+  assertEquals([plan.source, plan.fallbackReason], ['splitter', 'The planner model is not configured']);
+  assertEquals(plan.tasks.map(t => t.type), ['training']);
+
+  const none = await planTasks('Enrol me in the security training', { ...OPTIONS, taskTypes: [] });
+  assertEquals([none.tasks, none.fallbackReason], [[], 'No task types are available to this role']);
+});
+
+Deno.test('planTasks uses a valid model plan', async () => {
+  await withGateway(() => submittedPlan([
+    { id: 1, type: 'test', description: 'Find the failing test', depends_on: [], risk_level: 'low' },
+    { id: 2, type: 'code_fix', description: 'Fix it', depends_on: [1], risk_level: 'medium', parameters: { error: 'login fails' } },
+  ]), async () => {
+    const plan = await planTasks('find the failing test and fix it', OPTIONS);
+    assertEquals(plan.source, 'model');
+    assertEquals(plan.tasks.map(t => [t.type, t.dependencies, t.parameters]), [
+      ['test', [], {}],
+      ['code_fix', [0], { error: 'login fails' }],
+    ]);
+  });
+});
+
+Deno.test('planTasks falls back when the model plan is invalid or the gateway fails', async () => {
+  await withGateway(() => submittedPlan([
+    { id: 1, type: 'test', description: 'Run the tests', depends_on: [2], risk_level: 'low' },
+    { id: 2, type: 'code_fix', description: 'Fix the login bug', depends_on: [1], risk_level: 'medium' },
+  ]), async () => {
+    const plan = await planTasks('Run the tests and fix the login bug', OPTIONS);
+    assertEquals([plan.source, plan.fallbackReason], ['splitter', "The planner's plan was invalid: Tasks 1 → 2 depend on each other"]);
+    assertEquals(plan.tasks.map(t => t.type), ['test', 'code_fix']);
+  });
+
+  await withGateway(() => new Response('unavailable', { status: 503 }), async () => {
+    const plan = await planTasks('Run the tests', OPTIONS);
+    assertEquals([plan.source, plan.fallbackReason], ['splitter', 'The planner was unavailable (gateway returned 503)']);
+  });
+});
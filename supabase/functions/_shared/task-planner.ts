@@ -0,0 +1,511 @@
+// ============================================================================
+// TASK PLANNER
+// Turns one request into the typed tasks of an ai_task_queue plan. The model
+// is made to answer through a single forced function call whose schema only
+// offers the task types the caller can run, so "find the failing test and
+// fix it" comes back as two tasks with an edge from the fix to the test run,
+// while "enrol me in rock and roll training" stays one task with its
+// training_name extracted.
+//
+// Whatever the model returns is validated like a user edit: known types,
+// dependency edges that point at other tasks, no cycles, and a risk that is
+// never below the floor for the task's type. When the gateway cannot be
+// reached or its answer does not validate, the planner falls back to the
+// keyword splitter and guesses each fragment's type from its wording.
+// ============================================================================
+
+import { estimateTokens } from './rate-limit.ts';
+import { findDependencyCycle } from './task-scheduler.ts';
+
+export type TaskRisk = 'low' | 'medium' | 'high' | 'critical';
+
+export type ParameterKind = 'text' | 'date' | 'choice' | 'path' | 'paths';
+
+// One parameter of a task type. Required parameters are slots: a task stays
+// awaiting_info until each has a valid value, and the agent asks `question`
+// to fill it.
+export interface ParameterSpec {
+  name: string;
+  label: string;
+  // What goes here, for the planner
+  description: string;
+  kind: ParameterKind;
+  options?: string[];
+  // Other spellings accepted for options, e.g. prod for production
+  aliases?: Record<string, string>;
+  required?: boolean;
+  question?: string;
+}
+
+export interface TaskTypeSpec {
+  // Tool that runs tasks of this type; the caller must be allowed to use it
+  tool: string;
+  description: string;
+  parameters: ParameterSpec[];
+  // Lowest risk a task of this type can be given
+  risk: TaskRisk;
+  // Words that suggest the type when the splitter has to guess
+  keywords: RegExp;
+}
+
+export const LEAVE_TYPES = ['annual', 'casual', 'sick', 'maternity', 'paternity', 'unpaid'];
+export const DEPLOY_ENVIRONMENTS = ['development', 'staging', 'production'];
+
+// Checked in order when guessing, so the more specific types come first
+export const TASK_TYPES: Record<string, TaskTypeSpec> = {
+  calculation: {
+    tool: 'calculate',
+    description: 'Exact arithmetic, percentages, dates, business days and HR formulas',
+    parameters: [
+      { name: 'expression', label: 'Expression', kind: 'text', description: "Expression to evaluate, e.g. '15% of 2500' or 'business_days(2024-01-01, 2024-01-31)'" },
+    ],
+    risk: 'low',
+    keywords: /\b(calculate|compute|how much|how many days|percent(age)?|\d+\s*[-+*/x]\s*\d+)\b/i,
+  },
+  training: {
+    tool: 'automate_hr_task',
+    description: 'Enrol the user in a training or course',
+    parameters: [
+      { name: 'training_name', label: 'Training', kind: 'text', description: 'Name of the training or course' },
+    ],
+    risk: 'low',
+    keywords: /\b(training|course|enrol{1,2}|workshop|certification)\b/i,
+  },
+  hr_request: {
+    tool: 'automate_hr_task',
+    description: 'File a leave request',
+    parameters: [
+      {
+        name: 'leave_type', label: 'Leave type', kind: 'choice', options: LEAVE_TYPES,
+        aliases: { vacation: 'annual', earned: 'annual', privilege: 'annual', medical: 'sick', 'time off': 'annual' },
+        description: 'Kind of leave', required: true, question: 'What kind of leave is this (annual, casual, sick, maternity, paternity or unpaid)?',
+      },
+      { name: 'start_date', label: 'First day', kind: 'date', description: 'First day of leave (YYYY-MM-DD)', required: true, question: 'What is the first day of your leave (YYYY-MM-DD)?' },
+      { name: 'end_date', label: 'Last day', kind: 'date', description: 'Last day of leave (YYYY-MM-DD)', required: true, question: 'What is the last day of your leave (YYYY-MM-DD)?' },
+      { name: 'reason', label: 'Reason', kind: 'text', description: 'Reason given for the leave' },
+    ],
+    risk: 'low',
+    keywords: /\b(leave|vacation|time off|day off|days off|holiday|sick)\b/i,
+  },
+  social_lookup: {
+    tool: 'social_profile_lookup',
+    description: 'Look up public social profiles of a person',
+    parameters: [
+      { name: 'person_name', label: 'Person', kind: 'text', description: 'Full name of the person', required: true, question: 'Whose profile should I look up? Please give their full name.' },
+      { name: 'platform', label: 'Platform', kind: 'choice', options: ['linkedin', 'instagram', 'facebook', 'twitter', 'all'], description: 'Platform to search' },
+      { name: 'additional_context', label: 'Context', kind: 'text', description: 'Company, location or role to narrow the search' },
+    ],
+    risk: 'low',
+    keywords: /\b(linkedin|instagram|facebook|twitter|social profile)\b/i,
+  },
+  deployment: {
+    tool: 'automate_dev_task',
+    description: 'Deploy or release a service',
+    parameters: [
+      {
+        name: 'environment', label: 'Environment', kind: 'choice', options: DEPLOY_ENVIRONMENTS,
+        aliases: { dev: 'development', develop: 'development', stage: 'staging', prod: 'production', live: 'production' },
+        description: 'Target environment', required: true, question: 'Which environment should this be deployed to (development, staging or production)?',
+      },
+      { name: 'service', label: 'Service', kind: 'text', description: 'Service or app to deploy', required: true, question: 'Which service or app should be deployed?' },
+    ],
+    risk: 'high',
+    keywords: /\b(deploy|deployment|release|roll ?out|ship)\b/i,
+  },
+  git_operation: {
+    tool: 'git_operation',
+    description: 'Git status, commit, push, pull, diff or branch',
+    parameters: [
+      {
+        name: 'operation', label: 'Operation', kind: 'choice', options: ['status', 'commit', 'push', 'pull', 'branch', 'diff', 'clone'],
+        description: 'Git operation to run', required: true, question: 'Which git operation should I run (status, commit, push, pull, branch, diff or clone)?',
+      },
+      { name: 'message', label: 'Commit message', kind: 'text', description: 'Commit message' },
+      { name: 'branch_name', label: 'Branch', kind: 'text', description: 'Branch to use or create' },
+      { name: 'files', label: 'Files', kind: 'paths', description: 'Files to include' },
+    ],
+    risk: 'medium',
+    keywords: /\b(git|commit|branch|push|pull|merge|rebase)\b/i,
+  },
+  code_review: {
+    tool: 'automate_dev_task',
+    description: 'Review code for problems',
+    parameters: [
+      { name: 'file_paths', label: 'Files', kind: 'paths', description: 'Files to review' },
+    ],
+    risk: 'low',
+    keywords: /\breview\b/i,
+  },
+  code_fix: {
+    tool: 'automate_dev_task',
+    description: 'Fix a bug or error in the code',
+    parameters: [
+      { name: 'file_paths', label: 'Files', kind: 'paths', description: 'Files involved', required: true, question: 'Which file or files need the fix (paths relative to the repository root)?' },
+      { name: 'error', label: 'Error', kind: 'text', description: 'Error message or description of the bug', required: true, question: 'What is the error or wrong behaviour you are seeing?' },
+      { name: 'file_path', label: 'File to change', kind: 'path', description: 'File to change, only when a concrete change is proposed' },
+      { name: 'proposed_code', label: 'Proposed code', kind: 'text', description: 'New code for the file, only when it is given' },
+    ],
+    risk: 'medium',
+    keywords: /\b(fix|bug|error|broken|crash|patch)\b/i,
+  },
+  test: {
+    tool: 'run_diagnostics',
+    description: 'Run tests, the build, lint or type checks',
+    parameters: [
+      { name: 'diagnostic_type', label: 'Check', kind: 'choice', options: ['build', 'lint', 'typecheck', 'test', 'all'], description: 'Which check to run' },
+    ],
+    risk: 'low',
+    keywords: /\b(tests?|lint|typecheck|type check|build|diagnostics?)\b/i,
+  },
+  file_operation: {
+    tool: 'file_operation',
+    description: 'Read, write, list, search or delete files in the codebase',
+    parameters: [
+      {
+        name: 'operation', label: 'Operation', kind: 'choice', options: ['read', 'write', 'delete', 'list', 'search'],
+        description: 'What to do with the file', required: true, question: 'Should I read, write, delete, list or search?',
+      },
+      { name: 'file_path', label: 'Path', kind: 'path', description: 'Path of the file', required: true, question: 'Which file or folder (path relative to the repository root)?' },
+      { name: 'content', label: 'Content', kind: 'text', description: 'Content to write' },
+      { name: 'search_pattern', label: 'Pattern', kind: 'text', description: 'Pattern to search for' },
+    ],
+    risk: 'medium',
+    keywords: /\b(file|folder|directory|\w+\.(ts|tsx|js|jsx|json|md|sql))\b/i,
+  },
+  database: {
+    tool: 'query_database',
+    description: 'Read records from a database table (read-only)',
+    parameters: [
+      { name: 'table_name', label: 'Table', kind: 'text', description: "Table to read, e.g. 'leave_requests' or 'dev_tickets'", required: true, question: 'Which table should I read from?' },
+    ],
+    risk: 'medium',
+    keywords: /\b(database|table|query|sql|records?|balance)\b/i,
+  },
+  navigation: {
+    tool: 'navigate_page',
+    description: 'Open a page of the application',
+    parameters: [
+      { name: 'page_name', label: 'Page', kind: 'text', description: 'Page to open' },
+    ],
+    risk: 'low',
+    keywords: /\b(go to|open|navigate|take me to)\b/i,
+  },
+  web_search: {
+    tool: 'web_search',
+    description: 'Search the web for current information',
+    parameters: [
+      { name: 'query', label: 'Query', kind: 'text', description: 'Search query' },
+      { name: 'search_type', label: 'Search type', kind: 'choice', options: ['general', 'technical', 'news', 'academic'], description: 'Kind of search' },
+    ],
+    risk: 'low',
+    keywords: /\b(search the web|google|look up|latest|news|online)\b/i,
+  },
+  analysis: {
+    tool: 'search_documents',
+    description: 'Answer a question from company documents and policies',
+    parameters: [
+      { name: 'query', label: 'Question', kind: 'text', description: 'What to find in the documents' },
+      { name: 'document_type', label: 'Documents', kind: 'choice', options: ['all', 'annual_report', 'policy', 'manual', 'other'], description: 'Kind of document to search' },
+    ],
+    risk: 'low',
+    keywords: /\b(analy[sz]e|summari[sz]e|policy|policies|document|report|find)\b/i,
+  },
+};
+
+export const MAX_PLAN_TASKS = 10;
+const MAX_DESCRIPTION_LENGTH = 500;
+const PLANNER_TIMEOUT_MS = 20000;
+// Allowance for the plan the model writes back
+const PLANNER_OUTPUT_TOKENS = 1000;
+
+const RISK_ORDER: TaskRisk[] = ['low', 'medium', 'high', 'critical'];
+
+export function maxRisk(a: TaskRisk, b: TaskRisk): TaskRisk {
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+}
+
+function isRisk(value: unknown): value is TaskRisk {
+  return typeof value === 'string' && (RISK_ORDER as string[]).includes(value);
+}
+
+export interface PlannedTask {
+  // 0-based position; dependencies refer to other tasks by it
+  order: number;
+  type: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  dependencies: number[];
+  riskLevel: TaskRisk;
+  requiresApproval: boolean;
+}
+
+// A task as proposed by the model or edited by the user, before validation
+export interface PlanTaskInput {
+  order: number;
+  type: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+  dependencies?: number[];
+  riskLevel?: TaskRisk;
+  requiresApproval?: boolean;
+}
+
+export interface TaskPlan {
+  source: 'model' | 'splitter';
+  tasks: PlannedTask[];
+  // Why the model's plan was not used, when the splitter stood in
+  fallbackReason?: string;
+}
+
+export interface PlannerOptions {
+  apiKey?: string;
+  gatewayUrl: string;
+  model: string;
+  // Task types the caller may run, from TASK_TYPES
+  taskTypes: string[];
+}
+
+// The original keyword splitter: numbered lists, otherwise "and", "then",
+// "also", commas and semicolons, dropping fragments of 10 characters or less
+export function splitTasks(message: string): string[] {
+  let tasks: string[];
+
+  const numberedMatch = message.match(/\d+\.\s+[^0-9]+/g);
+  if (numberedMatch && numberedMatch.length > 1) {
+    tasks = numberedMatch.map(t => t.replace(/^\d+\.\s+/, '').trim());
+  } else {
+    const parts = message.split(/\b(?:and|then|also|,|;)\b/i);
+    tasks = parts.length > 1 ? parts.map(p => p.trim()).filter(p => p.length > 10) : [message];
+  }
+
+  // Every fragment was too short to stand alone
+  if (tasks.length === 0) tasks = [message.trim()];
+
+  return tasks.slice(0, MAX_PLAN_TASKS);
+}
+
+export function guessTaskType(description: string, taskTypes: string[]): string {
+  const match = Object.entries(TASK_TYPES).find(
+    ([type, spec]) => taskTypes.includes(type) && spec.keywords.test(description)
+  );
+  if (match) return match[0];
+  return taskTypes.includes('analysis') ? 'analysis' : taskTypes[0];
+}
+
+// Validate a proposed or edited plan and renumber it 0..n-1 in the given
+// order. Returns the first problem found instead of a partial plan.
+export function normalizePlan(
+  input: PlanTaskInput[],
+  taskTypes: string[]
+): { tasks: PlannedTask[]; error?: undefined } | { tasks?: undefined; error: string } {
+  if (input.length === 0) return { error: 'The plan has no tasks' };
+  if (input.length > MAX_PLAN_TASKS) return { error: `A plan can have at most ${MAX_PLAN_TASKS} tasks` };
+
+  const positions = new Map<number, number>();
+  for (const [index, task] of input.entries()) {
+    if (!Number.isInteger(task.order)) return { error: `Task ${index + 1} has no valid order` };
+    if (positions.has(task.order)) return { error: `Two tasks share order ${task.order}` };
+    positions.set(task.order, index);
+  }
+
+  const tasks: PlannedTask[] = [];
+  for (const [index, task] of input.entries()) {
+    const label = `Task ${index + 1}`;
+    const description = typeof task.description === 'string' ? task.description.trim() : '';
+    if (!description) return { error: `${label} has no description` };
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `${label} description is longer than ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    if (!taskTypes.includes(task.type)) return { error: `${label} has unknown or unavailable type "${task.type}"` };
+    if (task.parameters !== undefined && (typeof task.parameters !== 'object' || task.parameters === null || Array.isArray(task.parameters))) {
+      return { error: `${label} parameters must be an object` };
+    }
+
+    const dependencies: number[] = [];
+    for (const dep of task.dependencies || []) {
+      if (dep === task.order) return { error: `${label} depends on itself` };
+      const position = positions.get(dep);
+      if (position === undefined) return { error: `${label} depends on a task that is not in the plan` };
+      if (!dependencies.includes(position)) dependencies.push(position);
+    }
+
+    const floor = TASK_TYPES[task.type].risk;
+    const riskLevel = isRisk(task.riskLevel) ? maxRisk(task.riskLevel, floor) : floor;
+    tasks.push({
+      order: index,
+      type: task.type,
+      description,
+      parameters: task.parameters || {},
+      dependencies: dependencies.sort((a, b) => a - b),
+      riskLevel,
+      requiresApproval: task.requiresApproval === true || riskLevel === 'high' || riskLevel === 'critical',
+    });
+  }
+
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) return { error: `Tasks ${cycle.map(o => o + 1).join(' → ')} depend on each other` };
+
+  return { tasks };
+}
+
+export function splitterPlan(message: string, taskTypes: string[], fallbackReason?: string): TaskPlan {
+  const tasks = splitTasks(message).map((description, order) => {
+    const type = guessTaskType(description, taskTypes);
+    const riskLevel = TASK_TYPES[type].risk;
+    return {
+      order,
+      type,
+      description: description.slice(0, MAX_DESCRIPTION_LENGTH),
+      parameters: {},
+      dependencies: [],
+      riskLevel,
+      requiresApproval: riskLevel === 'high' || riskLevel === 'critical',
+    };
+  });
+  return { source: 'splitter', tasks, fallbackReason };
+}
+
+function plannerPrompt(taskTypes: string[]): string {
+  const catalog = taskTypes.map(type => {
+    const spec = TASK_TYPES[type];
+    const params = spec.parameters.map(p => {
+      const options = p.options ? ` One of: ${p.options.join(', ')}.` : '';
+      return `    - ${p.name}${p.required ? ' (required)' : ''}: ${p.description}.${options}`;
+    }).join('\n');
+    return `- ${type}: ${spec.description}\n${params}`;
+  }).join('\n');
+
+  return `You split a user's request into the tasks needed to carry it out and call submit_task_plan exactly once.
+
+Rules:
+- One task per action. Do not split names, titles or phrases that contain "and" (e.g. "rock and roll training" is one training).
+- A task that needs another task's result depends on it: "find the failing test and fix it" is a test task, then a code_fix task that depends on it.
+- Only add a dependency when a task needs another task's result or must happen after it. Independent tasks have none.
+- Put values stated in the request into parameters, using the names listed for the type. Never invent values that were not given; leave them out and the user will be asked. Write dates as YYYY-MM-DD; today is ${new Date().toISOString().slice(0, 10)}.
+- risk_level: low for reads and lookups, medium for changes that are easy to undo, high for deployments, pushes, deletes or anything affecting other people, critical for irreversible or production-wide changes.
+- At most ${MAX_PLAN_TASKS} tasks. Ids are 1, 2, 3... in the order the tasks should be listed.
+
+Task types and their parameters:
+${catalog}`;
+}
+
+// Tokens to charge against the caller's quota before asking the model
+export function estimatePlannerTokens(request: string, taskTypes: string[]): number {
+  return estimateTokens(plannerPrompt(taskTypes) + request) + PLANNER_OUTPUT_TOKENS;
+}
+
+function planSchema(taskTypes: string[]) {
+  return {
+    type: 'object',
+    properties: {
+      tasks: {
+        type: 'array',
+        maxItems: MAX_PLAN_TASKS,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', description: '1-based position of the task' },
+            type: { type: 'string', enum: taskTypes },
+            description: { type: 'string', description: 'What the task does, as a short imperative sentence' },
+            parameters: { type: 'object', description: 'Values for the parameters listed for the type' },
+            depends_on: { type: 'array', items: { type: 'integer' }, description: 'Ids of tasks that must complete first' },
+            risk_level: { type: 'string', enum: RISK_ORDER },
+            requires_approval: { type: 'boolean' },
+          },
+          required: ['id', 'type', 'description', 'depends_on', 'risk_level'],
+        },
+      },
+    },
+    required: ['tasks'],
+  };
+}
+
+interface ModelPlanTask {
+  id?: unknown;
+  type?: unknown;
+  description?: unknown;
+  parameters?: unknown;
+  depends_on?: unknown;
+  risk_level?: unknown;
+  requires_approval?: unknown;
+}
+
+async function requestModelPlan(request: string, options: PlannerOptions & { apiKey: string }): Promise<PlanTaskInput[]> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PLANNER_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(options.gatewayUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: 'system', content: plannerPrompt(options.taskTypes) },
+          { role: 'user', content: request },
+        ],
+        tools: [{
+          type: 'function',
+          function: { name: 'submit_task_plan', description: 'Submit the tasks for the request', parameters: planSchema(options.taskTypes) },
+        }],
+        tool_choice: { type: 'function', function: { name: 'submit_task_plan' } },
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`gateway returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const call = data?.choices?.[0]?.message?.tool_calls?.[0];
+    if (call?.function?.name !== 'submit_task_plan') {
+      throw new Error('the model did not submit a plan');
+    }
+
+    const parsed = JSON.parse(call.function.arguments || '{}') as { tasks?: ModelPlanTask[] };
+    if (!Array.isArray(parsed.tasks)) {
+      throw new Error('the plan has no task list');
+    }
+
+    return parsed.tasks.map((task, index) => ({
+      order: typeof task.id === 'number' ? task.id : index + 1,
+      type: String(task.type ?? ''),
+      description: String(task.description ?? ''),
+      parameters: task.parameters && typeof task.parameters === 'object' && !Array.isArray(task.parameters)
+        ? task.parameters as Record<string, unknown>
+        : {},
+      dependencies: Array.isArray(task.depends_on) ? task.depends_on.filter((d): d is number => typeof d === 'number') : [],
+      riskLevel: isRisk(task.risk_level) ? task.risk_level : undefined,
+      requiresApproval: task.requires_approval === true,
+    }));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function planTasks(request: string, options: PlannerOptions): Promise<TaskPlan> {
+  if (options.taskTypes.length === 0) {
+    return { source: 'splitter', tasks: [], fallbackReason: 'No task types are available to this role' };
+  }
+  if (!options.apiKey) {
+    return splitterPlan(request, options.taskTypes, 'The planner model is not configured');
+  }
+
+  try {
+    const proposed = await requestModelPlan(request, { ...options, apiKey: options.apiKey });
+    const plan = normalizePlan(proposed, options.taskTypes);
+    if (plan.error !== undefined) {
+      console.warn('Planner returned an invalid plan:', plan.error);
+      return splitterPlan(request, options.taskTypes, `The planner's plan was invalid: ${plan.error}`);
+    }
+    return { source: 'model', tasks: plan.tasks };
+  } catch (error) {
+    console.warn('Task planner unavailable:', error);
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    return splitterPlan(request, options.taskTypes, `The planner was unavailable (${reason})`);
+  }
+}
@@ -0,0 +1,146 @@
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import { memoryClient } from './memory-client.ts';
+import { findDependencyCycle, readyTasks, runTaskGraph, type QueuedTask, type TaskRun } from './task-scheduler.ts';
+
+function task(order: number, dependencies: number[] = [], fields: Partial<QueuedTask> = {}): QueuedTask {
+  return {
+    id: `task-${order}`,
+    planId: 'plan-1',
+    order,
+    type: 'general',
+    description: `Task ${order + 1}`,
+    status: 'pending',
+    riskLevel: 'low',
+    approvalRequired: false,
+    dependencies,
+    parameters: {},
+    errorMessage: null,
+    ...fields,
+  };
+}
+
+// A running plan of general tasks, where `dependencies[i]` lists what task i
+// depends on
+function plan(dependencies: number[][]) {
+  const tables = {
+    ai_task_queue: dependencies.map((deps, order) => ({
+      id: `task-${order}`,
+      session_id: 'session-1',
+      plan_id: 'plan-1',
+      task_order: order,
+      task_type: 'general',
+      task_description: `Task ${order + 1}`,
+      task_context: { dependencies: deps, parameters: {} },
+      status: 'pending',
+      risk_level: 'low',
+      approval_required: false,
+      error_message: null,
+    })),
+    ai_task_runs: [{
+      id: 'run-1',
+      session_id: 'session-1',
+      plan_id: 'plan-1',
+      status: 'running',
+      status_reason: null,
+      concurrency: 1,
+      heartbeat_at: new Date().toISOString(),
+    }],
+  };
+  const run: TaskRun = { id: 'run-1', sessionId: 'session-1', planId: 'plan-1', status: 'running', statusReason: null, concurrency: 1 };
+  return { tables, run, supabase: memoryClient(tables) };
+}
+
+Deno.test('findDependencyCycle returns the orders on a cycle', () => {
+  assertEquals(findDependencyCycle([task(0, [1]), task(1, [2]), task(2, [0])]), [0, 1, 2]);
+  assertEquals(findDependencyCycle([task(0), task(1, [2]), task(2, [1])]), [1, 2]);
+  assertEquals(findDependencyCycle([task(0, [0])]), [0]);
+});
+
+Deno.test('findDependencyCycle accepts acyclic graphs and ignores tasks outside the set', () => {
+  assertEquals(findDependencyCycle([task(0), task(1, [0]), task(2, [0, 1])]), null);
+  assertEquals(findDependencyCycle([task(0, [5]), task(1, [0])]), null);
+  assertEquals(findDependencyCycle([]), null);
+});
+
+Deno.test('readyTasks waits for dependencies and approval, in task order', () => {
+  const tasks = [
+    task(3),
+    task(2, [0]),
+    task(1, [0], { status: 'approved', approvalRequired: true }),
+    task(0, [], { status: 'completed' }),
+    task(4, [], { approvalRequired: true }),
+    task(5, [2]),
+  ];
+  assertEquals(readyTasks(tasks).map(t => t.order), [1, 2, 3]);
+});
+
+Deno.test('runTaskGraph runs tasks after their dependencies', async () => {
+  const { tables, run, supabase } = plan([[2], [], [1], [0, 1]]);
+  const executed: number[] = [];
+
+  const summary = await runTaskGraph(supabase, run, {
+    execute: async t => {
+      executed.push(t.order);
+      return { success: true };
+    },
+  });
+
+  assertEquals(executed, [1, 2, 0, 3]);
+  assertEquals([summary.run.status, summary.completed, summary.waiting], ['completed', 4, 0]);
+  assertEquals(tables.ai_task_queue.map(t => t.status), ['completed', 'completed', 'completed', 'completed']);
+});
+
+Deno.test('runTaskGraph skips everything downstream of a failed task', async () => {
+  const { run, supabase } = plan([[], [0], [1], []]);
+  const executed: number[] = [];
+
+  const summary = await runTaskGraph(supabase, run, {
+    execute: async t => {
+      executed.push(t.order);
+      return t.order === 0 ? { success: false, errorMessage: 'Service unavailable' } : { success: true };
+    },
+  });
+
+  assertEquals(executed, [0, 3]);
+  assertEquals(summary.tasks.map(t => [t.status, t.errorMessage]), [
+    ['failed', 'Service unavailable'],
+    ['skipped', 'Skipped: task #1 did not complete'],
+    ['skipped', 'Skipped: task #2 did not complete'],
+    ['completed', null],
+  ]);
+  assertEquals([summary.completed, summary.failed, summary.skipped], [1, 1, 2]);
+  assertEquals(summary.run.status, 'completed');
+});
+
+Deno.test('runTaskGraph fails a dependency cycle instead of waiting on it', async () => {
+  const { run, supabase } = plan([[1], [0], [], [0]]);
+  const executed: number[] = [];
+
+  const summary = await runTaskGraph(supabase, run, {
+    execute: async t => {
+      executed.push(t.order);
+      return { success: true };
+    },
+  });
+
+  assertEquals(executed, [2]);
+  assertEquals(summary.tasks.map(t => [t.status, t.errorMessage]), [
+    ['failed', 'Circular dependency between tasks #1, #2'],
+    ['failed', 'Circular dependency between tasks #1, #2'],
+    ['completed', null],
+    ['skipped', 'Skipped: task #1 did not complete'],
+  ]);
+  assertEquals(summary.waiting, 0);
+});
+
+Deno.test('runTaskGraph leaves tasks awaiting approval and blocks the run', async () => {
+  const { tables, run, supabase } = plan([[], [0]]);
+  tables.ai_task_queue[0].approval_required = true;
+
+  const summary = await runTaskGraph(supabase, run, {
+    execute: async () => ({ success: true }),
+  });
+
+  assertEquals(summary.waiting, 2);
+  assertEquals([summary.run.status, summary.run.statusReason], ['blocked', '2 tasks cannot run yet: 1 awaiting approval, 1 waiting on other tasks']);
+});
@@ -0,0 +1,680 @@
+// ============================================================================
+// TASK SCHEDULER
+// Runs a plan from ai_task_queue (the tasks one analyze_multi_task call
+// wrote) as a dependency graph. Dependencies name other tasks by task_order.
+// A task starts once everything it depends on has completed, independent
+// tasks run side by side up to the run's concurrency, and a task whose
+// dependency failed, was rejected, skipped or cancelled is skipped itself.
+//
+// Each execution is a row in ai_task_runs. Its status is how the client
+// pauses or cancels a run in progress: the scheduler re-reads the run and the
+// plan's tasks before starting anything, lets tasks already executing finish
+// and stops. Task rows are claimed with a conditional update, so a task that
+// was cancelled, rejected or started elsewhere in the meantime never runs.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+export type QueueTaskStatus =
+  | 'pending'
+  | 'awaiting_info'
+  | 'awaiting_approval'
+  | 'approved'
+  | 'executing'
+  | 'completed'
+  | 'failed'
+  | 'rejected'
+  | 'skipped'
+  | 'cancelled';
+
+export type TaskRunStatus = 'running' | 'paused' | 'blocked' | 'completed' | 'cancelled';
+
+export interface QueuedTask {
+  id: string;
+  planId: string | null;
+  order: number;
+  type: string;
+  description: string;
+  status: QueueTaskStatus;
+  riskLevel: string;
+  approvalRequired: boolean;
+  dependencies: number[];
+  parameters: Record<string, unknown>;
+  errorMessage: string | null;
+}
+
+export interface TaskRun {
+  id: string;
+  sessionId: string;
+  planId: string | null;
+  status: TaskRunStatus;
+  statusReason: string | null;
+  concurrency: number;
+}
+
+export interface TaskOutcome {
+  success: boolean;
+  result?: unknown;
+  errorMessage?: string;
+}
+
+export interface TaskRunSummary {
+  run: TaskRun;
+  total: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  // Still waiting on approval, missing information or a dependency
+  waiting: number;
+  tasks: { id: string; order: number; type: string; status: QueueTaskStatus; errorMessage: string | null }[];
+}
+
+export interface RunGraphOptions {
+  execute: (task: QueuedTask) => Promise<TaskOutcome>;
+  // Called whenever the scheduler changes a task's status
+  onUpdate?: (task: QueuedTask, outcome?: TaskOutcome) => void;
+  // Stop starting tasks after this long; the run is left paused to resume
+  timeBudgetMs?: number;
+}
+
+// A run whose heartbeat is older than this is taken to have died with its
+// edge function and may be taken over by a new run
+const LEASE_SECONDS = 180;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const DEFAULT_TIME_BUDGET_MS = 100_000;
+
+const FAILED_STATUSES: QueueTaskStatus[] = ['failed', 'rejected', 'skipped', 'cancelled'];
+const TERMINAL_STATUSES: QueueTaskStatus[] = ['completed', ...FAILED_STATUSES];
+// Tasks that have not started and can still be skipped or cancelled
+const OPEN_STATUSES: QueueTaskStatus[] = ['pending', 'awaiting_info', 'awaiting_approval', 'approved'];
+
+const TASK_COLUMNS = 'id, plan_id, task_order, task_type, task_description, task_context, status, risk_level, approval_required, error_message';
+const RUN_COLUMNS = 'id, session_id, plan_id, status, status_reason, concurrency, heartbeat_at';
+
+interface TaskRow {
+  id: string;
+  plan_id: string | null;
+  task_order: number;
+  task_type: string;
+  task_description: string;
+  task_context: { dependencies?: unknown; parameters?: unknown } | null;
+  status: string | null;
+  risk_level: string | null;
+  approval_required: boolean | null;
+  error_message: string | null;
+}
+
+interface RunRow {
+  id: string;
+  session_id: string;
+  plan_id: string | null;
+  status: TaskRunStatus;
+  status_reason: string | null;
+  concurrency: number;
+  heartbeat_at: string;
+}
+
+function toQueuedTask(row: TaskRow): QueuedTask {
+  const context = row.task_context || {};
+  const parameters = context.parameters;
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    order: row.task_order,
+    type: row.task_type,
+    description: row.task_description,
+    status: (row.status || 'pending') as QueueTaskStatus,
+    riskLevel: row.risk_level || 'low',
+    approvalRequired: row.approval_required ?? false,
+    dependencies: Array.isArray(context.dependencies)
+      ? context.dependencies.filter((d): d is number => typeof d === 'number')
+      : [],
+    parameters: parameters && typeof parameters === 'object' && !Array.isArray(parameters)
+      ? parameters as Record<string, unknown>
+      : {},
+    errorMessage: row.error_message,
+  };
+}
+
+function toTaskRun(row: RunRow): TaskRun {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    planId: row.plan_id,
+    status: row.status,
+    statusReason: row.status_reason,
+    concurrency: row.concurrency,
+  };
+}
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+// Check if task has dependencies on failed tasks
+export function hasFailedDependency(task: Pick<QueuedTask, 'dependencies'>, failedTaskOrders: number[]): boolean {
+  if (!task.dependencies || task.dependencies.length === 0) return false;
+  return task.dependencies.some(dep => failedTaskOrders.includes(dep));
+}
+
+export function isTerminal(status: QueueTaskStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+// Whether a task may start as far as its own state goes: approved, or pending
+// without needing approval
+export function isRunnable(task: QueuedTask): boolean {
+  return task.status === 'approved' || (task.status === 'pending' && !task.approvalRequired);
+}
+
+// Runnable tasks whose dependencies have all completed, in task order
+export function readyTasks(tasks: QueuedTask[]): QueuedTask[] {
+  const completed = new Set(tasks.filter(t => t.status === 'completed').map(t => t.order));
+  return tasks
+    .filter(t => isRunnable(t) && t.dependencies.every(dep => completed.has(dep)))
+    .sort((a, b) => a.order - b.order);
+}
+
+// Orders of the tasks on a dependency cycle, or null if the graph is acyclic
+export function findDependencyCycle(tasks: Pick<QueuedTask, 'order' | 'dependencies'>[]): number[] | null {
+  const edges = new Map<number, number[]>();
+  for (const task of tasks) {
+    edges.set(task.order, [...(edges.get(task.order) || []), ...task.dependencies]);
+  }
+
+  const state = new Map<number, 'visiting' | 'done'>();
+  const path: number[] = [];
+
+  const visit = (order: number): number[] | null => {
+    if (state.get(order) === 'done') return null;
+    if (state.get(order) === 'visiting') return path.slice(path.indexOf(order));
+
+    state.set(order, 'visiting');
+    path.push(order);
+    for (const dep of edges.get(order) || []) {
+      if (!edges.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(order, 'done');
+    return null;
+  };
+
+  for (const order of edges.keys()) {
+    const cycle = visit(order);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+function formatOrders(orders: number[]): string {
+  return orders.map(o => `#${o + 1}`).join(', ');
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+// The plan's tasks, by default the session's most recent plan
+export async function loadPlanTasks(
+  supabase: SupabaseClient,
+  sessionId: string,
+  planId?: string | null
+): Promise<{ planId: string | null; tasks: QueuedTask[] }> {
+  let resolvedPlanId = planId ?? null;
+
+  if (planId === undefined) {
+    const { data: latest } = await supabase
+      .from('ai_task_queue')
+      .select('plan_id')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    resolvedPlanId = latest?.plan_id ?? null;
+  }
+
+  let query = supabase
+    .from('ai_task_queue')
+    .select(TASK_COLUMNS)
+    .eq('session_id', sessionId);
+  query = resolvedPlanId ? query.eq('plan_id', resolvedPlanId) : query.is('plan_id', null);
+
+  const { data, error } = await query.order('task_order');
+  if (error) {
+    console.error('Failed to load task plan:', error);
+    return { planId: resolvedPlanId, tasks: [] };
+  }
+
+  return { planId: resolvedPlanId, tasks: (data as TaskRow[]).map(toQueuedTask) };
+}
+
+async function getRun(supabase: SupabaseClient, runId: string): Promise<TaskRun | null> {
+  const { data } = await supabase
+    .from('ai_task_runs')
+    .select(RUN_COLUMNS)
+    .eq('id', runId)
+    .maybeSingle();
+  return data ? toTaskRun(data as RunRow) : null;
+}
+
+// The session's latest run that has not finished
+async function getOpenRun(
+  supabase: SupabaseClient,
+  sessionId: string,
+  statuses: TaskRunStatus[]
+): Promise<RunRow | null> {
+  const { data } = await supabase
+    .from('ai_task_runs')
+    .select(RUN_COLUMNS)
+    .eq('session_id', sessionId)
+    .in('status', statuses)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as RunRow | null) ?? null;
+}
+
+async function heartbeat(supabase: SupabaseClient, runId: string) {
+  await supabase
+    .from('ai_task_runs')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', runId);
+}
+
+// Move a task out of one of `from` into `status`. Returns false when the row
+// had already moved on, e.g. it was cancelled or claimed by another run.
+async function transitionTask(
+  supabase: SupabaseClient,
+  task: QueuedTask,
+  from: QueueTaskStatus[],
+  status: QueueTaskStatus,
+  fields: Record<string, unknown> = {}
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('ai_task_queue')
+    .update({ status, ...fields })
+    .eq('id', task.id)
+    .in('status', from)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Task ${task.id} update error:`, error);
+    return false;
+  }
+  return !!data;
+}
+
+// Mark every task of the plan that has not started as cancelled
+async function cancelOpenTasks(
+  supabase: SupabaseClient,
+  sessionId: string,
+  planId: string | null,
+  reason: string
+) {
+  let query = supabase
+    .from('ai_task_queue')
+    .update({ status: 'cancelled', error_message: reason, completed_at: new Date().toISOString() })
+    .eq('session_id', sessionId)
+    .in('status', OPEN_STATUSES);
+  query = planId ? query.eq('plan_id', planId) : query.is('plan_id', null);
+
+  const { error } = await query;
+  if (error) console.error('Failed to cancel queued tasks:', error);
+}
+
+// ============================================================================
+// RUN CONTROL
+// ============================================================================
+
+// Start a run for the session's latest plan, or resume its paused run. A
+// running run with a live heartbeat is refused; one whose heartbeat lapsed is
+// taken over and the tasks it left executing are failed.
+export async function startTaskRun(
+  supabase: SupabaseClient,
+  options: { sessionId: string; userId: string; planId?: string | null; concurrency?: number }
+): Promise<{ run: TaskRun | null; error?: string }> {
+  const { sessionId, userId } = options;
+  const open = await getOpenRun(supabase, sessionId, ['running', 'paused']);
+
+  if (open?.status === 'running') {
+    const age = (Date.now() - new Date(open.heartbeat_at).getTime()) / 1000;
+    if (age < LEASE_SECONDS) {
+      return { run: null, error: 'Tasks for this session are already running' };
+    }
+
+    const { data: taken } = await supabase
+      .from('ai_task_runs')
+      .update({ heartbeat_at: new Date().toISOString(), status_reason: null })
+      .eq('id', open.id)
+      .eq('heartbeat_at', open.heartbeat_at)
+      .select(RUN_COLUMNS)
+      .maybeSingle();
+    if (!taken) {
+      return { run: null, error: 'Tasks for this session are already running' };
+    }
+
+    let stuck = supabase
+      .from('ai_task_queue')
+      .update({
+        status: 'failed',
+        error_message: 'Interrupted before it finished',
+        completed_at: new Date().toISOString()
+      })
+      .eq('session_id', sessionId)
+      .eq('status', 'executing');
+    stuck = open.plan_id ? stuck.eq('plan_id', open.plan_id) : stuck.is('plan_id', null);
+    await stuck;
+
+    return { run: toTaskRun(taken as RunRow) };
+  }
+
+  if (open?.status === 'paused') {
+    const { data: resumed } = await supabase
+      .from('ai_task_runs')
+      .update({ status: 'running', status_reason: null, heartbeat_at: new Date().toISOString() })
+      .eq('id', open.id)
+      .eq('status', 'paused')
+      .select(RUN_COLUMNS)
+      .maybeSingle();
+    return resumed
+      ? { run: toTaskRun(resumed as RunRow) }
+      : { run: null, error: 'The paused run changed before it could be resumed' };
+  }
+
+  const { planId } = options.planId === undefined
+    ? await loadPlanTasks(supabase, sessionId)
+    : { planId: options.planId };
+
+  const { data: created, error } = await supabase
+    .from('ai_task_runs')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      plan_id: planId,
+      concurrency: Math.min(Math.max(options.concurrency ?? 3, 1), 10)
+    })
+    .select(RUN_COLUMNS)
+    .single();
+
+  if (error || !created) {
+    // The partial unique index refuses a second active run for the session
+    if (error?.code === '23505') {
+      return { run: null, error: 'Tasks for this session are already running' };
+    }
+    console.error('Failed to start task run:', error);
+    return { run: null, error: 'Failed to start task run' };
+  }
+
+  return { run: toTaskRun(created as RunRow) };
+}
+
+// Pause the session's running run, or cancel its open run. Pausing lets the
+// tasks already executing finish; cancelling also marks every task that has
+// not started as cancelled, whether or not a scheduler is still attached.
+export async function controlTaskRun(
+  supabase: SupabaseClient,
+  sessionId: string,
+  command: 'pause' | 'cancel'
+): Promise<TaskRun | null> {
+  const open = await getOpenRun(
+    supabase,
+    sessionId,
+    command === 'pause' ? ['running'] : ['running', 'paused', 'blocked']
+  );
+  if (!open) return null;
+
+  const fields = command === 'pause'
+    ? { status: 'paused', status_reason: 'Paused by user' }
+    : { status: 'cancelled', status_reason: 'Cancelled by user', finished_at: new Date().toISOString() };
+
+  const { data, error } = await supabase
+    .from('ai_task_runs')
+    .update(fields)
+    .eq('id', open.id)
+    .eq('status', open.status)
+    .select(RUN_COLUMNS)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error(`Failed to ${command} task run:`, error);
+    return null;
+  }
+
+  if (command === 'cancel') {
+    await cancelOpenTasks(supabase, sessionId, open.plan_id, 'Cancelled by user');
+  }
+
+  return toTaskRun(data as RunRow);
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+// Skip tasks that can no longer run: dependencies on a failed task (applied
+// until nothing changes, so skips cascade down the graph), on a task outside
+// the plan, or on a cycle
+async function settleUnrunnable(
+  supabase: SupabaseClient,
+  tasks: QueuedTask[],
+  onUpdate?: RunGraphOptions['onUpdate']
+) {
+  const orders = new Set(tasks.map(t => t.order));
+  const cycle = findDependencyCycle(tasks.filter(t => !isTerminal(t.status)));
+
+  const close = async (task: QueuedTask, status: QueueTaskStatus, reason: string) => {
+    const moved = await transitionTask(supabase, task, OPEN_STATUSES, status, {
+      error_message: reason,
+      completed_at: new Date().toISOString()
+    });
+    if (moved) {
+      task.status = status;
+      task.errorMessage = reason;
+      onUpdate?.(task);
+    }
+    return moved;
+  };
+
+  if (cycle) {
+    for (const task of tasks) {
+      if (cycle.includes(task.order) && OPEN_STATUSES.includes(task.status)) {
+        await close(task, 'failed', `Circular dependency between tasks ${formatOrders(cycle)}`);
+      }
+    }
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const failedTaskOrders = tasks.filter(t => FAILED_STATUSES.includes(t.status)).map(t => t.order);
+
+    for (const task of tasks) {
+      if (!OPEN_STATUSES.includes(task.status)) continue;
+
+      const missing = task.dependencies.filter(dep => !orders.has(dep));
+      if (missing.length > 0) {
+        changed = await close(task, 'skipped', `Skipped: depends on task ${formatOrders(missing)}, which is not in this plan`) || changed;
+      } else if (hasFailedDependency(task, failedTaskOrders)) {
+        const failed = task.dependencies.filter(dep => failedTaskOrders.includes(dep));
+        changed = await close(task, 'skipped', `Skipped: task ${formatOrders(failed)} did not complete`) || changed;
+      }
+    }
+  }
+}
+
+// Take a ready task for execution; false if its row changed meanwhile
+async function claimTask(supabase: SupabaseClient, task: QueuedTask): Promise<boolean> {
+  const from: QueueTaskStatus[] = task.approvalRequired ? ['approved'] : ['pending', 'approved'];
+  const claimed = await transitionTask(supabase, task, from, 'executing', {
+    started_at: new Date().toISOString(),
+    error_message: null
+  });
+  if (claimed) task.status = 'executing';
+  return claimed;
+}
+
+// Execute a claimed task and record how it went
+async function performTask(
+  supabase: SupabaseClient,
+  task: QueuedTask,
+  execute: RunGraphOptions['execute']
+): Promise<TaskOutcome> {
+  let outcome: TaskOutcome;
+  try {
+    outcome = await execute(task);
+  } catch (error) {
+    outcome = { success: false, errorMessage: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  task.status = outcome.success ? 'completed' : 'failed';
+  task.errorMessage = outcome.success ? null : outcome.errorMessage || 'Task failed';
+  await transitionTask(supabase, task, ['executing'], task.status, {
+    execution_result: outcome.result ?? null,
+    error_message: task.errorMessage,
+    completed_at: new Date().toISOString()
+  });
+  return outcome;
+}
+
+function summarize(run: TaskRun, tasks: QueuedTask[]): TaskRunSummary {
+  const count = (status: QueueTaskStatus) => tasks.filter(t => t.status === status).length;
+  return {
+    run,
+    total: tasks.length,
+    completed: count('completed'),
+    failed: count('failed') + count('rejected'),
+    skipped: count('skipped'),
+    cancelled: count('cancelled'),
+    waiting: tasks.filter(t => !isTerminal(t.status)).length,
+    tasks: tasks.map(t => ({ id: t.id, order: t.order, type: t.type, status: t.status, errorMessage: t.errorMessage })),
+  };
+}
+
+// Why a run that stopped on its own did not get through every task
+function describeWaiting(tasks: QueuedTask[]): string {
+  const open = tasks.filter(t => !isTerminal(t.status));
+  const approval = open.filter(t => t.status === 'awaiting_approval' || (t.status === 'pending' && t.approvalRequired)).length;
+  const info = open.filter(t => t.status === 'awaiting_info').length;
+  const parts = [];
+  if (approval > 0) parts.push(`${approval} awaiting approval`);
+  if (info > 0) parts.push(`${info} awaiting information`);
+  const blocked = open.length - approval - info;
+  if (blocked > 0) parts.push(`${blocked} waiting on other tasks`);
+  return `${open.length} task${open.length === 1 ? '' : 's'} cannot run yet: ${parts.join(', ')}`;
+}
+
+// Execute the run's plan until every task has finished, nothing else can
+// start, the run is paused or cancelled, or the time budget runs out
+export async function runTaskGraph(
+  supabase: SupabaseClient,
+  run: TaskRun,
+  options: RunGraphOptions
+): Promise<TaskRunSummary> {
+  const { execute, onUpdate } = options;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const inFlight = new Map<string, Promise<void>>();
+  let tasks: QueuedTask[] = [];
+  let control: TaskRun = run;
+  let outOfTime = false;
+
+  const launch = (task: QueuedTask) => {
+    const work = (async () => {
+      const outcome = await performTask(supabase, task, execute);
+      onUpdate?.(task, outcome);
+      await heartbeat(supabase, run.id);
+    })().finally(() => inFlight.delete(task.id));
+
+    inFlight.set(task.id, work);
+  };
+
+  while (true) {
+    ({ tasks } = await loadPlanTasks(supabase, run.sessionId, run.planId));
+    control = (await getRun(supabase, run.id)) ?? control;
+    outOfTime = Date.now() >= deadline;
+
+    if (control.status === 'running' && !outOfTime) {
+      await settleUnrunnable(supabase, tasks, onUpdate);
+
+      const slots = control.concurrency - inFlight.size;
+      for (const task of readyTasks(tasks).filter(t => !inFlight.has(t.id)).slice(0, Math.max(slots, 0))) {
+        if (!(await claimTask(supabase, task))) continue;
+        onUpdate?.(task);
+        launch(task);
+      }
+    }
+
+    if (inFlight.size === 0) break;
+
+    // Wake when a task finishes, or periodically to keep the heartbeat fresh
+    let timer: number | undefined;
+    const tick = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, HEARTBEAT_INTERVAL_MS);
+    });
+    await Promise.race([...inFlight.values(), tick]);
+    clearTimeout(timer);
+    await heartbeat(supabase, run.id);
+  }
+
+  ({ tasks } = await loadPlanTasks(supabase, run.sessionId, run.planId));
+  control = (await getRun(supabase, run.id)) ?? control;
+
+  if (control.status === 'cancelled') {
+    await cancelOpenTasks(supabase, run.sessionId, run.planId, 'Cancelled by user');
+    ({ tasks } = await loadPlanTasks(supabase, run.sessionId, run.planId));
+  } else if (control.status === 'running') {
+    const finished = tasks.every(t => isTerminal(t.status));
+    const fields = outOfTime && !finished
+      ? { status: 'paused', status_reason: 'time_budget' }
+      : finished
+        ? { status: 'completed', status_reason: null, finished_at: new Date().toISOString() }
+        : { status: 'blocked', status_reason: describeWaiting(tasks), finished_at: new Date().toISOString() };
+
+    // Conditional, so a pause or cancel that landed meanwhile is kept
+    const { data } = await supabase
+      .from('ai_task_runs')
+      .update(fields)
+      .eq('id', run.id)
+      .eq('status', 'running')
+      .select(RUN_COLUMNS)
+      .maybeSingle();
+    control = data ? toTaskRun(data as RunRow) : (await getRun(supabase, run.id)) ?? control;
+  }
+
+  return summarize(control, tasks);
+}
+
+// Run one task of a plan on its own, outside a scheduled run. Its
+// dependencies must have completed; if one of them failed the task is
+// skipped instead.
+export async function runQueuedTask(
+  supabase: SupabaseClient,
+  tasks: QueuedTask[],
+  taskId: string,
+  execute: RunGraphOptions['execute']
+): Promise<{ task: QueuedTask | null; outcome?: TaskOutcome; error?: string }> {
+  const task = tasks.find(t => t.id === taskId);
+  if (!task) return { task: null, error: 'Task not found' };
+
+  await settleUnrunnable(supabase, tasks);
+  if (isTerminal(task.status)) {
+    return { task, error: task.errorMessage || `Task #${task.order + 1} is already ${task.status}` };
+  }
+  if (!isRunnable(task)) {
+    return { task, error: `Task #${task.order + 1} is ${task.status.replace('_', ' ')}` };
+  }
+
+  const completed = new Set(tasks.filter(t => t.status === 'completed').map(t => t.order));
+  const waitingOn = task.dependencies.filter(dep => !completed.has(dep));
+  if (waitingOn.length > 0) {
+    return { task, error: `Task ${formatOrders(waitingOn)} must complete first` };
+  }
+
+  if (!(await claimTask(supabase, task))) {
+    return { task, error: `Task #${task.order + 1} was changed or started elsewhere` };
+  }
+  return { task, outcome: await performTask(supabase, task, execute) };
+}
@@ -0,0 +1,104 @@
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import { memoryClient } from './memory-client.ts';
+import { TASK_TYPES } from './task-planner.ts';
+import { checkSlots, describeQuestions, mergeAnswers, normalizeValue, requiredSlots } from './task-slots.ts';
+
+function spec(taskType: string, name: string) {
+  return TASK_TYPES[taskType].parameters.find(p => p.name === name)!;
+}
+
+// user-1 has 10 annual leave days, 4 of them held by a pending request
+function leaveTables() {
+  return {
+    leave_balance: [
+      { user_id: 'user-1', annual_leave: 10, sick_leave: 5 },
+      { user_id: 'user-2', annual_leave: 30, sick_leave: 5 },
+    ],
+    leave_requests: [
+      { user_id: 'user-1', leave_type: 'annual', status: 'pending', start_date: '2099-03-01', end_date: '2099-03-04' },
+      { user_id: 'user-1', leave_type: 'annual', status: 'rejected', start_date: '2099-05-01', end_date: '2099-05-20' },
+      { user_id: 'user-1', leave_type: 'sick', status: 'pending', start_date: '2099-06-01', end_date: '2099-06-03' },
+      { user_id: 'user-2', leave_type: 'annual', status: 'pending', start_date: '2099-03-01', end_date: '2099-03-20' },
+    ],
+  };
+}
+
+Deno.test('missing slots are asked for in the order the type declares them', async () => {
+  assertEquals(requiredSlots('hr_request'), ['leave_type', 'start_date', 'end_date']);
+
+  const slots = await checkSlots(memoryClient({}), 'user-1', 'hr_request', { leave_type: 'vacation' });
+  assertEquals(slots.parameters, { leave_type: 'annual' });
+  assertEquals(slots.missing, ['start_date', 'end_date']);
+  assertEquals(describeQuestions(slots.questions), [
+    'What is the first day of your leave (YYYY-MM-DD)?',
+    'What is the last day of your leave (YYYY-MM-DD)?',
+  ]);
+});
+
+Deno.test('a deployment asks for its environment and service', async () => {
+  const empty = await checkSlots(memoryClient({}), 'user-1', 'deployment', {});
+  assertEquals(empty.missing, ['environment', 'service']);
+  assertEquals(empty.questions.map(q => [q.kind, q.options]), [
+    ['choice', ['development', 'staging', 'production']],
+    ['text', undefined],
+  ]);
+
+  const filled = await checkSlots(memoryClient({}), 'user-1', 'deployment', { environment: 'Prod', service: ' billing ' });
+  assertEquals([filled.parameters, filled.missing], [{ environment: 'production', service: 'billing' }, []]);
+});
+
+Deno.test('refused values are asked for again with the reason first', async () => {
+  const slots = await checkSlots(memoryClient({}), 'user-1', 'deployment', { environment: 'qa', service: 'billing' });
+  assertEquals(slots.missing, ['environment']);
+  assertEquals(slots.errors, { environment: 'Environment must be one of development, staging, production' });
+  assertEquals(describeQuestions(slots.questions), [
+    'Environment must be one of development, staging, production. Which environment should this be deployed to (development, staging or production)?',
+  ]);
+});
+
+Deno.test('leave dates must be real, in order and not in the past', async () => {
+  const rollover = await checkSlots(memoryClient({}), 'user-1', 'hr_request', { leave_type: 'unpaid', start_date: '2099-02-30', end_date: '2099-03-02' });
+  assertEquals([rollover.missing, rollover.errors], [['start_date'], { start_date: 'First day must be a date like 2026-03-02' }]);
+
+  const past = await checkSlots(memoryClient({}), 'user-1', 'hr_request', { leave_type: 'unpaid', start_date: '2001-01-01', end_date: '2099-01-02' });
+  assertEquals([past.missing, past.errors], [['start_date'], { start_date: 'The first day of leave (2001-01-01) is in the past' }]);
+
+  const reversed = await checkSlots(memoryClient({}), 'user-1', 'hr_request', { leave_type: 'unpaid', start_date: '2099-01-10', end_date: '2099-01-02' });
+  assertEquals([reversed.missing, reversed.errors], [['end_date'], { end_date: 'The last day (2099-01-02) is before the first day (2099-01-10)' }]);
+});
+
+Deno.test('leave must fit the balance less pending requests', async () => {
+  const supabase = memoryClient(leaveTables());
+
+  const tooLong = await checkSlots(supabase, 'user-1', 'hr_request', { leave_type: 'annual', start_date: '2099-04-01', end_date: '2099-04-07' });
+  assertEquals(tooLong.parameters, { leave_type: 'annual', start_date: '2099-04-01' });
+  assertEquals(describeQuestions(tooLong.questions), [
+    '2099-04-01 to 2099-04-07 is 7 days but you have 6 annual leave days left (4 more are in pending requests). What is the last day of your leave (YYYY-MM-DD)?',
+  ]);
+
+  const fits = await checkSlots(supabase, 'user-1', 'hr_request', { leave_type: 'annual', start_date: '2099-04-01', end_date: '2099-04-06' });
+  assertEquals([fits.missing, fits.errors], [[], {}]);
+
+  const unpaid = await checkSlots(supabase, 'user-1', 'hr_request', { leave_type: 'unpaid', start_date: '2099-04-01', end_date: '2099-04-30' });
+  assertEquals(unpaid.missing, []);
+});
+
+Deno.test('paths stay inside the repository', () => {
+  const files = spec('code_fix', 'file_paths');
+  assertEquals(normalizeValue(files, 'src/a.ts, ./src/b.ts'), { value: ['src/a.ts', 'src/b.ts'] });
+  assertEquals(normalizeValue(files, ['/etc/passwd']), { error: 'Files must be relative to the repository root' });
+  assertEquals(normalizeValue(files, 'src/../../secrets.txt'), { error: 'Files cannot leave the repository' });
+  assertEquals(normalizeValue(spec('code_fix', 'file_path'), 'C:\\repo\\a.ts'), { error: 'File to change must be relative to the repository root' });
+});
+
+Deno.test('answers only fill declared slots and blank answers clear them', () => {
+  const merged = mergeAnswers(
+    'hr_request',
+    { leave_type: 'annual', start_date: '2099-04-01', reason: 'Family visit' },
+    { end_date: '2099-04-03', reason: '  ', approver: 'user-2' }
+  );
+  assertEquals(merged, {
+    parameters: { leave_type: 'annual', start_date: '2099-04-01', end_date: '2099-04-03' },
+    ignored: ['approver'],
+  });
+});
@@ -0,0 +1,253 @@
+// ============================================================================
+// TASK SLOTS
+// Slot filling for queued tasks. The required parameters of a task type
+// (TASK_TYPES in task-planner.ts) are its slots, and a task stays
+// awaiting_info until every slot holds a valid value. Values extracted by the
+// planner, answers the user gives in chat and answers typed into the task
+// panel all go through checkSlots, which normalizes them, refuses the ones
+// that do not validate and phrases the questions still open.
+//
+// The result is stored in the task's task_context (parameters, missing_info,
+// questions, slot_errors), so a half-filled task survives reloads and can be
+// finished from either the chat or the panel.
+//
+// Leave requests are also checked as a whole: the dates must be in order and
+// not in the past, and the days must fit the user's leave_balance less the
+// leave already requested and not yet approved.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { TASK_TYPES, type ParameterKind, type ParameterSpec } from './task-planner.ts';
+
+export interface SlotQuestion {
+  name: string;
+  label: string;
+  question: string;
+  kind: ParameterKind;
+  options?: string[];
+  // Why the last value given for this slot was refused
+  error?: string;
+}
+
+export interface SlotState {
+  parameters: Record<string, unknown>;
+  // Required parameters still without a valid value
+  missing: string[];
+  questions: SlotQuestion[];
+  // Why a value was refused, by parameter name
+  errors: Record<string, string>;
+}
+
+const MAX_TEXT_LENGTH = 2000;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null ||
+    (typeof value === 'string' && !value.trim()) ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function parseDate(value: string): number | null {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Rejects dates that roll over, like 2026-02-30
+  return new Date(time).toISOString().slice(0, 10) === value ? time : null;
+}
+
+function normalizePath(value: unknown, label: string): { value: string; error?: undefined } | { value?: undefined; error: string } {
+  if (typeof value !== 'string' || !value.trim()) return { error: `${label} must be a path` };
+  const path = value.trim().replace(/^\.\//, '');
+  if (path.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(path)) {
+    return { error: `${label} must be relative to the repository root` };
+  }
+  if (path.split(/[\\/]/).includes('..')) return { error: `${label} cannot leave the repository` };
+  return { value: path };
+}
+
+// Normalize one value, or explain why it cannot be used
+export function normalizeValue(
+  spec: ParameterSpec,
+  value: unknown
+): { value: unknown; error?: undefined } | { value?: undefined; error: string } {
+  switch (spec.kind) {
+    case 'text': {
+      if (typeof value !== 'string' && typeof value !== 'number') return { error: `${spec.label} must be text` };
+      const text = String(value).trim();
+      if (text.length > MAX_TEXT_LENGTH) return { error: `${spec.label} is longer than ${MAX_TEXT_LENGTH} characters` };
+      return { value: text };
+    }
+
+    case 'date': {
+      const text = typeof value === 'string' ? value.trim() : '';
+      if (parseDate(text) === null) return { error: `${spec.label} must be a date like 2026-03-02` };
+      return { value: text };
+    }
+
+    case 'choice': {
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      const choice = spec.aliases?.[text] ?? text;
+      if (!spec.options?.includes(choice)) {
+        return { error: `${spec.label} must be one of ${spec.options?.join(', ')}` };
+      }
+      return { value: choice };
+    }
+
+    case 'path':
+      return normalizePath(value, spec.label);
+
+    case 'paths': {
+      const items = Array.isArray(value)
+        ? value
+        : typeof value === 'string' ? value.split(/[,\n]/).filter(p => p.trim()) : [];
+      if (items.length === 0) return { error: `${spec.label} must list at least one path` };
+      const paths: string[] = [];
+      for (const item of items) {
+        const path = normalizePath(item, spec.label);
+        if (path.error !== undefined) return { error: path.error };
+        paths.push(path.value);
+      }
+      return { value: paths };
+    }
+  }
+}
+
+// Calendar days, both ends included, as deducted when leave is approved
+function leaveDays(start: string, end: string): number {
+  return Math.round(((parseDate(end) as number) - (parseDate(start) as number)) / DAY_MS) + 1;
+}
+
+async function checkLeaveRequest(
+  supabase: SupabaseClient,
+  userId: string,
+  params: Record<string, unknown>,
+  errors: Record<string, string>
+): Promise<void> {
+  const start = params.start_date as string | undefined;
+  const end = params.end_date as string | undefined;
+  const leaveType = params.leave_type as string | undefined;
+
+  const today = new Date().toISOString().slice(0, 10);
+  if (start && start < today) {
+    errors.start_date = `The first day of leave (${start}) is in the past`;
+    delete params.start_date;
+    return;
+  }
+  if (!start || !end) return;
+  if (end < start) {
+    errors.end_date = `The last day (${end}) is before the first day (${start})`;
+    delete params.end_date;
+    return;
+  }
+  if (!leaveType || leaveType === 'unpaid') return;
+
+  const { data: balance, error } = await supabase
+    .from('leave_balance')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error || !balance) return;
+
+  const entitlement = Number((balance as Record<string, unknown>)[`${leaveType}_leave`] ?? 0);
+
+  // Balances are only reduced on approval, so pending requests still count
+  const { data: pending } = await supabase
+    .from('leave_requests')
+    .select('start_date, end_date')
+    .eq('user_id', userId)
+    .eq('leave_type', leaveType)
+    .eq('status', 'pending');
+  const pendingDays = (pending || []).reduce(
+    (sum: number, r: { start_date: string; end_date: string }) => sum + leaveDays(r.start_date, r.end_date),
+    0
+  );
+
+  const available = entitlement - pendingDays;
+  const requested = leaveDays(start, end);
+  if (requested > available) {
+    const held = pendingDays > 0 ? ` (${pendingDays} more are in pending requests)` : '';
+    errors.end_date = `${start} to ${end} is ${requested} days but you have ${Math.max(available, 0)} ${leaveType} leave days left${held}`;
+    delete params.end_date;
+  }
+}
+
+export function requiredSlots(taskType: string): string[] {
+  return (TASK_TYPES[taskType]?.parameters ?? []).filter(p => p.required).map(p => p.name);
+}
+
+// Merge answers into a task's parameters. Only parameters the task type
+// declares are taken; an empty answer clears the value.
+export function mergeAnswers(
+  taskType: string,
+  parameters: Record<string, unknown>,
+  answers: Record<string, unknown>
+): { parameters: Record<string, unknown>; ignored: string[] } {
+  const declared = new Set((TASK_TYPES[taskType]?.parameters ?? []).map(p => p.name));
+  const merged = { ...parameters };
+  const ignored: string[] = [];
+
+  for (const [name, value] of Object.entries(answers)) {
+    if (!declared.has(name)) {
+      ignored.push(name);
+    } else if (isBlank(value)) {
+      delete merged[name];
+    } else {
+      merged[name] = value;
+    }
+  }
+
+  return { parameters: merged, ignored };
+}
+
+// Validate a task's parameters against its type and work out what to ask
+// next. Parameters the type does not declare are passed through untouched.
+export async function checkSlots(
+  supabase: SupabaseClient,
+  userId: string,
+  taskType: string,
+  parameters: Record<string, unknown>
+): Promise<SlotState> {
+  const specs = TASK_TYPES[taskType]?.parameters ?? [];
+  const normalized = { ...parameters };
+  const errors: Record<string, string> = {};
+
+  for (const spec of specs) {
+    if (isBlank(normalized[spec.name])) {
+      delete normalized[spec.name];
+      continue;
+    }
+    const result = normalizeValue(spec, normalized[spec.name]);
+    if (result.error !== undefined) {
+      errors[spec.name] = result.error;
+      delete normalized[spec.name];
+    } else {
+      normalized[spec.name] = result.value;
+    }
+  }
+
+  if (taskType === 'hr_request') {
+    await checkLeaveRequest(supabase, userId, normalized, errors);
+  }
+
+  const missing = specs.filter(spec => spec.required && isBlank(normalized[spec.name]));
+
+  return {
+    parameters: normalized,
+    missing: missing.map(spec => spec.name),
+    questions: missing.map(spec => ({
+      name: spec.name,
+      label: spec.label,
+      question: spec.question ?? `What should ${spec.label.toLowerCase()} be?`,
+      kind: spec.kind,
+      options: spec.options,
+      error: errors[spec.name],
+    })),
+    errors,
+  };
+}
+
+// The follow-up to put to the user, refusals first
+export function describeQuestions(questions: SlotQuestion[]): string[] {
+  return questions.map(q => q.error ? `${q.error}. ${q.question}` : q.question);
+}
@@ -1,57 +1,59 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  type AgentEvent,
+  buildApprovalPayload,
+  encodeAgentEvent,
+  encodeStreamEnd,
+} from '../_shared/agent-events.ts';
+import { createTraceRecorder, type TraceRecorder } from '../_shared/agent-trace.ts';
+import { type AppRole, canUseTool, getCaller, ownsSession, recordAccessDenied } from '../_shared/auth.ts';
+import {
+  consumeQuota,
+  estimateTokens,
+  quotaExceededMessage,
+  quotaHeaders,
+  TOOL_QUOTA_CLASSES,
+  type QuotaResult
+} from '../_shared/rate-limit.ts';
+import { retrieveChunks } from '../_shared/retrieval.ts';
+import { describeFinding, describeScan, scanFiles, toScanFiles, type SecretScanResult } from '../_shared/secret-scan.ts';
+import { CalculationError, describeCalculationError, evaluateExpression } from '../_shared/calculator.ts';
+import { checkPolicy, describeDecision, evaluatePolicy, loadPolicy, type PolicyDecision, type PolicySet } from '../_shared/policy.ts';
+import {
+  estimatePlannerTokens,
+  normalizePlan,
+  planTasks,
+  splitterPlan,
+  TASK_TYPES,
+  type PlannedTask,
+  type TaskPlan,
+  type TaskRisk
+} from '../_shared/task-planner.ts';
+import { checkSlots, describeQuestions, mergeAnswers, requiredSlots, type SlotQuestion } from '../_shared/task-slots.ts';
+import {
+  controlTaskRun,
+  loadPlanTasks,
+  runQueuedTask,
+  runTaskGraph,
+  startTaskRun,
+  type QueuedTask,
+  type TaskOutcome
+} from '../_shared/task-scheduler.ts';
+import { createOutputGuard, loadOwnIdentifiers, recordOutputFindings, type OutputGuard } from '../_shared/output-guard.ts';
+import {
+  recordDocumentInjectionHits,
+  screenUntrusted,
+  UNTRUSTED_CONTENT_PROMPT,
+  wrapUntrusted,
+} from '../_shared/untrusted-content.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// ============================================================================
-// SAFETY GUARDRAILS - Multi-layer protection
-// ============================================================================
-const BLOCKED_PATTERNS = {
-  prompt_injection: [
-    /ignore (all )?previous/i,
-    /disregard (all )?instructions/i,
-    /new (system )?instructions/i,
-    /forget (your|the) (rules|instructions)/i,
-    /you are now/i,
-    /act as if/i,
-  ],
-  harmful_code: [
-    /rm\s+-rf\s+\//i,
-    /format\s+c:/i,
-    /del\s+\/[fqs]/i,
-    />\s*\/dev\/sd[a-z]/i,
-    /drop\s+database/i,
-    /truncate\s+table/i,
-  ],
-  data_exfil: [
-    /curl.*api_key/i,
-    /wget.*secret/i,
-    /upload.*credentials/i,
-    /send.*password/i,
-  ],
-  privilege_escalation: [
-    /sudo\s+rm/i,
-    /chmod\s+777/i,
-    /chown\s+root/i,
-  ],
-  github_dangerous: [
-    /force\s+push/i,
-    /--force/i,
-    /delete\s+branch.*main/i,
-    /delete\s+branch.*master/i,
-  ],
-  database_dangerous: [
-    /DROP\s+TABLE/i,
-    /TRUNCATE/i,
-    /DELETE\s+FROM\s+\w+\s*(?:;|$)/i,
-    /ALTER\s+TABLE.*DROP/i,
-  ],
-};
-
 // ============================================================================
 // MULTI-TASK EXECUTION ENGINE
 // ============================================================================
@@ -60,17 +62,36 @@ interface TaskDefinition {
   order: number;
   type: string;
   description: string;
-  status: 'pending' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected' | 'skipped';
+  status: 'pending' | 'awaiting_info' | 'awaiting_approval' | 'approved' | 'executing' | 'completed' | 'failed' | 'rejected' | 'skipped' | 'cancelled';
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   requiresApproval: boolean;
   dependencies: number[];
   requiredInfo: string[];
   missingInfo: string[];
-  safetyCheck: { safe: boolean; flags: string[] };
+  questions: SlotQuestion[];
+  slotErrors: Record<string, string>;
+  parameters: Record<string, unknown>;
+  safetyCheck: PolicyDecision;
   result?: any;
   errorMessage?: string;
 }
 
+// A plan can be edited until any of its tasks has started
+const EDITABLE_TASK_STATUSES = ['pending', 'awaiting_info', 'awaiting_approval', 'approved', 'rejected'];
+
+// Details can be filled in or corrected until a task starts
+const SLOT_FILL_STATUSES = ['pending', 'awaiting_info', 'awaiting_approval', 'approved'];
+
+// One task of a revise_task_plan call; tasks without an id are new
+interface PlanTaskEdit {
+  id?: string;
+  order: number;
+  type: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+  dependencies?: number[];
+}
+
 interface MultiTaskContext {
   tasks: TaskDefinition[];
   completedTasks: string[];
@@ -82,127 +103,253 @@ interface MultiTaskContext {
   unsafeTasks: string[];
 }
 
-// Parse multiple tasks from a single prompt
-function parseMultipleTasks(message: string): { rawTasks: string[]; count: number } {
-  // Split by common delimiters
-  const delimiters = [
-    /\d+\.\s+/g,  // "1. task", "2. task"
-    /\band\b/gi,   // "do X and Y"
-    /\bthen\b/gi,  // "do X then Y"
-    /\balso\b/gi,  // "do X also Y"
-    /[,;]\s*/g,    // comma or semicolon separated
-  ];
-
-  let tasks: string[] = [];
-  
-  // Try numbered list first
-  const numberedMatch = message.match(/\d+\.\s+[^0-9]+/g);
-  if (numberedMatch && numberedMatch.length > 1) {
-    tasks = numberedMatch.map(t => t.replace(/^\d+\.\s+/, '').trim());
-  } else {
-    // Try splitting by "and", "then", "also"
-    const parts = message.split(/\b(?:and|then|also|,|;)\b/i);
-    if (parts.length > 1) {
-      tasks = parts.map(p => p.trim()).filter(p => p.length > 10);
-    } else {
-      tasks = [message];
-    }
-  }
+// Task types whose tool the role may use; the planner only offers these
+function plannableTaskTypes(userRole: AppRole): string[] {
+  return Object.keys(TASK_TYPES).filter(type => canUseTool(userRole, TASK_TYPES[type].tool));
+}
+
+// Screen a planned task with the guardrail policy and check its parameters
+// against the slots of its type
+async function toTaskDefinition(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  task: PlannedTask,
+  policy: PolicySet,
+  userRole: AppRole
+): Promise<TaskDefinition> {
+  const safetyCheck = evaluatePolicy(policy, task.description, { target: 'agent_input', role: userRole });
+  const slots = await checkSlots(supabase, userId, task.type, task.parameters);
+  const requiresApproval = task.requiresApproval || safetyCheck.requiresApproval;
 
-  return { rawTasks: tasks.slice(0, 10), count: Math.min(tasks.length, 10) }; // Max 10 tasks
+  return {
+    id: `task-${Date.now()}-${task.order}`,
+    order: task.order,
+    type: task.type,
+    description: task.description,
+    status: !safetyCheck.allowed ? 'rejected'
+      : slots.missing.length > 0 ? 'awaiting_info'
+      : requiresApproval ? 'awaiting_approval'
+      : 'pending',
+    riskLevel: task.riskLevel,
+    requiresApproval,
+    dependencies: task.dependencies,
+    requiredInfo: requiredSlots(task.type),
+    missingInfo: slots.missing,
+    questions: slots.questions,
+    slotErrors: slots.errors,
+    parameters: slots.parameters,
+    safetyCheck
+  };
 }
 
-// Validate safety for each task
-function validateTaskSafety(taskDescription: string): { safe: boolean; flags: string[]; score: number } {
-  const flags: string[] = [];
-  let score = 1.0;
+// Result and display for a queued plan. The plan waits for the user to
+// review it; nothing runs until run_task_queue is called.
+function describeTaskPlan(planId: string, tasks: TaskDefinition[], plan?: TaskPlan) {
+  const unsafeTasks = tasks.filter(t => !t.safetyCheck.allowed);
+  const tasksNeedingInfo = tasks.filter(t => t.missingInfo.length > 0);
 
-  for (const [category, patterns] of Object.entries(BLOCKED_PATTERNS)) {
-    for (const pattern of patterns) {
-      if (pattern.test(taskDescription)) {
-        flags.push(category);
-        score -= 0.3;
+  return {
+    result: {
+      plan_id: planId,
+      planner: plan?.source,
+      planner_note: plan?.fallbackReason,
+      total_tasks: tasks.length,
+      safe_tasks: tasks.length - unsafeTasks.length,
+      unsafe_tasks: unsafeTasks.length,
+      tasks_needing_info: tasksNeedingInfo.length,
+      ready_to_execute: tasks.filter(t => t.status === 'pending').length,
+      awaiting_approval: tasks.filter(t => t.status === 'awaiting_approval').length,
+      tasks
+    },
+    requiresApproval: false,
+    jsonDisplay: {
+      type: 'multi_task_analysis',
+      title: `Multi-Task Plan (${tasks.length} tasks)`,
+      data: {
+        action: 'analyze_multi_task',
+        plan_id: planId,
+        planner: plan?.source,
+        planner_note: plan?.fallbackReason,
+        summary: {
+          total: tasks.length,
+          safe: tasks.length - unsafeTasks.length,
+          unsafe: unsafeTasks.length,
+          need_info: tasksNeedingInfo.length
+        },
+        unsafe_tasks: unsafeTasks.map(t => ({
+          order: t.order,
+          description: t.description,
+          reason: describeDecision(t.safetyCheck)
+        })),
+        missing_info: tasksNeedingInfo.map(t => ({
+          id: t.id,
+          order: t.order,
+          description: t.description,
+          missing: t.missingInfo,
+          questions: describeQuestions(t.questions)
+        })),
+        execution_order: tasks
+          .filter(t => t.status === 'pending' || t.status === 'awaiting_approval' || t.status === 'approved')
+          .sort((a, b) => a.order - b.order)
+          .map(t => ({
+            id: t.id,
+            order: t.order,
+            type: t.type,
+            description: t.description,
+            risk: t.riskLevel,
+            parameters: t.parameters,
+            depends_on: t.dependencies
+          }))
       }
     }
-  }
+  };
+}
 
+function taskQueueRow(task: TaskDefinition) {
   return {
-    safe: flags.length === 0,
-    flags: [...new Set(flags)],
-    score: Math.max(0, score)
+    task_order: task.order,
+    task_type: task.type,
+    task_description: task.description,
+    task_context: {
+      dependencies: task.dependencies,
+      required_info: task.requiredInfo,
+      missing_info: task.missingInfo,
+      questions: task.questions,
+      slot_errors: task.slotErrors,
+      parameters: task.parameters
+    },
+    status: task.status,
+    approval_required: task.requiresApproval,
+    risk_level: task.riskLevel,
+    error_message: task.safetyCheck.allowed ? null : describeDecision(task.safetyCheck)
   };
 }
 
-// Check if task has dependencies on failed tasks
-function hasFailedDependency(task: TaskDefinition, failedTaskOrders: number[]): boolean {
-  if (!task.dependencies || task.dependencies.length === 0) return false;
-  return task.dependencies.some(dep => failedTaskOrders.includes(dep));
+// The tool that carries out a queued task of the given type, with arguments
+// from the task's parameters. Where a tool needs free text the description
+// stands in for it.
+function taskToolCall(task: QueuedTask): { tool: string; args: Record<string, unknown> } | null {
+  const params = task.parameters;
+  const text = (key: string) => typeof params[key] === 'string' && params[key] ? params[key] : task.description;
+  // Parameters fill in the arguments; the fields that pick the action and its
+  // risk are set after them so a stored parameter cannot swap them out
+  const operation = (fallback: string) => typeof params.operation === 'string' && params.operation ? params.operation : fallback;
+
+  switch (task.type) {
+    case 'code_fix':
+      return params.proposed_code
+        ? { tool: 'propose_code_change', args: { change_reason: task.description, ...params, risk_level: task.riskLevel === 'critical' ? 'high' : task.riskLevel } }
+        : { tool: 'automate_dev_task', args: { file_paths: params.file_paths, task_data: { description: task.description, ...params }, task_type: 'bug_fix' } };
+    case 'code_review':
+      return { tool: 'automate_dev_task', args: { file_paths: params.file_paths, task_data: { description: task.description, ...params }, task_type: 'code_review' } };
+    case 'deployment':
+      return { tool: 'automate_dev_task', args: { task_data: params, task_type: 'deployment' } };
+    case 'test':
+      return { tool: 'run_diagnostics', args: { ...params, diagnostic_type: 'test' } };
+    case 'git_operation':
+      return { tool: 'git_operation', args: { ...params, operation: operation('status') } };
+    case 'file_operation':
+      return { tool: 'file_operation', args: { ...params, operation: operation('read') } };
+    case 'database':
+      return { tool: 'query_database', args: params };
+    case 'hr_request':
+      return { tool: 'automate_hr_task', args: { ...params, task_data: params.task_data ?? params, task_type: 'leave_request' } };
+    case 'training':
+      return { tool: 'automate_hr_task', args: { task_data: { training_name: text('training_name'), ...params }, task_type: 'training_enrollment' } };
+    case 'navigation':
+      return { tool: 'navigate_page', args: { page_name: text('page_name'), reason: task.description } };
+    case 'analysis':
+      return { tool: 'search_documents', args: { query: text('query'), ...params } };
+    case 'web_search':
+      return { tool: 'web_search', args: { query: text('query'), ...params } };
+    case 'social_lookup':
+      return { tool: 'social_profile_lookup', args: params };
+    case 'calculation':
+      return { tool: 'calculate', args: { expression: text('expression'), ...params } };
+    default:
+      return null;
+  }
 }
 
-// Check required information for a task
-function checkRequiredInfo(taskType: string, taskDescription: string): { required: string[]; missing: string[] } {
-  const requirements: Record<string, { check: (desc: string) => boolean; name: string }[]> = {
-    'code_fix': [
-      { check: (d) => /file|path|\.ts|\.js|\.tsx|\.jsx/i.test(d), name: 'file path' },
-      { check: (d) => /error|bug|issue|problem/i.test(d), name: 'error description' }
-    ],
-    'deployment': [
-      { check: (d) => /environment|prod|staging|dev/i.test(d), name: 'target environment' },
-      { check: (d) => /service|app|function/i.test(d), name: 'service name' }
-    ],
-    'git_operation': [
-      { check: (d) => /branch|commit|push|pull/i.test(d), name: 'operation type' }
-    ],
-    'file_operation': [
-      { check: (d) => /file|path/i.test(d), name: 'file path' }
-    ],
-    'database': [
-      { check: (d) => /table|column|query/i.test(d), name: 'table/entity name' }
-    ]
-  };
+// Run a queued task through its tool. Tool results report failure as an
+// `error` field (permission, quota, validation) rather than by throwing.
+async function executeQueuedTask(
+  supabase: ReturnType<typeof createClient>,
+  task: QueuedTask,
+  sessionId: string,
+  userId: string,
+  userRole: AppRole
+): Promise<TaskOutcome> {
+  const call = taskToolCall(task);
+  if (!call) {
+    return { success: false, errorMessage: `No tool can run ${task.type} tasks` };
+  }
 
-  const typeReqs = requirements[taskType] || [];
-  const required = typeReqs.map(r => r.name);
-  const missing = typeReqs.filter(r => !r.check(taskDescription)).map(r => r.name);
+  const definition = TOOL_DEFINITIONS.find(d => d.function.name === call.tool);
+  const required = (definition?.function.parameters as { required?: string[] } | undefined)?.required ?? [];
+  const missing = required.filter(name => call.args[name] === undefined || call.args[name] === '');
+  if (missing.length > 0) {
+    return { success: false, errorMessage: `Missing ${missing.join(', ')} for ${call.tool}` };
+  }
 
-  return { required, missing };
+  const outcome = await processToolCall(supabase, call.tool, call.args, sessionId, userId, userRole);
+  const error = outcome.result?.error ?? (outcome.result?.executed === false ? outcome.result.reason : undefined);
+
+  return {
+    success: !error,
+    result: { tool: call.tool, output: outcome.result },
+    errorMessage: error ? String(error) : undefined
+  };
 }
 
 // ============================================================================
 // CODE GENERATION & SAFETY ANALYSIS
 // ============================================================================
 
-// Analyze code for security issues
-function analyzeCodeSafety(code: string): { safe: boolean; issues: string[]; risk_level: string } {
-  const issues: string[] = [];
-  
-  const dangerousPatterns = [
-    { pattern: /eval\s*\(/i, issue: 'Uses eval() - security risk' },
-    { pattern: /Function\s*\(/i, issue: 'Uses Function constructor' },
-    { pattern: /\.exec\s*\(/i, issue: 'Uses exec() - command injection risk' },
-    { pattern: /child_process/i, issue: 'Uses child_process module' },
-    { pattern: /rm\s+-rf/i, issue: 'Destructive file operation' },
-    { pattern: /DROP\s+TABLE/i, issue: 'SQL drop table detected' },
-    { pattern: /DELETE\s+FROM\s+\w+\s*;/i, issue: 'Unqualified DELETE statement' },
-    { pattern: /TRUNCATE/i, issue: 'SQL truncate detected' },
-    { pattern: /process\.env\s*\[/i, issue: 'Dynamic env access' },
-    { pattern: /require\s*\(\s*[^'"]/i, issue: 'Dynamic require' },
-    { pattern: /import\s*\(\s*[^'"]/i, issue: 'Dynamic import' },
-    { pattern: /--no-verify/i, issue: 'Git verification bypass' },
-    { pattern: /force\s*push/i, issue: 'Force push operation' },
-    { pattern: /sudo/i, issue: 'Sudo command' },
-  ];
-
-  for (const { pattern, issue } of dangerousPatterns) {
-    if (pattern.test(code)) {
-      issues.push(issue);
+// Outcome for content the secret scanner refuses. The audit entry carries the
+// masked findings, never the content itself.
+async function secretScanBlocked(
+  supabase: ReturnType<typeof createClient>,
+  sessionId: string,
+  userId: string,
+  toolName: string,
+  scan: SecretScanResult
+) {
+  await supabase.from('ai_safety_audit').insert({
+    session_id: sessionId,
+    user_id: userId,
+    action_type: 'secret_scan_blocked',
+    action_data: { tool: toolName, findings: scan.findings },
+    safety_score: 0,
+    risk_flags: [...new Set(scan.findings.filter(f => f.severity === 'block').map(f => f.rule))],
+    was_blocked: true,
+    block_reason: describeScan(scan)
+  });
+
+  return {
+    result: { blocked: true, reason: `Secret scan failed: ${describeScan(scan)}`, findings: scan.findings },
+    requiresApproval: false,
+    jsonDisplay: {
+      type: 'warning',
+      title: 'Blocked by Secret Scan',
+      data: {
+        action: toolName,
+        findings: scan.findings.map(describeFinding),
+        status: 'BLOCKED'
+      }
     }
-  }
+  };
+}
 
+// Summary of a code policy decision, stored in safety_analysis.code_analysis
+// and shown in the capability review panel
+function toCodeAnalysis(decision: PolicyDecision) {
   return {
-    safe: issues.length === 0,
-    issues,
-    risk_level: issues.length === 0 ? 'low' : issues.length < 3 ? 'medium' : 'high'
+    safe: decision.allowed,
+    outcome: decision.outcome,
+    issues: decision.matches.map(m => m.description || m.name),
+    risk_level: decision.riskLevel,
+    policy_version: decision.version
   };
 }
 
@@ -337,28 +484,57 @@ const TOOL_DEFINITIONS = [
     type: "function",
     function: {
       name: "analyze_multi_task",
-      description: "Analyze a user prompt containing multiple tasks, validate safety, check dependencies, and prepare execution plan",
+      description: "Plan a request that contains several tasks. A planner splits it into typed tasks with extracted parameters, dependencies and risk, checks each against the safety policy, and queues the plan for the user to review before it runs.",
       parameters: {
         type: "object",
         properties: {
+          request: { type: "string", description: "The user's request, in their words, including every detail they gave" }
+        },
+        required: ["request"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "revise_task_plan",
+      description: "Replace the tasks of a queued plan that has not started running, e.g. to drop, add, reorder or reword tasks at the user's request. Edited tasks are checked again and need approval again where required.",
+      parameters: {
+        type: "object",
+        properties: {
+          plan_id: { type: "string" },
           tasks: {
             type: "array",
             items: {
               type: "object",
               properties: {
+                id: { type: "string", description: "Id of an existing task; omit for a new task" },
                 order: { type: "number" },
-                type: { type: "string", enum: ["code_fix", "code_review", "deployment", "git_operation", "file_operation", "database", "hr_request", "navigation", "training", "analysis", "test", "web_search", "social_lookup", "calculation"] },
+                type: { type: "string", enum: Object.keys(TASK_TYPES) },
                 description: { type: "string" },
-                risk_level: { type: "string", enum: ["low", "medium", "high", "critical"] },
-                requires_approval: { type: "boolean" },
-                dependencies: { type: "array", items: { type: "number" } },
-                required_info: { type: "array", items: { type: "string" } }
+                parameters: { type: "object" },
+                dependencies: { type: "array", items: { type: "number" }, description: "Orders of the tasks that must complete first" }
               },
-              required: ["order", "type", "description", "risk_level", "requires_approval"]
+              required: ["order", "type", "description"]
             }
           }
         },
-        required: ["tasks"]
+        required: ["plan_id", "tasks"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "provide_task_info",
+      description: "Fill in details a queued task is missing (its questions), using the user's answers. Answers are validated, e.g. leave dates against the leave balance; the task becomes ready once every required detail is valid.",
+      parameters: {
+        type: "object",
+        properties: {
+          task_id: { type: "string" },
+          answers: { type: "object", description: "Parameter name to the user's answer, e.g. { \"start_date\": \"2026-03-02\", \"end_date\": \"2026-03-04\" }" }
+        },
+        required: ["task_id", "answers"]
       }
     }
   },
@@ -366,18 +542,46 @@ const TOOL_DEFINITIONS = [
     type: "function",
     function: {
       name: "execute_task",
-      description: "Execute a single task from the multi-task queue",
+      description: "Execute a single task from the multi-task queue with the tool for its type. Its dependencies must have completed.",
       parameters: {
         type: "object",
         properties: {
           task_id: { type: "string" },
           task_type: { type: "string" },
-          parameters: { type: "object" }
+          parameters: { type: "object", description: "Tool arguments to add to the task's own parameters" }
         },
         required: ["task_id", "task_type"]
       }
     }
   },
+  {
+    type: "function",
+    function: {
+      name: "run_task_queue",
+      description: "Run every approved or ready task of the latest multi-task plan, independent tasks in parallel and each after its dependencies. Resumes a paused run.",
+      parameters: {
+        type: "object",
+        properties: {
+          plan_id: { type: "string", description: "Plan to run; defaults to the latest one in this chat" },
+          concurrency: { type: "number", description: "Tasks to run at once (1-10, default 3)" }
+        }
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "control_task_queue",
+      description: "Pause the running task queue (tasks already executing finish) or cancel it (tasks not yet started are cancelled)",
+      parameters: {
+        type: "object",
+        properties: {
+          command: { type: "string", enum: ["pause", "cancel"] }
+        },
+        required: ["command"]
+      }
+    }
+  },
   {
     type: "function",
     function: {
@@ -427,12 +631,14 @@ const TOOL_DEFINITIONS = [
     type: "function",
     function: {
       name: "calculate",
-      description: "Perform mathematical calculations. Supports basic arithmetic, percentages, dates, and business calculations.",
+      description: "Evaluate a calculation exactly (decimal arithmetic, no floating-point error). Supports arithmetic, percentages, units (days, hours, weeks, months, years), currency amounts (₹, $, INR, USD, lakh, crore), date arithmetic, business days with holiday calendars, and HR functions: prorated_leave(entitlement, join_date, period_end?), hra_exemption(basic, hra_received, rent_paid, metro?), income_tax(taxable_income, regime?) with regime 'new', 'new_fy2024' or 'old', gratuity(monthly_basic_and_da, years_of_service).",
       parameters: {
         type: "object",
         properties: {
-          expression: { type: "string", description: "Math expression to evaluate (e.g., '15% of 2500', '(100 + 50) * 2', 'days between 2024-01-01 and 2024-12-31')" },
-          calculation_type: { type: "string", enum: ["arithmetic", "percentage", "date_diff", "financial", "conversion"] }
+          expression: { type: "string", description: "Expression to evaluate, e.g. '15% of 2500', '(100 + 50) * 2', '₹12 lakh / 12 months', '2024-01-31 + 1 month', 'business_days(2024-01-01, 2024-01-31)', 'income_tax(1250000)'. Dates are YYYY-MM-DD; text arguments are quoted; do not use thousands separators." },
+          calendar: { type: "string", enum: ["IN", "US", "UK", "none"], description: "Holiday calendar for business-day functions (default IN)" },
+          holidays: { type: "array", items: { type: "string" }, description: "Extra company or regional holidays (YYYY-MM-DD)" },
+          exchange_rates: { type: "object", description: "Rates for currency conversion, e.g. {\"USD/INR\": 83.2} meaning 1 USD = 83.2 INR" }
         },
         required: ["expression"]
       }
@@ -560,7 +766,8 @@ const TOOL_DEFINITIONS = [
         type: "object",
         properties: {
           query: { type: "string", description: "The search query - what information to find in documents" },
-          document_type: { type: "string", enum: ["all", "annual_report", "policy", "manual", "other"], description: "Type of document to search" }
+          document_type: { type: "string", enum: ["all", "annual_report", "policy", "manual", "other"], description: "Type of document to search" },
+          document_ids: { type: "array", items: { type: "string" }, description: "Restrict the search to these document IDs" }
         },
         required: ["query"]
       }
@@ -996,9 +1203,12 @@ Use \`social_profile_lookup\` to find public info about people:
 ## CALCULATOR
 Use \`calculate\` for:
 - Basic math: 15 + 27 * 3
-- Percentages: 15% of 2500
-- Date calculations: days between dates
-- Financial: compound interest, loan payments
+- Percentages: 15% of 2500, 1200 + 18%
+- Units and currency: 5 days + 36 hours, ₹5 lakh / 12 months
+- Dates: 2024-01-31 + 1 month, days between 2024-01-01 and 2024-12-31, business_days(2024-01-01, 2024-01-31)
+- HR: prorated_leave(24, 2024-07-01), hra_exemption(600000, 300000, 240000, 'metro'), income_tax(1250000, 'new'), gratuity(50000, 7.5)
+- Financial: 100000 * (1 + 8%/12) ^ 12
+Never do arithmetic yourself when \`calculate\` can do it. If it returns an error, fix the expression at the reported position and try again.
 
 ## WEBSITE KNOWLEDGE
 You know everything about this website:
@@ -1006,12 +1216,11 @@ ${JSON.stringify(SITE_DOCUMENTATION, null, 2)}
 
 ## MULTI-TASK HANDLING
 When user gives MULTIPLE tasks:
-1. **PARSE**: Identify each distinct task
-2. **SAFETY CHECK**: Validate each task for harmful patterns
-3. **INFO CHECK**: Ensure you have all required information
-4. **DEPENDENCIES**: Build dependency graph
-5. **EXECUTE**: Run tasks sequentially, skip dependents if parent fails
-6. **REPORT**: Show completed ✅, failed ❌, skipped ⏭️
+1. **PLAN**: Call \`analyze_multi_task\` with the request; its planner splits it into typed tasks with parameters, dependencies and risk, and checks each against the safety policy
+2. **INFO CHECK**: Tasks awaiting_info come with questions. Ask the user all of them in one message, then pass the answers to \`provide_task_info\`; it validates them and returns what is still missing or was refused
+3. **REVIEW**: Summarise the plan and let the user review or edit it in the task panel. Use \`revise_task_plan\` when they ask for changes in chat
+4. **EXECUTE**: Call \`run_task_queue\` only when the user asks to run the plan; it runs independent tasks in parallel and skips dependents of failed tasks
+5. **REPORT**: Show completed ✅, failed ❌, skipped ⏭️
 
 ## ROLE-BASED ACCESS
 - employee: Dashboard, Chat, Calendar, Settings
@@ -1021,8 +1230,9 @@ When user gives MULTIPLE tasks:
 ## SAFETY PROTOCOLS
 1. NEVER execute destructive commands
 2. NEVER expose credentials
-3. ALWAYS show changes before applying
-4. ALWAYS request approval for risky operations
+3. NEVER put keys, tokens or passwords in code; read them from environment variables. Code proposals, commits and PRs are secret-scanned, and .env files, key files and binary blobs are refused
+4. ALWAYS show changes before applying
+5. ALWAYS request approval for risky operations
 
 ## RESPONSE FORMAT
 Structure responses with:
@@ -1040,8 +1250,34 @@ async function processToolCall(
   args: any,
   sessionId: string,
   userId: string,
-  userRole: string
-): Promise<{ result: any; requiresApproval: boolean; jsonDisplay?: any }> {
+  userRole: AppRole
+): Promise<{ result: any; requiresApproval: boolean; jsonDisplay?: any; rateLimit?: QuotaResult }> {
+
+  if (!canUseTool(userRole, toolName)) {
+    await recordAccessDenied(supabase, {
+      sessionId,
+      userId,
+      role: userRole,
+      action: toolName,
+      reason: `Role ${userRole} may not use ${toolName}`
+    });
+    return {
+      result: { error: `Permission denied: the ${userRole} role cannot use ${toolName}` },
+      requiresApproval: false
+    };
+  }
+
+  const quotaClass = TOOL_QUOTA_CLASSES[toolName];
+  if (quotaClass) {
+    const quota = await consumeQuota(supabase, userId, quotaClass);
+    if (!quota.allowed) {
+      return {
+        result: { error: quotaExceededMessage(quota), retry_after_seconds: quota.retryAfterSeconds },
+        requiresApproval: false,
+        rateLimit: quota
+      };
+    }
+  }
   
   // Log all tool calls for audit
   await supabase.from('ai_safety_audit').insert({
@@ -1054,169 +1290,358 @@ async function processToolCall(
 
   switch (toolName) {
     case 'analyze_multi_task': {
-      const tasks = args.tasks.map((task: any, index: number) => {
-        const safetyCheck = validateTaskSafety(task.description);
-        const infoCheck = checkRequiredInfo(task.type, task.description);
-        
-        return {
-          id: `task-${Date.now()}-${index}`,
-          order: task.order || index,
-          type: task.type,
-          description: task.description,
-          status: !safetyCheck.safe ? 'rejected' : infoCheck.missing.length > 0 ? 'awaiting_info' : 'pending',
-          riskLevel: task.risk_level,
-          requiresApproval: task.requires_approval || task.risk_level === 'high' || task.risk_level === 'critical',
-          dependencies: task.dependencies || [],
-          requiredInfo: infoCheck.required,
-          missingInfo: infoCheck.missing,
-          safetyCheck
-        };
-      });
+      const request = typeof args.request === 'string' ? args.request.trim() : '';
+      if (!request) {
+        return { result: { error: 'Nothing to plan: the request is empty' }, requiresApproval: false };
+      }
+
+      // Planning is a model call of its own; without quota the splitter plans
+      const taskTypes = plannableTaskTypes(userRole);
+      const plannerQuota = await consumeQuota(supabase, userId, 'llm_tokens', estimatePlannerTokens(request, taskTypes));
+      const plan: TaskPlan = plannerQuota.allowed
+        ? await planTasks(request, {
+            apiKey: Deno.env.get('LOVABLE_API_KEY'),
+            gatewayUrl: AI_GATEWAY_URL,
+            model: AI_MODEL,
+            taskTypes
+          })
+        : splitterPlan(request, taskTypes, quotaExceededMessage(plannerQuota));
+
+      if (plan.tasks.length === 0) {
+        return { result: { error: plan.fallbackReason || 'No tasks could be planned' }, requiresApproval: false };
+      }
 
-      const unsafeTasks = tasks.filter((t: TaskDefinition) => !t.safetyCheck.safe);
-      const tasksNeedingInfo = tasks.filter((t: TaskDefinition) => t.missingInfo.length > 0);
+      const policy = await loadPolicy(supabase);
+      const planId = crypto.randomUUID();
+      const tasks = await Promise.all(plan.tasks.map(task => toTaskDefinition(supabase, userId, task, policy, userRole)));
 
-      // Store tasks in queue
-      for (const task of tasks) {
-        await supabase.from('ai_task_queue').insert({
+      // Store tasks in queue as one plan; the stored ids replace the local ones
+      const { data: stored, error: storeError } = await supabase
+        .from('ai_task_queue')
+        .insert(tasks.map(task => ({
           session_id: sessionId,
           user_id: userId,
-          task_order: task.order,
-          task_type: task.type,
-          task_description: task.description,
-          task_context: { 
-            dependencies: task.dependencies,
-            required_info: task.requiredInfo,
-            missing_info: task.missingInfo
-          },
-          status: task.status,
-          approval_required: task.requiresApproval,
-          risk_level: task.riskLevel
+          plan_id: planId,
+          ...taskQueueRow(task)
+        })))
+        .select('id');
+
+      if (storeError) {
+        console.error('Failed to queue tasks:', storeError);
+        return { result: { error: `Failed to queue tasks: ${storeError.message}` }, requiresApproval: false };
+      }
+      stored?.forEach((row: { id: string }, index: number) => {
+        tasks[index].id = row.id;
+      });
+
+      return describeTaskPlan(planId, tasks, plan);
+    }
+
+    case 'revise_task_plan': {
+      const { planId, tasks: current } = await loadPlanTasks(supabase, sessionId, args.plan_id ?? null);
+      if (!planId || current.length === 0) {
+        return { result: { error: 'Task plan not found' }, requiresApproval: false };
+      }
+
+      const { data: runs } = await supabase
+        .from('ai_task_runs')
+        .select('id')
+        .eq('session_id', sessionId)
+        .eq('plan_id', planId)
+        .limit(1);
+      if ((runs && runs.length > 0) || current.some(t => !EDITABLE_TASK_STATUSES.includes(t.status))) {
+        return { result: { error: 'This plan has started running and can no longer be edited' }, requiresApproval: false };
+      }
+
+      const edits: PlanTaskEdit[] = Array.isArray(args.tasks) ? args.tasks : [];
+      const byId = new Map(current.map(t => [t.id, t]));
+      const foreign = edits.find(edit => edit.id && !byId.has(edit.id));
+      if (foreign) {
+        return { result: { error: `Task ${foreign.id} is not part of this plan` }, requiresApproval: false };
+      }
+
+      const revised = normalizePlan(edits.map(edit => {
+        const previous = edit.id ? byId.get(edit.id) : undefined;
+        return {
+          order: edit.order,
+          type: edit.type,
+          description: edit.description,
+          parameters: edit.parameters,
+          dependencies: edit.dependencies,
+          // An edit never lowers a task's risk or drops its approval
+          riskLevel: previous?.riskLevel as TaskRisk | undefined,
+          requiresApproval: previous?.approvalRequired
+        };
+      }), plannableTaskTypes(userRole));
+      if (revised.error !== undefined) {
+        return { result: { error: revised.error }, requiresApproval: false };
+      }
+
+      const policy = await loadPolicy(supabase);
+      const oldIdByOrder = new Map(current.map(t => [t.order, t.id]));
+      const newIds = edits.map(edit => edit.id ?? null);
+      const tasks = await Promise.all(revised.tasks.map(task => toTaskDefinition(supabase, userId, task, policy, userRole)));
+
+      const removed = current.filter(t => !newIds.includes(t.id)).map(t => t.id);
+      if (removed.length > 0) {
+        await supabase.from('ai_task_queue').delete().in('id', removed);
+      }
+
+      for (const [index, task] of tasks.entries()) {
+        const previous = newIds[index] ? byId.get(newIds[index] as string) : undefined;
+        if (!previous) continue;
+        task.id = previous.id;
+
+        const sameDependencies = JSON.stringify(previous.dependencies.map(o => oldIdByOrder.get(o)).sort())
+          === JSON.stringify(task.dependencies.map(pos => newIds[pos]).sort());
+        const unchanged = sameDependencies
+          && previous.type === task.type
+          && previous.description === task.description
+          && JSON.stringify(previous.parameters) === JSON.stringify(task.parameters);
+
+        // Untouched tasks keep their approval or rejection; only their
+        // position and dependency numbering move
+        const row = taskQueueRow(task);
+        const { error } = await supabase
+          .from('ai_task_queue')
+          .update(unchanged ? { task_order: row.task_order, task_context: row.task_context } : row)
+          .eq('id', previous.id);
+        if (error) {
+          console.error('Failed to revise task:', error);
+          return { result: { error: `Failed to revise task: ${error.message}` }, requiresApproval: false };
+        }
+        if (unchanged) {
+          task.status = previous.status as TaskDefinition['status'];
+        }
+      }
+
+      const added = tasks.filter((_, index) => !newIds[index]);
+      if (added.length > 0) {
+        const { data: stored, error } = await supabase
+          .from('ai_task_queue')
+          .insert(added.map(task => ({
+            session_id: sessionId,
+            user_id: userId,
+            plan_id: planId,
+            ...taskQueueRow(task)
+          })))
+          .select('id');
+        if (error) {
+          console.error('Failed to add tasks:', error);
+          return { result: { error: `Failed to add tasks: ${error.message}` }, requiresApproval: false };
+        }
+        stored?.forEach((row: { id: string }, index: number) => {
+          added[index].id = row.id;
         });
       }
 
+      return describeTaskPlan(planId, tasks);
+    }
+
+    case 'provide_task_info': {
+      const { data: row } = await supabase
+        .from('ai_task_queue')
+        .select('id, session_id, task_type, task_description, status, approval_required, task_context')
+        .eq('id', args.task_id)
+        .maybeSingle();
+
+      if (!row || row.session_id !== sessionId) {
+        return { result: { error: 'Task not found' }, requiresApproval: false };
+      }
+      if (!SLOT_FILL_STATUSES.includes(row.status)) {
+        return { result: { error: `This task is ${row.status} and no longer takes new details` }, requiresApproval: false };
+      }
+
+      const answers: Record<string, unknown> = args.answers && typeof args.answers === 'object' && !Array.isArray(args.answers)
+        ? args.answers
+        : {};
+      const context = (row.task_context || {}) as Record<string, unknown>;
+      const merged = mergeAnswers(row.task_type, (context.parameters || {}) as Record<string, unknown>, answers);
+      const slots = await checkSlots(supabase, userId, row.task_type, merged.parameters);
+      const status = slots.missing.length > 0 ? 'awaiting_info'
+        : row.approval_required ? 'awaiting_approval'
+        : 'pending';
+
+      // Conditional on the status read above, so a task a run has just
+      // claimed is not changed under it
+      const { data: updated, error } = await supabase
+        .from('ai_task_queue')
+        .update({
+          status,
+          task_context: {
+            ...context,
+            parameters: slots.parameters,
+            missing_info: slots.missing,
+            questions: slots.questions,
+            slot_errors: slots.errors
+          }
+        })
+        .eq('id', row.id)
+        .eq('status', row.status)
+        .select('id');
+
+      if (error || !updated || updated.length === 0) {
+        return { result: { error: error ? `Failed to save details: ${error.message}` : 'The task changed while saving; try again' }, requiresApproval: false };
+      }
+
+      const refused = Object.keys(answers).filter(name => slots.errors[name]);
+      const questions = describeQuestions(slots.questions);
+
       return {
         result: {
-          total_tasks: tasks.length,
-          safe_tasks: tasks.filter((t: TaskDefinition) => t.safetyCheck.safe).length,
-          unsafe_tasks: unsafeTasks.length,
-          tasks_needing_info: tasksNeedingInfo.length,
-          ready_to_execute: tasks.filter((t: TaskDefinition) => t.status === 'pending').length,
-          tasks
+          task_id: row.id,
+          status,
+          complete: slots.missing.length === 0,
+          accepted: Object.keys(answers).filter(name => !refused.includes(name) && !merged.ignored.includes(name)),
+          refused: Object.fromEntries(refused.map(name => [name, slots.errors[name]])),
+          ignored: merged.ignored,
+          missing: slots.missing,
+          questions
         },
         requiresApproval: false,
         jsonDisplay: {
-          type: 'multi_task_analysis',
-          title: `Multi-Task Analysis (${tasks.length} tasks)`,
+          type: 'task_info',
+          title: slots.missing.length === 0 ? 'Task Ready' : 'More Details Needed',
           data: {
-            action: 'analyze_multi_task',
-            summary: {
-              total: tasks.length,
-              safe: tasks.filter((t: TaskDefinition) => t.safetyCheck.safe).length,
-              unsafe: unsafeTasks.length,
-              need_info: tasksNeedingInfo.length
-            },
-            unsafe_tasks: unsafeTasks.map((t: TaskDefinition) => ({
-              order: t.order,
-              description: t.description,
-              reason: t.safetyCheck.flags.join(', ')
-            })),
-            missing_info: tasksNeedingInfo.map((t: TaskDefinition) => ({
-              order: t.order,
-              description: t.description,
-              missing: t.missingInfo
-            })),
-            execution_order: tasks
-              .filter((t: TaskDefinition) => t.status === 'pending')
-              .sort((a: TaskDefinition, b: TaskDefinition) => a.order - b.order)
-              .map((t: TaskDefinition) => ({
-                order: t.order,
-                type: t.type,
-                description: t.description,
-                depends_on: t.dependencies
-              }))
+            task: row.task_description,
+            status,
+            parameters: slots.parameters,
+            questions
           }
         }
       };
     }
 
     case 'execute_task': {
-      // Execute a single task from queue
-      const { data: task } = await supabase
+      const { data: row } = await supabase
         .from('ai_task_queue')
-        .select('*')
+        .select('id, session_id, plan_id')
         .eq('id', args.task_id)
-        .single();
+        .maybeSingle();
 
-      if (!task) {
+      if (!row || row.session_id !== sessionId) {
         return { result: { error: 'Task not found' }, requiresApproval: false };
       }
 
-      // Update status to executing
-      await supabase.from('ai_task_queue')
-        .update({ status: 'executing', started_at: new Date().toISOString() })
-        .eq('id', args.task_id);
+      const { tasks } = await loadPlanTasks(supabase, sessionId, row.plan_id);
+      const target = tasks.find(t => t.id === args.task_id);
+      if (target && args.parameters && typeof args.parameters === 'object') {
+        target.parameters = { ...target.parameters, ...args.parameters };
+      }
 
-      // Simulate task execution based on type
-      let executionResult;
-      let success = true;
-      let errorMessage = '';
+      const { task, outcome, error } = await runQueuedTask(
+        supabase,
+        tasks,
+        args.task_id,
+        (queued) => executeQueuedTask(supabase, queued, sessionId, userId, userRole)
+      );
 
-      try {
-        switch (task.task_type) {
-          case 'code_fix':
-          case 'code_review':
-            executionResult = { 
-              action: 'code_analysis',
-              files_analyzed: 1,
-              issues_found: 0,
-              status: 'completed'
-            };
-            break;
-          case 'git_operation':
-            executionResult = {
-              action: 'git_' + (args.parameters?.operation || 'status'),
-              status: 'completed'
-            };
-            break;
-          default:
-            executionResult = { 
-              action: task.task_type,
-              status: 'completed'
-            };
-        }
-      } catch (e) {
-        success = false;
-        errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      if (!task || !outcome) {
+        return {
+          result: { task_id: args.task_id, success: false, status: task?.status, error },
+          requiresApproval: false
+        };
       }
 
-      // Update task status
-      await supabase.from('ai_task_queue')
-        .update({ 
-          status: success ? 'completed' : 'failed',
-          execution_result: executionResult,
-          error_message: errorMessage || null,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', args.task_id);
-
       return {
         result: {
-          task_id: args.task_id,
-          success,
-          execution_result: executionResult,
-          error_message: errorMessage || undefined
+          task_id: task.id,
+          success: outcome.success,
+          status: task.status,
+          execution_result: outcome.result,
+          error_message: outcome.errorMessage
         },
         requiresApproval: false,
         jsonDisplay: {
           type: 'task_execution',
-          title: `Task ${task.task_order + 1}: ${success ? '✅ Completed' : '❌ Failed'}`,
+          title: `Task ${task.order + 1}: ${outcome.success ? '✅ Completed' : '❌ Failed'}`,
+          data: {
+            task_type: task.type,
+            description: task.description,
+            status: outcome.success ? 'COMPLETED' : 'FAILED',
+            result: outcome.result,
+            error: outcome.errorMessage
+          }
+        }
+      };
+    }
+
+    case 'run_task_queue': {
+      const { run, error } = await startTaskRun(supabase, {
+        sessionId,
+        userId,
+        planId: args?.plan_id,
+        concurrency: args?.concurrency
+      });
+
+      if (!run) {
+        return { result: { error }, requiresApproval: false };
+      }
+
+      const summary = await runTaskGraph(supabase, run, {
+        execute: (task) => executeQueuedTask(supabase, task, sessionId, userId, userRole)
+      });
+
+      const statusLabels: Record<string, string> = {
+        completed: '✅ Completed',
+        blocked: '⏸️ Waiting',
+        paused: '⏸️ Paused',
+        cancelled: '⏹️ Cancelled',
+        running: '▶️ Running'
+      };
+
+      return {
+        result: summary,
+        requiresApproval: false,
+        jsonDisplay: {
+          type: 'task_run',
+          title: `Task Run: ${statusLabels[summary.run.status]}`,
           data: {
-            task_type: task.task_type,
-            description: task.task_description,
-            status: success ? 'COMPLETED' : 'FAILED',
-            result: executionResult,
-            error: errorMessage || undefined
+            action: 'run_task_queue',
+            run_id: summary.run.id,
+            status: summary.run.status.toUpperCase(),
+            reason: summary.run.statusReason,
+            completed: summary.completed,
+            failed: summary.failed,
+            skipped: summary.skipped,
+            cancelled: summary.cancelled,
+            waiting: summary.waiting,
+            tasks: summary.tasks.map(t => ({
+              order: t.order + 1,
+              type: t.type,
+              status: t.status,
+              error: t.errorMessage || undefined
+            }))
+          }
+        }
+      };
+    }
+
+    case 'control_task_queue': {
+      const command = args?.command;
+      if (command !== 'pause' && command !== 'cancel') {
+        return { result: { error: 'command must be pause or cancel' }, requiresApproval: false };
+      }
+
+      const run = await controlTaskRun(supabase, sessionId, command);
+      if (!run) {
+        return {
+          result: { error: command === 'pause' ? 'No task run is in progress' : 'No task run to cancel' },
+          requiresApproval: false
+        };
+      }
+
+      return {
+        result: { run_id: run.id, status: run.status },
+        requiresApproval: false,
+        jsonDisplay: {
+          type: 'task_run',
+          title: command === 'pause' ? 'Task Run Paused' : 'Task Run Cancelled',
+          data: {
+            action: 'control_task_queue',
+            run_id: run.id,
+            status: run.status.toUpperCase(),
+            reason: run.statusReason
           }
         }
       };
@@ -1302,11 +1727,17 @@ async function processToolCall(
           };
         }
 
+        const answer = screenUntrusted(
+          await loadPolicy(supabase),
+          searchData.choices?.[0]?.message?.content || 'No results found'
+        );
+
         return {
           result: {
             query: args.query,
-            answer: searchData.choices?.[0]?.message?.content || 'No results found',
-            citations: searchData.citations || []
+            answer: answer.text,
+            citations: searchData.citations || [],
+            injectionFlags: answer.matches.map(m => m.ruleKey)
           },
           requiresApproval: false,
           jsonDisplay: {
@@ -1315,7 +1746,7 @@ async function processToolCall(
             data: {
               action: 'web_search',
               query: args.query,
-              result: searchData.choices?.[0]?.message?.content?.substring(0, 500) + '...',
+              result: answer.text.substring(0, 500) + '...',
               sources: searchData.citations?.length || 0
             }
           }
@@ -1371,13 +1802,18 @@ async function processToolCall(
         });
 
         const searchData = await searchResponse.json();
+        const profileInfo = screenUntrusted(
+          await loadPolicy(supabase),
+          searchData.choices?.[0]?.message?.content || 'No public information found'
+        );
         
         return {
           result: {
             person: args.person_name,
             platform,
-            profile_info: searchData.choices?.[0]?.message?.content || 'No public information found',
-            citations: searchData.citations || []
+            profile_info: profileInfo.text,
+            citations: searchData.citations || [],
+            injectionFlags: profileInfo.matches.map(m => m.ruleKey)
           },
           requiresApproval: false,
           jsonDisplay: {
@@ -1387,7 +1823,7 @@ async function processToolCall(
               action: 'social_profile_lookup',
               person: args.person_name,
               platform,
-              info: searchData.choices?.[0]?.message?.content?.substring(0, 500) + '...',
+              info: profileInfo.text.substring(0, 500) + '...',
               sources: searchData.citations?.length || 0
             }
           }
@@ -1401,51 +1837,23 @@ async function processToolCall(
     }
 
     case 'calculate': {
-      const expression = args.expression;
-      let result: number | string;
-      let calculation_type = args.calculation_type || 'arithmetic';
-      
+      const expression = String(args.expression ?? '');
+
       try {
-        // Handle percentage calculations
-        if (expression.toLowerCase().includes('% of')) {
-          const match = expression.match(/(\d+(?:\.\d+)?)\s*%\s*of\s*(\d+(?:\.\d+)?)/i);
-          if (match) {
-            result = (parseFloat(match[1]) / 100) * parseFloat(match[2]);
-            calculation_type = 'percentage';
-          } else {
-            throw new Error('Invalid percentage format');
-          }
-        }
-        // Handle date differences
-        else if (expression.toLowerCase().includes('days between')) {
-          const match = expression.match(/days between\s*(\d{4}-\d{2}-\d{2})\s*and\s*(\d{4}-\d{2}-\d{2})/i);
-          if (match) {
-            const date1 = new Date(match[1]);
-            const date2 = new Date(match[2]);
-            const diffTime = Math.abs(date2.getTime() - date1.getTime());
-            result = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-            calculation_type = 'date_diff';
-          } else {
-            throw new Error('Invalid date format. Use: days between YYYY-MM-DD and YYYY-MM-DD');
-          }
-        }
-        // Basic arithmetic - safe evaluation
-        else {
-          // Only allow numbers, operators, parentheses, and spaces
-          const sanitized = expression.replace(/[^0-9+\-*/.() ]/g, '');
-          if (sanitized !== expression.replace(/\s/g, '').replace(/[^0-9+\-*/.()]/g, '')) {
-            throw new Error('Invalid characters in expression');
-          }
-          // Use Function constructor for safe evaluation (no access to global scope)
-          result = new Function('return ' + sanitized)();
-        }
+        const calculation = evaluateExpression(expression, {
+          calendar: args.calendar,
+          holidays: Array.isArray(args.holidays) ? args.holidays : undefined,
+          exchangeRates: args.exchange_rates && typeof args.exchange_rates === 'object' ? args.exchange_rates : undefined,
+        });
 
         return {
           result: {
             expression,
-            calculation_type,
-            result,
-            formatted: typeof result === 'number' ? result.toLocaleString() : result
+            calculation_type: calculation.type,
+            result: calculation.value,
+            unit: calculation.unit,
+            formatted: calculation.formatted,
+            details: calculation.details,
           },
           requiresApproval: false,
           jsonDisplay: {
@@ -1454,12 +1862,20 @@ async function processToolCall(
             data: {
               action: 'calculate',
               expression,
-              type: calculation_type,
-              result: typeof result === 'number' ? result.toLocaleString() : result
+              type: calculation.type,
+              result: calculation.formatted,
+              ...(calculation.details.length > 0 && { details: calculation.details }),
             }
           }
         };
       } catch (error) {
+        if (error instanceof CalculationError) {
+          return {
+            result: { error: 'Calculation failed', expression, ...describeCalculationError(expression, error) },
+            requiresApproval: false
+          };
+        }
+        console.error('Calculator error:', error);
         return {
           result: { error: 'Calculation failed', message: error instanceof Error ? error.message : 'Invalid expression' },
           requiresApproval: false
@@ -1737,34 +2153,32 @@ async function processToolCall(
       // Search documents including global company documents (Annual Reports, policies, etc.)
       const query = args.query;
       
-      // Build the search query - include both session-specific and global documents
-      let chunksQuery = supabase
-        .from('document_chunks')
-        .select(`
-          id, content, page_number, section_title, document_id,
-          uploaded_documents!inner (id, file_name, session_id, is_global)
-        `)
-        .limit(50);
-
-      // Always include global documents plus any session-specific ones
-      // Since we don't have sessionId here, we search global documents
-      chunksQuery = chunksQuery.eq('uploaded_documents.is_global', true);
-
-      const { data: chunks, error } = await chunksQuery;
-
-      if (error) {
+      // Session-specific documents plus global ones; without a session only
+      // global documents are visible
+      let relevantChunks;
+      try {
+        relevantChunks = await retrieveChunks(supabase, query, {
+          sessionId: sessionId || null,
+          userId,
+          globalOnly: !sessionId,
+          documentIds: Array.isArray(args.document_ids) ? args.document_ids : undefined,
+          limit: 5,
+          snippetLength: 500,
+        });
+      } catch (error) {
         console.error('Document search error:', error);
         return {
-          result: { error: 'Failed to search documents', details: error.message },
+          result: { error: 'Failed to search documents', details: error instanceof Error ? error.message : String(error) },
           requiresApproval: false
         };
       }
 
-      if (!chunks || chunks.length === 0) {
+      if (relevantChunks.length === 0) {
         return {
           result: { 
             found: false, 
-            message: 'No global documents found. Ask user to upload relevant documents or mark existing documents as global.' 
+            message: `No relevant content found for "${query}" in available documents.`,
+            suggestion: 'Try different keywords or upload a document with this information.'
           },
           requiresApproval: false,
           jsonDisplay: {
@@ -1773,62 +2187,37 @@ async function processToolCall(
             data: {
               action: 'search_documents',
               query,
-              status: 'NO_RESULTS',
-              message: 'No global documents indexed yet'
+              status: 'NO_MATCHES'
             }
           }
         };
       }
 
-      // Simple keyword-based search
-      const queryWords = query.toLowerCase().split(/\s+/).filter((w: string) => w.length > 2);
-      
-      const scoredChunks = chunks.map((chunk: any) => {
-        const contentLower = chunk.content.toLowerCase();
-        let score = 0;
-        for (const word of queryWords) {
-          const matches = contentLower.match(new RegExp(word, 'gi'));
-          if (matches) {
-            score += matches.length;
-          }
+      // Chunk text is untrusted: neutralise embedded instructions before the
+      // model sees it and keep count against the source document
+      const policy = await loadPolicy(supabase);
+      const injectionHits = new Map<string, Set<string>>();
+      const results = relevantChunks.map(chunk => {
+        const screened = screenUntrusted(policy, chunk.content);
+        if (screened.matches.length > 0) {
+          const keys = injectionHits.get(chunk.documentId) || new Set<string>();
+          screened.matches.forEach(m => keys.add(m.ruleKey));
+          injectionHits.set(chunk.documentId, keys);
         }
-        return { ...chunk, score };
-      });
-
-      const relevantChunks = scoredChunks
-        .filter((c: any) => c.score > 0)
-        .sort((a: any, b: any) => b.score - a.score)
-        .slice(0, 5);
-
-      if (relevantChunks.length === 0) {
         return {
-          result: { 
-            found: false, 
-            message: `No relevant content found for "${query}" in global documents.`,
-            suggestion: 'Try different keywords or upload a document with this information.'
-          },
-          requiresApproval: false,
-          jsonDisplay: {
-            type: 'search',
-            title: 'Document Search',
-            data: {
-              action: 'search_documents',
-              query,
-              status: 'NO_MATCHES',
-              totalDocs: chunks.length
-            }
-          }
+          chunkId: chunk.chunkId,
+          documentId: chunk.documentId,
+          documentName: chunk.documentName,
+          pageNumber: chunk.pageNumber,
+          sectionTitle: chunk.sectionTitle,
+          content: screened.text,
+          snippet: screened.quarantined ? screened.text : chunk.snippet,
+          relevanceScore: chunk.score,
+          injectionFlags: screened.matches.map(m => m.ruleKey),
+          quarantined: screened.quarantined
         };
-      }
-
-      const results = relevantChunks.map((chunk: any) => ({
-        documentName: chunk.uploaded_documents?.file_name || 'Unknown',
-        pageNumber: chunk.page_number,
-        sectionTitle: chunk.section_title,
-        content: chunk.content,
-        snippet: chunk.content.substring(0, 500) + (chunk.content.length > 500 ? '...' : ''),
-        relevanceScore: chunk.score
-      }));
+      });
+      await recordDocumentInjectionHits(supabase, injectionHits);
 
       return {
         result: { 
@@ -1836,7 +2225,7 @@ async function processToolCall(
           query,
           resultCount: results.length,
           results,
-          message: `Found ${results.length} relevant sections from global documents.`
+          message: `Found ${results.length} relevant sections from available documents.`
         },
         requiresApproval: false,
         jsonDisplay: {
@@ -1847,21 +2236,21 @@ async function processToolCall(
             query,
             status: 'FOUND',
             resultCount: results.length,
-            sources: results.map((r: any) => `${r.documentName} (Page ${r.pageNumber})`)
+            sources: results.map(r => `${r.documentName} (Page ${r.pageNumber})`)
           }
         }
       };
     }
 
     case 'learn_pattern': {
-      const safetyCheck = validateTaskSafety(args.instruction);
+      const safetyCheck = await checkPolicy(supabase, args.instruction, { target: 'agent_input', role: userRole });
       
-      if (!safetyCheck.safe) {
+      if (!safetyCheck.allowed) {
         return {
           result: {
             blocked: true,
             reason: 'This learning pattern contains potentially harmful content',
-            flags: safetyCheck.flags
+            flags: safetyCheck.categories
           },
           requiresApproval: false,
           jsonDisplay: {
@@ -1870,7 +2259,7 @@ async function processToolCall(
             data: {
               action: 'learn_pattern_blocked',
               reason: 'Safety violation detected',
-              flags: safetyCheck.flags
+              flags: safetyCheck.categories
             }
           }
         };
@@ -1915,7 +2304,7 @@ async function processToolCall(
     }
 
     case 'request_capability': {
-      const safetyCheck = validateTaskSafety(args.description);
+      const safetyCheck = await checkPolicy(supabase, args.description, { target: 'agent_input', role: userRole });
       
       // Generate tool schema from input parameters
       const toolSchema: Record<string, any> = {
@@ -1964,9 +2353,9 @@ async function processToolCall(
             test_cases: []
           },
           safety_analysis: {
-            is_safe: safetyCheck.safe,
-            risk_level: safetyCheck.safe ? 'low' : 'high',
-            code_analysis: analyzeCodeSafety(generatedCode)
+            is_safe: safetyCheck.allowed,
+            risk_level: safetyCheck.allowed ? safetyCheck.riskLevel : 'high',
+            code_analysis: toCodeAnalysis(await checkPolicy(supabase, generatedCode, { target: 'code', role: userRole }))
           }
         })
         .select()
@@ -1997,8 +2386,8 @@ async function processToolCall(
     }
 
     case 'generate_tool_code': {
-      const safetyCheck = validateTaskSafety(args.implementation_code);
-      const codeAnalysis = analyzeCodeSafety(args.implementation_code);
+      const codeCheck = await checkPolicy(supabase, args.implementation_code, { target: 'code', role: userRole });
+      const codeAnalysis = toCodeAnalysis(codeCheck);
       
       if (!codeAnalysis.safe) {
         return {
@@ -2015,15 +2404,22 @@ async function processToolCall(
         };
       }
 
+      const toolPath = `supabase/functions/advanced-agent/tools/${args.tool_name}.ts`;
+      const toolScan = scanFiles([{ path: toolPath, content: args.implementation_code }]);
+      if (toolScan.blocked) {
+        return await secretScanBlocked(supabase, sessionId, userId, toolName, toolScan);
+      }
+
       const { data: proposal } = await supabase
         .from('code_change_proposals')
         .insert({
-          file_path: `supabase/functions/advanced-agent/tools/${args.tool_name}.ts`,
+          file_path: toolPath,
           proposed_code: args.implementation_code,
           change_type: 'new_tool',
           explanation: args.tool_description,
           proposed_by: 'ai_self_improvement',
-          risk_level: safetyCheck.safe ? 'low' : 'medium'
+          risk_level: codeCheck.riskLevel,
+          secret_scan: toolScan
         })
         .select()
         .single();
@@ -2049,21 +2445,21 @@ async function processToolCall(
     }
 
     case 'propose_code_change': {
-      const safetyCheck = validateTaskSafety(args.proposed_code);
+      const safetyCheck = await checkPolicy(supabase, args.proposed_code, { target: 'code', role: userRole });
       
-      if (!safetyCheck.safe) {
+      if (!safetyCheck.allowed) {
         await supabase.from('ai_safety_audit').insert({
           session_id: sessionId,
           user_id: userId,
           action_type: 'code_change_blocked',
           action_data: args,
           safety_score: safetyCheck.score,
-          risk_flags: safetyCheck.flags,
+          risk_flags: safetyCheck.categories,
           was_blocked: true
         });
         
         return {
-          result: { blocked: true, reason: `Security violation: ${safetyCheck.flags.join(', ')}` },
+          result: { blocked: true, reason: `Security violation: ${describeDecision(safetyCheck)}` },
           requiresApproval: false,
           jsonDisplay: {
             type: 'warning',
@@ -2071,13 +2467,18 @@ async function processToolCall(
             data: {
               action: 'code_change_blocked',
               file: args.file_path,
-              reason: safetyCheck.flags.join(', '),
+              reason: describeDecision(safetyCheck),
               status: 'BLOCKED'
             }
           }
         };
       }
 
+      const proposalScan = scanFiles([{ path: args.file_path, content: args.proposed_code }]);
+      if (proposalScan.blocked) {
+        return await secretScanBlocked(supabase, sessionId, userId, toolName, proposalScan);
+      }
+
       const { data: proposal } = await supabase
         .from('code_change_proposals')
         .insert({
@@ -2088,7 +2489,8 @@ async function processToolCall(
           explanation: args.change_reason,
           risk_level: args.risk_level,
           proposed_by: 'ai-agent',
-          status: 'pending'
+          status: 'pending',
+          secret_scan: proposalScan
         })
         .select()
         .single();
@@ -2111,7 +2513,8 @@ async function processToolCall(
             original_code: args.original_code?.substring(0, 200) + '...',
             proposed_code: args.proposed_code?.substring(0, 200) + '...',
             status: "PENDING_APPROVAL",
-            proposal_id: proposal?.id
+            proposal_id: proposal?.id,
+            secret_scan_warnings: proposalScan.findings.map(describeFinding)
           }
         }
       };
@@ -2358,6 +2761,11 @@ async function processToolCall(
 
       const { repo_owner, repo_name, title, body, head_branch, base_branch, files } = args;
 
+      const prScan = scanFiles(toScanFiles(files));
+      if (prScan.blocked) {
+        return await secretScanBlocked(supabase, sessionId, userId, toolName, prScan);
+      }
+
       // Log the operation for approval
       const { data: operation } = await supabase
         .from('github_operations')
@@ -2374,7 +2782,8 @@ async function processToolCall(
           files_changed: files || [],
           status: 'pending',
           requires_approval: true,
-          risk_level: 'high'
+          risk_level: 'high',
+          secret_scan: prScan
         })
         .select()
         .single();
@@ -2383,7 +2792,7 @@ async function processToolCall(
         result: {
           operation_id: operation?.id,
           status: 'pending_approval',
-          message: 'Pull request creation requires developer approval.',
+          message: 'Pull request creation requires developer approval. It runs once approved.',
           pr_details: { title, head_branch, base_branch, repo: `${repo_owner}/${repo_name}` }
         },
         requiresApproval: true,
@@ -2414,6 +2823,11 @@ async function processToolCall(
 
       const { repo_owner, repo_name, branch, commit_message, files } = args;
 
+      const commitScan = scanFiles(toScanFiles(files));
+      if (commitScan.blocked) {
+        return await secretScanBlocked(supabase, sessionId, userId, toolName, commitScan);
+      }
+
       // Log the operation for approval
       const { data: operation } = await supabase
         .from('github_operations')
@@ -2428,7 +2842,8 @@ async function processToolCall(
           files_changed: files || [],
           status: 'pending',
           requires_approval: true,
-          risk_level: 'high'
+          risk_level: 'high',
+          secret_scan: commitScan
         })
         .select()
         .single();
@@ -2437,7 +2852,7 @@ async function processToolCall(
         result: {
           operation_id: operation?.id,
           status: 'pending_approval',
-          message: 'Commit push requires developer approval.'
+          message: 'Commit push requires developer approval. It runs once approved.'
         },
         requiresApproval: true,
         jsonDisplay: {
@@ -2621,7 +3036,7 @@ async function processToolCall(
         result: {
           operation_id: operation?.id,
           status: 'pending_approval',
-          message: 'Branch creation requires developer approval.'
+          message: 'Branch creation requires developer approval. It runs once approved.'
         },
         requiresApproval: true,
         jsonDisplay: {
@@ -2671,7 +3086,7 @@ async function processToolCall(
         result: {
           operation_id: operation?.id,
           status: 'pending_approval',
-          message: 'PR merge is a CRITICAL operation and requires developer approval.'
+          message: 'PR merge is a CRITICAL operation and requires developer approval. It runs once approved.'
         },
         requiresApproval: true,
         jsonDisplay: {
@@ -2826,28 +3241,21 @@ async function processToolCall(
       const { operation, migration_name, description, sql, rollback_sql, tables_affected } = args;
 
       // Safety check the SQL
-      const dangerousPatterns = [
-        /DROP\s+DATABASE/i,
-        /DROP\s+SCHEMA/i,
-        /TRUNCATE/i,
-        /ALTER\s+TABLE.*DROP\s+COLUMN/i,
-      ];
+      const sqlCheck = await checkPolicy(supabase, sql, { target: 'sql', role: userRole });
 
-      for (const pattern of dangerousPatterns) {
-        if (pattern.test(sql)) {
-          return {
-            result: { 
-              blocked: true, 
-              reason: 'SQL contains dangerous patterns. This migration type is not allowed through the AI agent.' 
-            },
-            requiresApproval: false,
-            jsonDisplay: {
-              type: 'warning',
-              title: '⛔ Migration Blocked',
-              data: { reason: 'Dangerous SQL pattern detected', sql_preview: sql.substring(0, 100) }
-            }
-          };
-        }
+      if (!sqlCheck.allowed) {
+        return {
+          result: { 
+            blocked: true, 
+            reason: `SQL contains dangerous patterns (${describeDecision(sqlCheck)}). This migration type is not allowed through the AI agent.` 
+          },
+          requiresApproval: false,
+          jsonDisplay: {
+            type: 'warning',
+            title: '⛔ Migration Blocked',
+            data: { reason: describeDecision(sqlCheck), sql_preview: sql.substring(0, 100) }
+          }
+        };
       }
 
       // Log the migration for approval
@@ -2867,7 +3275,10 @@ async function processToolCall(
           risk_level: operation === 'create_table' ? 'medium' : 'high',
           safety_analysis: {
             checked_at: new Date().toISOString(),
-            dangerous_patterns_found: false
+            dangerous_patterns_found: sqlCheck.matches.length > 0,
+            policy_outcome: sqlCheck.outcome,
+            policy_version: sqlCheck.version,
+            flagged: sqlCheck.matches.map(m => m.ruleKey)
           }
         })
         .select()
@@ -2877,7 +3288,7 @@ async function processToolCall(
         result: {
           migration_id: migration?.id,
           status: 'pending_approval',
-          message: 'Database migration requires developer approval before execution.'
+          message: 'Database migration requires developer approval. It runs once approved.'
         },
         requiresApproval: true,
         jsonDisplay: {
@@ -2924,6 +3335,13 @@ async function processToolCall(
         };
       }
 
+      // Proposals can be edited or inserted outside the agent, so the content
+      // is scanned again as it is applied
+      const applyScan = scanFiles([{ path: proposal.file_path, content: proposal.proposed_code }]);
+      if (applyScan.blocked) {
+        return await secretScanBlocked(supabase, sessionId, userId, toolName, applyScan);
+      }
+
       if (apply_method === 'github_commit' || apply_method === 'github_pr') {
         const GITHUB_TOKEN = Deno.env.get('GITHUB_TOKEN');
         if (!GITHUB_TOKEN) {
@@ -2933,7 +3351,9 @@ async function processToolCall(
           };
         }
 
-        // Create GitHub operation
+        // Create GitHub operation; the approvals function pushes it once it
+        // is approved and marks the proposal applied
+        const commitMessage = `[AI] ${proposal.explanation || 'Apply code change'}`;
         const { data: operation } = await supabase
           .from('github_operations')
           .insert({
@@ -2942,11 +3362,17 @@ async function processToolCall(
             operation_type: apply_method === 'github_pr' ? 'create_pr' : 'push_commit',
             repo_owner,
             repo_name,
-            commit_message: `[AI] ${proposal.explanation || 'Apply code change'}`,
+            branch_name: apply_method === 'github_pr' ? `ai/proposal-${proposal_id.slice(0, 8)}` : 'main',
+            target_branch: apply_method === 'github_pr' ? 'main' : null,
+            pr_title: apply_method === 'github_pr' ? commitMessage : null,
+            pr_body: apply_method === 'github_pr' ? proposal.explanation : null,
+            commit_message: commitMessage,
             files_changed: [{ path: proposal.file_path, content: proposal.proposed_code }],
+            operation_data: { proposal_id },
             status: 'pending',
             requires_approval: true,
-            risk_level: 'high'
+            risk_level: 'high',
+            secret_scan: applyScan
           })
           .select()
           .single();
@@ -2957,7 +3383,7 @@ async function processToolCall(
             proposal_id,
             apply_method,
             status: 'pending_github_approval',
-            message: 'GitHub operation created and pending approval.'
+            message: 'GitHub operation created. It runs as soon as a developer approves it, and you will be notified of the outcome.'
           },
           requiresApproval: true,
           jsonDisplay: {
@@ -3087,7 +3513,7 @@ async function processToolCall(
           operation,
           file_path,
           status: 'pending_approval',
-          message: `File ${operation} operation requires developer approval.`
+          message: `File ${operation} operation requires developer approval. It runs once approved.`
         },
         requiresApproval,
         jsonDisplay: {
@@ -3112,6 +3538,361 @@ async function processToolCall(
   }
 }
 
+// ============================================================================
+// STREAMING TOOL LOOP
+// ============================================================================
+const AI_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const AI_MODEL = "google/gemini-2.5-flash";
+const MAX_TOOL_ROUNDS = 6;
+
+interface StreamedToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+interface AgentMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+type ToolOutcome = Awaited<ReturnType<typeof processToolCall>>;
+
+interface ToolLoopContext {
+  supabase: ReturnType<typeof createClient>;
+  apiKey: string;
+  sessionId: string;
+  userId: string;
+  userRole: AppRole;
+  trace: TraceRecorder;
+  // Screens text and tool results before they reach the client
+  guard: OutputGuard;
+}
+
+// The model is only offered the tools the caller's role may use
+function callAIGateway(
+  apiKey: string,
+  messages: AgentMessage[],
+  userRole: AppRole,
+  toolChoice: 'auto' | 'none' = 'auto'
+): Promise<Response> {
+  return fetch(AI_GATEWAY_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: AI_MODEL,
+      messages,
+      tools: TOOL_DEFINITIONS.filter(tool => canUseTool(userRole, tool.function.name)),
+      tool_choice: toolChoice,
+      stream: true,
+      stream_options: { include_usage: true }
+    }),
+  });
+}
+
+// Read one streamed completion: forward text deltas as they arrive and
+// stitch tool-call fragments back together by their index. totalTokens is
+// the gateway's usage report, when it sends one.
+async function readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string) => void
+): Promise<{ content: string; toolCalls: StreamedToolCall[]; totalTokens: number | null }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: StreamedToolCall[] = [];
+  let content = '';
+  let buffer = '';
+  let totalTokens: number | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx;
+    while ((idx = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, idx).trim();
+      buffer = buffer.slice(idx + 1);
+      if (!line.startsWith('data: ')) continue;
+      const payload = line.slice(6);
+      if (payload === '[DONE]') continue;
+
+      let delta;
+      try {
+        const chunk = JSON.parse(payload);
+        if (typeof chunk.usage?.total_tokens === 'number') totalTokens = chunk.usage.total_tokens;
+        delta = chunk.choices?.[0]?.delta;
+      } catch {
+        continue;
+      }
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onText(delta.content);
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        const index = typeof fragment.index === 'number' ? fragment.index : toolCalls.length;
+        const call = toolCalls[index] || (toolCalls[index] = { id: '', name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name = fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+  }
+
+  return { content, toolCalls: toolCalls.filter(Boolean), totalTokens };
+}
+
+// What a model call is charged up front; settled against the real usage once
+// the completion has been read
+function estimatePromptTokens(messages: AgentMessage[]): number {
+  return estimateTokens(JSON.stringify(messages));
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+// Translate a tool outcome into the protocol events the client renders
+// directly: citations, approval prompts and task queue updates
+function emitToolSideEvents(
+  send: (event: AgentEvent) => void,
+  callId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  outcome: ToolOutcome
+) {
+  const { result } = outcome;
+
+  if (toolName === 'search_documents' && Array.isArray(result?.results)) {
+    for (const hit of result.results) {
+      send({
+        type: 'citation',
+        citation: {
+          docId: hit.documentName,
+          pageNum: hit.pageNumber || 1,
+          snippet: (hit.snippet || '').slice(0, 300),
+          chunkId: hit.chunkId,
+          sectionTitle: hit.sectionTitle || undefined,
+        }
+      });
+    }
+  }
+
+  if ((toolName === 'analyze_multi_task' || toolName === 'revise_task_plan') && Array.isArray(result?.tasks)) {
+    for (const task of result.tasks) {
+      send({
+        type: 'task_update',
+        task: {
+          id: task.id,
+          order: task.order,
+          type: task.type,
+          description: task.description,
+          status: task.status,
+          riskLevel: task.riskLevel,
+          missingInfo: task.missingInfo,
+        }
+      });
+    }
+  }
+
+  if (toolName === 'provide_task_info' && result?.task_id && result.status) {
+    send({
+      type: 'task_update',
+      task: {
+        id: result.task_id,
+        status: result.status,
+        missingInfo: result.missing,
+      }
+    });
+  }
+
+  if (toolName === 'execute_task' && result?.task_id && result.status) {
+    send({
+      type: 'task_update',
+      task: {
+        id: result.task_id,
+        status: result.status,
+        result: result.execution_result,
+        errorMessage: result.error_message ?? result.error,
+      }
+    });
+  }
+
+  if (toolName === 'run_task_queue' && Array.isArray(result?.tasks)) {
+    for (const task of result.tasks) {
+      send({
+        type: 'task_update',
+        task: {
+          id: task.id,
+          order: task.order,
+          type: task.type,
+          status: task.status,
+          errorMessage: task.errorMessage ?? undefined,
+        }
+      });
+    }
+  }
+
+  if (outcome.requiresApproval) {
+    const riskLevel = result?.risk_level ?? result?.riskLevel ?? outcome.jsonDisplay?.data?.risk_level ?? 'medium';
+    send({
+      type: 'approval_required',
+      toolCallId: callId,
+      action: buildApprovalPayload(toolName, args, riskLevel, `${toolName}-${callId}`)
+    });
+  }
+}
+
+// Stream model output to the client as protocol events, executing any tool
+// calls server-side and feeding their results back until the model is done
+// firstModelSpan is the span opened by the handler around the initial gateway
+// call and firstCharge the LLM tokens it was charged
+function runToolLoop(
+  ctx: ToolLoopContext,
+  messages: AgentMessage[],
+  firstResponse: Response,
+  firstModelSpan: string,
+  firstCharge: number
+): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: AgentEvent) => controller.enqueue(encodeAgentEvent(event));
+      ctx.trace.attach(span => send({ type: 'span', span }));
+
+      try {
+        let response = firstResponse;
+        let modelSpan = firstModelSpan;
+        let charged = firstCharge;
+
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          if (round > 0) {
+            charged = estimatePromptTokens(messages);
+            const quota = await consumeQuota(ctx.supabase, ctx.userId, 'llm_tokens', charged);
+            if (!quota.allowed) {
+              send({ type: 'error', message: quotaExceededMessage(quota), code: '429' });
+              break;
+            }
+
+            const toolChoice = round === MAX_TOOL_ROUNDS - 1 ? 'none' : 'auto';
+            modelSpan = ctx.trace.start('model', `Model call (round ${round + 1})`);
+            response = await callAIGateway(ctx.apiKey, messages, ctx.userRole, toolChoice);
+          }
+
+          if (!response.ok || !response.body) {
+            console.error('AI Gateway error during tool loop:', response.status);
+            await consumeQuota(ctx.supabase, ctx.userId, 'llm_tokens', -charged, { force: true });
+            ctx.trace.end(modelSpan, 'error', `Gateway returned ${response.status}`);
+            send({ type: 'error', message: `AI Gateway error: ${response.status}`, code: String(response.status) });
+            break;
+          }
+
+          const { content, toolCalls, totalTokens } = await readCompletionStream(
+            response.body,
+            (text) => {
+              const safe = ctx.guard.push(text);
+              if (safe) send({ type: 'text_delta', content: safe });
+            }
+          );
+          const used = totalTokens
+            ?? charged + estimateTokens(content + toolCalls.map(call => call.arguments).join(''));
+          await consumeQuota(ctx.supabase, ctx.userId, 'llm_tokens', used - charged, { force: true });
+          const tail = ctx.guard.flush();
+          if (tail) send({ type: 'text_delta', content: tail });
+          ctx.trace.end(
+            modelSpan,
+            'ok',
+            toolCalls.length > 0 ? `Requested ${toolCalls.length} tool call(s)` : `Generated ${content.length} characters`
+          );
+
+          // A leaked secret ends the response; do not act on the same completion
+          if (toolCalls.length === 0 || ctx.guard.isBlocked()) break;
+
+          toolCalls.forEach((call, index) => {
+            if (!call.id) call.id = `call_${round}_${index}`;
+          });
+
+          messages.push({
+            role: 'assistant',
+            content: content || null,
+            tool_calls: toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments || '{}' }
+            }))
+          });
+
+          for (const call of toolCalls) {
+            const args = parseToolArguments(call.arguments);
+            send({ type: 'tool_call', id: call.id, name: call.name, arguments: args });
+
+            const toolSpan = ctx.trace.start(call.name === 'search_documents' ? 'retrieval' : 'tool', call.name);
+            let outcome: ToolOutcome;
+            try {
+              outcome = await processToolCall(ctx.supabase, call.name, args, ctx.sessionId, ctx.userId, ctx.userRole);
+            } catch (error) {
+              console.error(`Tool ${call.name} failed:`, error);
+              outcome = {
+                result: { error: error instanceof Error ? error.message : 'Tool execution failed' },
+                requiresApproval: false
+              };
+            }
+            const toolError = outcome.result?.error;
+            ctx.trace.end(
+              toolSpan,
+              toolError ? 'error' : 'ok',
+              toolError ? String(toolError) : outcome.requiresApproval ? 'Awaiting approval' : undefined
+            );
+
+            send({
+              type: 'tool_result',
+              id: call.id,
+              name: call.name,
+              result: ctx.guard.redactValue(outcome.result),
+              display: ctx.guard.redactValue(outcome.jsonDisplay)
+            });
+            emitToolSideEvents(send, call.id, call.name, args, outcome);
+
+            messages.push({
+              role: 'tool',
+              tool_call_id: call.id,
+              content: wrapUntrusted('tool_result', JSON.stringify(outcome.result), { tool: call.name })
+            });
+          }
+        }
+
+        send({ type: 'done' });
+      } catch (error) {
+        console.error('Tool loop error:', error);
+        for (const span of ctx.trace.spans()) {
+          if (span.status === 'running') ctx.trace.end(span.id, 'error', 'Interrupted');
+        }
+        send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        await recordOutputFindings(ctx.supabase, ctx.guard, {
+          sessionId: ctx.sessionId,
+          userId: ctx.userId,
+          source: 'advanced-agent',
+        });
+        controller.enqueue(encodeStreamEnd());
+        controller.close();
+      }
+    }
+  });
+}
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
@@ -3124,8 +3905,6 @@ serve(async (req) => {
     const { 
       messages, 
       sessionId, 
-      userId, 
-      userRole = 'employee',
       mode = 'chat',
       action,
       actionData
@@ -3140,56 +3919,113 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Identity and role come from the session token, never the request body
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(JSON.stringify({ error: 'Authentication required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    const { userId, role: userRole } = caller;
+
+    if (!(await ownsSession(supabase, sessionId, userId))) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const outputGuard = createOutputGuard({
+      role: userRole,
+      allowedValues: await loadOwnIdentifiers(supabase, userId),
+    });
+
     // Handle direct actions
     if (action) {
-      const result = await processToolCall(supabase, action, actionData, sessionId, userId, userRole);
+      const outcome = await processToolCall(supabase, action, actionData, sessionId, userId, userRole);
+      if (outcome.rateLimit && !outcome.rateLimit.allowed) {
+        return new Response(JSON.stringify({ error: outcome.result.error }), {
+          status: 429,
+          headers: { ...corsHeaders, ...quotaHeaders(outcome.rateLimit), 'Content-Type': 'application/json' }
+        });
+      }
+      const result = {
+        ...outcome,
+        result: outputGuard.redactValue(outcome.result),
+        jsonDisplay: outputGuard.redactValue(outcome.jsonDisplay)
+      };
+      await recordOutputFindings(supabase, outputGuard, { sessionId, userId, source: `advanced-agent:${action}` });
       return new Response(JSON.stringify(result), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
+    const trace = createTraceRecorder();
+
     // Validate input safety
     const lastMessage = messages[messages.length - 1]?.content || '';
-    const inputSafety = validateTaskSafety(lastMessage);
+    const safetySpan = trace.start('safety', 'Safety validation');
+    const inputSafety = await checkPolicy(supabase, lastMessage, { target: 'agent_input', role: userRole });
+    trace.end(
+      safetySpan,
+      inputSafety.allowed ? 'ok' : 'error',
+      inputSafety.matches.length === 0
+        ? `No policy rules matched (policy v${inputSafety.version})`
+        : `${inputSafety.requiresApproval ? 'Needs approval' : 'Blocked'}: ${inputSafety.categories.join(', ')}`
+    );
+
+    if (inputSafety.requiresApproval) {
+      await supabase.from('ai_safety_audit').insert({
+        session_id: sessionId,
+        user_id: userId,
+        action_type: 'input_escalated',
+        action_data: { message: lastMessage.substring(0, 200), rules: inputSafety.matches.map(m => m.ruleKey) },
+        safety_score: inputSafety.score,
+        risk_flags: inputSafety.categories,
+        was_blocked: false
+      });
+    }
     
-    if (!inputSafety.safe) {
+    if (!inputSafety.allowed) {
       await supabase.from('ai_safety_audit').insert({
         session_id: sessionId,
         user_id: userId,
         action_type: 'input_blocked',
         action_data: { message: lastMessage.substring(0, 200) },
         safety_score: inputSafety.score,
-        risk_flags: inputSafety.flags,
+        risk_flags: inputSafety.categories,
         was_blocked: true
       });
       
       return new Response(JSON.stringify({
         blocked: true,
         message: "I detected potentially harmful patterns in your request. Please rephrase.",
-        flags: inputSafety.flags
+        flags: inputSafety.categories
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    // Parse for multiple tasks
-    const parsedTasks = parseMultipleTasks(lastMessage);
-    
     // Fetch learned patterns
-    const { data: patterns } = await supabase
-      .from('ai_learned_patterns')
-      .select('*')
-      .eq('is_validated', true)
-      .eq('is_harmful', false)
-      .order('confidence_score', { ascending: false })
-      .limit(10);
+    const { data: patterns } = await trace.measure(
+      'patterns',
+      'Learned pattern fetch',
+      async () => await supabase
+        .from('ai_learned_patterns')
+        .select('*')
+        .eq('is_validated', true)
+        .eq('is_harmful', false)
+        .order('confidence_score', { ascending: false })
+        .limit(10),
+      ({ data }) => `${data?.length ?? 0} validated patterns`
+    );
 
     // Build enhanced system prompt with context
-    let enhancedSystemPrompt = SYSTEM_PROMPT;
+    let enhancedSystemPrompt = `${SYSTEM_PROMPT}\n\n${UNTRUSTED_CONTENT_PROMPT}`;
     enhancedSystemPrompt += `\n\n## CURRENT CONTEXT
 - User Role: ${userRole}
 - Mode: ${mode}
-- Detected Tasks: ${parsedTasks.count}
 - Available Features for ${userRole}: ${userRole === 'developer' ? 'All features including code operations' : userRole === 'hr' ? 'HR features and employee management' : 'Basic employee features'}`;
     
     if (patterns && patterns.length > 0) {
@@ -3200,30 +4036,28 @@ serve(async (req) => {
     }
 
     // Prepare messages
-    const aiMessages = [
+    const aiMessages: AgentMessage[] = [
       { role: 'system', content: enhancedSystemPrompt },
-      ...messages.map((m: any) => ({ role: m.role, content: m.content }))
+      ...messages.map((m: { role: AgentMessage['role']; content: string }) => ({ role: m.role, content: m.content }))
     ];
 
+    const firstCharge = estimatePromptTokens(aiMessages);
+    const llmQuota = await consumeQuota(supabase, userId, 'llm_tokens', firstCharge);
+    if (!llmQuota.allowed) {
+      return new Response(JSON.stringify({ error: quotaExceededMessage(llmQuota) }), {
+        status: 429,
+        headers: { ...corsHeaders, ...quotaHeaders(llmQuota), 'Content-Type': 'application/json' }
+      });
+    }
+
     // Call AI with tools
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: aiMessages,
-        tools: TOOL_DEFINITIONS,
-        tool_choice: "auto",
-        stream: true
-      }),
-    });
+    const firstModelSpan = trace.start('model', 'Model call (round 1)');
+    const response = await callAIGateway(LOVABLE_API_KEY, aiMessages, userRole);
 
     if (!response.ok) {
       const errorText = await response.text();
       console.error('AI Gateway error:', response.status, errorText);
+      await consumeQuota(supabase, userId, 'llm_tokens', -firstCharge, { force: true });
       
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
@@ -3239,13 +4073,21 @@ serve(async (req) => {
     await supabase.from('ai_analytics').insert({
       session_id: sessionId,
       user_id: userId,
-      query_type: parsedTasks.count > 1 ? 'multi_task' : 'single_task',
+      query_type: mode === 'multi-task' ? 'multi_task' : 'single_task',
       domain: userRole,
       confidence_score: 1.0
     });
 
-    return new Response(response.body, {
-      headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' }
+    const stream = runToolLoop(
+      { supabase, apiKey: LOVABLE_API_KEY, sessionId, userId, userRole, trace, guard: outputGuard },
+      aiMessages,
+      response,
+      firstModelSpan,
+      firstCharge
+    );
+
+    return new Response(stream, {
+      headers: { ...corsHeaders, ...quotaHeaders(llmQuota), 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
     });
 
   } catch (error) {
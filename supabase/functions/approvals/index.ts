@@ -0,0 +1,287 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getCaller } from '../_shared/auth.ts';
+import {
+  createDelegation,
+  decideItem,
+  describeApprover,
+  escalateOverdue,
+  getItem,
+  getOpenItem,
+  listDelegations,
+  listInbox,
+  revokeDelegation,
+  type ApprovalDecision,
+} from '../_shared/approval-engine.ts';
+import {
+  executeApproved,
+  executeApprovedBacklog,
+  isExecutable,
+  type ExecutionOutcome,
+} from '../_shared/approved-actions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_COMMENT_LENGTH = 1000;
+
+async function profileNames(
+  supabase: ReturnType<typeof createClient>,
+  userIds: (string | null)[]
+): Promise<Map<string, { full_name: string; email: string }>> {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+  const names = new Map<string, { full_name: string; email: string }>();
+  if (ids.length === 0) return names;
+
+  const { data } = await supabase.from('profiles').select('user_id, full_name, email').in('user_id', ids);
+  for (const p of (data || []) as { user_id: string; full_name: string; email: string }[]) {
+    names.set(p.user_id, { full_name: p.full_name, email: p.email });
+  }
+  return names;
+}
+
+// The approver inbox. Actions:
+//   inbox                      items whose current step the caller may decide
+//   decide                     { item_id | source_table + source_id, decision, comment? }
+//   delegations                delegations the caller gave or received
+//   delegate                   { delegate_email, ends_at, starts_at?, item_types?, reason? }
+//   revoke_delegation          { delegation_id }
+//   escalate                   escalate steps past their SLA; also run before
+//                              every inbox load, and callable by a scheduler
+//                              with the service role key
+//   execute                    run approved GitHub operations, migrations and
+//                              file operations that have not run; developers
+//                              or a scheduler with the service role key
+//
+// Approving the last step of a GitHub operation, migration or file operation
+// runs it straight away; decide returns the outcome as result.execution.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, ...params } = await req.json();
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    if (action === 'escalate' && token === supabaseKey) {
+      return new Response(
+        JSON.stringify({ escalated: await escalateOverdue(supabase) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (action === 'execute' && token === supabaseKey) {
+      return new Response(
+        JSON.stringify({ executions: await executeApprovedBacklog(supabase) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'inbox': {
+        await escalateOverdue(supabase);
+        const entries = await listInbox(supabase, caller.userId);
+        const names = await profileNames(
+          supabase,
+          entries.flatMap(e => [e.item.requester_id, e.on_behalf_of])
+        );
+
+        const items = entries.map(({ item, on_behalf_of, approvals, required, overdue }) => {
+          const step = item.steps[item.current_step];
+          return {
+            ...item,
+            requester: item.requester_id ? names.get(item.requester_id) ?? null : null,
+            on_behalf_of: on_behalf_of ? { user_id: on_behalf_of, ...names.get(on_behalf_of) } : null,
+            step_name: step.name,
+            waiting_on: describeApprover(item, step),
+            approvals,
+            required,
+            overdue,
+          };
+        });
+
+        return new Response(
+          JSON.stringify({ items }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'decide': {
+        const { item_id, source_table, source_id, decision, comment } = params;
+        if (decision !== 'approved' && decision !== 'rejected') {
+          return new Response(
+            JSON.stringify({ error: "decision must be 'approved' or 'rejected'" }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        if (comment !== undefined && comment !== null && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+          return new Response(
+            JSON.stringify({ error: `comment must be text of at most ${MAX_COMMENT_LENGTH} characters` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const item = item_id
+          ? await getItem(supabase, item_id)
+          : source_table && source_id ? await getOpenItem(supabase, source_table, source_id) : null;
+        if (!item) {
+          return new Response(
+            JSON.stringify({ error: 'No open approval was found for this request' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const result = await decideItem(
+          supabase,
+          item,
+          caller.userId,
+          decision as ApprovalDecision,
+          typeof comment === 'string' && comment.trim() ? comment.trim() : null
+        );
+        if ('error' in result) {
+          return new Response(
+            JSON.stringify({ error: result.error }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log(`Approval ${item.id} step ${item.current_step} ${decision} by ${caller.userId}`);
+
+        // A run that cannot start leaves the row approved for the execute action
+        let execution: ExecutionOutcome | null = null;
+        if (result.status === 'approved' && isExecutable(item.source_table)) {
+          try {
+            execution = await executeApproved(supabase, item.source_table, item.source_id);
+          } catch (error) {
+            console.error(`Failed to execute ${item.source_table} ${item.source_id}:`, error);
+          }
+        }
+
+        return new Response(
+          JSON.stringify({ result: { ...result, execution } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'delegations': {
+        const delegations = await listDelegations(supabase, caller.userId);
+        const names = await profileNames(supabase, delegations.flatMap(d => [d.delegator_id, d.delegate_id]));
+        return new Response(
+          JSON.stringify({
+            delegations: delegations.map(d => ({
+              ...d,
+              delegator: names.get(d.delegator_id) ?? null,
+              delegate: names.get(d.delegate_id) ?? null,
+            })),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'delegate': {
+        const { delegate_email, starts_at, ends_at, item_types, reason } = params;
+        if (typeof delegate_email !== 'string' || !delegate_email.trim() || typeof ends_at !== 'string') {
+          return new Response(
+            JSON.stringify({ error: 'delegate_email and ends_at are required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: delegate } = await supabase
+          .from('profiles')
+          .select('user_id')
+          .ilike('email', delegate_email.trim())
+          .maybeSingle();
+        if (!delegate) {
+          return new Response(
+            JSON.stringify({ error: `No user with the email ${delegate_email.trim()}` }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const delegation = await createDelegation(supabase, caller.userId, {
+          delegateId: delegate.user_id,
+          startsAt: typeof starts_at === 'string' ? starts_at : undefined,
+          endsAt: ends_at,
+          itemTypes: item_types,
+          reason: typeof reason === 'string' ? reason : undefined,
+        });
+        if ('error' in delegation) {
+          return new Response(
+            JSON.stringify({ error: delegation.error }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return new Response(
+          JSON.stringify({ delegation }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'revoke_delegation': {
+        const { delegation_id } = params;
+        if (typeof delegation_id !== 'string') {
+          return new Response(
+            JSON.stringify({ error: 'delegation_id is required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        if (!await revokeDelegation(supabase, caller.userId, delegation_id)) {
+          return new Response(
+            JSON.stringify({ error: 'Delegation not found or already revoked' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return new Response(
+          JSON.stringify({ revoked: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'escalate':
+        return new Response(
+          JSON.stringify({ escalated: await escalateOverdue(supabase) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+      case 'execute':
+        if (caller.role !== 'developer') {
+          return new Response(
+            JSON.stringify({ error: 'Only developers can run approved actions' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return new Response(
+          JSON.stringify({ executions: await executeApprovedBacklog(supabase) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+      default:
+        return new Response(
+          JSON.stringify({ error: `Unknown action: ${action}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+  } catch (error) {
+    console.error('Approvals error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getCaller, recordAccessDenied, type AppRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const AUDITOR_ROLES: AppRole[] = ['hr', 'it', 'developer'];
+const PAGE_SIZE = 1000;
+// Keeps a single bundle to a size the browser can download in one response
+const MAX_ENTRIES = 50000;
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Exports the audit ledger for a date range as a signed bundle. The bundle
+// carries the hash of the entry before the range, so a verifier holding the
+// bundle can recompute the chain without access to the database. The
+// signature is an HMAC over the serialized bundle.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { from, to } = await req.json();
+
+    if (!from || !to || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+      return new Response(
+        JSON.stringify({ error: 'A valid from and to date are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (Date.parse(from) >= Date.parse(to)) {
+      return new Response(
+        JSON.stringify({ error: 'The start of the range must be before the end' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const signingKey = Deno.env.get('AUDIT_SIGNING_KEY');
+    if (!signingKey) {
+      throw new Error('AUDIT_SIGNING_KEY is not configured');
+    }
+    const keyId = Deno.env.get('AUDIT_SIGNING_KEY_ID') || 'default';
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (!AUDITOR_ROLES.includes(caller.role)) {
+      await recordAccessDenied(supabase, {
+        userId: caller.userId,
+        role: caller.role,
+        action: 'audit_export',
+        reason: `Role '${caller.role}' cannot export the audit ledger`,
+      });
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to export the audit ledger' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Audit export by ${caller.userId}: ${from} to ${to}`);
+
+    const { data: verification, error: verifyError } = await supabase.rpc('verify_audit_ledger', {
+      p_from: from,
+      p_to: to,
+    });
+    if (verifyError) {
+      throw new Error(`Failed to verify audit ledger: ${verifyError.message}`);
+    }
+
+    const entries: Record<string, unknown>[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('audit_ledger')
+        .select('*')
+        .gte('recorded_at', from)
+        .lt('recorded_at', to)
+        .order('seq', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to read audit ledger: ${error.message}`);
+      }
+      entries.push(...(page || []));
+      if (!page || page.length < PAGE_SIZE) break;
+      if (entries.length >= MAX_ENTRIES) {
+        return new Response(
+          JSON.stringify({ error: `Range has more than ${MAX_ENTRIES} entries; export a shorter range` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const last = entries[entries.length - 1];
+    const bundle = {
+      format: 'audit-bundle/v1',
+      generated_at: new Date().toISOString(),
+      generated_by: { user_id: caller.userId, email: caller.email, role: caller.role },
+      range: { from, to },
+      anchor: verification.anchor,
+      head: last ? { seq: last.seq, hash: last.entry_hash } : null,
+      entry_count: entries.length,
+      verification: {
+        valid: verification.valid,
+        checked: verification.checked,
+        problems: verification.problems,
+      },
+      entries,
+    };
+
+    const signature = {
+      algorithm: 'HMAC-SHA256',
+      key_id: keyId,
+      value: await hmacSha256Hex(signingKey, JSON.stringify(bundle)),
+    };
+
+    // The export itself goes on the ledger
+    const { error: ledgerError } = await supabase.from('audit_ledger').insert({
+      source: 'audit_export',
+      event: 'audit.exported',
+      actor_id: caller.userId,
+      actor_role: caller.role,
+      tool: 'audit_export',
+      arguments: {
+        from,
+        to,
+        entry_count: entries.length,
+        head_hash: bundle.head?.hash ?? null,
+        signature: signature.value,
+        key_id: keyId,
+      },
+      decision: verification.valid ? 'verified' : 'verification_failed',
+    });
+    if (ledgerError) console.error('Failed to record audit export:', ledgerError);
+
+    return new Response(
+      JSON.stringify({ bundle, signature }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Audit export error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { type AgentEvent, encodeAgentEvent, encodeStreamEnd, relayTextDeltas } from '../_shared/agent-events.ts';
+import { retrieveChunks } from '../_shared/retrieval.ts';
+import { getCaller, ownsSession } from '../_shared/auth.ts';
+import { consumeQuota, estimateTokens, quotaExceededMessage, quotaHeaders } from '../_shared/rate-limit.ts';
+import { checkPolicy, describeDecision, loadPolicy } from '../_shared/policy.ts';
+import { createOutputGuard, loadOwnIdentifiers, recordOutputFindings } from '../_shared/output-guard.ts';
+import {
+  recordDocumentInjectionHits,
+  screenUntrusted,
+  UNTRUSTED_CONTENT_PROMPT,
+  wrapUntrusted,
+} from '../_shared/untrusted-content.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -69,8 +81,6 @@ Key risks identified:
 - **Password Policy**: 12+ characters, special characters, 90-day rotation
 `;
 
-const SENSITIVE_TOPICS = ['harassment', 'discrimination', 'grievance', 'complaint', 'mental health', 'bullying', 'abuse', 'assault', 'termination dispute', 'unfair treatment'];
-
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -92,6 +102,7 @@ interface SemanticSearchResult {
   documentId: string;
   documentName: string;
   pageNumber: number;
+  sectionTitle: string | null;
   content: string;
   snippet: string;
   score: number;
@@ -290,12 +301,6 @@ const TOOLS = [
   }
 ];
 
-// Check if message contains sensitive topics
-function isSensitiveTopic(message: string): boolean {
-  const lower = message.toLowerCase();
-  return SENSITIVE_TOPICS.some(topic => lower.includes(topic));
-}
-
 // Calculate risk level for leave requests
 function calculateLeaveRisk(leaveType: string, startDate: string, endDate: string, balance: any): { level: string; reason: string } {
   const start = new Date(startDate);
@@ -328,93 +333,38 @@ function calculateLeaveRisk(leaveType: string, startDate: string, endDate: strin
 }
 
 // Perform semantic search on uploaded documents
-async function performSemanticSearch(query: string, sessionId?: string): Promise<SemanticSearchResult[]> {
+async function performSemanticSearch(query: string, userId: string, sessionId?: string): Promise<SemanticSearchResult[]> {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    let chunksQuery = supabase
-      .from('document_chunks')
-      .select(`
-        id, content, page_number, embedding, document_id,
-        uploaded_documents!inner (id, file_name, session_id)
-      `)
-      .not('embedding', 'is', null)
-      .limit(100);
-
-    // Include session-specific documents AND global documents (like Annual Reports)
-    if (sessionId) {
-      chunksQuery = chunksQuery.or(`session_id.eq.${sessionId},is_global.eq.true`, { referencedTable: 'uploaded_documents' });
-    }
-    // If no sessionId, search all documents including global ones
-
-    const { data: chunks, error } = await chunksQuery;
-
-    if (error || !chunks?.length) {
-      return [];
-    }
-
-    const queryEmbedding = generateQueryEmbedding(query);
-
-    const scored = chunks.map(chunk => {
-      const similarity = cosineSimilarity(queryEmbedding, chunk.embedding as number[]);
-      const keywordBoost = keywordScore(query, chunk.content);
-      return {
-        chunkId: chunk.id,
-        documentId: chunk.document_id,
-        documentName: (chunk.uploaded_documents as any)?.file_name || 'Unknown',
-        pageNumber: chunk.page_number || 1,
-        content: chunk.content,
-        snippet: chunk.content.slice(0, 300),
-        score: similarity * 0.7 + Math.min(keywordBoost * 0.1, 0.3),
-      };
+    // Session documents plus global documents (like Annual Reports); without a
+    // session every document the user can see is searched
+    const results = await retrieveChunks(supabase, query, { sessionId: sessionId ?? null, userId, limit: 5 });
+
+    // Chunk text goes into the system prompt, so embedded instructions are
+    // neutralised first
+    const policy = await loadPolicy(supabase);
+    const injectionHits = new Map<string, Set<string>>();
+    const screened = results.map(r => {
+      const { text, matches } = screenUntrusted(policy, r.content);
+      if (matches.length > 0) {
+        const keys = injectionHits.get(r.documentId) || new Set<string>();
+        matches.forEach(m => keys.add(m.ruleKey));
+        injectionHits.set(r.documentId, keys);
+      }
+      return { ...r, content: text, pageNumber: r.pageNumber || 1 };
     });
+    await recordDocumentInjectionHits(supabase, injectionHits);
 
-    return scored.sort((a, b) => b.score - a.score).slice(0, 5).filter(r => r.score > 0.05);
+    return screened;
   } catch (e) {
     console.error('Semantic search error:', e);
     return [];
   }
 }
 
-function generateQueryEmbedding(text: string): number[] {
-  const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'this', 'that', 'it', 'what', 'how', 'why', 'when', 'where', 'who']);
-  const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 2 && !stopWords.has(w));
-  const wordFreq = new Map<string, number>();
-  for (const word of words) wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
-  
-  const embedding = new Array(256).fill(0);
-  for (const [word, freq] of wordFreq) {
-    let hash = 0;
-    for (let i = 0; i < word.length; i++) { hash = ((hash << 5) - hash) + word.charCodeAt(i); hash = hash & hash; }
-    embedding[Math.abs(hash) % 256] += freq * (1 + Math.log(freq));
-  }
-  
-  const mag = Math.sqrt(embedding.reduce((s, v) => s + v * v, 0));
-  if (mag > 0) for (let i = 0; i < embedding.length; i++) embedding[i] /= mag;
-  return embedding;
-}
-
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (!a || !b || a.length !== b.length) return 0;
-  let dot = 0, magA = 0, magB = 0;
-  for (let i = 0; i < a.length; i++) { dot += a[i] * b[i]; magA += a[i] * a[i]; magB += b[i] * b[i]; }
-  const mag = Math.sqrt(magA) * Math.sqrt(magB);
-  return mag > 0 ? dot / mag : 0;
-}
-
-function keywordScore(query: string, content: string): number {
-  const words = query.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-  const contentLower = content.toLowerCase();
-  let score = 0;
-  for (const word of words) {
-    const matches = contentLower.match(new RegExp(word, 'gi'));
-    if (matches) score += matches.length;
-  }
-  return score;
-}
-
 function buildSystemPrompt(userRole: string, userContext: UserContext, searchResults?: SemanticSearchResult[]): string {
   let basePrompt = `You are HCL Agent, an intelligent enterprise AI assistant for HCLTech employees. You operate with full transparency and ethical guardrails.
 
@@ -523,9 +473,11 @@ ${HCLTECH_KNOWLEDGE}
 
   // Add semantic search results from uploaded documents
   if (searchResults && searchResults.length > 0) {
-    basePrompt += `\n\n## RELEVANT UPLOADED DOCUMENTS:\n`;
+    basePrompt += `\n\n${UNTRUSTED_CONTENT_PROMPT}\n\n## RELEVANT UPLOADED DOCUMENTS:\n`;
     searchResults.forEach((result) => {
-      basePrompt += `\n### [${result.documentName}, Page ${result.pageNumber}]\n${result.content}\n`;
+      const section = result.sectionTitle ? ` - ${result.sectionTitle}` : '';
+      basePrompt += `\n### [${result.documentName}, Page ${result.pageNumber}]${section}\n`;
+      basePrompt += `${wrapUntrusted('document', result.content, { name: result.documentName, page: result.pageNumber })}\n`;
     });
   }
 
@@ -547,7 +499,7 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, domain = 'general', sessionId, userContext = {}, stream = true } = await req.json();
+    const { messages, domain = 'general', sessionId, userContext: clientContext = {}, stream = true } = await req.json();
     
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
@@ -555,12 +507,43 @@ serve(async (req) => {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
 
+    // Identity and role come from the session token; the client only
+    // supplies display context such as the name and leave balance
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(JSON.stringify({ error: "Authentication required" }), {
+        status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (!(await ownsSession(supabase, sessionId, caller.userId))) {
+      return new Response(JSON.stringify({ error: "Session not found" }), {
+        status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const userContext: UserContext = { ...clientContext, userId: caller.userId, role: caller.role };
+
     console.log(`Processing chat - Role: ${userContext.role}, Messages: ${messages.length}, Session: ${sessionId}`);
 
-    // Check for sensitive topics in latest message
+    // Screen the latest message against the guardrail policy: denied input is
+    // refused, sensitive topics are escalated to HR
     const latestUserMessage = [...messages].reverse().find((m: ChatMessage) => m.role === 'user');
-    const isSensitive = latestUserMessage && isSensitiveTopic(latestUserMessage.content);
-    
+    const screening = latestUserMessage
+      ? await checkPolicy(supabase, latestUserMessage.content, { target: 'hr_input', role: userContext.role })
+      : null;
+
+    if (screening && !screening.allowed) {
+      console.log(`Input blocked by policy v${screening.version}: ${screening.categories.join(', ')}`);
+      return new Response(JSON.stringify({
+        blocked: true,
+        message: "I detected potentially harmful patterns in your request. Please rephrase.",
+        flags: screening.categories
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const isSensitive = !!screening?.requiresApproval;
     if (isSensitive) {
       console.log('Sensitive topic detected - will escalate to HR');
     }
@@ -568,7 +551,7 @@ serve(async (req) => {
     // Perform semantic search
     let searchResults: SemanticSearchResult[] = [];
     if (latestUserMessage) {
-      searchResults = await performSemanticSearch(latestUserMessage.content, sessionId);
+      searchResults = await performSemanticSearch(latestUserMessage.content, caller.userId, sessionId);
       console.log(`Found ${searchResults.length} relevant document chunks`);
     }
 
@@ -577,6 +560,12 @@ serve(async (req) => {
     
     // Build messages with context management
     const contextualMessages: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+    if (isSensitive && screening) {
+      contextualMessages.push({
+        role: 'system',
+        content: `The user's message touches a sensitive topic (${describeDecision(screening)}). Respond with empathy and offer to escalate to HR with create_hr_ticket.`
+      });
+    }
     
     // Add conversation summary for long conversations
     if (messages.length > 10) {
@@ -618,6 +607,16 @@ serve(async (req) => {
       requestBody.tool_choice = "auto";
     }
 
+    // Charge an estimate of the prompt now and settle with the real usage
+    // once the reply is complete
+    const promptCharge = estimateTokens(JSON.stringify(contextualMessages));
+    const quota = await consumeQuota(supabase, caller.userId, 'llm_tokens', promptCharge);
+    if (!quota.allowed) {
+      return new Response(JSON.stringify({ error: quotaExceededMessage(quota) }), {
+        status: 429, headers: { ...corsHeaders, ...quotaHeaders(quota), "Content-Type": "application/json" },
+      });
+    }
+
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
       headers: {
@@ -630,6 +629,7 @@ serve(async (req) => {
     if (!response.ok) {
       const errorText = await response.text();
       console.error("AI gateway error:", response.status, errorText);
+      await consumeQuota(supabase, caller.userId, 'llm_tokens', -promptCharge, { force: true });
       
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: "Rate limit exceeded. Please wait and try again." }), {
@@ -644,14 +644,66 @@ serve(async (req) => {
       throw new Error(`AI gateway error: ${response.status}`);
     }
 
+    // Redact other people's personal data and any secrets from the reply
+    const outputGuard = createOutputGuard({
+      role: userContext.role,
+      allowedValues: await loadOwnIdentifiers(supabase, userContext.userId),
+    });
+    const auditContext = { sessionId, userId: userContext.userId, source: 'hr-chat' };
+
     if (stream) {
-      return new Response(response.body, {
-        headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      const upstream = response.body!;
+      const eventStream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: AgentEvent) => controller.enqueue(encodeAgentEvent(event));
+          try {
+            // Citations go out first so the client can attach them while text streams
+            for (const result of searchResults) {
+              send({
+                type: 'citation',
+                citation: {
+                  docId: result.documentName,
+                  pageNum: result.pageNumber,
+                  snippet: result.snippet,
+                  chunkId: result.chunkId,
+                  sectionTitle: result.sectionTitle || undefined,
+                },
+              });
+            }
+            const reply = await relayTextDeltas(upstream, (event) => {
+              if (event.type !== 'text_delta') return send(event);
+              const safe = outputGuard.push(event.content);
+              if (safe) send({ type: 'text_delta', content: safe });
+            });
+            await consumeQuota(supabase, caller.userId, 'llm_tokens', estimateTokens(reply), { force: true });
+            const tail = outputGuard.flush();
+            if (tail) send({ type: 'text_delta', content: tail });
+            send({ type: 'done' });
+          } catch (e) {
+            console.error("HR Chat stream error:", e);
+            send({ type: 'error', message: e instanceof Error ? e.message : 'Stream interrupted' });
+          } finally {
+            await recordOutputFindings(supabase, outputGuard, auditContext);
+            controller.enqueue(encodeStreamEnd());
+            controller.close();
+          }
+        },
+      });
+
+      return new Response(eventStream, {
+        headers: { ...corsHeaders, ...quotaHeaders(quota), "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
       });
     } else {
       const data = await response.json();
+      const used = data.usage?.total_tokens ?? promptCharge + estimateTokens(JSON.stringify(data.choices ?? []));
+      await consumeQuota(supabase, caller.userId, 'llm_tokens', used - promptCharge, { force: true });
+      const message = data.choices?.[0]?.message;
+      if (typeof message?.content === 'string') {
+        message.content = outputGuard.push(message.content) + outputGuard.flush();
+      }
+      await recordOutputFindings(supabase, outputGuard, auditContext);
       return new Response(JSON.stringify(data), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        headers: { ...corsHeaders, ...quotaHeaders(quota), "Content-Type": "application/json" },
       });
     }
   } catch (error) {
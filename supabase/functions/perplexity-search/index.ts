@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getCaller } from '../_shared/auth.ts';
+import { consumeQuota, quotaExceededMessage, quotaHeaders } from '../_shared/rate-limit.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,6 +23,27 @@ serve(async (req) => {
       );
     }
 
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quota = await consumeQuota(supabase, caller.userId, 'web_search');
+    if (!quota.allowed) {
+      return new Response(
+        JSON.stringify({ success: false, error: quotaExceededMessage(quota) }),
+        { status: 429, headers: { ...corsHeaders, ...quotaHeaders(quota), 'Content-Type': 'application/json' } }
+      );
+    }
+
     const apiKey = Deno.env.get('PERPLEXITY_API_KEY');
     if (!apiKey) {
       console.error('PERPLEXITY_API_KEY not configured');
@@ -82,7 +106,7 @@ serve(async (req) => {
         model: data.model,
         usage: data.usage
       }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { headers: { ...corsHeaders, ...quotaHeaders(quota), 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error in perplexity search:', error);
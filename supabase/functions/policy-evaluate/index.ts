@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { ALL_ROLES, type AppRole, getCaller } from '../_shared/auth.ts';
+import { evaluatePolicy, loadPolicy, POLICY_TARGETS, type PolicyRule, type PolicySet, type PolicyTarget } from '../_shared/policy.ts';
+import { consumeQuota, quotaExceededMessage, quotaHeaders } from '../_shared/rate-limit.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Roles that may edit the policy, matching the rules' RLS. Only they may try
+// draft rules or evaluate as another role.
+const POLICY_EDITOR_ROLES: AppRole[] = ['developer'];
+
+// Evaluates text against the guardrail policy. Used by the CLI before it runs
+// commands and by the policy editor's dry-run tester, which may pass draft
+// `rules` to try them before saving. Without a `target`, every target is
+// evaluated. Rules are evaluated for the caller's own role; policy editors
+// may pass `role` to see how a rule treats someone else.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { text, target, role, rules } = await req.json();
+
+    if (typeof text !== 'string' || !text) {
+      return new Response(
+        JSON.stringify({ error: 'text is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (target && !POLICY_TARGETS.includes(target)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown target: ${target}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const isEditor = POLICY_EDITOR_ROLES.includes(caller.role);
+    if ((Array.isArray(rules) || (role !== undefined && role !== caller.role)) && !isEditor) {
+      return new Response(
+        JSON.stringify({ error: 'Only policy editors can test draft rules or other roles' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (role !== undefined && !ALL_ROLES.includes(role)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown role: ${role}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quota = await consumeQuota(supabase, caller.userId, 'policy_check');
+    if (!quota.allowed) {
+      return new Response(
+        JSON.stringify({ error: quotaExceededMessage(quota) }),
+        { status: 429, headers: { ...corsHeaders, ...quotaHeaders(quota), 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let policy: PolicySet;
+    if (Array.isArray(rules)) {
+      // Draft rule set from the editor; never persisted here
+      policy = { version: -1, rules: rules as PolicyRule[] };
+    } else {
+      policy = await loadPolicy(supabase);
+    }
+
+    const targets: PolicyTarget[] = target ? [target] : POLICY_TARGETS;
+    const decisions = Object.fromEntries(
+      targets.map(t => [t, evaluatePolicy(policy, text, { target: t, role: role ?? caller.role })])
+    );
+
+    return new Response(
+      JSON.stringify({
+        version: policy.version,
+        decision: target ? decisions[target] : undefined,
+        decisions,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Policy evaluation error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,242 +1,381 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getEmbeddingProvider, toPgVector } from '../_shared/embeddings.ts';
+import { extractDocument } from '../_shared/document-extract.ts';
+import { chunkingOptionsFor, chunkSections, clampChunkingOverrides } from '../_shared/chunker.ts';
+import { getCaller } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Simple text chunking function
-function chunkText(text: string, chunkSize = 1000, overlap = 200): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-  
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    let chunk = text.slice(start, end);
-    
-    // Try to break at sentence boundary
-    if (end < text.length) {
-      const lastPeriod = chunk.lastIndexOf('.');
-      const lastNewline = chunk.lastIndexOf('\n');
-      const breakPoint = Math.max(lastPeriod, lastNewline);
-      if (breakPoint > chunkSize * 0.5) {
-        chunk = chunk.slice(0, breakPoint + 1);
-      }
-    }
-    
-    chunks.push(chunk.trim());
-    start += chunk.length - overlap;
-    if (start < 0) start = chunk.length;
+// ============================================================================
+// PROCESSING JOBS
+// A job moves queued -> extracting -> chunking -> embedding -> done (or
+// failed). Chunks are staged in document_chunk_staging and embedded in
+// batches; when an invocation runs out of time it hands the job to a fresh
+// invocation, which resumes from the chunks still missing a vector. The
+// finished chunks replace the document's old ones in a single transaction.
+// ============================================================================
+
+type JobStatus = 'queued' | 'extracting' | 'chunking' | 'embedding' | 'done' | 'failed';
+
+interface ProcessingJob {
+  id: string;
+  document_id: string;
+  status: JobStatus;
+  total_chunks: number;
+  embedded_chunks: number;
+  attempts: number;
+  chunking_options: Record<string, number>;
+  started_at: string | null;
+}
+
+const MAX_ATTEMPTS = 3;
+const LEASE_SECONDS = 180;
+// Hand over well before the edge runtime's wall-clock limit
+const TIME_BUDGET_MS = 100_000;
+const STAGE_BATCH_SIZE = 50;
+const EMBED_BATCH_SIZE = 20;
+
+// Progress bands per stage
+const PROGRESS = { extracting: 5, chunking: 20, embedding: 30, embeddingSpan: 65 };
+
+function leaseUntil(): string {
+  return new Date(Date.now() + LEASE_SECONDS * 1000).toISOString();
+}
+
+// Keep work running after the response has been sent
+function runInBackground(work: Promise<unknown>) {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  if (runtime) {
+    runtime.waitUntil(work);
+  } else {
+    work.catch(error => console.error('Background job error:', error));
   }
-  
-  return chunks.filter(c => c.length > 50);
 }
 
-// Extract text from PDF using basic parsing
-async function extractTextFromPDF(pdfBytes: Uint8Array): Promise<{ text: string; pageCount: number }> {
-  // Convert to string and look for text streams
-  const decoder = new TextDecoder('utf-8', { fatal: false });
-  const pdfString = decoder.decode(pdfBytes);
-  
-  // Extract text between stream markers (simplified PDF text extraction)
-  const textParts: string[] = [];
-  
-  // Look for text in parentheses (PDF text objects)
-  const textRegex = /\(([^)]+)\)/g;
-  let match;
-  while ((match = textRegex.exec(pdfString)) !== null) {
-    const text = match[1]
-      .replace(/\\n/g, '\n')
-      .replace(/\\r/g, '')
-      .replace(/\\\(/g, '(')
-      .replace(/\\\)/g, ')')
-      .replace(/\\\\/g, '\\');
-    if (text.length > 2 && !/^[\x00-\x1F]+$/.test(text)) {
-      textParts.push(text);
+// Continue the job in a new invocation with a fresh time budget
+function scheduleContinuation(jobId: string) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  runInBackground(
+    fetch(`${supabaseUrl}/functions/v1/process-document`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${supabaseKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ jobId }),
+    }).catch(error => console.error(`Failed to continue job ${jobId}:`, error))
+  );
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, fields: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('document_processing_jobs')
+    .update(fields)
+    .eq('id', jobId);
+
+  if (error) {
+    console.error(`Job ${jobId} update error:`, error);
+  }
+}
+
+// Take the job's lease; returns null when another invocation holds it or the
+// job has already finished
+async function claimJob(supabase: SupabaseClient, jobId: string): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase
+    .from('document_processing_jobs')
+    .update({ locked_until: leaseUntil() })
+    .eq('id', jobId)
+    .not('status', 'in', '(done,failed)')
+    .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+    .select('id, document_id, status, total_chunks, embedded_chunks, attempts, chunking_options, started_at')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Job ${jobId} claim error:`, error);
+    return null;
+  }
+
+  return data as ProcessingJob | null;
+}
+
+// Download, extract and chunk the document into the staging table
+async function extractAndStage(supabase: SupabaseClient, job: ProcessingJob): Promise<number> {
+  await updateJob(supabase, job.id, {
+    status: 'extracting',
+    progress: PROGRESS.extracting,
+    started_at: job.started_at || new Date().toISOString(),
+  });
+
+  const { data: doc, error: docError } = await supabase
+    .from('uploaded_documents')
+    .select('storage_path')
+    .eq('id', job.document_id)
+    .single();
+
+  if (docError || !doc) {
+    throw new Error('Document not found');
+  }
+
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(doc.storage_path);
+
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download document: ${downloadError?.message || 'not found'}`);
+  }
+
+  // Extract page-aware sections based on file type
+  const bytes = new Uint8Array(await fileData.arrayBuffer());
+  const extracted = await extractDocument(bytes, doc.storage_path);
+  const extractedText = extracted.text
+    || 'Unable to extract text from this document. It may be image-based or encrypted.';
+
+  console.log(`Extracted ${extractedText.length} characters, ${extracted.pageCount} pages`);
+
+  const { error: updateError } = await supabase
+    .from('uploaded_documents')
+    .update({
+      extracted_text: extractedText.slice(0, 100000), // Limit text size
+      page_count: extracted.pageCount,
+    })
+    .eq('id', job.document_id);
+
+  if (updateError) {
+    console.error('Update error:', updateError);
+  }
+
+  await updateJob(supabase, job.id, { status: 'chunking', progress: PROGRESS.chunking });
+
+  // Chunk by structure and token budget; the job may override the
+  // per-format defaults
+  const chunks = chunkSections(extracted.sections, chunkingOptionsFor(doc.storage_path, job.chunking_options));
+  console.log(`Created ${chunks.length} chunks`);
+
+  // A retried job restarts staging from scratch
+  await supabase.from('document_chunk_staging').delete().eq('job_id', job.id);
+
+  const rows = chunks.map((chunk, index) => ({
+    job_id: job.id,
+    document_id: job.document_id,
+    content: chunk.content,
+    chunk_index: index,
+    page_number: chunk.pageNumber,
+    section_title: chunk.sectionTitle,
+    metadata: chunk.metadata,
+    token_count: chunk.tokenCount,
+  }));
+
+  for (let i = 0; i < rows.length; i += STAGE_BATCH_SIZE) {
+    const { error: insertError } = await supabase
+      .from('document_chunk_staging')
+      .insert(rows.slice(i, i + STAGE_BATCH_SIZE));
+
+    if (insertError) {
+      throw new Error(`Failed to stage chunks: ${insertError.message}`);
     }
   }
-  
-  // Also look for BT...ET text blocks with Tj/TJ operators
-  const tjRegex = /\[?\(([^)]+)\)\]?\s*T[jJ]/g;
-  while ((match = tjRegex.exec(pdfString)) !== null) {
-    const text = match[1].replace(/\\[nrt]/g, ' ').trim();
-    if (text.length > 2) {
-      textParts.push(text);
+
+  await updateJob(supabase, job.id, {
+    status: 'embedding',
+    progress: PROGRESS.embedding,
+    total_chunks: rows.length,
+    embedded_chunks: 0,
+  });
+
+  return rows.length;
+}
+
+// Embed staged chunks batch by batch; false when the time budget ran out
+async function embedStagedChunks(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  totalChunks: number,
+  deadline: number
+): Promise<boolean> {
+  const embedder = getEmbeddingProvider();
+  let embedded = job.embedded_chunks;
+
+  while (Date.now() < deadline) {
+    const { data: pending, error } = await supabase
+      .from('document_chunk_staging')
+      .select('id, content')
+      .eq('job_id', job.id)
+      .is('embedding_vector', null)
+      .order('chunk_index', { ascending: true })
+      .limit(EMBED_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to read staged chunks: ${error.message}`);
     }
+    if (!pending || pending.length === 0) return true;
+
+    const vectors = await embedder.embed(pending.map(chunk => chunk.content));
+    const embeddedAt = new Date().toISOString();
+
+    for (let j = 0; j < pending.length; j++) {
+      const { error: updateError } = await supabase
+        .from('document_chunk_staging')
+        .update({
+          embedding_vector: toPgVector(vectors[j]),
+          embedding_model: embedder.model,
+          embedded_at: embeddedAt,
+        })
+        .eq('id', pending[j].id);
+
+      if (updateError) {
+        throw new Error(`Failed to store embedding: ${updateError.message}`);
+      }
+    }
+
+    embedded = Math.min(embedded + pending.length, totalChunks);
+    await updateJob(supabase, job.id, {
+      embedded_chunks: embedded,
+      progress: PROGRESS.embedding + Math.floor(PROGRESS.embeddingSpan * embedded / Math.max(totalChunks, 1)),
+      locked_until: leaseUntil(),
+    });
   }
-  
-  // Count pages
-  const pageCount = (pdfString.match(/\/Type\s*\/Page[^s]/g) || []).length || 1;
-  
-  const extractedText = textParts.join(' ')
-    .replace(/\s+/g, ' ')
-    .replace(/([a-z])([A-Z])/g, '$1 $2')
-    .trim();
-  
-  return { 
-    text: extractedText || 'Unable to extract text from this PDF. The document may be image-based or encrypted.', 
-    pageCount 
-  };
+
+  return false;
 }
 
-// Generate simple embedding using TF-IDF-like approach
-function generateSimpleEmbedding(text: string): number[] {
-  // Common words to ignore
-  const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'this', 'that', 'these', 'those', 'it', 'its']);
-  
-  // Tokenize and normalize
-  const words = text.toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .split(/\s+/)
-    .filter(w => w.length > 2 && !stopWords.has(w));
-  
-  // Create word frequency map
-  const wordFreq = new Map<string, number>();
-  for (const word of words) {
-    wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
+async function runJob(supabase: SupabaseClient, jobId: string) {
+  const job = await claimJob(supabase, jobId);
+  if (!job) {
+    console.log(`Job ${jobId} is finished or held by another invocation`);
+    return;
   }
-  
-  // Create a fixed-size embedding using hash buckets
-  const embeddingSize = 256;
-  const embedding = new Array(embeddingSize).fill(0);
-  
-  for (const [word, freq] of wordFreq) {
-    // Hash word to bucket
-    let hash = 0;
-    for (let i = 0; i < word.length; i++) {
-      hash = ((hash << 5) - hash) + word.charCodeAt(i);
-      hash = hash & hash;
+
+  const deadline = Date.now() + TIME_BUDGET_MS;
+  console.log(`Running job ${jobId} for document ${job.document_id} from state ${job.status}`);
+
+  try {
+    let totalChunks = job.total_chunks;
+    if (job.status !== 'embedding') {
+      totalChunks = await extractAndStage(supabase, job);
+      job.embedded_chunks = 0;
     }
-    const bucket = Math.abs(hash) % embeddingSize;
-    embedding[bucket] += freq * (1 + Math.log(freq));
-  }
-  
-  // Normalize
-  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  if (magnitude > 0) {
-    for (let i = 0; i < embedding.length; i++) {
-      embedding[i] /= magnitude;
+
+    const finished = await embedStagedChunks(supabase, job, totalChunks, deadline);
+    if (!finished) {
+      console.log(`Job ${jobId} out of time; continuing in a new invocation`);
+      await updateJob(supabase, jobId, { locked_until: null });
+      scheduleContinuation(jobId);
+      return;
+    }
+
+    const { data: chunkCount, error: finalizeError } = await supabase
+      .rpc('finalize_document_processing_job', { p_job_id: jobId });
+
+    if (finalizeError) {
+      throw new Error(`Failed to publish chunks: ${finalizeError.message}`);
+    }
+
+    console.log(`Job ${jobId} complete: ${chunkCount} chunks`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.attempts + 1;
+    console.error(`Job ${jobId} attempt ${attempts} failed:`, error);
+
+    if (attempts < MAX_ATTEMPTS) {
+      // Keep the current state so the retry resumes where this one stopped
+      await updateJob(supabase, jobId, { attempts, error_message: message, locked_until: null });
+      scheduleContinuation(jobId);
+    } else {
+      await updateJob(supabase, jobId, {
+        status: 'failed',
+        attempts,
+        error_message: message,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+      });
     }
   }
-  
-  return embedding;
 }
 
+// ============================================================================
+// MAIN HANDLER
+// { documentId, chunking? } queues a new job; { jobId } continues one and is
+// only accepted from this function itself, with the service role key.
+// Either way the work runs after the 202 response.
+// ============================================================================
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { documentId, storagePath } = await req.json();
-    
-    if (!documentId || !storagePath) {
+    const { documentId, jobId, chunking } = await req.json();
+
+    if (!documentId && !jobId) {
       return new Response(
-        JSON.stringify({ error: 'documentId and storagePath are required' }),
+        JSON.stringify({ error: 'documentId or jobId is required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Processing document: ${documentId}, path: ${storagePath}`);
-
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Download file from storage
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from('documents')
-      .download(storagePath);
-
-    if (downloadError || !fileData) {
-      console.error('Download error:', downloadError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to download document' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Extract text based on file type
-    const bytes = new Uint8Array(await fileData.arrayBuffer());
-    let extractedText = '';
-    let pageCount = 1;
-
-    if (storagePath.toLowerCase().endsWith('.pdf')) {
-      const result = await extractTextFromPDF(bytes);
-      extractedText = result.text;
-      pageCount = result.pageCount;
+    let activeJobId = jobId as string | undefined;
+    if (activeJobId) {
+      const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+      if (token !== supabaseKey) {
+        return new Response(
+          JSON.stringify({ error: 'Jobs can only be continued by the processing function' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
     } else {
-      // For text files, just decode
-      extractedText = new TextDecoder().decode(bytes);
-    }
-
-    console.log(`Extracted ${extractedText.length} characters, ${pageCount} pages`);
-
-    // Update document with extracted text
-    const { error: updateError } = await supabase
-      .from('uploaded_documents')
-      .update({
-        extracted_text: extractedText.slice(0, 100000), // Limit text size
-        page_count: pageCount,
-      })
-      .eq('id', documentId);
-
-    if (updateError) {
-      console.error('Update error:', updateError);
-    }
+      // New jobs are queued by users, who may only process documents they
+      // could delete
+      const caller = await getCaller(req, supabase);
+      if (!caller) {
+        return new Response(
+          JSON.stringify({ error: 'Authentication required' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const { data: canManage } = await supabase.rpc('can_manage_document', {
+        _document_id: documentId,
+        _user_id: caller.userId,
+      });
+      if (!canManage) {
+        return new Response(
+          JSON.stringify({ error: 'Document not found' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    // Chunk the text
-    const chunks = chunkText(extractedText);
-    console.log(`Created ${chunks.length} chunks`);
-
-    // Create embeddings and store chunks
-    const chunkInserts = chunks.map((content, index) => {
-      const embedding = generateSimpleEmbedding(content);
-      
-      // Detect page number from content (rough estimate)
-      const pageMatch = content.match(/page\s*(\d+)/i);
-      const pageNumber = pageMatch ? parseInt(pageMatch[1]) : Math.floor((index / chunks.length) * pageCount) + 1;
-
-      return {
-        document_id: documentId,
-        content,
-        chunk_index: index,
-        page_number: pageNumber,
-        token_count: content.split(/\s+/).length,
-        embedding: embedding,
-      };
-    });
+      console.log(`Queueing processing job for document: ${documentId}`);
 
-    // Insert chunks in batches
-    const batchSize = 20;
-    for (let i = 0; i < chunkInserts.length; i += batchSize) {
-      const batch = chunkInserts.slice(i, i + batchSize);
-      const { error: insertError } = await supabase
-        .from('document_chunks')
-        .insert(batch);
+      const { data: job, error: jobError } = await supabase
+        .from('document_processing_jobs')
+        .insert({ document_id: documentId, chunking_options: clampChunkingOverrides(chunking) })
+        .select('id')
+        .single();
 
-      if (insertError) {
-        console.error('Chunk insert error:', insertError);
+      if (jobError || !job) {
+        console.error('Job create error:', jobError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to queue document processing' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+      activeJobId = job.id as string;
     }
 
-    // Mark document as processed
-    await supabase
-      .from('uploaded_documents')
-      .update({ embeddings_generated: true })
-      .eq('id', documentId);
-
-    console.log('Document processing complete');
+    runInBackground(runJob(supabase, activeJobId));
 
     return new Response(
-      JSON.stringify({ 
-        success: true, 
-        chunksCreated: chunks.length,
-        pageCount,
-        textLength: extractedText.length 
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      JSON.stringify({ success: true, jobId: activeJobId }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
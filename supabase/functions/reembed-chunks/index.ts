@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getEmbeddingProvider, toPgVector } from '../_shared/embeddings.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Re-embeds document chunks that have no vector yet, or whose vector came from
+// a different model than the active provider. Call repeatedly (e.g. from a
+// cron job) until `remaining` reaches 0. Service-role only.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const authHeader = req.headers.get('Authorization') || '';
+    if (authHeader !== `Bearer ${supabaseKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role key required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { batchSize = 100 } = await req.json().catch(() => ({}));
+    const limit = Math.min(Math.max(Number(batchSize) || 100, 1), 500);
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const embedder = getEmbeddingProvider();
+    const staleFilter = `embedding_vector.is.null,embedding_model.is.null,embedding_model.neq.${embedder.model}`;
+
+    const { data: chunks, error: fetchError } = await supabase
+      .from('document_chunks')
+      .select('id, content')
+      .or(staleFilter)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch chunks: ${fetchError.message}`);
+    }
+
+    let updated = 0;
+    if (chunks && chunks.length > 0) {
+      console.log(`Re-embedding ${chunks.length} chunks with ${embedder.model}`);
+
+      // Embed in small groups to stay within provider request limits
+      const groupSize = 20;
+      for (let i = 0; i < chunks.length; i += groupSize) {
+        const group = chunks.slice(i, i + groupSize);
+        const vectors = await embedder.embed(group.map(c => c.content));
+        const embeddedAt = new Date().toISOString();
+
+        for (let j = 0; j < group.length; j++) {
+          const { error: updateError } = await supabase
+            .from('document_chunks')
+            .update({
+              embedding_vector: toPgVector(vectors[j]),
+              embedding_model: embedder.model,
+              embedded_at: embeddedAt,
+            })
+            .eq('id', group[j].id);
+
+          if (updateError) {
+            console.error(`Chunk ${group[j].id} update error:`, updateError);
+          } else {
+            updated++;
+          }
+        }
+      }
+    }
+
+    const { count: remaining } = await supabase
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .or(staleFilter);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        model: embedder.model,
+        updated,
+        remaining: remaining ?? 0,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Re-embedding error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { getCaller } from '../_shared/auth.ts';
+import { consumeQuota, quotaExceededMessage, quotaHeaders } from '../_shared/rate-limit.ts';
+import { scanFiles, toScanFiles } from '../_shared/secret-scan.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_FILES = 100;
+// Total size of the files' content in one request
+const MAX_BYTES = 1024 * 1024;
+
+// Runs the secret scanner over [{ path, content }]. Used by the code review
+// screens for content that did not come through the agent, such as edited
+// capability code and proposals recorded before scanning existed.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { files } = await req.json();
+    const scanInput = toScanFiles(files);
+
+    if (scanInput.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'files must be a non-empty array of { path, content }' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (scanInput.length > MAX_FILES) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_FILES} files can be scanned at once` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const bytes = scanInput.reduce((sum, f) => sum + encoder.encode(f.content).length, 0);
+    if (bytes > MAX_BYTES) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_BYTES / 1024} KB of content can be scanned at once` }),
+        { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quota = await consumeQuota(supabase, caller.userId, 'secret_scan');
+    if (!quota.allowed) {
+      return new Response(
+        JSON.stringify({ error: quotaExceededMessage(quota) }),
+        { status: 429, headers: { ...corsHeaders, ...quotaHeaders(quota), 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(scanFiles(scanInput)),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Secret scan error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,4 @@
+-- Persist the agent reasoning trace (per-stage spans rendered as agent nodes)
+-- alongside each assistant message so past answers can be reopened
+ALTER TABLE public.chat_messages
+ADD COLUMN IF NOT EXISTS agent_trace JSONB;
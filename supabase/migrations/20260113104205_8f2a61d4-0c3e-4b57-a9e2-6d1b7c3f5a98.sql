@@ -0,0 +1,68 @@
+-- ============================================================================
+-- PGVECTOR EMBEDDINGS FOR DOCUMENT CHUNKS
+-- ============================================================================
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Vectors live in a typed column; the model name is stored per row because
+-- vectors from different embedding models cannot be compared. The legacy
+-- JSONB embedding column is kept until reembed-chunks has migrated every row.
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS embedding_vector extensions.vector(768),
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedded_at TIMESTAMP WITH TIME ZONE;
+
+-- Approximate nearest-neighbour index for cosine distance
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_hnsw
+ON public.document_chunks
+USING hnsw (embedding_vector extensions.vector_cosine_ops);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_model
+ON public.document_chunks(embedding_model);
+
+-- Chunks still waiting for a vector from the active model
+CREATE INDEX IF NOT EXISTS idx_document_chunks_needs_embedding
+ON public.document_chunks(created_at)
+WHERE embedding_vector IS NULL;
+
+-- ============================================================================
+-- TOP-K SIMILARITY SEARCH
+-- Session-scoped: a session sees its own documents plus global ones. Without a
+-- session every document is searched (service-role callers only).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  query_model TEXT,
+  match_count INTEGER DEFAULT 5,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.file_name,
+    c.page_number,
+    c.section_title,
+    c.content,
+    1 - (c.embedding_vector <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.uploaded_documents d ON d.id = c.document_id
+  WHERE c.embedding_vector IS NOT NULL
+    AND c.embedding_model = query_model
+    AND (filter_session_id IS NULL OR d.session_id = filter_session_id OR d.is_global = true)
+    AND 1 - (c.embedding_vector <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding_vector <=> query_embedding
+  LIMIT match_count
+$$;
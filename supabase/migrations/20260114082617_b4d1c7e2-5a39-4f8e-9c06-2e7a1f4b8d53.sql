@@ -0,0 +1,156 @@
+-- ============================================================================
+-- FULL-TEXT INDEX FOR DOCUMENT CHUNKS
+-- ============================================================================
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS fts tsvector
+GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(section_title, '') || ' ' || content)
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_fts
+ON public.document_chunks
+USING gin (fts);
+
+-- ============================================================================
+-- BM25 KEYWORD SEARCH
+-- Okapi BM25 over the English tsvector. Query terms are OR-ed so a chunk only
+-- needs one of them to be a candidate; document frequency and average length
+-- are computed within the caller's scope.
+-- Scope: a session sees its own documents plus global ones, global_only
+-- restricts to global documents, filter_document_ids narrows to a set of
+-- documents. Without a session every document is searched.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.search_document_chunks_bm25(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 20,
+  filter_session_id UUID DEFAULT NULL,
+  filter_document_ids UUID[] DEFAULT NULL,
+  global_only BOOLEAN DEFAULT false,
+  k1 DOUBLE PRECISION DEFAULT 1.2,
+  b DOUBLE PRECISION DEFAULT 0.75
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  content TEXT,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query_terms AS (
+    SELECT DISTINCT t.lexeme
+    FROM unnest(to_tsvector('english', query_text)) AS t
+  ),
+  scoped AS (
+    SELECT
+      c.id,
+      c.document_id,
+      d.file_name,
+      c.page_number,
+      c.section_title,
+      c.content,
+      c.fts,
+      greatest(coalesce(c.token_count, length(c.fts)), 1)::DOUBLE PRECISION AS doc_length
+    FROM public.document_chunks c
+    JOIN public.uploaded_documents d ON d.id = c.document_id
+    WHERE (filter_session_id IS NULL OR d.session_id = filter_session_id OR d.is_global = true)
+      AND (NOT global_only OR d.is_global = true)
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  ),
+  corpus AS (
+    SELECT count(*)::DOUBLE PRECISION AS total, coalesce(avg(doc_length), 1) AS avg_length
+    FROM scoped
+  ),
+  matched AS (
+    SELECT s.*
+    FROM scoped s
+    WHERE s.fts @@ (SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery FROM query_terms)
+  ),
+  term_freqs AS (
+    SELECT
+      m.id,
+      t.lexeme,
+      coalesce(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf,
+      m.doc_length
+    FROM matched m
+    CROSS JOIN LATERAL unnest(m.fts) AS t
+    WHERE t.lexeme IN (SELECT lexeme FROM query_terms)
+  ),
+  doc_freqs AS (
+    SELECT lexeme, count(*)::DOUBLE PRECISION AS df
+    FROM term_freqs
+    GROUP BY lexeme
+  ),
+  scores AS (
+    SELECT
+      tf.id,
+      sum(
+        ln(1 + (c.total - df.df + 0.5) / (df.df + 0.5))
+        * (tf.tf * (k1 + 1))
+        / (tf.tf + k1 * (1 - b + b * tf.doc_length / c.avg_length))
+      ) AS score
+    FROM term_freqs tf
+    JOIN doc_freqs df ON df.lexeme = tf.lexeme
+    CROSS JOIN corpus c
+    GROUP BY tf.id
+  )
+  SELECT m.id, m.document_id, m.file_name, m.page_number, m.section_title, m.content, s.score
+  FROM scores s
+  JOIN matched m ON m.id = s.id
+  ORDER BY s.score DESC
+  LIMIT match_count
+$$;
+
+-- ============================================================================
+-- VECTOR SEARCH WITH THE SAME SCOPING
+-- Replaces the session-only version so both retrieval legs accept identical
+-- filters.
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.match_document_chunks(extensions.vector, TEXT, INTEGER, DOUBLE PRECISION, UUID);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  query_model TEXT,
+  match_count INTEGER DEFAULT 5,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_session_id UUID DEFAULT NULL,
+  filter_document_ids UUID[] DEFAULT NULL,
+  global_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.file_name,
+    c.page_number,
+    c.section_title,
+    c.content,
+    1 - (c.embedding_vector <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.uploaded_documents d ON d.id = c.document_id
+  WHERE c.embedding_vector IS NOT NULL
+    AND c.embedding_model = query_model
+    AND (filter_session_id IS NULL OR d.session_id = filter_session_id OR d.is_global = true)
+    AND (NOT global_only OR d.is_global = true)
+    AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+    AND 1 - (c.embedding_vector <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding_vector <=> query_embedding
+  LIMIT match_count
+$$;
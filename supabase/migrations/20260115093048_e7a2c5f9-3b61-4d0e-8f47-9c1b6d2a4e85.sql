@@ -0,0 +1,29 @@
+-- ============================================================================
+-- STRUCTURAL METADATA FOR DOCUMENT CHUNKS
+-- Format-specific location of a chunk: headingPath for DOCX/HTML/Markdown,
+-- slideNumber for PPTX, sheetName/rowStart/rowEnd for spreadsheets.
+-- ============================================================================
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================================
+-- ACCEPT THE NEW INGESTION FORMATS IN THE DOCUMENTS BUCKET
+-- ============================================================================
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'text/html',
+  'text/markdown',
+  'text/plain',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp'
+]
+WHERE id = 'documents';
@@ -0,0 +1,156 @@
+-- ============================================================================
+-- DOCUMENT PROCESSING JOBS
+-- One row per (re)processing run of an uploaded document. process-document
+-- advances a job through its states in resumable steps and clients follow
+-- progress over realtime.
+-- ============================================================================
+CREATE TABLE public.document_processing_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.uploaded_documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'extracting', 'chunking', 'embedding', 'done', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  embedded_chunks INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  chunking_options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Lease held by the invocation currently working on the job
+  locked_until TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_processing_jobs_document
+ON public.document_processing_jobs(document_id, created_at DESC);
+
+CREATE INDEX idx_document_processing_jobs_active
+ON public.document_processing_jobs(status)
+WHERE status NOT IN ('done', 'failed');
+
+CREATE TRIGGER update_document_processing_jobs_updated_at
+BEFORE UPDATE ON public.document_processing_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.document_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the document itself is readable; only the service role
+-- (process-document) writes jobs
+CREATE POLICY "Users can view jobs for accessible documents"
+ON public.document_processing_jobs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.uploaded_documents
+    WHERE uploaded_documents.id = document_processing_jobs.document_id
+    AND (uploaded_documents.is_global = true OR uploaded_documents.user_id = auth.uid() OR uploaded_documents.user_id IS NULL)
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.document_processing_jobs;
+
+-- ============================================================================
+-- STAGED CHUNKS
+-- Chunks are built and embedded here, then swapped into document_chunks in a
+-- single transaction, so searches never see a half-processed document.
+-- ============================================================================
+CREATE TABLE public.document_chunk_staging (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.document_processing_jobs(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.uploaded_documents(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  page_number INTEGER,
+  section_title TEXT,
+  content TEXT NOT NULL,
+  token_count INTEGER DEFAULT 0,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  embedding_vector extensions.vector(768),
+  embedding_model TEXT,
+  embedded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, chunk_index)
+);
+
+CREATE INDEX idx_document_chunk_staging_pending
+ON public.document_chunk_staging(job_id, chunk_index)
+WHERE embedding_vector IS NULL;
+
+-- Service role only
+ALTER TABLE public.document_chunk_staging ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ATOMIC SWAP
+-- Replaces the document's chunks with the job's staged chunks and marks the
+-- job done. A job that was superseded by a newer one for the same document
+-- is failed instead, leaving the newer job's result in place.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.finalize_document_processing_job(p_job_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_document_id UUID;
+  v_latest_job UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT document_id INTO v_document_id
+  FROM public.document_processing_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF v_document_id IS NULL THEN
+    RAISE EXCEPTION 'Processing job % not found', p_job_id;
+  END IF;
+
+  -- Serialise finalisation per document
+  PERFORM 1 FROM public.uploaded_documents WHERE id = v_document_id FOR UPDATE;
+
+  SELECT id INTO v_latest_job
+  FROM public.document_processing_jobs
+  WHERE document_id = v_document_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_latest_job <> p_job_id THEN
+    UPDATE public.document_processing_jobs
+    SET status = 'failed', error_message = 'Superseded by a newer processing job', locked_until = NULL
+    WHERE id = p_job_id;
+    DELETE FROM public.document_chunk_staging WHERE job_id = p_job_id;
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.document_chunks WHERE document_id = v_document_id;
+
+  INSERT INTO public.document_chunks (
+    document_id, chunk_index, page_number, section_title, content, token_count,
+    metadata, embedding_vector, embedding_model, embedded_at
+  )
+  SELECT
+    document_id, chunk_index, page_number, section_title, content, token_count,
+    metadata, embedding_vector, embedding_model, embedded_at
+  FROM public.document_chunk_staging
+  WHERE job_id = p_job_id
+  ORDER BY chunk_index;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM public.document_chunk_staging WHERE job_id = p_job_id;
+
+  UPDATE public.uploaded_documents
+  SET embeddings_generated = true
+  WHERE id = v_document_id;
+
+  UPDATE public.document_processing_jobs
+  SET status = 'done', progress = 100, completed_at = now(), locked_until = NULL, error_message = NULL
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_document_processing_job(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,210 @@
+-- ============================================================================
+-- POLICY-AS-CODE GUARDRAILS
+-- ai_blocked_patterns becomes the single rule set for every safety check:
+-- agent and HR chat input, generated code, migration SQL and CLI commands.
+-- Each change to the rules publishes a new numbered snapshot in
+-- ai_policy_versions, which is what the engine loads.
+-- ============================================================================
+ALTER TABLE public.ai_blocked_patterns
+  ADD COLUMN rule_key TEXT,
+  ADD COLUMN name TEXT,
+  ADD COLUMN outcome TEXT NOT NULL DEFAULT 'deny'
+    CHECK (outcome IN ('allow', 'deny', 'require_approval')),
+  -- Surfaces the rule screens: agent_input, hr_input, code, sql, command
+  ADD COLUMN targets TEXT[] NOT NULL DEFAULT ARRAY['agent_input']::TEXT[],
+  -- Roles the rule applies to; empty means everyone
+  ADD COLUMN roles public.app_role[] NOT NULL DEFAULT '{}'::public.app_role[],
+  -- An allow rule exempts lower-priority matches in its category
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 100,
+  ADD COLUMN updated_by UUID,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.ai_blocked_patterns
+  ADD CONSTRAINT ai_blocked_patterns_severity_check
+    CHECK (severity IN ('low', 'medium', 'high', 'critical'));
+
+CREATE TRIGGER update_ai_blocked_patterns_updated_at
+BEFORE UPDATE ON public.ai_blocked_patterns
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The original keyword seeds are superseded by the rules below
+DELETE FROM public.ai_blocked_patterns WHERE rule_key IS NULL;
+
+ALTER TABLE public.ai_blocked_patterns
+  ALTER COLUMN rule_key SET NOT NULL,
+  ALTER COLUMN name SET NOT NULL,
+  ADD CONSTRAINT ai_blocked_patterns_rule_key_key UNIQUE (rule_key);
+
+-- Only developers edit the rules; everyone signed in can read them
+DROP POLICY IF EXISTS "System can manage blocked patterns" ON public.ai_blocked_patterns;
+
+CREATE POLICY "Authenticated users can view policy rules"
+ON public.ai_blocked_patterns
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Developers can manage policy rules"
+ON public.ai_blocked_patterns
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'developer'))
+WITH CHECK (public.has_role(auth.uid(), 'developer'));
+
+-- ============================================================================
+-- POLICY VERSIONS
+-- ============================================================================
+CREATE TABLE public.ai_policy_versions (
+  version INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  rules JSONB NOT NULL,
+  rule_count INTEGER NOT NULL,
+  changed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_policy_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view policy versions"
+ON public.ai_policy_versions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.publish_policy_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ai_policy_versions (rules, rule_count, changed_by)
+  SELECT
+    COALESCE(jsonb_agg(to_jsonb(r) - 'created_at' - 'updated_by' ORDER BY r.priority DESC, r.rule_key), '[]'::jsonb),
+    COUNT(*),
+    auth.uid()
+  FROM public.ai_blocked_patterns r
+  WHERE r.is_active = true;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================================================
+-- DEFAULT RULES
+-- Consolidated from the checks previously hard-coded in advanced-agent,
+-- hr-chat and the CLI.
+-- ============================================================================
+INSERT INTO public.ai_blocked_patterns
+  (rule_key, name, pattern_type, pattern_regex, pattern_keywords, severity, outcome, targets, roles, priority, description)
+VALUES
+-- Prompt injection
+('injection.override', 'Instruction override', 'prompt_injection',
+  '(ignore|disregard|forget) (all |your |the )?(previous|prior|above)?\s*(instructions|rules)|ignore (all )?previous', NULL,
+  'critical', 'deny', ARRAY['agent_input', 'hr_input'], '{}', 100, 'Attempts to override system instructions'),
+('injection.new_instructions', 'Injected instructions', 'prompt_injection',
+  'new (system )?instructions', NULL,
+  'critical', 'deny', ARRAY['agent_input', 'hr_input'], '{}', 100, 'Attempts to supply replacement system instructions'),
+('injection.persona', 'Persona hijack', 'prompt_injection',
+  '\byou are now\b|\bact as if\b', NULL,
+  'high', 'deny', ARRAY['agent_input', 'hr_input'], '{}', 100, 'Attempts to change the assistant''s role'),
+
+-- Destructive system commands
+('harmful.rm_root', 'Recursive delete of root or home', 'harmful_code',
+  'rm\s+-rf\s+(/|~|\*|/\*)(\s|$)', NULL,
+  'critical', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Destructive file operation'),
+('harmful.rm_recursive', 'Recursive delete', 'harmful_code',
+  'rm\s+-rf\b', NULL,
+  'high', 'require_approval', ARRAY['code', 'command'], '{}', 100, 'Recursive file deletion'),
+('harmful.disk', 'Disk format or overwrite', 'harmful_code',
+  'format\s+c:|\bmkfs\b|\bdd\s+if=|>\s*/dev/sd[a-z]|del\s+/[fqs]', NULL,
+  'critical', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Disk format or raw device write'),
+('harmful.fork_bomb', 'Fork bomb', 'harmful_code',
+  NULL, ARRAY[':(){:|:&};:', 'fork bomb'],
+  'critical', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Process exhaustion'),
+('harmful.pipe_to_shell', 'Download piped to shell', 'harmful_code',
+  '(curl|wget)\b[^|]*\|\s*(ba|z)?sh\b', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Executes remote code without review'),
+('harmful.eval', 'Dynamic code evaluation', 'harmful_code',
+  'eval\s*\(|\bFunction\s*\(', NULL,
+  'high', 'deny', ARRAY['code'], '{}', 100, 'Uses eval() or the Function constructor'),
+('harmful.process_exec', 'Process execution', 'harmful_code',
+  '\.exec\s*\(|child_process', NULL,
+  'high', 'deny', ARRAY['code'], '{}', 100, 'Command injection risk'),
+('harmful.dynamic_loading', 'Dynamic module loading', 'harmful_code',
+  'require\s*\(\s*[^''"`\s]|import\s*\(\s*[^''"`\s]', NULL,
+  'medium', 'require_approval', ARRAY['code'], '{}', 100, 'Dynamic require or import'),
+('harmful.dynamic_env', 'Dynamic environment access', 'data_exfil',
+  'process\.env\s*\[|Deno\.env\.toObject', NULL,
+  'medium', 'require_approval', ARRAY['code'], '{}', 100, 'Reads arbitrary environment variables'),
+
+-- Data exfiltration
+('exfil.credentials', 'Credential exfiltration', 'data_exfil',
+  'curl.*api_key|wget.*secret|upload.*credentials|send.*password', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Data exfiltration attempts'),
+
+-- Privilege escalation
+('privilege.sudo_destructive', 'Sudo with destructive command', 'privilege_escalation',
+  'sudo\s+(rm|chmod|chown)\b', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Privileged destructive operation'),
+('privilege.world_writable', 'World-writable permissions', 'privilege_escalation',
+  'chmod\s+(-R\s+)?777', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Grants everyone write access'),
+('privilege.chown', 'Ownership change', 'privilege_escalation',
+  'chown\s+(-R\s+|root)', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Recursive or root ownership change'),
+('privilege.sudo', 'Sudo', 'privilege_escalation',
+  '\bsudo\b', NULL,
+  'medium', 'require_approval', ARRAY['code', 'command'], '{}', 100, 'Runs with elevated privileges'),
+
+-- Git
+('git.force_push', 'Force push', 'github_dangerous',
+  'force\s*push|git\s+push\b.*(--force|\s-f\b)', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'command'], ARRAY['employee', 'hr', 'it']::public.app_role[], 100, 'Rewrites shared history'),
+('git.force_push_developer', 'Force push by developers', 'github_dangerous',
+  'force\s*push|git\s+push\b.*(--force|\s-f\b)', NULL,
+  'high', 'require_approval', ARRAY['agent_input', 'code', 'command'], ARRAY['developer']::public.app_role[], 100, 'Developers may force push after approval'),
+('git.delete_main', 'Delete main branch', 'github_dangerous',
+  'delete\s+branch.*\b(main|master)\b|git\s+push\b.*:(main|master)\b', NULL,
+  'critical', 'deny', ARRAY['agent_input', 'code', 'command'], '{}', 100, 'Deletes the default branch'),
+('git.no_verify', 'Verification bypass', 'github_dangerous',
+  '--no-verify', NULL,
+  'medium', 'require_approval', ARRAY['code', 'command'], '{}', 100, 'Git verification bypass'),
+
+-- Database
+('db.drop_database', 'Drop database or schema', 'database_dangerous',
+  'drop\s+(database|schema)', NULL,
+  'critical', 'deny', ARRAY['agent_input', 'code', 'sql'], '{}', 100, 'Drops a database or schema'),
+('db.truncate', 'Truncate', 'database_dangerous',
+  '\btruncate\b', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'sql'], '{}', 100, 'Removes all rows from a table'),
+('db.drop_table', 'Drop table', 'database_dangerous',
+  'drop\s+table', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code'], '{}', 100, 'SQL drop table detected'),
+('db.drop_table_migration', 'Drop table in migration', 'database_dangerous',
+  'drop\s+table', NULL,
+  'high', 'require_approval', ARRAY['sql'], '{}', 100, 'Migrations may drop tables after approval'),
+('db.drop_column', 'Drop column', 'database_dangerous',
+  'alter\s+table.*drop\s+column', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'sql'], '{}', 100, 'Drops a column and its data'),
+('db.unqualified_delete', 'Unqualified delete', 'database_dangerous',
+  'delete\s+from\s+[\w."]+\s*(;|$)', NULL,
+  'high', 'deny', ARRAY['agent_input', 'code', 'sql'], '{}', 100, 'DELETE without a WHERE clause'),
+
+-- Sensitive HR topics are escalated to a person rather than blocked
+('hr.sensitive_topic', 'Sensitive HR topic', 'sensitive_topic',
+  NULL, ARRAY['harassment', 'discrimination', 'grievance', 'complaint', 'mental health', 'bullying', 'abuse', 'assault', 'termination dispute', 'unfair treatment'],
+  'medium', 'require_approval', ARRAY['hr_input', 'agent_input'], '{}', 100, 'Escalate to HR');
+
+CREATE TRIGGER publish_ai_policy_version
+AFTER INSERT OR UPDATE OR DELETE ON public.ai_blocked_patterns
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.publish_policy_version();
+
+-- Version 1: the default rules
+INSERT INTO public.ai_policy_versions (rules, rule_count)
+SELECT
+  COALESCE(jsonb_agg(to_jsonb(r) - 'created_at' - 'updated_by' ORDER BY r.priority DESC, r.rule_key), '[]'::jsonb),
+  COUNT(*)
+FROM public.ai_blocked_patterns r
+WHERE r.is_active = true;
@@ -0,0 +1,95 @@
+-- ============================================================================
+-- INDIRECT PROMPT-INJECTION DEFENCE
+-- Retrieved document chunks and web results are screened with the policy
+-- engine under a new `retrieved` target before they reach the model. Documents
+-- that keep tripping the detectors are flagged for review.
+-- ============================================================================
+
+-- The existing injection rules also screen retrieved content
+UPDATE public.ai_blocked_patterns
+SET targets = array_append(targets, 'retrieved')
+WHERE rule_key IN ('injection.override', 'injection.new_instructions', 'injection.persona')
+  AND NOT ('retrieved' = ANY (targets));
+
+INSERT INTO public.ai_blocked_patterns
+  (rule_key, name, pattern_type, pattern_regex, pattern_keywords, severity, outcome, targets, roles, priority, description)
+VALUES
+('injection.role_markers', 'Chat role markers', 'prompt_injection',
+  '<\|?(im_start|im_end|system|endoftext)\|?>|^\s*(system|assistant|developer)\s*:|\[/?INST\]', NULL,
+  'critical', 'deny', ARRAY['retrieved'], '{}', 100, 'Fake conversation turns embedded in content'),
+('injection.tool_directive', 'Tool invocation directive', 'prompt_injection',
+  '\b(call|invoke|use|run|execute|trigger)\s+(the\s+)?[\w-]+\s+(tool|function)\b|\b(execute_task|run_command|git_operation|database_migration|send_notification|create_dev_ticket)\s*\(', NULL,
+  'high', 'deny', ARRAY['retrieved'], '{}', 100, 'Content tells the assistant to call a tool'),
+('injection.exfiltration', 'Data exfiltration request', 'prompt_injection',
+  '\b(send|post|forward|email|upload|submit)\b.{0,60}\b(to|at)\s+(https?://|[\w.+-]+@[\w-]+\.)', NULL,
+  'high', 'deny', ARRAY['retrieved'], '{}', 100, 'Content asks for data to be sent elsewhere'),
+('injection.markdown_exfil', 'Image URL with parameters', 'prompt_injection',
+  '!\[[^\]]*\]\(https?://[^)\s]*\?[^)\s]*=', NULL,
+  'high', 'deny', ARRAY['retrieved'], '{}', 100, 'Markdown image that could leak data through its URL'),
+('injection.concealment', 'Concealment instruction', 'prompt_injection',
+  '\b(do not|don''t|never)\s+(tell|inform|reveal|mention|disclose)\b.{0,40}\b(user|anyone|them)\b', NULL,
+  'high', 'deny', ARRAY['retrieved'], '{}', 100, 'Content asks the assistant to hide something from the user');
+
+-- ============================================================================
+-- DOCUMENT REVIEW FLAGS
+-- ============================================================================
+ALTER TABLE public.uploaded_documents
+  ADD COLUMN injection_hits INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN injection_rule_keys TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN flagged_for_review BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN flagged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reviewed_by UUID,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_uploaded_documents_flagged
+ON public.uploaded_documents(flagged_at DESC) WHERE flagged_for_review = true;
+
+-- Count one retrieval in which the document's chunks tripped injection rules.
+-- The document is flagged once it reaches the threshold; returns whether it
+-- is flagged.
+CREATE OR REPLACE FUNCTION public.record_document_injection_hits(p_document_id UUID, p_rule_keys TEXT[])
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_threshold CONSTANT INTEGER := 3;
+  v_flagged BOOLEAN;
+BEGIN
+  UPDATE public.uploaded_documents
+  SET injection_hits = injection_hits + 1,
+      injection_rule_keys = ARRAY(SELECT DISTINCT unnest(injection_rule_keys || p_rule_keys) ORDER BY 1),
+      flagged_at = CASE
+        WHEN NOT flagged_for_review AND injection_hits + 1 >= v_threshold THEN now()
+        ELSE flagged_at
+      END,
+      flagged_for_review = flagged_for_review OR injection_hits + 1 >= v_threshold
+  WHERE id = p_document_id
+  RETURNING flagged_for_review INTO v_flagged;
+
+  RETURN COALESCE(v_flagged, false);
+END;
+$$;
+
+-- Clear a flag after review. Hits restart from zero so a document that keeps
+-- misbehaving is flagged again.
+CREATE OR REPLACE FUNCTION public.review_flagged_document(p_document_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'developer') OR public.has_role(auth.uid(), 'it')) THEN
+    RAISE EXCEPTION 'Only developers and IT can review flagged documents';
+  END IF;
+
+  UPDATE public.uploaded_documents
+  SET flagged_for_review = false,
+      injection_hits = 0,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_document_id;
+END;
+$$;
@@ -0,0 +1,369 @@
+-- ============================================================================
+-- ROLE ASSIGNMENT AND ELEVATION
+-- Users may only give themselves the employee role. hr, it and developer are
+-- granted by an existing holder of that role, either directly or by
+-- approving an elevation request, and can be time-boxed. Every change to
+-- user_roles is written to role_change_audit.
+-- ============================================================================
+
+ALTER TABLE public.user_roles
+  ADD COLUMN granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- NULL means the grant does not expire
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_user_roles_expires_at ON public.user_roles(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Expired grants no longer count
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+      AND (expires_at IS NULL OR expires_at > now())
+  )
+$$;
+
+-- A user can hold several roles; the most privileged active one wins
+CREATE OR REPLACE FUNCTION public.get_user_role(_user_id UUID)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.user_roles
+  WHERE user_id = _user_id
+    AND (expires_at IS NULL OR expires_at > now())
+  ORDER BY CASE role
+    WHEN 'developer' THEN 1
+    WHEN 'it' THEN 2
+    WHEN 'hr' THEN 3
+    ELSE 4
+  END
+  LIMIT 1
+$$;
+
+-- Self-service is limited to the base role; everything else goes through the
+-- functions below
+DROP POLICY IF EXISTS "Users can insert own role" ON public.user_roles;
+
+CREATE POLICY "Users can assign themselves the employee role"
+ON public.user_roles
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND role = 'employee'
+  AND granted_by IS NULL
+  AND expires_at IS NULL
+);
+
+-- Policies that looked up user_roles directly would keep honouring expired
+-- grants; route them through has_role
+DROP POLICY IF EXISTS "Developers can update tickets" ON public.dev_tickets;
+CREATE POLICY "Developers can update tickets" ON public.dev_tickets
+FOR UPDATE USING (public.has_role(auth.uid(), 'developer'));
+
+DROP POLICY IF EXISTS "Developers can update proposals" ON public.code_change_proposals;
+CREATE POLICY "Developers can update proposals" ON public.code_change_proposals
+FOR UPDATE USING (public.has_role(auth.uid(), 'developer'));
+
+DROP POLICY IF EXISTS "Developers can update requests" ON public.ai_capability_requests;
+CREATE POLICY "Developers can update requests" ON public.ai_capability_requests
+FOR UPDATE USING (public.has_role(auth.uid(), 'developer'));
+
+DROP POLICY IF EXISTS "Developers can approve learning" ON public.ai_learning_sessions;
+CREATE POLICY "Developers can approve learning" ON public.ai_learning_sessions
+FOR UPDATE USING (public.has_role(auth.uid(), 'developer'));
+
+DROP POLICY IF EXISTS "Developers can manage navigation" ON public.navigation_config;
+CREATE POLICY "Developers can manage navigation" ON public.navigation_config
+FOR ALL USING (public.has_role(auth.uid(), 'developer'));
+
+-- ============================================================================
+-- AUDIT TRAIL
+-- ============================================================================
+CREATE TABLE public.role_change_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  role app_role NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('assigned', 'granted', 'extended', 'revoked', 'expired')),
+  actor_id UUID,
+  reason TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  request_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_role_change_audit_user ON public.role_change_audit(user_id, created_at DESC);
+CREATE INDEX idx_role_change_audit_created ON public.role_change_audit(created_at DESC);
+
+ALTER TABLE public.role_change_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role history"
+ON public.role_change_audit
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Role holders can view history for their role"
+ON public.role_change_audit
+FOR SELECT
+USING (public.has_role(auth.uid(), role));
+
+-- Functions pass the reason and request through transaction-local settings
+CREATE OR REPLACE FUNCTION public.audit_user_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT := NULLIF(current_setting('app.role_change_reason', true), '');
+  v_request UUID := NULLIF(current_setting('app.role_change_request', true), '')::UUID;
+  v_action TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_action := COALESCE(NULLIF(current_setting('app.role_change_action', true), ''), 'revoked');
+    INSERT INTO public.role_change_audit (user_id, role, action, actor_id, reason, expires_at, request_id)
+    VALUES (OLD.user_id, OLD.role, v_action, auth.uid(), v_reason, OLD.expires_at, v_request);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := CASE WHEN NEW.granted_by IS NULL THEN 'assigned' ELSE 'granted' END;
+  ELSE
+    v_action := 'extended';
+  END IF;
+
+  INSERT INTO public.role_change_audit (user_id, role, action, actor_id, reason, expires_at, request_id)
+  VALUES (NEW.user_id, NEW.role, v_action, COALESCE(NEW.granted_by, auth.uid()), v_reason, NEW.expires_at, v_request);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_user_roles
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_user_role_change();
+
+-- ============================================================================
+-- ELEVATION REQUESTS
+-- ============================================================================
+CREATE TABLE public.role_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_role app_role NOT NULL CHECK (requested_role <> 'employee'),
+  justification TEXT NOT NULL,
+  -- Requested grant length; NULL asks for a permanent grant
+  duration_days INTEGER CHECK (duration_days IS NULL OR duration_days BETWEEN 1 AND 365),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per user and role
+CREATE UNIQUE INDEX idx_role_change_requests_open
+ON public.role_change_requests(user_id, requested_role) WHERE status = 'pending';
+
+ALTER TABLE public.role_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role requests"
+ON public.role_change_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Role holders can view requests for their role"
+ON public.role_change_requests
+FOR SELECT
+USING (public.has_role(auth.uid(), requested_role));
+
+CREATE POLICY "Users can request a role"
+ON public.role_change_requests
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND NOT public.has_role(auth.uid(), requested_role)
+);
+
+CREATE POLICY "Users can cancel their own pending requests"
+ON public.role_change_requests
+FOR UPDATE
+USING (auth.uid() = user_id AND status = 'pending')
+WITH CHECK (auth.uid() = user_id AND status = 'cancelled');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.role_change_requests;
+
+-- ============================================================================
+-- GRANT, REVOKE AND REVIEW
+-- ============================================================================
+
+-- Grant or extend a role. Only an active holder of the role may grant it, and
+-- never to themselves.
+CREATE OR REPLACE FUNCTION public.grant_role(
+  p_user_id UUID,
+  p_role app_role,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), p_role) THEN
+    RAISE EXCEPTION 'Only a % can grant the % role', p_role, p_role;
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own roles';
+  END IF;
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  PERFORM set_config('app.role_change_reason', COALESCE(p_reason, ''), true);
+
+  INSERT INTO public.user_roles (user_id, role, granted_by, expires_at)
+  VALUES (p_user_id, p_role, auth.uid(), p_expires_at)
+  ON CONFLICT (user_id, role) DO UPDATE
+  SET granted_by = EXCLUDED.granted_by,
+      expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_role(p_user_id UUID, p_role app_role, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_role = 'employee' THEN
+    RAISE EXCEPTION 'The employee role cannot be revoked';
+  END IF;
+  IF NOT public.has_role(auth.uid(), p_role) THEN
+    RAISE EXCEPTION 'Only a % can revoke the % role', p_role, p_role;
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own roles';
+  END IF;
+
+  PERFORM set_config('app.role_change_reason', COALESCE(p_reason, ''), true);
+
+  DELETE FROM public.user_roles WHERE user_id = p_user_id AND role = p_role;
+END;
+$$;
+
+-- Approve or reject an elevation request. Approval grants the role for the
+-- requested duration unless the reviewer sets a different expiry.
+CREATE OR REPLACE FUNCTION public.review_role_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.role_change_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM public.role_change_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request is already %', v_request.status;
+  END IF;
+  IF NOT public.has_role(auth.uid(), v_request.requested_role) THEN
+    RAISE EXCEPTION 'Only a % can review this request', v_request.requested_role;
+  END IF;
+  IF v_request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own request';
+  END IF;
+
+  UPDATE public.role_change_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = p_note
+  WHERE id = p_request_id;
+
+  IF p_approve THEN
+    PERFORM set_config('app.role_change_request', p_request_id::TEXT, true);
+    PERFORM public.grant_role(
+      v_request.user_id,
+      v_request.requested_role,
+      COALESCE(p_expires_at, now() + make_interval(days => v_request.duration_days)),
+      COALESCE(p_note, v_request.justification)
+    );
+  END IF;
+END;
+$$;
+
+-- Users with their active roles, for holders of any elevated role
+CREATE OR REPLACE FUNCTION public.list_role_assignments()
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  role app_role,
+  granted_by UUID,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'hr') OR public.has_role(auth.uid(), 'it') OR public.has_role(auth.uid(), 'developer')) THEN
+    RAISE EXCEPTION 'Only hr, it and developer roles can list role assignments';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.user_id, p.full_name, p.email, r.role, r.granted_by, r.expires_at, r.created_at
+  FROM public.profiles p
+  LEFT JOIN public.user_roles r
+    ON r.user_id = p.user_id
+   AND (r.expires_at IS NULL OR r.expires_at > now())
+  ORDER BY p.full_name, r.role;
+END;
+$$;
+
+-- Remove grants past their expiry so the audit trail records them. Safe to
+-- run on a schedule; has_role already ignores expired grants.
+CREATE OR REPLACE FUNCTION public.expire_role_grants()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  PERFORM set_config('app.role_change_action', 'expired', true);
+  PERFORM set_config('app.role_change_reason', 'Grant expired', true);
+
+  DELETE FROM public.user_roles WHERE expires_at IS NOT NULL AND expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.role_change_action', '', true);
+  RETURN v_count;
+END;
+$$;
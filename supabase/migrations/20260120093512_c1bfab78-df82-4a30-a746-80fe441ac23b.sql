@@ -0,0 +1,464 @@
+-- ============================================================================
+-- ROW-LEVEL SECURITY HARDENING
+-- Replaces the demo "Anyone can ..." policies from the first migration.
+-- Sessions and their messages belong to the user who created them; documents
+-- are visible to their owner (and the owner of their session) unless they are
+-- global, which everyone can read but only HR and developers can change.
+-- Audit tables accept inserts and nothing else. Edge functions use the service
+-- role and repeat the ownership checks themselves.
+-- ============================================================================
+
+-- ============================================================================
+-- OWNERSHIP COLUMNS
+-- chat_sessions.user_id and uploaded_documents.user_id existed but were never
+-- filled in by the client. They now default to the caller and are backfilled
+-- from rows that did record a user. Rows that still have no owner are only
+-- reachable through the service role.
+-- ============================================================================
+ALTER TABLE public.chat_sessions ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE public.uploaded_documents ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user ON public.chat_sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_uploaded_documents_user ON public.uploaded_documents(user_id);
+CREATE INDEX IF NOT EXISTS idx_uploaded_documents_session ON public.uploaded_documents(session_id);
+
+-- Earliest user recorded against each session wins
+UPDATE public.chat_sessions s
+SET user_id = owners.user_id
+FROM (
+  SELECT DISTINCT ON (session_id) session_id, user_id
+  FROM (
+    SELECT session_id, user_id, created_at FROM public.uploaded_documents
+    UNION ALL
+    SELECT session_id, user_id, created_at FROM public.action_audit_log
+    UNION ALL
+    SELECT session_id, user_id, created_at FROM public.ai_safety_audit
+    UNION ALL
+    SELECT session_id, user_id, created_at FROM public.ai_analytics
+  ) seen
+  WHERE session_id IS NOT NULL AND user_id IS NOT NULL
+  ORDER BY session_id, created_at
+) owners
+WHERE s.id = owners.session_id
+  AND s.user_id IS NULL;
+
+UPDATE public.uploaded_documents d
+SET user_id = s.user_id
+FROM public.chat_sessions s
+WHERE d.session_id = s.id
+  AND d.user_id IS NULL
+  AND s.user_id IS NOT NULL;
+
+-- ============================================================================
+-- ACCESS HELPERS
+-- SECURITY DEFINER so policies on one table can look at another without
+-- recursing through its policies.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.owns_chat_session(_session_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.chat_sessions
+    WHERE id = _session_id
+      AND user_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_global_documents(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'hr') OR public.has_role(_user_id, 'developer')
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_read_document(_document_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.uploaded_documents d
+    WHERE d.id = _document_id
+      AND (
+        d.is_global = true
+        OR d.user_id = _user_id
+        OR (d.session_id IS NOT NULL AND public.owns_chat_session(d.session_id, _user_id))
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_document(_document_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.uploaded_documents d
+    WHERE d.id = _document_id
+      AND CASE
+        WHEN d.is_global = true THEN public.can_manage_global_documents(_user_id)
+        ELSE d.user_id = _user_id
+      END
+  )
+$$;
+
+-- ============================================================================
+-- CHAT SESSIONS AND MESSAGES
+-- ============================================================================
+DROP POLICY IF EXISTS "Anyone can view chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Anyone can create chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Anyone can update chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Anyone can delete chat sessions" ON public.chat_sessions;
+
+CREATE POLICY "Users can view own chat sessions" ON public.chat_sessions
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own chat sessions" ON public.chat_sessions
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat sessions" ON public.chat_sessions
+FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat sessions" ON public.chat_sessions
+FOR DELETE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Anyone can view messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Anyone can create messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Anyone can delete messages" ON public.chat_messages;
+
+CREATE POLICY "Users can view messages in own sessions" ON public.chat_messages
+FOR SELECT USING (public.owns_chat_session(session_id, auth.uid()));
+
+CREATE POLICY "Users can add messages to own sessions" ON public.chat_messages
+FOR INSERT WITH CHECK (public.owns_chat_session(session_id, auth.uid()));
+
+CREATE POLICY "Users can delete messages in own sessions" ON public.chat_messages
+FOR DELETE USING (public.owns_chat_session(session_id, auth.uid()));
+
+-- ============================================================================
+-- DOCUMENTS
+-- ============================================================================
+DROP POLICY IF EXISTS "Anyone can view documents" ON public.uploaded_documents;
+DROP POLICY IF EXISTS "Anyone can upload documents" ON public.uploaded_documents;
+DROP POLICY IF EXISTS "Anyone can delete documents" ON public.uploaded_documents;
+DROP POLICY IF EXISTS "Users can view global documents" ON public.uploaded_documents;
+
+CREATE POLICY "Users can view own, session and global documents" ON public.uploaded_documents
+FOR SELECT USING (
+  is_global = true
+  OR auth.uid() = user_id
+  OR (session_id IS NOT NULL AND public.owns_chat_session(session_id, auth.uid()))
+);
+
+CREATE POLICY "Users can upload own documents" ON public.uploaded_documents
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND (session_id IS NULL OR public.owns_chat_session(session_id, auth.uid()))
+  AND (COALESCE(is_global, false) = false OR public.can_manage_global_documents(auth.uid()))
+);
+
+-- Only HR and developers can publish a document globally or edit a global one
+CREATE POLICY "Owners and global document managers can update documents" ON public.uploaded_documents
+FOR UPDATE
+USING (
+  CASE WHEN is_global = true THEN public.can_manage_global_documents(auth.uid()) ELSE auth.uid() = user_id END
+)
+WITH CHECK (
+  CASE WHEN is_global = true THEN public.can_manage_global_documents(auth.uid()) ELSE auth.uid() = user_id END
+);
+
+CREATE POLICY "Owners and global document managers can delete documents" ON public.uploaded_documents
+FOR DELETE USING (
+  CASE WHEN is_global = true THEN public.can_manage_global_documents(auth.uid()) ELSE auth.uid() = user_id END
+);
+
+-- Chunks and processing jobs follow their document; process-document writes
+-- them with the service role
+DROP POLICY IF EXISTS "Anyone can view chunks" ON public.document_chunks;
+DROP POLICY IF EXISTS "Anyone can create chunks" ON public.document_chunks;
+DROP POLICY IF EXISTS "Users can view chunks from accessible documents" ON public.document_chunks;
+
+CREATE POLICY "Users can view chunks from accessible documents" ON public.document_chunks
+FOR SELECT USING (public.can_read_document(document_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view jobs for accessible documents" ON public.document_processing_jobs;
+
+CREATE POLICY "Users can view jobs for accessible documents" ON public.document_processing_jobs
+FOR SELECT USING (public.can_read_document(document_id, auth.uid()));
+
+-- ============================================================================
+-- STORAGE
+-- The bucket is no longer public. New uploads go under a folder named after
+-- the uploader's id; older files under public/ stay reachable through the
+-- document row that points at them.
+-- ============================================================================
+UPDATE storage.buckets SET public = false WHERE id = 'documents';
+
+DROP POLICY IF EXISTS "Anyone can upload documents to bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can view documents in bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete documents from bucket" ON storage.objects;
+
+CREATE POLICY "Users can upload to their own document folder" ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'documents'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Users can read accessible documents in bucket" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'documents'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+    OR EXISTS (
+      SELECT 1 FROM public.uploaded_documents d
+      WHERE d.storage_path = storage.objects.name
+        AND public.can_read_document(d.id, auth.uid())
+    )
+  )
+);
+
+CREATE POLICY "Users can delete manageable documents in bucket" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'documents'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+    OR EXISTS (
+      SELECT 1 FROM public.uploaded_documents d
+      WHERE d.storage_path = storage.objects.name
+        AND public.can_manage_document(d.id, auth.uid())
+    )
+  )
+);
+
+-- ============================================================================
+-- SEARCH SCOPING
+-- The retrieval functions run with the service role, so they take the
+-- caller's id and keep to that user's documents plus global ones.
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.search_document_chunks_bm25(TEXT, INTEGER, UUID, UUID[], BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.search_document_chunks_bm25(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 20,
+  filter_session_id UUID DEFAULT NULL,
+  filter_document_ids UUID[] DEFAULT NULL,
+  global_only BOOLEAN DEFAULT false,
+  k1 DOUBLE PRECISION DEFAULT 1.2,
+  b DOUBLE PRECISION DEFAULT 0.75,
+  filter_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  content TEXT,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query_terms AS (
+    SELECT DISTINCT t.lexeme
+    FROM unnest(to_tsvector('english', query_text)) AS t
+  ),
+  scoped AS (
+    SELECT
+      c.id,
+      c.document_id,
+      d.file_name,
+      c.page_number,
+      c.section_title,
+      c.content,
+      c.fts,
+      greatest(coalesce(c.token_count, length(c.fts)), 1)::DOUBLE PRECISION AS doc_length
+    FROM public.document_chunks c
+    JOIN public.uploaded_documents d ON d.id = c.document_id
+    WHERE (filter_session_id IS NULL OR d.session_id = filter_session_id OR d.is_global = true)
+      AND (NOT global_only OR d.is_global = true)
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_user_id IS NULL OR d.is_global = true OR d.user_id = filter_user_id)
+  ),
+  corpus AS (
+    SELECT count(*)::DOUBLE PRECISION AS total, coalesce(avg(doc_length), 1) AS avg_length
+    FROM scoped
+  ),
+  matched AS (
+    SELECT s.*
+    FROM scoped s
+    WHERE s.fts @@ (SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery FROM query_terms)
+  ),
+  term_freqs AS (
+    SELECT
+      m.id,
+      t.lexeme,
+      coalesce(array_length(t.positions, 1), 1)::DOUBLE PRECISION AS tf,
+      m.doc_length
+    FROM matched m
+    CROSS JOIN LATERAL unnest(m.fts) AS t
+    WHERE t.lexeme IN (SELECT lexeme FROM query_terms)
+  ),
+  doc_freqs AS (
+    SELECT lexeme, count(*)::DOUBLE PRECISION AS df
+    FROM term_freqs
+    GROUP BY lexeme
+  ),
+  scores AS (
+    SELECT
+      tf.id,
+      sum(
+        ln(1 + (c.total - df.df + 0.5) / (df.df + 0.5))
+        * (tf.tf * (k1 + 1))
+        / (tf.tf + k1 * (1 - b + b * tf.doc_length / c.avg_length))
+      ) AS score
+    FROM term_freqs tf
+    JOIN doc_freqs df ON df.lexeme = tf.lexeme
+    CROSS JOIN corpus c
+    GROUP BY tf.id
+  )
+  SELECT m.id, m.document_id, m.file_name, m.page_number, m.section_title, m.content, s.score
+  FROM scores s
+  JOIN matched m ON m.id = s.id
+  ORDER BY s.score DESC
+  LIMIT match_count
+$$;
+
+DROP FUNCTION IF EXISTS public.match_document_chunks(extensions.vector, TEXT, INTEGER, DOUBLE PRECISION, UUID, UUID[], BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  query_model TEXT,
+  match_count INTEGER DEFAULT 5,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_session_id UUID DEFAULT NULL,
+  filter_document_ids UUID[] DEFAULT NULL,
+  global_only BOOLEAN DEFAULT false,
+  filter_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.file_name,
+    c.page_number,
+    c.section_title,
+    c.content,
+    1 - (c.embedding_vector <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.uploaded_documents d ON d.id = c.document_id
+  WHERE c.embedding_vector IS NOT NULL
+    AND c.embedding_model = query_model
+    AND (filter_session_id IS NULL OR d.session_id = filter_session_id OR d.is_global = true)
+    AND (NOT global_only OR d.is_global = true)
+    AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+    AND (filter_user_id IS NULL OR d.is_global = true OR d.user_id = filter_user_id)
+    AND 1 - (c.embedding_vector <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding_vector <=> query_embedding
+  LIMIT match_count
+$$;
+
+-- ============================================================================
+-- APPEND-ONLY AUDIT TABLES
+-- ============================================================================
+DROP POLICY IF EXISTS "Anyone can view action logs" ON public.action_audit_log;
+DROP POLICY IF EXISTS "Anyone can create action logs" ON public.action_audit_log;
+
+CREATE POLICY "Users can view own action logs" ON public.action_audit_log
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "HR and developers can view all action logs" ON public.action_audit_log
+FOR SELECT USING (public.has_role(auth.uid(), 'hr') OR public.has_role(auth.uid(), 'developer'));
+
+CREATE POLICY "Users can record own actions" ON public.action_audit_log
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "System can insert safety audit" ON public.ai_safety_audit;
+
+CREATE POLICY "Users can record own safety events" ON public.ai_safety_audit
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Developers and IT can view all safety audit" ON public.ai_safety_audit
+FOR SELECT USING (public.has_role(auth.uid(), 'developer') OR public.has_role(auth.uid(), 'it'));
+
+-- Safety events outlive the session they were raised in
+ALTER TABLE public.ai_safety_audit DROP CONSTRAINT IF EXISTS ai_safety_audit_session_id_fkey;
+ALTER TABLE public.ai_safety_audit
+  ADD CONSTRAINT ai_safety_audit_session_id_fkey
+  FOREIGN KEY (session_id) REFERENCES public.chat_sessions(id) ON DELETE SET NULL;
+
+-- Rejects updates and deletes, including from the service role. The trigger
+-- arguments name foreign-key columns declared ON DELETE SET NULL; an update
+-- that only clears those columns is let through so deleting a session or user
+-- still works.
+CREATE OR REPLACE FUNCTION public.enforce_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_column TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_old := to_jsonb(OLD);
+    v_new := to_jsonb(NEW);
+    IF TG_NARGS > 0 THEN
+      FOREACH v_column IN ARRAY TG_ARGV LOOP
+        IF v_new -> v_column = 'null'::JSONB THEN
+          v_old := v_old - v_column;
+          v_new := v_new - v_column;
+        END IF;
+      END LOOP;
+    END IF;
+    IF v_old = v_new THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$;
+
+CREATE TRIGGER action_audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.action_audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_append_only('session_id', 'user_id');
+
+CREATE TRIGGER ai_safety_audit_append_only
+BEFORE UPDATE OR DELETE ON public.ai_safety_audit
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_append_only('session_id');
+
+CREATE TRIGGER role_change_audit_append_only
+BEFORE UPDATE OR DELETE ON public.role_change_audit
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_append_only();
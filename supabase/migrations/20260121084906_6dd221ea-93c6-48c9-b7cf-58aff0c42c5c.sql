@@ -0,0 +1,449 @@
+-- ============================================================================
+-- TAMPER-EVIDENT AUDIT LEDGER
+-- Safety events, executed actions, file operations and role changes are
+-- copied into one append-only ledger with a shared schema. Each entry stores
+-- the hash of the entry before it, so an edited, removed or reordered entry
+-- breaks the chain. verify_audit_ledger() walks the chain and the audit-export
+-- function signs a bundle of entries for a date range.
+-- ============================================================================
+
+CREATE TABLE public.audit_ledger (
+  -- Assigned under a lock so the sequence has no gaps
+  seq BIGINT PRIMARY KEY,
+  id UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  source TEXT NOT NULL,
+  source_id UUID,
+  event TEXT NOT NULL,
+  actor_id UUID,
+  actor_role TEXT,
+  session_id UUID,
+  tool TEXT,
+  -- Redacted before hashing
+  arguments JSONB NOT NULL DEFAULT '{}'::jsonb,
+  decision TEXT,
+  approver_id UUID,
+  reason TEXT,
+  prev_hash TEXT NOT NULL,
+  entry_hash TEXT NOT NULL UNIQUE
+);
+
+CREATE INDEX idx_audit_ledger_recorded_at ON public.audit_ledger(recorded_at);
+CREATE INDEX idx_audit_ledger_actor ON public.audit_ledger(actor_id, recorded_at DESC);
+CREATE INDEX idx_audit_ledger_source ON public.audit_ledger(source, source_id);
+
+ALTER TABLE public.audit_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the triggers below; there is no insert policy
+CREATE POLICY "HR, IT and developers can view the audit ledger"
+ON public.audit_ledger
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'hr')
+  OR public.has_role(auth.uid(), 'it')
+  OR public.has_role(auth.uid(), 'developer')
+);
+
+CREATE TRIGGER audit_ledger_append_only
+BEFORE UPDATE OR DELETE ON public.audit_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_append_only();
+
+CREATE TRIGGER audit_ledger_no_truncate
+BEFORE TRUNCATE ON public.audit_ledger
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_append_only();
+
+-- ============================================================================
+-- REDACTION
+-- Keys that name credentials are blanked, values that look like tokens or
+-- keys are replaced, emails are masked and long text is truncated.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.redact_audit_arguments(p_value JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+  v_key TEXT;
+  v_item JSONB;
+  v_text TEXT;
+BEGIN
+  CASE jsonb_typeof(p_value)
+    WHEN 'object' THEN
+      v_result := '{}'::jsonb;
+      FOR v_key, v_item IN SELECT key, value FROM jsonb_each(p_value) LOOP
+        IF v_key ~* '(password|passwd|secret|token|api[_-]?key|authorization|credential|private[_-]?key|cookie)' THEN
+          v_result := v_result || jsonb_build_object(v_key, '[redacted]');
+        ELSE
+          v_result := v_result || jsonb_build_object(v_key, public.redact_audit_arguments(v_item));
+        END IF;
+      END LOOP;
+      RETURN v_result;
+
+    WHEN 'array' THEN
+      SELECT COALESCE(jsonb_agg(public.redact_audit_arguments(e.value) ORDER BY e.ordinality), '[]'::jsonb)
+      INTO v_result
+      FROM jsonb_array_elements(p_value) WITH ORDINALITY AS e(value, ordinality);
+      RETURN v_result;
+
+    WHEN 'string' THEN
+      v_text := p_value #>> '{}';
+      IF v_text ~ '(eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.|\m(sk|pk|rk)[-_][A-Za-z0-9_-]{20,}|\mAKIA[0-9A-Z]{16}|\mgh[pousr]_[A-Za-z0-9]{36,}|-----BEGIN [A-Z ]*PRIVATE KEY)' THEN
+        RETURN to_jsonb('[redacted]'::TEXT);
+      END IF;
+      v_text := regexp_replace(v_text, '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}', '[email redacted]', 'g');
+      IF length(v_text) > 500 THEN
+        v_text := left(v_text, 500) || '…[truncated]';
+      END IF;
+      RETURN to_jsonb(v_text);
+
+    ELSE
+      RETURN p_value;
+  END CASE;
+END;
+$$;
+
+-- ============================================================================
+-- HASHING
+-- The hash covers the previous hash and a canonical JSON rendering of the
+-- entry. Timestamps are rendered in UTC so the result does not depend on the
+-- session time zone.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.audit_ledger_hash(p_entry public.audit_ledger)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(
+    p_entry.prev_hash || '|' || jsonb_build_object(
+      'seq', p_entry.seq,
+      'id', p_entry.id,
+      'recorded_at', to_char(p_entry.recorded_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+      'source', p_entry.source,
+      'source_id', p_entry.source_id,
+      'event', p_entry.event,
+      'actor_id', p_entry.actor_id,
+      'actor_role', p_entry.actor_role,
+      'session_id', p_entry.session_id,
+      'tool', p_entry.tool,
+      'arguments', p_entry.arguments,
+      'decision', p_entry.decision,
+      'approver_id', p_entry.approver_id,
+      'reason', p_entry.reason
+    )::TEXT,
+    'UTF8'
+  )), 'hex')
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_audit_ledger_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last RECORD;
+BEGIN
+  -- One writer at a time; the lock is held until the transaction commits
+  PERFORM pg_advisory_xact_lock(hashtext('public.audit_ledger'));
+
+  SELECT seq, entry_hash INTO v_last
+  FROM public.audit_ledger
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(v_last.seq, 0) + 1;
+  NEW.prev_hash := COALESCE(v_last.entry_hash, repeat('0', 64));
+  NEW.recorded_at := clock_timestamp();
+  NEW.arguments := public.redact_audit_arguments(COALESCE(NEW.arguments, '{}'::jsonb));
+  NEW.reason := left(NEW.reason, 1000);
+  IF NEW.actor_role IS NULL AND NEW.actor_id IS NOT NULL THEN
+    NEW.actor_role := public.get_user_role(NEW.actor_id)::TEXT;
+  END IF;
+  NEW.entry_hash := public.audit_ledger_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_audit_ledger
+BEFORE INSERT ON public.audit_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.chain_audit_ledger_entry();
+
+-- ============================================================================
+-- SOURCES
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.ledger_safety_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audit_ledger (source, source_id, event, actor_id, session_id, tool, arguments, decision, approver_id, reason)
+  VALUES (
+    'ai_safety_audit',
+    NEW.id,
+    'safety.' || NEW.action_type,
+    NEW.user_id,
+    NEW.session_id,
+    COALESCE(NEW.action_data ->> 'action', NEW.action_data ->> 'tool', NEW.action_type),
+    NEW.action_data,
+    CASE
+      WHEN NEW.was_blocked THEN 'blocked'
+      WHEN NEW.was_approved THEN 'approved'
+      ELSE 'allowed'
+    END,
+    NEW.approved_by,
+    NEW.block_reason
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_ai_safety_audit
+AFTER INSERT ON public.ai_safety_audit
+FOR EACH ROW
+EXECUTE FUNCTION public.ledger_safety_audit();
+
+CREATE OR REPLACE FUNCTION public.ledger_action_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audit_ledger (source, source_id, event, actor_id, session_id, tool, arguments, decision, approver_id, reason)
+  VALUES (
+    'action_audit_log',
+    NEW.id,
+    'action.' || NEW.status,
+    NEW.user_id,
+    NEW.session_id,
+    NEW.action_type,
+    NEW.action_data,
+    NEW.status,
+    NEW.approved_by,
+    'Risk level: ' || NEW.risk_level
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_action_audit_log
+AFTER INSERT ON public.action_audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.ledger_action_audit();
+
+-- File operations change status as they are approved and executed, so each
+-- transition is its own entry. File contents are represented by their hash.
+CREATE OR REPLACE FUNCTION public.ledger_file_operation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_ledger (source, source_id, event, actor_id, session_id, tool, arguments, decision, approver_id, reason)
+  VALUES (
+    'file_operations_log',
+    NEW.id,
+    'file_operation.' || COALESCE(NEW.status, 'pending'),
+    NEW.user_id,
+    NEW.session_id,
+    'file_operation',
+    jsonb_build_object(
+      'operation', NEW.operation_type,
+      'file_path', NEW.file_path,
+      'description', NEW.change_description,
+      'risk_level', NEW.risk_level,
+      'content_sha256', CASE WHEN NEW.file_content IS NULL THEN NULL
+        ELSE encode(sha256(convert_to(NEW.file_content, 'UTF8')), 'hex') END
+    ),
+    NEW.status,
+    NEW.approved_by,
+    NEW.error_message
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_file_operations_log
+AFTER INSERT OR UPDATE ON public.file_operations_log
+FOR EACH ROW
+EXECUTE FUNCTION public.ledger_file_operation();
+
+CREATE OR REPLACE FUNCTION public.ledger_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audit_ledger (source, source_id, event, actor_id, tool, arguments, decision, approver_id, reason)
+  VALUES (
+    'role_change_audit',
+    NEW.id,
+    'role.' || NEW.action,
+    NEW.actor_id,
+    'role_change',
+    jsonb_build_object(
+      'user_id', NEW.user_id,
+      'role', NEW.role,
+      'expires_at', NEW.expires_at,
+      'request_id', NEW.request_id
+    ),
+    NEW.action,
+    NEW.actor_id,
+    NEW.reason
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_role_change_audit
+AFTER INSERT ON public.role_change_audit
+FOR EACH ROW
+EXECUTE FUNCTION public.ledger_role_change();
+
+-- Seed the ledger with history recorded before it existed, oldest first
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT * FROM (
+      SELECT 'ai_safety_audit' AS source, id, created_at, 'safety.' || action_type AS event, user_id AS actor_id,
+        session_id, COALESCE(action_data ->> 'action', action_data ->> 'tool', action_type) AS tool, action_data AS arguments,
+        CASE WHEN was_blocked THEN 'blocked' WHEN was_approved THEN 'approved' ELSE 'allowed' END AS decision,
+        approved_by AS approver_id, block_reason AS reason
+      FROM public.ai_safety_audit
+      UNION ALL
+      SELECT 'action_audit_log', id, created_at, 'action.' || status, user_id,
+        session_id, action_type, action_data, status, approved_by, 'Risk level: ' || risk_level
+      FROM public.action_audit_log
+      UNION ALL
+      SELECT 'file_operations_log', id, created_at, 'file_operation.' || COALESCE(status, 'pending'), user_id,
+        session_id, 'file_operation',
+        jsonb_build_object('operation', operation_type, 'file_path', file_path, 'description', change_description, 'risk_level', risk_level,
+          'content_sha256', CASE WHEN file_content IS NULL THEN NULL ELSE encode(sha256(convert_to(file_content, 'UTF8')), 'hex') END),
+        status, approved_by, error_message
+      FROM public.file_operations_log
+      UNION ALL
+      SELECT 'role_change_audit', id, created_at, 'role.' || action, actor_id,
+        NULL, 'role_change',
+        jsonb_build_object('user_id', user_id, 'role', role, 'expires_at', expires_at, 'request_id', request_id),
+        action, actor_id, reason
+      FROM public.role_change_audit
+    ) history
+    ORDER BY created_at
+  LOOP
+    INSERT INTO public.audit_ledger (source, source_id, event, actor_id, session_id, tool, arguments, decision, approver_id, reason)
+    VALUES (r.source, r.id, r.event, r.actor_id, r.session_id, r.tool, r.arguments, r.decision, r.approver_id,
+      CASE WHEN r.reason IS NULL THEN 'Backfilled; originally recorded ' || r.created_at
+        ELSE r.reason || ' (backfilled; originally recorded ' || r.created_at || ')' END);
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- VERIFICATION
+-- Walks the entries recorded in [p_from, p_to) and reports sequence gaps,
+-- broken links to the previous entry and entries whose content no longer
+-- matches their hash. Open bounds cover the whole ledger.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.verify_audit_ledger(
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prev_seq BIGINT := 0;
+  v_prev_hash TEXT := repeat('0', 64);
+  v_anchor_seq BIGINT := 0;
+  v_anchor_hash TEXT := repeat('0', 64);
+  v_first_seq BIGINT;
+  v_checked INTEGER := 0;
+  v_problems JSONB := '[]'::jsonb;
+  r public.audit_ledger%ROWTYPE;
+BEGIN
+  IF NOT (
+    auth.role() = 'service_role'
+    OR public.has_role(auth.uid(), 'hr')
+    OR public.has_role(auth.uid(), 'it')
+    OR public.has_role(auth.uid(), 'developer')
+  ) THEN
+    RAISE EXCEPTION 'Only HR, IT and developers can verify the audit ledger';
+  END IF;
+
+  -- Chain into the range from the last entry before it
+  IF p_from IS NOT NULL THEN
+    SELECT seq, entry_hash INTO v_anchor_seq, v_anchor_hash
+    FROM public.audit_ledger
+    WHERE recorded_at < p_from
+    ORDER BY seq DESC
+    LIMIT 1;
+    v_anchor_seq := COALESCE(v_anchor_seq, 0);
+    v_anchor_hash := COALESCE(v_anchor_hash, repeat('0', 64));
+    v_prev_seq := v_anchor_seq;
+    v_prev_hash := v_anchor_hash;
+  END IF;
+
+  FOR r IN
+    SELECT * FROM public.audit_ledger
+    WHERE (p_from IS NULL OR recorded_at >= p_from)
+      AND (p_to IS NULL OR recorded_at < p_to)
+    ORDER BY seq
+  LOOP
+    v_checked := v_checked + 1;
+    v_first_seq := COALESCE(v_first_seq, r.seq);
+
+    IF r.seq <> v_prev_seq + 1 THEN
+      v_problems := v_problems || jsonb_build_object(
+        'seq', r.seq, 'problem', 'gap',
+        'detail', format('Entries %s to %s are missing', v_prev_seq + 1, r.seq - 1)
+      );
+    END IF;
+
+    IF r.prev_hash <> v_prev_hash THEN
+      v_problems := v_problems || jsonb_build_object(
+        'seq', r.seq, 'problem', 'broken_link',
+        'detail', 'Previous hash does not match the preceding entry'
+      );
+    END IF;
+
+    IF public.audit_ledger_hash(r) <> r.entry_hash THEN
+      v_problems := v_problems || jsonb_build_object(
+        'seq', r.seq, 'problem', 'hash_mismatch',
+        'detail', 'Entry content does not match its hash'
+      );
+    END IF;
+
+    v_prev_seq := r.seq;
+    v_prev_hash := r.entry_hash;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', jsonb_array_length(v_problems) = 0,
+    'checked', v_checked,
+    'anchor', jsonb_build_object('seq', v_anchor_seq, 'hash', v_anchor_hash),
+    'first_seq', v_first_seq,
+    'last_seq', CASE WHEN v_checked > 0 THEN v_prev_seq END,
+    'head_hash', CASE WHEN v_checked > 0 THEN v_prev_hash END,
+    'problems', v_problems
+  );
+END;
+$$;
@@ -0,0 +1,194 @@
+-- ============================================================================
+-- RATE LIMITS AND QUOTAS
+-- Each user has one token bucket per quota class (LLM tokens, web searches,
+-- GitHub reads and writes, database queries, migrations). A bucket holds up
+-- to `capacity` tokens and refills at `refill_per_hour`; both come from the
+-- policy for the user's role. Edge functions spend tokens through
+-- consume_rate_limit() before calling the upstream service.
+-- ============================================================================
+
+CREATE TABLE public.rate_limit_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  role app_role NOT NULL,
+  quota_class TEXT NOT NULL,
+  capacity NUMERIC NOT NULL CHECK (capacity >= 0),
+  refill_per_hour NUMERIC NOT NULL CHECK (refill_per_hour >= 0),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (role, quota_class)
+);
+
+ALTER TABLE public.rate_limit_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view rate limit policies"
+ON public.rate_limit_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Developers can manage rate limit policies"
+ON public.rate_limit_policies
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'developer'))
+WITH CHECK (public.has_role(auth.uid(), 'developer'));
+
+CREATE TRIGGER update_rate_limit_policies_updated_at
+BEFORE UPDATE ON public.rate_limit_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Classes without a policy for a role are not limited for that role; the
+-- tool permission matrix still decides who may use them at all
+INSERT INTO public.rate_limit_policies (role, quota_class, capacity, refill_per_hour, description) VALUES
+  ('employee', 'llm_tokens', 60000, 30000, 'Model tokens for chat and agent requests'),
+  ('hr', 'llm_tokens', 120000, 60000, 'Model tokens for chat and agent requests'),
+  ('it', 'llm_tokens', 150000, 75000, 'Model tokens for chat and agent requests'),
+  ('developer', 'llm_tokens', 300000, 150000, 'Model tokens for chat and agent requests'),
+  ('employee', 'web_search', 20, 10, 'Perplexity web and profile searches'),
+  ('hr', 'web_search', 30, 15, 'Perplexity web and profile searches'),
+  ('it', 'web_search', 40, 20, 'Perplexity web and profile searches'),
+  ('developer', 'web_search', 60, 30, 'Perplexity web and profile searches'),
+  ('it', 'github_read', 100, 100, 'GitHub API reads'),
+  ('developer', 'github_read', 200, 200, 'GitHub API reads'),
+  ('developer', 'github_write', 20, 5, 'Branches, commits, pull requests and merges'),
+  ('developer', 'database_query', 60, 60, 'Agent database queries'),
+  ('developer', 'database_migration', 5, 0.5, 'Schema migrations');
+
+CREATE TABLE public.rate_limit_buckets (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quota_class TEXT NOT NULL,
+  tokens NUMERIC NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, quota_class)
+);
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Buckets are only written through consume_rate_limit()
+CREATE POLICY "Users can view their own rate limit buckets"
+ON public.rate_limit_buckets
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- CONSUMPTION
+-- Refills the bucket for the time since it was last touched, then spends
+-- p_cost if enough tokens are left. p_force spends regardless (used to settle
+-- actual LLM usage after the call, which may leave the bucket negative); a
+-- negative cost refunds an over-estimate. Returns the outcome as JSON:
+--   { allowed, unlimited, quota_class, limit, remaining, refill_per_hour,
+--     retry_after_seconds }
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_user_id UUID,
+  p_quota_class TEXT,
+  p_cost NUMERIC DEFAULT 1,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.rate_limit_policies%ROWTYPE;
+  v_bucket public.rate_limit_buckets%ROWTYPE;
+  v_tokens NUMERIC;
+  v_allowed BOOLEAN;
+  v_retry_after INTEGER;
+BEGIN
+  SELECT * INTO v_policy
+  FROM public.rate_limit_policies
+  WHERE role = public.get_user_role(p_user_id)
+    AND quota_class = p_quota_class;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('allowed', true, 'unlimited', true, 'quota_class', p_quota_class);
+  END IF;
+
+  INSERT INTO public.rate_limit_buckets (user_id, quota_class, tokens, updated_at)
+  VALUES (p_user_id, p_quota_class, v_policy.capacity, now())
+  ON CONFLICT (user_id, quota_class) DO NOTHING;
+
+  SELECT * INTO v_bucket
+  FROM public.rate_limit_buckets
+  WHERE user_id = p_user_id AND quota_class = p_quota_class
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    v_policy.capacity,
+    v_bucket.tokens + EXTRACT(EPOCH FROM (now() - v_bucket.updated_at)) * v_policy.refill_per_hour / 3600
+  );
+
+  v_allowed := p_force OR v_tokens >= p_cost;
+  IF v_allowed THEN
+    v_tokens := LEAST(v_tokens - p_cost, v_policy.capacity);
+  ELSIF v_policy.refill_per_hour > 0 AND p_cost <= v_policy.capacity THEN
+    v_retry_after := CEIL((p_cost - v_tokens) * 3600 / v_policy.refill_per_hour);
+  END IF;
+
+  UPDATE public.rate_limit_buckets
+  SET tokens = v_tokens, updated_at = now()
+  WHERE user_id = p_user_id AND quota_class = p_quota_class;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'unlimited', false,
+    'quota_class', p_quota_class,
+    'limit', v_policy.capacity,
+    'remaining', GREATEST(FLOOR(v_tokens), 0),
+    'refill_per_hour', v_policy.refill_per_hour,
+    'retry_after_seconds', v_retry_after
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, NUMERIC, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Current quota for each limited class of the caller's role, refilled to now
+-- without touching the buckets
+CREATE OR REPLACE FUNCTION public.get_my_rate_limits()
+RETURNS TABLE (
+  quota_class TEXT,
+  capacity NUMERIC,
+  remaining NUMERIC,
+  refill_per_hour NUMERIC,
+  full_at TIMESTAMP WITH TIME ZONE,
+  description TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH current AS (
+    SELECT
+      p.quota_class,
+      p.capacity,
+      p.refill_per_hour,
+      p.description,
+      CASE
+        WHEN b.user_id IS NULL THEN p.capacity
+        ELSE LEAST(p.capacity, b.tokens + EXTRACT(EPOCH FROM (now() - b.updated_at)) * p.refill_per_hour / 3600)
+      END AS tokens
+    FROM public.rate_limit_policies p
+    LEFT JOIN public.rate_limit_buckets b
+      ON b.user_id = auth.uid() AND b.quota_class = p.quota_class
+    WHERE auth.uid() IS NOT NULL
+      AND p.role = public.get_user_role(auth.uid())
+  )
+  SELECT
+    quota_class,
+    capacity,
+    GREATEST(FLOOR(tokens), 0),
+    refill_per_hour,
+    CASE
+      WHEN tokens >= capacity THEN now()
+      WHEN refill_per_hour > 0 THEN now() + make_interval(secs => (capacity - tokens) * 3600 / refill_per_hour)
+    END,
+    description
+  FROM current
+  ORDER BY quota_class
+$$;
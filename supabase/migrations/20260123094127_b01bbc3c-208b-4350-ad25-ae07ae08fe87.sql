@@ -0,0 +1,18 @@
+-- ============================================================================
+-- SECRET SCAN RESULTS
+-- Code proposals and GitHub operations keep the secret scanner's findings for
+-- the content they carry, so reviewers see them next to the diff. Findings
+-- hold masked previews only, never the secret.
+-- ============================================================================
+
+ALTER TABLE public.code_change_proposals
+ADD COLUMN secret_scan JSONB;
+
+ALTER TABLE public.github_operations
+ADD COLUMN secret_scan JSONB;
+
+COMMENT ON COLUMN public.code_change_proposals.secret_scan IS
+  'Secret scanner result for proposed_code: { blocked, filesScanned, findings[] }';
+
+COMMENT ON COLUMN public.github_operations.secret_scan IS
+  'Secret scanner result for files_changed: { blocked, filesScanned, findings[] }';
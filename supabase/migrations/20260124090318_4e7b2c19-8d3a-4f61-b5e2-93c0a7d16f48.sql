@@ -0,0 +1,62 @@
+-- ============================================================================
+-- TASK RUNS
+-- The advanced agent executes the tasks in ai_task_queue as a dependency
+-- graph. Tasks written by one analyze_multi_task call share a plan_id, and
+-- each execution of a plan is a row in ai_task_runs. The client pauses or
+-- cancels a run by changing its status through the agent; heartbeat_at lets
+-- a new run take over from one whose edge function died. A session has at
+-- most one running or paused run at a time.
+-- ============================================================================
+
+ALTER TABLE public.ai_task_queue
+ADD COLUMN plan_id UUID;
+
+CREATE INDEX idx_task_queue_plan ON public.ai_task_queue(session_id, plan_id, task_order);
+
+COMMENT ON COLUMN public.ai_task_queue.status IS
+  'pending, awaiting_info, awaiting_approval, approved, executing, completed, failed, rejected, skipped (a dependency did not complete) or cancelled';
+
+COMMENT ON COLUMN public.ai_task_queue.task_context IS
+  'Planner output: { dependencies: task_order[], required_info[], missing_info[], parameters: {} }';
+
+CREATE TABLE public.ai_task_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id UUID,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'paused', 'blocked', 'completed', 'cancelled')),
+  -- Why the run paused or stopped short; 'time_budget' means it yielded and
+  -- resumes when run again
+  status_reason TEXT,
+  concurrency INTEGER NOT NULL DEFAULT 3 CHECK (concurrency BETWEEN 1 AND 10),
+  heartbeat_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_ai_task_runs_active
+ON public.ai_task_runs(session_id)
+WHERE status IN ('running', 'paused');
+
+CREATE INDEX idx_ai_task_runs_session ON public.ai_task_runs(session_id, created_at DESC);
+
+ALTER TABLE public.ai_task_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are started and controlled through the advanced-agent function
+CREATE POLICY "Users can view their own task runs"
+ON public.ai_task_runs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_ai_task_runs_updated_at
+BEFORE UPDATE ON public.ai_task_runs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tasks are now executed for real, so only the service role may create them
+DROP POLICY IF EXISTS "System can manage tasks" ON public.ai_task_queue;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ai_task_queue;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ai_task_runs;
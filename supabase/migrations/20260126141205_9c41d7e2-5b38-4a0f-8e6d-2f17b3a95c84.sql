@@ -0,0 +1,5 @@
+-- Tasks now carry slot-filling state in task_context: the questions still
+-- open for required parameters and why the last answers were refused. It is
+-- kept on the task so a half-filled task survives reloads.
+COMMENT ON COLUMN public.ai_task_queue.task_context IS
+  'Planner and slot-filling state: { dependencies: task_order[], parameters: {}, required_info[], missing_info[] (parameter names), questions: [{ name, label, question, kind, options?, error? }], slot_errors: { name: reason } }';
@@ -0,0 +1,514 @@
+-- ============================================================================
+-- APPROVAL ENGINE
+-- Everything that waits on a human decision (leave requests, generic approval
+-- requests, code change requests and proposals, GitHub operations, database
+-- migrations and agent tasks) is registered as an approval_items row by the
+-- triggers below. The item carries the chain of steps it has to pass, copied
+-- from the highest-priority matching approval_chains row when it is
+-- registered, or the source's default approver when no chain matches.
+--
+-- Decisions go through the approvals edge function, which checks who may act
+-- on the current step (including delegates), records the decision, advances
+-- the item and writes the outcome back to the source row. Source rows with an
+-- open item cannot be approved or rejected directly by users.
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN manager_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.profiles.manager_id IS
+  'Approves the manager steps of approval chains for this user';
+
+CREATE TABLE public.approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- NULL applies the chain to every item type
+  item_types TEXT[],
+  -- { min_days?: number, risk_levels?: string[] }; every condition given must hold
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- [{ name, approver: { kind: 'manager' | 'role' | 'requester', role? },
+  --    required_approvals?: number, sla_hours?: number, escalate_to?: app_role }]
+  steps JSONB NOT NULL CHECK (jsonb_typeof(steps) = 'array' AND jsonb_array_length(steps) > 0),
+  -- The matching chain with the highest priority wins
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.approval_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_type TEXT NOT NULL CHECK (item_type IN (
+    'leave_request', 'approval_request', 'code_change_request', 'code_change_proposal',
+    'github_operation', 'database_migration', 'agent_task'
+  )),
+  source_table TEXT NOT NULL,
+  source_id UUID NOT NULL,
+  requester_id UUID,
+  -- The requester's manager when the item was registered
+  manager_id UUID,
+  title TEXT NOT NULL,
+  summary TEXT,
+  risk_level TEXT NOT NULL DEFAULT 'low',
+  -- What the approver needs to see, e.g. dates and days of leave or the changed file
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  chain_id UUID REFERENCES public.approval_chains(id) ON DELETE SET NULL,
+  chain_name TEXT NOT NULL,
+  -- Copied from the chain, so editing a chain only affects new items
+  steps JSONB NOT NULL,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  step_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- NULL when the current step has no SLA
+  step_due_at TIMESTAMP WITH TIME ZONE,
+  -- Set once the current step has passed its SLA and been escalated
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A source row has at most one open item; a row that needs approval again
+-- (an edited agent task, for example) gets a new one
+CREATE UNIQUE INDEX idx_approval_items_open
+ON public.approval_items(source_table, source_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_approval_items_pending ON public.approval_items(status, step_due_at);
+CREATE INDEX idx_approval_items_requester ON public.approval_items(requester_id, created_at DESC);
+
+CREATE TABLE public.approval_decisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_id UUID NOT NULL REFERENCES public.approval_items(id) ON DELETE CASCADE,
+  step_index INTEGER NOT NULL,
+  approver_id UUID NOT NULL,
+  -- The approver a delegate decided for
+  on_behalf_of UUID,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Nobody decides twice on one item, whether in person or through a delegate
+CREATE UNIQUE INDEX idx_approval_decisions_approver ON public.approval_decisions(item_id, approver_id);
+CREATE UNIQUE INDEX idx_approval_decisions_principal
+ON public.approval_decisions(item_id, (COALESCE(on_behalf_of, approver_id)));
+
+CREATE TABLE public.approval_delegations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delegator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL covers every item type
+  item_types TEXT[],
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (delegator_id <> delegate_id),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_approval_delegations_delegate ON public.approval_delegations(delegate_id, ends_at);
+CREATE INDEX idx_approval_delegations_delegator ON public.approval_delegations(delegator_id, ends_at);
+
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_decisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view approval chains"
+ON public.approval_chains
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "HR and developers can manage approval chains"
+ON public.approval_chains
+FOR ALL
+USING (public.has_role(auth.uid(), 'hr') OR public.has_role(auth.uid(), 'developer'))
+WITH CHECK (public.has_role(auth.uid(), 'hr') OR public.has_role(auth.uid(), 'developer'));
+
+-- Items, decisions and delegations are written by the triggers below and the
+-- approvals function; approvers read their inbox through the function
+CREATE POLICY "Requesters can view their approval items"
+ON public.approval_items
+FOR SELECT
+USING (auth.uid() = requester_id);
+
+CREATE POLICY "HR, IT and developers can view approval items"
+ON public.approval_items
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'hr')
+  OR public.has_role(auth.uid(), 'it')
+  OR public.has_role(auth.uid(), 'developer')
+);
+
+CREATE POLICY "Approvers and requesters can view decisions"
+ON public.approval_decisions
+FOR SELECT
+USING (
+  auth.uid() = approver_id
+  OR auth.uid() = on_behalf_of
+  OR EXISTS (SELECT 1 FROM public.approval_items i WHERE i.id = item_id AND i.requester_id = auth.uid())
+);
+
+CREATE POLICY "Delegators and delegates can view delegations"
+ON public.approval_delegations
+FOR SELECT
+USING (auth.uid() = delegator_id OR auth.uid() = delegate_id);
+
+CREATE TRIGGER update_approval_chains_updated_at
+BEFORE UPDATE ON public.approval_chains
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_approval_items_updated_at
+BEFORE UPDATE ON public.approval_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- REGISTRATION
+-- ============================================================================
+
+-- Whether a source row is waiting on a decision
+CREATE OR REPLACE FUNCTION public.approval_awaiting(p_table TEXT, p_row JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_table
+    WHEN 'github_operations' THEN
+      COALESCE(p_row ->> 'status', 'pending') = 'pending'
+      AND COALESCE((p_row ->> 'requires_approval')::BOOLEAN, true)
+    WHEN 'ai_task_queue' THEN
+      p_row ->> 'status' = 'awaiting_approval'
+      AND COALESCE((p_row ->> 'approval_required')::BOOLEAN, false)
+    ELSE COALESCE(p_row ->> 'status', 'pending') = 'pending'
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_approval_item(
+  p_item_type TEXT,
+  p_source_table TEXT,
+  p_source_id UUID,
+  p_requester_id UUID,
+  p_title TEXT,
+  p_summary TEXT,
+  p_risk_level TEXT,
+  p_details JSONB,
+  p_default_step JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chain public.approval_chains%ROWTYPE;
+  v_steps JSONB;
+  v_manager_id UUID;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.approval_items
+    WHERE source_table = p_source_table AND source_id = p_source_id AND status = 'pending'
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_chain
+  FROM public.approval_chains c
+  WHERE c.is_active
+    AND (c.item_types IS NULL OR p_item_type = ANY (c.item_types))
+    AND (NOT c.conditions ? 'min_days'
+      OR COALESCE((p_details ->> 'days')::INTEGER, 0) >= (c.conditions ->> 'min_days')::INTEGER)
+    AND (NOT c.conditions ? 'risk_levels' OR c.conditions -> 'risk_levels' ? p_risk_level)
+  ORDER BY c.priority DESC, c.created_at
+  LIMIT 1;
+
+  v_steps := COALESCE(v_chain.steps, jsonb_build_array(p_default_step));
+
+  IF p_requester_id IS NOT NULL THEN
+    SELECT manager_id INTO v_manager_id FROM public.profiles WHERE user_id = p_requester_id;
+  END IF;
+
+  INSERT INTO public.approval_items (
+    item_type, source_table, source_id, requester_id, manager_id, title, summary, risk_level,
+    details, chain_id, chain_name, steps, step_due_at
+  )
+  VALUES (
+    p_item_type, p_source_table, p_source_id, p_requester_id, v_manager_id, p_title, p_summary,
+    COALESCE(p_risk_level, 'low'), p_details, v_chain.id, COALESCE(v_chain.name, 'Default approval'), v_steps,
+    now() + ((v_steps -> 0 ->> 'sla_hours')::NUMERIC * INTERVAL '1 hour')
+  );
+END;
+$$;
+
+-- Register a source row that waits on a decision, with what its approvers
+-- need to see and the default approver used when no chain matches
+CREATE OR REPLACE FUNCTION public.register_source_approval(p_table TEXT, r JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := (r ->> 'id')::UUID;
+  v_days INTEGER;
+  v_requester UUID;
+  v_developer_step JSONB := jsonb_build_object(
+    'name', 'Developer review',
+    'approver', jsonb_build_object('kind', 'role', 'role', 'developer'),
+    'sla_hours', 24
+  );
+BEGIN
+  CASE p_table
+    WHEN 'leave_requests' THEN
+      v_days := (r ->> 'end_date')::DATE - (r ->> 'start_date')::DATE + 1;
+      PERFORM public.register_approval_item(
+        'leave_request', p_table, v_id, (r ->> 'user_id')::UUID,
+        initcap(r ->> 'leave_type') || ' leave, ' || v_days || ' day' || CASE WHEN v_days = 1 THEN '' ELSE 's' END,
+        r ->> 'reason',
+        r ->> 'risk_level',
+        jsonb_build_object('leave_type', r ->> 'leave_type', 'start_date', r ->> 'start_date', 'end_date', r ->> 'end_date', 'days', v_days),
+        jsonb_build_object('name', 'HR approval', 'approver', jsonb_build_object('kind', 'role', 'role', 'hr'), 'sla_hours', 48)
+      );
+
+    WHEN 'approval_requests' THEN
+      PERFORM public.register_approval_item(
+        'approval_request', p_table, v_id, (r ->> 'requester_id')::UUID,
+        r ->> 'title',
+        r ->> 'description',
+        COALESCE(r #>> '{request_data,risk_level}', 'medium'),
+        jsonb_build_object('request_type', r ->> 'request_type', 'request_data', r -> 'request_data'),
+        jsonb_build_object('name', 'Approval', 'approver', jsonb_build_object('kind', 'role', 'role', r ->> 'approver_role'), 'sla_hours', 48)
+      );
+
+    WHEN 'code_change_requests' THEN
+      PERFORM public.register_approval_item(
+        'code_change_request', p_table, v_id, (r ->> 'requester_id')::UUID,
+        'Change to ' || (r ->> 'file_path'),
+        r ->> 'change_reason',
+        'medium',
+        jsonb_build_object('file_path', r ->> 'file_path', 'proposed_code', left(r ->> 'proposed_code', 4000)),
+        v_developer_step
+      );
+
+    WHEN 'code_change_proposals' THEN
+      SELECT reporter_id INTO v_requester FROM public.dev_tickets WHERE id = (r ->> 'ticket_id')::UUID;
+      PERFORM public.register_approval_item(
+        'code_change_proposal', p_table, v_id, v_requester,
+        initcap(COALESCE(r ->> 'change_type', 'patch')) || ' to ' || (r ->> 'file_path'),
+        r ->> 'explanation',
+        r ->> 'risk_level',
+        jsonb_build_object('file_path', r ->> 'file_path', 'ticket_id', r ->> 'ticket_id', 'proposed_code', left(r ->> 'proposed_code', 4000)),
+        v_developer_step
+      );
+
+    WHEN 'github_operations' THEN
+      PERFORM public.register_approval_item(
+        'github_operation', p_table, v_id, (r ->> 'user_id')::UUID,
+        replace(r ->> 'operation_type', '_', ' ') || ' on ' || COALESCE((r ->> 'repo_owner') || '/' || (r ->> 'repo_name'), 'the repository'),
+        COALESCE(r ->> 'pr_title', r ->> 'commit_message'),
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'branch_name', r ->> 'branch_name',
+          'target_branch', r ->> 'target_branch',
+          'files_changed', jsonb_array_length(COALESCE(r -> 'files_changed', '[]'::jsonb))
+        ),
+        v_developer_step
+      );
+
+    WHEN 'database_migrations_log' THEN
+      PERFORM public.register_approval_item(
+        'database_migration', p_table, v_id, (r ->> 'user_id')::UUID,
+        'Migration ' || (r ->> 'migration_name'),
+        r ->> 'migration_description',
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'tables_affected', r -> 'tables_affected',
+          'migration_sql', left(r ->> 'migration_sql', 4000)
+        ),
+        v_developer_step
+      );
+
+    WHEN 'ai_task_queue' THEN
+      -- Agent tasks are confirmed by whoever asked for them unless a chain
+      -- says otherwise
+      PERFORM public.register_approval_item(
+        'agent_task', p_table, v_id, (r ->> 'user_id')::UUID,
+        r ->> 'task_description',
+        NULL,
+        r ->> 'risk_level',
+        jsonb_build_object('task_type', r ->> 'task_type', 'session_id', r ->> 'session_id', 'plan_id', r ->> 'plan_id'),
+        jsonb_build_object('name', 'Confirmation', 'approver', jsonb_build_object('kind', 'requester'))
+      );
+  END CASE;
+END;
+$$;
+
+-- Registers rows that start waiting on a decision and cancels the open item
+-- of rows that stop waiting without one (a cancelled task, for example). The
+-- approvals function closes the item before it updates the source row, so
+-- its own updates find nothing to cancel.
+CREATE OR REPLACE FUNCTION public.sync_approval_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_awaiting BOOLEAN := public.approval_awaiting(TG_TABLE_NAME, to_jsonb(NEW));
+BEGIN
+  IF TG_OP = 'UPDATE' AND v_awaiting = public.approval_awaiting(TG_TABLE_NAME, to_jsonb(OLD)) THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_awaiting THEN
+    PERFORM public.register_source_approval(TG_TABLE_NAME, to_jsonb(NEW));
+  ELSE
+    UPDATE public.approval_items
+    SET status = 'cancelled', decided_at = now()
+    WHERE source_table = TG_TABLE_NAME AND source_id = NEW.id AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Users may not decide a row that has an open item themselves; the
+-- approvals function (service role) applies decisions once the chain is done
+CREATE OR REPLACE FUNCTION public.guard_approval_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IN ('authenticated', 'anon')
+    AND NEW.status IN ('approved', 'rejected')
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND EXISTS (
+      SELECT 1 FROM public.approval_items
+      WHERE source_table = TG_TABLE_NAME AND source_id = OLD.id AND status = 'pending'
+    )
+  THEN
+    RAISE EXCEPTION 'This request is waiting on its approval chain; decide it from the approval inbox'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'leave_requests', 'approval_requests', 'code_change_requests', 'code_change_proposals',
+    'github_operations', 'database_migrations_log', 'ai_task_queue'
+  ] LOOP
+    EXECUTE format(
+      'CREATE TRIGGER guard_approval_%1$s BEFORE UPDATE ON public.%1$I FOR EACH ROW EXECUTE FUNCTION public.guard_approval_decision()',
+      t
+    );
+    EXECUTE format(
+      'CREATE TRIGGER sync_approval_%1$s AFTER INSERT OR UPDATE ON public.%1$I FOR EACH ROW EXECUTE FUNCTION public.sync_approval_item()',
+      t
+    );
+  END LOOP;
+END;
+$$;
+
+-- Decisions are part of the tamper-evident audit ledger
+CREATE OR REPLACE FUNCTION public.ledger_approval_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audit_ledger (source, source_id, event, actor_id, tool, arguments, decision, approver_id, reason)
+  SELECT
+    'approval_decisions',
+    NEW.id,
+    'approval.' || NEW.decision,
+    NEW.approver_id,
+    'approval',
+    jsonb_build_object(
+      'item_id', NEW.item_id,
+      'source_table', i.source_table,
+      'source_id', i.source_id,
+      'step', NEW.step_index,
+      'on_behalf_of', NEW.on_behalf_of
+    ),
+    NEW.decision,
+    NEW.approver_id,
+    NEW.comment
+  FROM public.approval_items i
+  WHERE i.id = NEW.item_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_approval_decisions
+AFTER INSERT ON public.approval_decisions
+FOR EACH ROW
+EXECUTE FUNCTION public.ledger_approval_decision();
+
+-- ============================================================================
+-- DEFAULT CHAINS
+-- Rows without a matching chain use their source's default approver: HR for
+-- leave, the requested role for approval requests, a developer for code,
+-- GitHub and migrations, and the requester for agent tasks.
+-- ============================================================================
+INSERT INTO public.approval_chains (name, description, item_types, conditions, steps, priority)
+VALUES
+(
+  'Long leave',
+  'Leave of more than 10 days is approved by the requester''s manager and then HR',
+  ARRAY['leave_request'],
+  '{"min_days": 11}'::jsonb,
+  '[
+    {"name": "Manager approval", "approver": {"kind": "manager"}, "sla_hours": 24, "escalate_to": "hr"},
+    {"name": "HR approval", "approver": {"kind": "role", "role": "hr"}, "sla_hours": 48}
+  ]'::jsonb,
+  10
+),
+(
+  'Critical change',
+  'Critical-risk changes need two developers',
+  ARRAY['code_change_request', 'code_change_proposal', 'github_operation', 'database_migration', 'agent_task'],
+  '{"risk_levels": ["critical"]}'::jsonb,
+  '[
+    {"name": "Developer review", "approver": {"kind": "role", "role": "developer"}, "required_approvals": 2, "sla_hours": 24}
+  ]'::jsonb,
+  20
+);
+
+-- Register what was already waiting when the engine was introduced
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'leave_requests', 'approval_requests', 'code_change_requests', 'code_change_proposals',
+    'github_operations', 'database_migrations_log', 'ai_task_queue'
+  ] LOOP
+    EXECUTE format(
+      'SELECT public.register_source_approval(%1$L, to_jsonb(s)) FROM public.%1$I s
+       WHERE public.approval_awaiting(%1$L, to_jsonb(s)) ORDER BY s.created_at',
+      t
+    );
+  END LOOP;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.approval_items;
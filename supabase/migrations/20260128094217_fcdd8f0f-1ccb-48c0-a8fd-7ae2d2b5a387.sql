@@ -0,0 +1,302 @@
+-- ============================================================================
+-- APPROVED ACTION EXECUTION
+-- Approved GitHub operations, database migrations and file operations are
+-- carried out by the approvals function once their approval chain finishes.
+-- Only rows approved through the engine run, and each runs at most once:
+-- execution claims a row by setting executed_at while it is still approved
+-- and unexecuted, so a repeated approval or a second executor finds nothing
+-- to do.
+--
+-- File operations join the approval engine here; until now nothing could
+-- approve them. Their writes go to the private agent-files bucket.
+-- ============================================================================
+
+ALTER TABLE public.approval_items DROP CONSTRAINT approval_items_item_type_check;
+
+ALTER TABLE public.approval_items
+ADD CONSTRAINT approval_items_item_type_check CHECK (item_type IN (
+  'leave_request', 'approval_request', 'code_change_request', 'code_change_proposal',
+  'github_operation', 'database_migration', 'file_operation', 'agent_task'
+));
+
+CREATE OR REPLACE FUNCTION public.approval_awaiting(p_table TEXT, p_row JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_table
+    WHEN 'github_operations' THEN
+      COALESCE(p_row ->> 'status', 'pending') = 'pending'
+      AND COALESCE((p_row ->> 'requires_approval')::BOOLEAN, true)
+    WHEN 'file_operations_log' THEN
+      COALESCE(p_row ->> 'status', 'pending') = 'pending'
+      AND COALESCE((p_row ->> 'requires_approval')::BOOLEAN, true)
+    WHEN 'ai_task_queue' THEN
+      p_row ->> 'status' = 'awaiting_approval'
+      AND COALESCE((p_row ->> 'approval_required')::BOOLEAN, false)
+    ELSE COALESCE(p_row ->> 'status', 'pending') = 'pending'
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_source_approval(p_table TEXT, r JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := (r ->> 'id')::UUID;
+  v_days INTEGER;
+  v_requester UUID;
+  v_developer_step JSONB := jsonb_build_object(
+    'name', 'Developer review',
+    'approver', jsonb_build_object('kind', 'role', 'role', 'developer'),
+    'sla_hours', 24
+  );
+BEGIN
+  CASE p_table
+    WHEN 'leave_requests' THEN
+      v_days := (r ->> 'end_date')::DATE - (r ->> 'start_date')::DATE + 1;
+      PERFORM public.register_approval_item(
+        'leave_request', p_table, v_id, (r ->> 'user_id')::UUID,
+        initcap(r ->> 'leave_type') || ' leave, ' || v_days || ' day' || CASE WHEN v_days = 1 THEN '' ELSE 's' END,
+        r ->> 'reason',
+        r ->> 'risk_level',
+        jsonb_build_object('leave_type', r ->> 'leave_type', 'start_date', r ->> 'start_date', 'end_date', r ->> 'end_date', 'days', v_days),
+        jsonb_build_object('name', 'HR approval', 'approver', jsonb_build_object('kind', 'role', 'role', 'hr'), 'sla_hours', 48)
+      );
+
+    WHEN 'approval_requests' THEN
+      PERFORM public.register_approval_item(
+        'approval_request', p_table, v_id, (r ->> 'requester_id')::UUID,
+        r ->> 'title',
+        r ->> 'description',
+        COALESCE(r #>> '{request_data,risk_level}', 'medium'),
+        jsonb_build_object('request_type', r ->> 'request_type', 'request_data', r -> 'request_data'),
+        jsonb_build_object('name', 'Approval', 'approver', jsonb_build_object('kind', 'role', 'role', r ->> 'approver_role'), 'sla_hours', 48)
+      );
+
+    WHEN 'code_change_requests' THEN
+      PERFORM public.register_approval_item(
+        'code_change_request', p_table, v_id, (r ->> 'requester_id')::UUID,
+        'Change to ' || (r ->> 'file_path'),
+        r ->> 'change_reason',
+        'medium',
+        jsonb_build_object('file_path', r ->> 'file_path', 'proposed_code', left(r ->> 'proposed_code', 4000)),
+        v_developer_step
+      );
+
+    WHEN 'code_change_proposals' THEN
+      SELECT reporter_id INTO v_requester FROM public.dev_tickets WHERE id = (r ->> 'ticket_id')::UUID;
+      PERFORM public.register_approval_item(
+        'code_change_proposal', p_table, v_id, v_requester,
+        initcap(COALESCE(r ->> 'change_type', 'patch')) || ' to ' || (r ->> 'file_path'),
+        r ->> 'explanation',
+        r ->> 'risk_level',
+        jsonb_build_object('file_path', r ->> 'file_path', 'ticket_id', r ->> 'ticket_id', 'proposed_code', left(r ->> 'proposed_code', 4000)),
+        v_developer_step
+      );
+
+    WHEN 'github_operations' THEN
+      PERFORM public.register_approval_item(
+        'github_operation', p_table, v_id, (r ->> 'user_id')::UUID,
+        replace(r ->> 'operation_type', '_', ' ') || ' on ' || COALESCE((r ->> 'repo_owner') || '/' || (r ->> 'repo_name'), 'the repository'),
+        COALESCE(r ->> 'pr_title', r ->> 'commit_message'),
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'branch_name', r ->> 'branch_name',
+          'target_branch', r ->> 'target_branch',
+          'files_changed', jsonb_array_length(COALESCE(r -> 'files_changed', '[]'::jsonb))
+        ),
+        v_developer_step
+      );
+
+    WHEN 'database_migrations_log' THEN
+      PERFORM public.register_approval_item(
+        'database_migration', p_table, v_id, (r ->> 'user_id')::UUID,
+        'Migration ' || (r ->> 'migration_name'),
+        r ->> 'migration_description',
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'tables_affected', r -> 'tables_affected',
+          'migration_sql', left(r ->> 'migration_sql', 4000)
+        ),
+        v_developer_step
+      );
+
+    WHEN 'file_operations_log' THEN
+      PERFORM public.register_approval_item(
+        'file_operation', p_table, v_id, (r ->> 'user_id')::UUID,
+        initcap(r ->> 'operation_type') || ' ' || (r ->> 'file_path'),
+        r ->> 'change_description',
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'file_path', r ->> 'file_path',
+          'proposed_code', left(r ->> 'file_content', 4000)
+        ),
+        v_developer_step
+      );
+
+    WHEN 'ai_task_queue' THEN
+      -- Agent tasks are confirmed by whoever asked for them unless a chain
+      -- says otherwise
+      PERFORM public.register_approval_item(
+        'agent_task', p_table, v_id, (r ->> 'user_id')::UUID,
+        r ->> 'task_description',
+        NULL,
+        r ->> 'risk_level',
+        jsonb_build_object('task_type', r ->> 'task_type', 'session_id', r ->> 'session_id', 'plan_id', r ->> 'plan_id'),
+        jsonb_build_object('name', 'Confirmation', 'approver', jsonb_build_object('kind', 'requester'))
+      );
+  END CASE;
+END;
+$$;
+
+CREATE TRIGGER guard_approval_file_operations_log
+BEFORE UPDATE ON public.file_operations_log
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_approval_decision();
+
+CREATE TRIGGER sync_approval_file_operations_log
+AFTER INSERT OR UPDATE ON public.file_operations_log
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_approval_item();
+
+UPDATE public.approval_chains
+SET item_types = array_append(item_types, 'file_operation')
+WHERE name = 'Critical change' AND NOT ('file_operation' = ANY (item_types));
+
+SELECT public.register_source_approval('file_operations_log', to_jsonb(f))
+FROM public.file_operations_log f
+WHERE public.approval_awaiting('file_operations_log', to_jsonb(f))
+ORDER BY f.created_at;
+
+-- ============================================================================
+-- RUN ONCE
+-- What ran, and what was approved to run, is fixed for users: an executed
+-- row cannot be reset to run again, and an approved row's payload cannot be
+-- swapped for something the approvers never saw. The trigger arguments name
+-- each table's payload columns.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.guard_approved_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_column TEXT;
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.executed_at IS NOT NULL
+    AND (NEW.executed_at IS DISTINCT FROM OLD.executed_at OR NEW.status IS DISTINCT FROM OLD.status)
+  THEN
+    RAISE EXCEPTION 'This action has already run and cannot be run again; request a new one'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.status = 'approved' THEN
+    FOREACH v_column IN ARRAY TG_ARGV LOOP
+      IF to_jsonb(NEW) -> v_column IS DISTINCT FROM to_jsonb(OLD) -> v_column THEN
+        RAISE EXCEPTION 'An approved action cannot be edited; request a new one'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_approved_github_operations
+BEFORE UPDATE ON public.github_operations
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_approved_action(
+  'operation_type', 'repo_owner', 'repo_name', 'branch_name', 'target_branch', 'pr_number',
+  'pr_title', 'pr_body', 'commit_message', 'files_changed', 'operation_data'
+);
+
+CREATE TRIGGER guard_approved_database_migrations_log
+BEFORE UPDATE ON public.database_migrations_log
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_approved_action('migration_sql', 'rollback_sql', 'operation_type');
+
+CREATE TRIGGER guard_approved_file_operations_log
+BEFORE UPDATE ON public.file_operations_log
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_approved_action('operation_type', 'file_path', 'file_content');
+
+-- Runs an approved migration in one transaction: the claim and the
+-- migration's statements commit together, and a failing statement rolls the
+-- migration back and records the error. Returns
+-- { executed: boolean, error?: string }; executed is false without an error
+-- when there was nothing to run.
+CREATE OR REPLACE FUNCTION public.execute_approved_migration(p_migration_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sql TEXT;
+BEGIN
+  UPDATE public.database_migrations_log m
+  SET status = 'executed', executed_at = now(), error_message = NULL
+  WHERE m.id = p_migration_id
+    AND m.status = 'approved'
+    AND m.executed_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.approval_items i
+      WHERE i.source_table = 'database_migrations_log' AND i.source_id = m.id AND i.status = 'approved'
+    )
+  RETURNING m.migration_sql INTO v_sql;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('executed', false);
+  END IF;
+
+  BEGIN
+    EXECUTE v_sql;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.database_migrations_log
+    SET status = 'failed', error_message = SQLERRM,
+        execution_result = jsonb_build_object('sqlstate', SQLSTATE, 'executed_at', now())
+    WHERE id = p_migration_id;
+    RETURN jsonb_build_object('executed', false, 'error', SQLERRM);
+  END;
+
+  UPDATE public.database_migrations_log
+  SET execution_result = jsonb_build_object('executed_at', now())
+  WHERE id = p_migration_id;
+  RETURN jsonb_build_object('executed', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.execute_approved_migration(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Approved file operations write here; developers can read the results
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('agent-files', 'agent-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Developers can read agent files" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'agent-files'
+  AND public.has_role(auth.uid(), 'developer')
+);
+
+CREATE INDEX idx_github_operations_unexecuted ON public.github_operations(approved_at)
+WHERE status = 'approved' AND executed_at IS NULL;
+
+CREATE INDEX idx_migrations_log_unexecuted ON public.database_migrations_log(approved_at)
+WHERE status = 'approved' AND executed_at IS NULL;
+
+CREATE INDEX idx_file_operations_unexecuted ON public.file_operations_log(approved_at)
+WHERE status = 'approved' AND executed_at IS NULL;
@@ -0,0 +1,196 @@
+-- ============================================================================
+-- APPROVAL CHAIN BYPASS
+-- A row stops waiting on its chain when its approval flag is cleared or its
+-- status moves on, and the open item is then cancelled. Users could do both
+-- themselves, so a task could be sent back to pending without approval and
+-- run. Only the approvals function (service role) may now take a row out of
+-- waiting other than by cancelling it, users may only ever raise the
+-- approval flags, and a row whose chain was cancelled or rejected cannot be
+-- marked approved by its owner afterwards.
+--
+-- Approval requests always name an approver role; should one arrive
+-- without, it goes to HR rather than to a step nobody can decide.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_approval_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new JSONB := to_jsonb(NEW);
+  v_old JSONB := to_jsonb(OLD);
+  v_flag TEXT;
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected')
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND EXISTS (
+      SELECT 1 FROM public.approval_items
+      WHERE source_table = TG_TABLE_NAME AND source_id = OLD.id AND status = 'pending'
+    )
+  THEN
+    RAISE EXCEPTION 'This request is waiting on its approval chain; decide it from the approval inbox'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A row whose last item was cancelled or rejected stays unapproved
+  IF NEW.status = 'approved'
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND COALESCE((
+      SELECT status FROM public.approval_items
+      WHERE source_table = TG_TABLE_NAME AND source_id = OLD.id
+      ORDER BY created_at DESC
+      LIMIT 1
+    ), 'approved') <> 'approved'
+  THEN
+    RAISE EXCEPTION 'This request was not approved through its approval chain'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOREACH v_flag IN ARRAY ARRAY['approval_required', 'requires_approval'] LOOP
+    IF v_new ? v_flag
+      AND (v_new ->> v_flag) IS DISTINCT FROM (v_old ->> v_flag)
+      AND (v_new ->> v_flag) IS DISTINCT FROM 'true'
+    THEN
+      RAISE EXCEPTION 'Approval cannot be switched off for this request'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END LOOP;
+
+  IF public.approval_awaiting(TG_TABLE_NAME, v_old)
+    AND NOT public.approval_awaiting(TG_TABLE_NAME, v_new)
+    AND NEW.status IS DISTINCT FROM 'cancelled'
+  THEN
+    RAISE EXCEPTION 'This request is waiting on its approval chain; it can only be cancelled'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_source_approval(p_table TEXT, r JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := (r ->> 'id')::UUID;
+  v_days INTEGER;
+  v_requester UUID;
+  v_developer_step JSONB := jsonb_build_object(
+    'name', 'Developer review',
+    'approver', jsonb_build_object('kind', 'role', 'role', 'developer'),
+    'sla_hours', 24
+  );
+BEGIN
+  CASE p_table
+    WHEN 'leave_requests' THEN
+      v_days := (r ->> 'end_date')::DATE - (r ->> 'start_date')::DATE + 1;
+      PERFORM public.register_approval_item(
+        'leave_request', p_table, v_id, (r ->> 'user_id')::UUID,
+        initcap(r ->> 'leave_type') || ' leave, ' || v_days || ' day' || CASE WHEN v_days = 1 THEN '' ELSE 's' END,
+        r ->> 'reason',
+        r ->> 'risk_level',
+        jsonb_build_object('leave_type', r ->> 'leave_type', 'start_date', r ->> 'start_date', 'end_date', r ->> 'end_date', 'days', v_days),
+        jsonb_build_object('name', 'HR approval', 'approver', jsonb_build_object('kind', 'role', 'role', 'hr'), 'sla_hours', 48)
+      );
+
+    WHEN 'approval_requests' THEN
+      PERFORM public.register_approval_item(
+        'approval_request', p_table, v_id, (r ->> 'requester_id')::UUID,
+        r ->> 'title',
+        r ->> 'description',
+        COALESCE(r #>> '{request_data,risk_level}', 'medium'),
+        jsonb_build_object('request_type', r ->> 'request_type', 'request_data', r -> 'request_data'),
+        jsonb_build_object(
+          'name', 'Approval',
+          'approver', jsonb_build_object('kind', 'role', 'role', COALESCE(r ->> 'approver_role', 'hr')),
+          'sla_hours', 48
+        )
+      );
+
+    WHEN 'code_change_requests' THEN
+      PERFORM public.register_approval_item(
+        'code_change_request', p_table, v_id, (r ->> 'requester_id')::UUID,
+        'Change to ' || (r ->> 'file_path'),
+        r ->> 'change_reason',
+        'medium',
+        jsonb_build_object('file_path', r ->> 'file_path', 'proposed_code', left(r ->> 'proposed_code', 4000)),
+        v_developer_step
+      );
+
+    WHEN 'code_change_proposals' THEN
+      SELECT reporter_id INTO v_requester FROM public.dev_tickets WHERE id = (r ->> 'ticket_id')::UUID;
+      PERFORM public.register_approval_item(
+        'code_change_proposal', p_table, v_id, v_requester,
+        initcap(COALESCE(r ->> 'change_type', 'patch')) || ' to ' || (r ->> 'file_path'),
+        r ->> 'explanation',
+        r ->> 'risk_level',
+        jsonb_build_object('file_path', r ->> 'file_path', 'ticket_id', r ->> 'ticket_id', 'proposed_code', left(r ->> 'proposed_code', 4000)),
+        v_developer_step
+      );
+
+    WHEN 'github_operations' THEN
+      PERFORM public.register_approval_item(
+        'github_operation', p_table, v_id, (r ->> 'user_id')::UUID,
+        replace(r ->> 'operation_type', '_', ' ') || ' on ' || COALESCE((r ->> 'repo_owner') || '/' || (r ->> 'repo_name'), 'the repository'),
+        COALESCE(r ->> 'pr_title', r ->> 'commit_message'),
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'branch_name', r ->> 'branch_name',
+          'target_branch', r ->> 'target_branch',
+          'files_changed', jsonb_array_length(COALESCE(r -> 'files_changed', '[]'::jsonb))
+        ),
+        v_developer_step
+      );
+
+    WHEN 'database_migrations_log' THEN
+      PERFORM public.register_approval_item(
+        'database_migration', p_table, v_id, (r ->> 'user_id')::UUID,
+        'Migration ' || (r ->> 'migration_name'),
+        r ->> 'migration_description',
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'tables_affected', r -> 'tables_affected',
+          'migration_sql', left(r ->> 'migration_sql', 4000)
+        ),
+        v_developer_step
+      );
+
+    WHEN 'file_operations_log' THEN
+      PERFORM public.register_approval_item(
+        'file_operation', p_table, v_id, (r ->> 'user_id')::UUID,
+        initcap(r ->> 'operation_type') || ' ' || (r ->> 'file_path'),
+        r ->> 'change_description',
+        r ->> 'risk_level',
+        jsonb_build_object(
+          'operation_type', r ->> 'operation_type',
+          'file_path', r ->> 'file_path',
+          'proposed_code', left(r ->> 'file_content', 4000)
+        ),
+        v_developer_step
+      );
+
+    WHEN 'ai_task_queue' THEN
+      -- Agent tasks are confirmed by whoever asked for them unless a chain
+      -- says otherwise
+      PERFORM public.register_approval_item(
+        'agent_task', p_table, v_id, (r ->> 'user_id')::UUID,
+        r ->> 'task_description',
+        NULL,
+        r ->> 'risk_level',
+        jsonb_build_object('task_type', r ->> 'task_type', 'session_id', r ->> 'session_id', 'plan_id', r ->> 'plan_id'),
+        jsonb_build_object('name', 'Confirmation', 'approver', jsonb_build_object('kind', 'requester'))
+      );
+  END CASE;
+END;
+$$;
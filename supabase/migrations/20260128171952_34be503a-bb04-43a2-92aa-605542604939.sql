@@ -0,0 +1,113 @@
+-- ============================================================================
+-- APPROVALS MATCH WHAT RUNS
+-- Any approved item ever recorded for a row used to let it run. An owner
+-- could move an approved, unexecuted row back, change its payload and have
+-- it marked approved again without the chain seeing the change. Rows now
+-- record when their payload last changed, and only run when their latest
+-- approval item is approved and was decided after that. Users can no longer
+-- move a row out of approved or change whether it requires approval.
+-- ============================================================================
+
+-- Existing rows keep NULL, read as their created_at, so rows approved
+-- before this migration still run
+ALTER TABLE public.github_operations ADD COLUMN payload_changed_at TIMESTAMPTZ;
+ALTER TABLE public.github_operations ALTER COLUMN payload_changed_at SET DEFAULT now();
+
+ALTER TABLE public.database_migrations_log ADD COLUMN payload_changed_at TIMESTAMPTZ;
+ALTER TABLE public.database_migrations_log ALTER COLUMN payload_changed_at SET DEFAULT now();
+
+ALTER TABLE public.file_operations_log ADD COLUMN payload_changed_at TIMESTAMPTZ;
+ALTER TABLE public.file_operations_log ALTER COLUMN payload_changed_at SET DEFAULT now();
+
+-- payload_changed_at is kept by the trigger for every caller, so it cannot
+-- be set by hand
+CREATE OR REPLACE FUNCTION public.guard_approved_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_column TEXT;
+  v_changed BOOLEAN := false;
+BEGIN
+  FOREACH v_column IN ARRAY TG_ARGV LOOP
+    IF to_jsonb(NEW) -> v_column IS DISTINCT FROM to_jsonb(OLD) -> v_column THEN
+      v_changed := true;
+    END IF;
+  END LOOP;
+  NEW.payload_changed_at := CASE WHEN v_changed THEN now() ELSE OLD.payload_changed_at END;
+
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.executed_at IS NOT NULL
+    AND (NEW.executed_at IS DISTINCT FROM OLD.executed_at OR NEW.status IS DISTINCT FROM OLD.status)
+  THEN
+    RAISE EXCEPTION 'This action has already run and cannot be run again; request a new one'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.status = 'approved' AND (v_changed OR NEW.status IS DISTINCT FROM OLD.status) THEN
+    RAISE EXCEPTION 'An approved action cannot be changed; request a new one'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF to_jsonb(NEW) -> 'requires_approval' IS DISTINCT FROM to_jsonb(OLD) -> 'requires_approval' THEN
+    RAISE EXCEPTION 'Whether this action requires approval cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.execute_approved_migration(p_migration_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sql TEXT;
+BEGIN
+  UPDATE public.database_migrations_log m
+  SET status = 'executed', executed_at = now(), error_message = NULL
+  WHERE m.id = p_migration_id
+    AND m.status = 'approved'
+    AND m.executed_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM (
+        SELECT i.status, i.decided_at FROM public.approval_items i
+        WHERE i.source_table = 'database_migrations_log' AND i.source_id = m.id
+        ORDER BY i.created_at DESC
+        LIMIT 1
+      ) latest
+      WHERE latest.status = 'approved'
+        AND latest.decided_at > COALESCE(m.payload_changed_at, m.created_at, '-infinity')
+    )
+  RETURNING m.migration_sql INTO v_sql;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('executed', false);
+  END IF;
+
+  BEGIN
+    EXECUTE v_sql;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.database_migrations_log
+    SET status = 'failed', error_message = SQLERRM,
+        execution_result = jsonb_build_object('sqlstate', SQLSTATE, 'executed_at', now())
+    WHERE id = p_migration_id;
+    RETURN jsonb_build_object('executed', false, 'error', SQLERRM);
+  END;
+
+  UPDATE public.database_migrations_log
+  SET execution_result = jsonb_build_object('executed_at', now())
+  WHERE id = p_migration_id;
+  RETURN jsonb_build_object('executed', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.execute_approved_migration(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- MANAGERS ARE SET BY HR
+-- Manager steps go to profiles.manager_id, which users could write through
+-- their own profile, so a requester could name a second account of theirs
+-- as manager and approve their own leave. Only HR (or the service role) may
+-- now set or change a manager.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_profile_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') IN ('authenticated', 'anon')
+    AND NOT public.has_role(auth.uid(), 'hr')
+    AND NEW.manager_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.manager_id END)
+  THEN
+    RAISE EXCEPTION 'Managers are assigned by HR'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_manager
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_profile_manager();
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- POLICY CHECK QUOTA
+-- policy-evaluate now requires a signed-in caller and spends from the
+-- policy_check class on every call. The CLI checks each command it runs, so
+-- technical roles get more room.
+-- ============================================================================
+
+INSERT INTO public.rate_limit_policies (role, quota_class, capacity, refill_per_hour, description) VALUES
+  ('employee', 'policy_check', 60, 60, 'Guardrail policy evaluations'),
+  ('hr', 'policy_check', 60, 60, 'Guardrail policy evaluations'),
+  ('it', 'policy_check', 300, 300, 'Guardrail policy evaluations'),
+  ('developer', 'policy_check', 600, 600, 'Guardrail policy evaluations')
+ON CONFLICT (role, quota_class) DO NOTHING;
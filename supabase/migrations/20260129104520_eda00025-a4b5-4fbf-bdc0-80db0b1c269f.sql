@@ -0,0 +1,13 @@
+-- ============================================================================
+-- SECRET SCAN QUOTA
+-- The secret-scan function now requires a signed-in caller and spends from
+-- the secret_scan class on every request. Code review is done by technical
+-- roles, who get more room.
+-- ============================================================================
+
+INSERT INTO public.rate_limit_policies (role, quota_class, capacity, refill_per_hour, description) VALUES
+  ('employee', 'secret_scan', 20, 20, 'Secret scans of submitted files'),
+  ('hr', 'secret_scan', 20, 20, 'Secret scans of submitted files'),
+  ('it', 'secret_scan', 100, 100, 'Secret scans of submitted files'),
+  ('developer', 'secret_scan', 200, 200, 'Secret scans of submitted files')
+ON CONFLICT (role, quota_class) DO NOTHING;